@@ -0,0 +1,39 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./IPriceFeed.sol";
+
+/**
+ * @title MockPriceFeed
+ * @dev A price feed with a settable answer for testing
+ */
+contract MockPriceFeed is IPriceFeed {
+    uint8 public override decimals;
+    int256 private _answer;
+    uint256 private _updatedAt;
+    uint80 private _roundId;
+
+    constructor(uint8 decimalsValue, int256 answer) {
+        decimals = decimalsValue;
+        setAnswer(answer);
+    }
+
+    function setAnswer(int256 answer) public {
+        setAnswerAt(answer, block.timestamp);
+    }
+
+    function setAnswerAt(int256 answer, uint256 updatedAt) public {
+        _answer = answer;
+        _updatedAt = updatedAt;
+        _roundId++;
+    }
+
+    function latestRoundData()
+        external
+        view
+        override
+        returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)
+    {
+        return (_roundId, _answer, _updatedAt, _updatedAt, _roundId);
+    }
+}
@@ -1,20 +1,33 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.20;
 
-import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/access/Ownable2Step.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import "@openzeppelin/contracts/utils/Pausable.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "./IPriceFeed.sol";
 
 /**
  * @title RoiTokenSale
- * @dev Contract for a private sale of ROI tokens using USDC on Base network
+ * @dev Contract for a private sale of ROI tokens using USDC on Base network.
+ * Buyers can also pay with other listed stablecoins or native ETH; every amount is valued in USDC.
+ * The owner can pause purchases, and withdrawals can go to a separate treasury after a timelock
+ * that the treasury can veto.
  */
-contract RoiTokenSale is Ownable {
+contract RoiTokenSale is Ownable2Step, Pausable {
     using SafeERC20 for IERC20;
 
     // Token addresses
     address public usdcToken;
     address public roiToken;
+    uint8 public usdcDecimals;
+
+    // Stands for native ETH wherever an asset address is expected
+    address public constant ETH = address(0);
 
     // Sale parameters
     uint256 public roiPerUSDC; // How many ROI tokens per 1 USDC
@@ -22,10 +35,113 @@ contract RoiTokenSale is Ownable {
     uint256 public hardCap;    // Maximum USDC to raise (in wei)
     uint256 public totalRaised; // Total USDC raised (in wei)
 
+    // Sale window
+    uint256 public startTime; // Timestamp when purchases open
+    uint256 public endTime;   // Timestamp when purchases close
+
+    // Per-buyer accounting, used for refunds if the soft cap is missed
+    mapping(address => uint256) public contributions; // USDC contributed (in wei)
+    mapping(address => uint256) public roiPurchased;  // ROI received
+    uint256 public totalRefunded; // Total USDC refunded (in wei)
+
+    // Allowlist: Merkle root of allowed (address, tier) entries (zero means open to everyone)
+    bytes32 public merkleRoot;
+
+    // Per-wallet contribution limits (in wei)
+    uint256 public minContribution; // Minimum total contribution per wallet (0 = none)
+    uint256 public maxContribution; // Maximum total contribution per wallet (0 = none)
+    mapping(uint8 => uint256) public tierMaxContribution; // Per-tier maximum, overrides maxContribution when set
+
+    // Vesting: when enabled, purchased ROI is held here and released after the sale ends
+    bool public vestingEnabled;
+    uint256 public cliffDuration;   // Seconds after endTime before anything vests
+    uint256 public vestingDuration; // Seconds after endTime until everything has vested
+    mapping(address => uint256) public roiClaimed; // Vested ROI already claimed
+    uint256 public totalRoiOwed; // ROI sold but not yet claimed, reserved for buyers
+
+    // Rounds: an optional sequence of consecutive periods inside the sale window, each with its
+    // own price, USDC cap and window. Without rounds the whole sale runs at roiPerUSDC
+    struct Round {
+        uint256 roiPerUSDC; // How many ROI tokens per 1 USDC during the round
+        uint256 cap;        // Maximum USDC raised in the round (in wei)
+        uint256 startTime;  // Timestamp when the round opens
+        uint256 endTime;    // Timestamp when the round closes
+        uint256 raised;     // USDC raised in the round (in wei)
+    }
+    Round[] public rounds;
+    uint256 public currentRoundIndex; // Rounds before this one are closed
+
+    // Payment assets: listed stablecoins are valued 1:1 with USDC, ETH through a Chainlink-style
+    // ETH/USD feed. Caps, rounds and contributions are all counted in USDC
+    struct PaymentToken {
+        bool listed;   // ever listed; delisted tokens stay so they can still be refunded and withdrawn
+        bool accepted; // currently accepted for purchases
+        uint8 decimals;
+    }
+    address[] public paymentTokens;
+    mapping(address => PaymentToken) public paymentTokenInfo;
+    IPriceFeed public ethPriceFeed; // ETH/USD feed, zero when ETH is not accepted
+    uint256 public priceFeedMaxAge; // Oldest feed answer accepted (in seconds)
+    mapping(address => mapping(address => uint256)) public payments; // Amount paid per buyer and asset, for refunds
+
+    // Referrals: a purchase may name a referrer, who earns referralRewardBps of it in ROI or USDC.
+    // Rewards are held here and can be claimed once the sale has ended above the soft cap, ROI rewards
+    // vesting on the buyers' schedule
+    uint256 public constant MAX_REFERRAL_REWARD_BPS = 2000;
+    uint256 public referralRewardBps;  // Reward per referred purchase, in basis points (0 = no rewards)
+    bool public referralRewardInROI;   // Whether rewards are paid in ROI (of the ROI bought) or USDC (of the USDC paid, USDC purchases only)
+    mapping(address => uint256) public referredVolume;      // USDC of purchases referred (in wei)
+    mapping(address => uint256) public referralRewardsUSDC; // Unclaimed USDC rewards (in wei)
+    mapping(address => uint256) public referralRewardsROI;  // Unclaimed ROI rewards
+    mapping(address => uint256) public referralROIClaimed;  // ROI rewards already claimed
+    uint256 public totalReferralUSDCOwed; // USDC rewards not yet claimed, kept out of withdrawals
+    uint256 public totalReferralROIOwed;  // ROI rewards not yet claimed, kept out of withdrawals
+
+    // Withdrawals go to the treasury (the owner when unset). With a withdrawal delay they must be
+    // scheduled and can only be executed once the delay has passed, and treasury changes wait just
+    // as long. The treasury can cancel either meanwhile, so a compromised owner key cannot drain the sale
+    uint256 public constant MAX_WITHDRAWAL_DELAY = 30 days;
+    address public treasury;
+    address public pendingTreasury;  // Treasury waiting for the withdrawal delay to pass
+    uint256 public treasuryReadyAt;  // Timestamp from which pendingTreasury can take over (0 = no change pending)
+    uint256 public withdrawalDelay; // Seconds between scheduling and executing a withdrawal (0 = immediate)
+    struct Withdrawal {
+        address asset;   // USDC, ROI, ETH or a listed stablecoin
+        address to;      // Recipient, fixed when scheduled
+        uint256 amount;
+        uint256 readyAt; // Timestamp from which it can be executed, zero once executed or cancelled
+    }
+    Withdrawal[] public withdrawals;
+
     // Events
     event TokensPurchased(address indexed buyer, uint256 usdcAmount, uint256 roiAmount);
     event USDCWithdrawn(uint256 amount);
     event ROIWithdrawn(uint256 amount);
+    event SaleWindowUpdated(uint256 startTime, uint256 endTime);
+    event SaleExtended(uint256 previousEndTime, uint256 newEndTime);
+    event RefundClaimed(address indexed buyer, uint256 usdcAmount, uint256 roiAmount);
+    event MerkleRootUpdated(bytes32 previousRoot, bytes32 newRoot);
+    event ContributionLimitsUpdated(uint256 minContribution, uint256 maxContribution);
+    event TierCapUpdated(uint8 indexed tier, uint256 maxContribution);
+    event VestingScheduleUpdated(bool enabled, uint256 cliffDuration, uint256 vestingDuration);
+    event TokensClaimed(address indexed buyer, uint256 roiAmount);
+    event RoundAdded(uint256 indexed round, uint256 roiPerUSDC, uint256 cap, uint256 startTime, uint256 endTime);
+    event RoundsCleared();
+    event RoundAdvanced(uint256 indexed previousRound, uint256 indexed newRound);
+    event PaymentTokenUpdated(address indexed token, bool accepted, uint8 decimals);
+    event PriceFeedUpdated(address indexed priceFeed, uint256 maxAge);
+    event PaymentReceived(address indexed buyer, address indexed asset, uint256 amount, uint256 usdcAmount);
+    event PaymentWithdrawn(address indexed asset, uint256 amount);
+    event ReferralRewardUpdated(uint256 rewardBps, bool rewardInROI);
+    event ReferralRecorded(address indexed referrer, address indexed buyer, uint256 usdcAmount, uint256 usdcReward, uint256 roiReward);
+    event ReferralRewardsClaimed(address indexed referrer, uint256 usdcAmount, uint256 roiAmount);
+    event TreasuryUpdated(address indexed previousTreasury, address indexed newTreasury);
+    event TreasuryChangeScheduled(address indexed newTreasury, uint256 readyAt);
+    event TreasuryChangeCancelled(address indexed newTreasury);
+    event WithdrawalDelayUpdated(uint256 previousDelay, uint256 newDelay);
+    event WithdrawalScheduled(uint256 indexed id, address indexed asset, address to, uint256 amount, uint256 readyAt);
+    event WithdrawalExecuted(uint256 indexed id);
+    event WithdrawalCancelled(uint256 indexed id);
 
     /**
      * @dev Constructor
@@ -34,54 +150,668 @@ contract RoiTokenSale is Ownable {
      * @param _roiPerUSDC Rate of ROI tokens per 1 USDC
      * @param _softCap Soft cap for the sale in USDC (in wei)
      * @param _hardCap Hard cap for the sale in USDC (in wei)
+     * @param _startTime Timestamp when the sale opens
+     * @param _endTime Timestamp when the sale closes
      */
     constructor(
         address _usdcToken,
         address _roiToken,
         uint256 _roiPerUSDC,
         uint256 _softCap,
-        uint256 _hardCap
+        uint256 _hardCap,
+        uint256 _startTime,
+        uint256 _endTime
     ) Ownable(msg.sender) {
         require(_usdcToken != address(0), "USDC token address cannot be zero");
         require(_roiToken != address(0), "ROI token address cannot be zero");
         require(_roiPerUSDC > 0, "ROI per USDC must be greater than zero");
         require(_softCap > 0, "Soft cap must be greater than zero");
         require(_hardCap > _softCap, "Hard cap must be greater than soft cap");
+        require(_endTime > _startTime, "End time must be after start time");
 
         usdcToken = _usdcToken;
         roiToken = _roiToken;
+        usdcDecimals = IERC20Metadata(_usdcToken).decimals();
         roiPerUSDC = _roiPerUSDC;
         softCap = _softCap;
         hardCap = _hardCap;
+        startTime = _startTime;
+        endTime = _endTime;
+
+        emit SaleWindowUpdated(_startTime, _endTime);
     }
 
     /**
      * @dev Buy ROI tokens with USDC
      * @param usdcAmount Amount of USDC to spend (in wei)
+     * @param tier Allowlist tier of the caller (0 when the allowlist is off)
+     * @param proof Merkle proof of the caller's allowlist entry (empty when the allowlist is off)
+     * @param referrer Address that referred the caller (zero for none)
+     */
+    function buy(uint256 usdcAmount, uint8 tier, bytes32[] calldata proof, address referrer) external whenNotPaused {
+        _buy(usdcToken, usdcAmount, usdcAmount, tier, proof, referrer);
+    }
+
+    /**
+     * @dev Buy ROI tokens with a listed stablecoin, valued 1:1 with USDC.
+     * The caller must first approve tokenAmountFor(token, usdcAmount) to this contract.
+     * @param token Stablecoin to pay with
+     * @param usdcAmount Amount of USDC the purchase is worth (in wei)
+     * @param tier Allowlist tier of the caller (0 when the allowlist is off)
+     * @param proof Merkle proof of the caller's allowlist entry (empty when the allowlist is off)
+     * @param referrer Address that referred the caller (zero for none)
+     */
+    function buyWithToken(
+        address token,
+        uint256 usdcAmount,
+        uint8 tier,
+        bytes32[] calldata proof,
+        address referrer
+    ) external whenNotPaused {
+        require(paymentTokenInfo[token].accepted, "Payment token not accepted");
+        _buy(token, tokenAmountFor(token, usdcAmount), usdcAmount, tier, proof, referrer);
+    }
+
+    /**
+     * @dev Buy ROI tokens with native ETH at the price feed's current ETH/USD price.
+     * Any ETH sent above ethAmountFor(usdcAmount) is returned.
+     * @param usdcAmount Amount of USDC the purchase is worth (in wei)
+     * @param tier Allowlist tier of the caller (0 when the allowlist is off)
+     * @param proof Merkle proof of the caller's allowlist entry (empty when the allowlist is off)
+     * @param referrer Address that referred the caller (zero for none)
+     */
+    function buyWithETH(
+        uint256 usdcAmount,
+        uint8 tier,
+        bytes32[] calldata proof,
+        address referrer
+    ) external payable whenNotPaused {
+        uint256 ethAmount = ethAmountFor(usdcAmount);
+        require(msg.value >= ethAmount, "Not enough ETH sent");
+
+        _buy(ETH, ethAmount, usdcAmount, tier, proof, referrer);
+
+        // Return the buffer a buyer sends to cover price moves
+        if (msg.value > ethAmount) {
+            _sendETH(msg.sender, msg.value - ethAmount);
+        }
+    }
+
+    /**
+     * @dev Buy ROI tokens with USDC in a single transaction, using an EIP-2612 permit
+     * signature instead of a separate approval
+     * @param usdcAmount Amount of USDC to spend (in wei)
+     * @param tier Allowlist tier of the caller (0 when the allowlist is off)
+     * @param proof Merkle proof of the caller's allowlist entry (empty when the allowlist is off)
+     * @param referrer Address that referred the caller (zero for none)
+     * @param deadline Timestamp after which the permit signature is invalid
+     * @param v Permit signature recovery byte
+     * @param r Permit signature r value
+     * @param s Permit signature s value
      */
-    function buy(uint256 usdcAmount) external {
+    function buyWithPermit(
+        uint256 usdcAmount,
+        uint8 tier,
+        bytes32[] calldata proof,
+        address referrer,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external whenNotPaused {
+        // A front-runner may have already submitted the permit; the allowance check in
+        // the transfer below still protects the buyer, so a failed permit is not fatal
+        try IERC20Permit(usdcToken).permit(msg.sender, address(this), usdcAmount, deadline, v, r, s) {} catch {}
+        _buy(usdcToken, usdcAmount, usdcAmount, tier, proof, referrer);
+    }
+
+    /**
+     * @dev Shared purchase logic for every payment asset
+     * @param asset Asset paid with (usdcToken, a listed stablecoin or ETH)
+     * @param amount Amount of the asset paid
+     * @param usdcAmount Amount of USDC the purchase is worth (in wei)
+     */
+    function _buy(
+        address asset,
+        uint256 amount,
+        uint256 usdcAmount,
+        uint8 tier,
+        bytes32[] calldata proof,
+        address referrer
+    ) internal {
+        require(block.timestamp >= startTime, "Sale has not started");
+        require(block.timestamp < endTime, "Sale has ended");
+        require(isAllowlisted(msg.sender, tier, proof), "Address not allowlisted");
         require(usdcAmount > 0, "Amount must be greater than zero");
         require(totalRaised + usdcAmount <= hardCap, "Purchase exceeds hard cap");
+        require(referrer != msg.sender, "Cannot refer yourself");
+
+        // Check per-wallet limits against the buyer's running total
+        uint256 contributed = contributions[msg.sender] + usdcAmount;
+        require(contributed >= minContribution, "Below minimum contribution");
+        require(contributed <= contributionCap(tier), "Exceeds maximum contribution");
+
+        // Price the purchase at the current round's rate, counting it against the round's cap
+        uint256 rate = roiPerUSDC;
+        if (rounds.length > 0) {
+            Round storage round = rounds[_syncRound()];
+            require(block.timestamp >= round.startTime, "Round has not started");
+            require(round.raised + usdcAmount <= round.cap, "Purchase exceeds round cap");
+            round.raised += usdcAmount;
+            rate = round.roiPerUSDC;
+        }
 
         // Calculate ROI tokens to be received
-        uint256 roiAmount = usdcAmount * roiPerUSDC;
+        uint256 roiAmount = usdcAmount * rate;
 
-        // Check if the contract has enough ROI tokens
-        require(IERC20(roiToken).balanceOf(address(this)) >= roiAmount, "Not enough ROI tokens in contract");
+        // Calculate the referrer's reward, in ROI on top of the purchase or in USDC out of it.
+        // Only USDC purchases can pay a USDC reward; others earn it in ROI so the debt stays backed
+        uint256 usdcReward;
+        uint256 roiReward;
+        if (referrer != address(0) && referralRewardBps > 0) {
+            if (referralRewardInROI || asset != usdcToken) {
+                roiReward = (roiAmount * referralRewardBps) / 10000;
+            } else {
+                usdcReward = (usdcAmount * referralRewardBps) / 10000;
+            }
+        }
 
-        // Transfer USDC from user to contract
-        IERC20(usdcToken).safeTransferFrom(msg.sender, address(this), usdcAmount);
+        // Check if the contract has enough ROI tokens not already reserved for vesting buyers and referrers
+        require(availableROI() >= roiAmount + roiReward, "Not enough ROI tokens in contract");
+
+        // Collect the payment: ETH arrives with the call, tokens are pulled from the buyer
+        if (asset != ETH) {
+            IERC20(asset).safeTransferFrom(msg.sender, address(this), amount);
+        }
+        payments[msg.sender][asset] += amount;
 
-        // Update total raised
+        // Update total raised and the buyer's contribution
         totalRaised += usdcAmount;
+        contributions[msg.sender] += usdcAmount;
+        roiPurchased[msg.sender] += roiAmount;
 
-        // Transfer ROI tokens to user
-        IERC20(roiToken).safeTransfer(msg.sender, roiAmount);
+        // Reserve the ROI for vesting, or transfer it to the user right away
+        if (vestingEnabled) {
+            totalRoiOwed += roiAmount;
+        } else {
+            IERC20(roiToken).safeTransfer(msg.sender, roiAmount);
+        }
+
+        // Attribute the purchase to the referrer and hold their reward until it can be claimed
+        if (referrer != address(0)) {
+            referredVolume[referrer] += usdcAmount;
+            referralRewardsUSDC[referrer] += usdcReward;
+            referralRewardsROI[referrer] += roiReward;
+            totalReferralUSDCOwed += usdcReward;
+            totalReferralROIOwed += roiReward;
+            emit ReferralRecorded(referrer, msg.sender, usdcAmount, usdcReward, roiReward);
+        }
 
         // Emit event
+        if (asset != usdcToken) {
+            emit PaymentReceived(msg.sender, asset, amount, usdcAmount);
+        }
         emit TokensPurchased(msg.sender, usdcAmount, roiAmount);
     }
 
+    /**
+     * @dev Set the reward referrers earn on the purchases they refer (only owner).
+     * Changes apply to later purchases; rewards already earned are kept.
+     * @param rewardBps Reward in basis points of each referred purchase (0 = no rewards)
+     * @param rewardInROI Whether rewards are paid in ROI (a share of the ROI bought) or USDC (a share of the USDC paid).
+     * Purchases paid in ETH or another stablecoin always earn their reward in ROI.
+     */
+    function setReferralReward(uint256 rewardBps, bool rewardInROI) external onlyOwner {
+        require(rewardBps <= MAX_REFERRAL_REWARD_BPS, "Referral reward too high");
+
+        referralRewardBps = rewardBps;
+        referralRewardInROI = rewardInROI;
+
+        emit ReferralRewardUpdated(rewardBps, rewardInROI);
+    }
+
+    /**
+     * @dev Get how much of a referrer's ROI rewards can be claimed right now: all of it once the
+     * sale has ended above the soft cap, or what has vested when vesting is enabled
+     * @param account Referrer address
+     * @return uint256 Claimable ROI rewards
+     */
+    function claimableReferralROI(address account) public view returns (uint256) {
+        if (!isSoftCapReached() || !hasSaleEnded()) {
+            return 0;
+        }
+        if (!vestingEnabled) {
+            return referralRewardsROI[account];
+        }
+        uint256 claimed = referralROIClaimed[account];
+        return _vestedAmount(referralRewardsROI[account] + claimed) - claimed;
+    }
+
+    /**
+     * @dev Claim the caller's referral rewards once the sale has ended above the soft cap.
+     * With vesting, ROI rewards are released on the same schedule as purchases.
+     * Rewards are forfeited if the sale fails, as every purchase is refunded.
+     */
+    function claimReferralRewards() external {
+        require(isSoftCapReached(), "Soft cap not reached");
+        require(hasSaleEnded(), "Sale has not ended");
+        uint256 usdcAmount = referralRewardsUSDC[msg.sender];
+        uint256 roiAmount = claimableReferralROI(msg.sender);
+        require(usdcAmount > 0 || roiAmount > 0, "No referral rewards to claim");
+
+        referralRewardsUSDC[msg.sender] = 0;
+        referralRewardsROI[msg.sender] -= roiAmount;
+        referralROIClaimed[msg.sender] += roiAmount;
+        totalReferralUSDCOwed -= usdcAmount;
+        totalReferralROIOwed -= roiAmount;
+
+        if (usdcAmount > 0) {
+            IERC20(usdcToken).safeTransfer(msg.sender, usdcAmount);
+        }
+        if (roiAmount > 0) {
+            IERC20(roiToken).safeTransfer(msg.sender, roiAmount);
+        }
+
+        emit ReferralRewardsClaimed(msg.sender, usdcAmount, roiAmount);
+    }
+
+    /**
+     * @dev Stop all purchases, e.g. during an incident (only owner).
+     * Refunds, claims and withdrawals keep working.
+     */
+    function pause() external onlyOwner {
+        _pause();
+    }
+
+    /**
+     * @dev Resume purchases (only owner)
+     */
+    function unpause() external onlyOwner {
+        _unpause();
+    }
+
+    /**
+     * @dev Accept or stop accepting a stablecoin as payment (only owner)
+     * @param token Stablecoin address
+     * @param accepted Whether purchases can be paid with the token
+     */
+    function setPaymentToken(address token, bool accepted) external onlyOwner {
+        require(token != address(0) && token != usdcToken && token != roiToken, "Invalid payment token");
+
+        PaymentToken storage info = paymentTokenInfo[token];
+        if (!info.listed) {
+            info.listed = true;
+            info.decimals = IERC20Metadata(token).decimals();
+            paymentTokens.push(token);
+        }
+        info.accepted = accepted;
+
+        emit PaymentTokenUpdated(token, accepted, info.decimals);
+    }
+
+    /**
+     * @dev Get every stablecoin ever listed, including ones no longer accepted
+     * @return address[] Token addresses in the order they were listed
+     */
+    function getPaymentTokens() external view returns (address[] memory) {
+        return paymentTokens;
+    }
+
+    /**
+     * @dev Set the ETH/USD price feed used for ETH purchases (only owner)
+     * @param priceFeed Chainlink-style ETH/USD feed, or zero to stop accepting ETH
+     * @param maxAge Oldest feed answer accepted (in seconds)
+     */
+    function setPriceFeed(address priceFeed, uint256 maxAge) external onlyOwner {
+        require(priceFeed == address(0) || maxAge > 0, "Price feed max age must be greater than zero");
+
+        ethPriceFeed = IPriceFeed(priceFeed);
+        priceFeedMaxAge = maxAge;
+
+        emit PriceFeedUpdated(priceFeed, maxAge);
+    }
+
+    /**
+     * @dev Get the amount of a listed stablecoin a purchase worth usdcAmount costs
+     * @param token Stablecoin address
+     * @param usdcAmount Amount of USDC the purchase is worth (in wei)
+     * @return uint256 Token amount, rounded up for tokens with fewer decimals than USDC
+     */
+    function tokenAmountFor(address token, uint256 usdcAmount) public view returns (uint256) {
+        uint8 decimals = paymentTokenInfo[token].decimals;
+        if (decimals >= usdcDecimals) {
+            return usdcAmount * 10 ** (decimals - usdcDecimals);
+        }
+        return Math.ceilDiv(usdcAmount, 10 ** (usdcDecimals - decimals));
+    }
+
+    /**
+     * @dev Get the ETH a purchase worth usdcAmount costs at the feed's current price
+     * @param usdcAmount Amount of USDC the purchase is worth (in wei)
+     * @return uint256 ETH amount (in wei), rounded up
+     */
+    function ethAmountFor(uint256 usdcAmount) public view returns (uint256) {
+        require(address(ethPriceFeed) != address(0), "ETH payments are not enabled");
+        (, int256 answer, , uint256 updatedAt, ) = ethPriceFeed.latestRoundData();
+        require(answer > 0, "Invalid ETH price");
+        require(block.timestamp - updatedAt <= priceFeedMaxAge, "ETH price is stale");
+
+        // usdcAmount / 10^usdcDecimals USD at answer / 10^feedDecimals USD per ETH
+        return Math.ceilDiv(
+            usdcAmount * 10 ** (18 + ethPriceFeed.decimals()),
+            uint256(answer) * 10 ** usdcDecimals
+        );
+    }
+
+    /**
+     * @dev Set or rotate the allowlist Merkle root (only owner)
+     * @param newRoot New Merkle root, or zero to open the sale to everyone
+     */
+    function setMerkleRoot(bytes32 newRoot) external onlyOwner {
+        emit MerkleRootUpdated(merkleRoot, newRoot);
+        merkleRoot = newRoot;
+    }
+
+    /**
+     * @dev Check if an address is allowed to buy
+     * @param account Address to check
+     * @param tier Allowlist tier of the address
+     * @param proof Merkle proof of the address's allowlist entry
+     * @return bool True if the allowlist is off or the proof is valid
+     */
+    function isAllowlisted(address account, uint8 tier, bytes32[] calldata proof) public view returns (bool) {
+        if (merkleRoot == bytes32(0)) {
+            return true;
+        }
+        // Leaf encoding matches OpenZeppelin's StandardMerkleTree for ["address", "uint8"]
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(account, tier))));
+        return MerkleProof.verifyCalldata(proof, merkleRoot, leaf);
+    }
+
+    /**
+     * @dev Set the per-wallet contribution limits (only owner)
+     * @param _minContribution Minimum total contribution per wallet (0 = none)
+     * @param _maxContribution Maximum total contribution per wallet (0 = none)
+     */
+    function setContributionLimits(uint256 _minContribution, uint256 _maxContribution) external onlyOwner {
+        require(
+            _maxContribution == 0 || _maxContribution >= _minContribution,
+            "Max contribution must not be below min contribution"
+        );
+
+        minContribution = _minContribution;
+        maxContribution = _maxContribution;
+
+        emit ContributionLimitsUpdated(_minContribution, _maxContribution);
+    }
+
+    /**
+     * @dev Set the maximum contribution for an allowlist tier (only owner)
+     * @param tier Allowlist tier
+     * @param cap Maximum total contribution per wallet in the tier (0 = use maxContribution)
+     */
+    function setTierCap(uint8 tier, uint256 cap) external onlyOwner {
+        tierMaxContribution[tier] = cap;
+        emit TierCapUpdated(tier, cap);
+    }
+
+    /**
+     * @dev Get the maximum total contribution for a wallet in a tier. Tiers are only proven
+     * by the allowlist, so with the allowlist off every wallet gets tier 0's cap.
+     * @param tier Allowlist tier
+     * @return uint256 Maximum total contribution (in wei), type(uint256).max if unlimited
+     */
+    function contributionCap(uint8 tier) public view returns (uint256) {
+        if (merkleRoot == bytes32(0)) {
+            tier = 0;
+        }
+        if (tierMaxContribution[tier] > 0) {
+            return tierMaxContribution[tier];
+        }
+        if (maxContribution > 0) {
+            return maxContribution;
+        }
+        return type(uint256).max;
+    }
+
+    /**
+     * @dev Get how much more a wallet can contribute before hitting its cap, the current
+     * round's cap or the hard cap
+     * @param account Wallet address
+     * @param tier Allowlist tier of the wallet
+     * @return uint256 Remaining contribution allowance (in wei)
+     */
+    function remainingContribution(address account, uint8 tier) public view returns (uint256) {
+        uint256 cap = contributionCap(tier);
+        uint256 walletRemaining = contributions[account] >= cap ? 0 : cap - contributions[account];
+        uint256 saleRemaining = remainingToHardCap();
+        if (rounds.length > 0) {
+            uint256 index = currentRound();
+            uint256 roundRemaining = index < rounds.length ? rounds[index].cap - rounds[index].raised : 0;
+            saleRemaining = roundRemaining < saleRemaining ? roundRemaining : saleRemaining;
+        }
+        return walletRemaining < saleRemaining ? walletRemaining : saleRemaining;
+    }
+
+    /**
+     * @dev Append a round to the sale before it has started (only owner).
+     * Rounds run back to back inside the sale window, in the order they are added.
+     * @param _roiPerUSDC Rate of ROI tokens per 1 USDC during the round
+     * @param cap Maximum USDC to raise in the round (in wei)
+     * @param _startTime Timestamp when the round opens, no earlier than the previous round's end
+     * @param _endTime Timestamp when the round closes, no later than the sale's end
+     */
+    function addRound(uint256 _roiPerUSDC, uint256 cap, uint256 _startTime, uint256 _endTime) external onlyOwner {
+        require(block.timestamp < startTime, "Sale has already started");
+        require(_roiPerUSDC > 0, "ROI per USDC must be greater than zero");
+        require(cap > 0, "Round cap must be greater than zero");
+        uint256 previousEnd = rounds.length > 0 ? rounds[rounds.length - 1].endTime : startTime;
+        require(_startTime >= previousEnd, "Round must start after the previous round");
+        require(_endTime > _startTime && _endTime <= endTime, "Round must end within the sale window");
+
+        rounds.push(Round(_roiPerUSDC, cap, _startTime, _endTime, 0));
+
+        emit RoundAdded(rounds.length - 1, _roiPerUSDC, cap, _startTime, _endTime);
+    }
+
+    /**
+     * @dev Remove every round before the sale has started (only owner)
+     */
+    function clearRounds() external onlyOwner {
+        require(block.timestamp < startTime, "Sale has already started");
+        delete rounds;
+        emit RoundsCleared();
+    }
+
+    /**
+     * @dev Close the current round early and open the next one now (only owner)
+     */
+    function advanceRound() external onlyOwner {
+        require(block.timestamp >= startTime, "Sale has not started");
+        uint256 index = _syncRound();
+
+        currentRoundIndex = index + 1;
+        if (currentRoundIndex < rounds.length && rounds[currentRoundIndex].startTime > block.timestamp) {
+            rounds[currentRoundIndex].startTime = block.timestamp;
+        }
+
+        emit RoundAdvanced(index, currentRoundIndex);
+    }
+
+    /**
+     * @dev Get every round, including how much each has raised
+     * @return Round[] The rounds in order
+     */
+    function getRounds() external view returns (Round[] memory) {
+        return rounds;
+    }
+
+    /**
+     * @dev Get the round purchases currently go to: the first round that has neither
+     * ended nor filled its cap (it may not have opened yet)
+     * @return uint256 Round index, rounds.length once every round is over
+     */
+    function currentRound() public view returns (uint256) {
+        uint256 index = currentRoundIndex;
+        while (index < rounds.length && (block.timestamp >= rounds[index].endTime || rounds[index].raised >= rounds[index].cap)) {
+            index++;
+        }
+        return index;
+    }
+
+    /**
+     * @dev Get the rate a purchase would get now
+     * @return uint256 ROI tokens per 1 USDC, 0 once every round is over
+     */
+    function currentRate() public view returns (uint256) {
+        if (rounds.length == 0) {
+            return roiPerUSDC;
+        }
+        uint256 index = currentRound();
+        return index < rounds.length ? rounds[index].roiPerUSDC : 0;
+    }
+
+    /**
+     * @dev Move past rounds that have ended or filled up, so purchases go to the current round
+     * @return uint256 The current round's index
+     */
+    function _syncRound() internal returns (uint256) {
+        uint256 index = currentRound();
+        require(index < rounds.length, "No active round");
+        if (index != currentRoundIndex) {
+            emit RoundAdvanced(currentRoundIndex, index);
+            currentRoundIndex = index;
+        }
+        return index;
+    }
+
+    /**
+     * @dev Configure vesting before the sale has started (only owner).
+     * Vesting starts at endTime: nothing is claimable until the cliff has passed,
+     * then purchases vest linearly until vestingDuration has passed.
+     * @param enabled Whether purchases are vested instead of transferred immediately
+     * @param _cliffDuration Seconds after endTime before anything vests
+     * @param _vestingDuration Seconds after endTime until everything has vested
+     */
+    function setVestingSchedule(bool enabled, uint256 _cliffDuration, uint256 _vestingDuration) external onlyOwner {
+        require(block.timestamp < startTime, "Sale has already started");
+        require(_cliffDuration <= _vestingDuration, "Cliff must not exceed vesting duration");
+
+        vestingEnabled = enabled;
+        cliffDuration = _cliffDuration;
+        vestingDuration = _vestingDuration;
+
+        emit VestingScheduleUpdated(enabled, _cliffDuration, _vestingDuration);
+    }
+
+    /**
+     * @dev Get how much of a buyer's purchased ROI has vested so far
+     * @param account Buyer address
+     * @return uint256 Vested ROI, including any already claimed
+     */
+    function vestedAmount(address account) public view returns (uint256) {
+        return _vestedAmount(roiPurchased[account]);
+    }
+
+    /**
+     * @dev Get how much of `total` has vested so far on the sale's schedule
+     */
+    function _vestedAmount(uint256 total) internal view returns (uint256) {
+        if (!vestingEnabled || block.timestamp < endTime + cliffDuration) {
+            return 0;
+        }
+        uint256 elapsed = block.timestamp - endTime;
+        if (elapsed >= vestingDuration) {
+            return total;
+        }
+        return (total * elapsed) / vestingDuration;
+    }
+
+    /**
+     * @dev Get how much vested ROI a buyer can claim right now
+     * @param account Buyer address
+     * @return uint256 Claimable ROI
+     */
+    function claimableAmount(address account) public view returns (uint256) {
+        if (!isSoftCapReached()) {
+            return 0;
+        }
+        return vestedAmount(account) - roiClaimed[account];
+    }
+
+    /**
+     * @dev Claim the caller's vested ROI once the sale has succeeded
+     */
+    function claim() external {
+        require(vestingEnabled, "Vesting is not enabled");
+        require(isSoftCapReached(), "Soft cap not reached");
+        uint256 roiAmount = claimableAmount(msg.sender);
+        require(roiAmount > 0, "Nothing to claim");
+
+        roiClaimed[msg.sender] += roiAmount;
+        totalRoiOwed -= roiAmount;
+
+        IERC20(roiToken).safeTransfer(msg.sender, roiAmount);
+
+        emit TokensClaimed(msg.sender, roiAmount);
+    }
+
+    /**
+     * @dev Reschedule the sale window before the sale has started (only owner)
+     * @param _startTime New timestamp when the sale opens
+     * @param _endTime New timestamp when the sale closes
+     */
+    function setSaleWindow(uint256 _startTime, uint256 _endTime) external onlyOwner {
+        require(block.timestamp < startTime, "Sale has already started");
+        require(_startTime >= block.timestamp, "Start time must not be in the past");
+        require(_endTime > _startTime, "End time must be after start time");
+        if (rounds.length > 0) {
+            require(
+                _startTime <= rounds[0].startTime && _endTime >= rounds[rounds.length - 1].endTime,
+                "Sale window must cover every round"
+            );
+        }
+
+        startTime = _startTime;
+        endTime = _endTime;
+
+        emit SaleWindowUpdated(_startTime, _endTime);
+    }
+
+    /**
+     * @dev Push back the end of a sale that has not ended yet (only owner).
+     * With rounds, the last round is pushed back too so the extra time sells at its rate.
+     * @param newEndTime New timestamp when the sale closes
+     */
+    function extendSale(uint256 newEndTime) external onlyOwner {
+        require(block.timestamp < endTime, "Sale has ended");
+        require(newEndTime > endTime, "New end time must be after current end time");
+
+        uint256 previousEndTime = endTime;
+        endTime = newEndTime;
+        if (rounds.length > 0) {
+            rounds[rounds.length - 1].endTime = newEndTime;
+        }
+
+        emit SaleExtended(previousEndTime, newEndTime);
+    }
+
+    /**
+     * @dev Check if the sale is currently open for purchases
+     * @return bool True if the current time is within the sale window
+     */
+    function isSaleActive() public view returns (bool) {
+        return block.timestamp >= startTime && block.timestamp < endTime;
+    }
+
+    /**
+     * @dev Check if the sale window has closed
+     * @return bool True if the end time has passed
+     */
+    function hasSaleEnded() public view returns (bool) {
+        return block.timestamp >= endTime;
+    }
+
     /**
      * @dev Check if soft cap has been reached
      * @return bool True if soft cap has been reached
@@ -98,6 +828,66 @@ contract RoiTokenSale is Ownable {
         return totalRaised >= hardCap;
     }
 
+    /**
+     * @dev Check if refunds are open (sale ended without reaching the soft cap)
+     * @return bool True if buyers can claim refunds
+     */
+    function isRefundable() public view returns (bool) {
+        return hasSaleEnded() && !isSoftCapReached();
+    }
+
+    /**
+     * @dev Return the caller's ROI and refund their USDC after a failed sale.
+     * The caller must first approve the ROI they received to this contract,
+     * unless vesting is enabled, in which case their unclaimed allocation is cancelled.
+     */
+    function claimRefund() external {
+        require(isRefundable(), "Refunds are not available");
+        uint256 usdcAmount = contributions[msg.sender];
+        require(usdcAmount > 0, "No contribution to refund");
+        uint256 roiAmount = roiPurchased[msg.sender];
+
+        contributions[msg.sender] = 0;
+        roiPurchased[msg.sender] = 0;
+        totalRefunded += usdcAmount;
+
+        // Release or take back the purchased ROI, then return every asset paid
+        if (vestingEnabled) {
+            totalRoiOwed -= roiAmount;
+        } else {
+            IERC20(roiToken).safeTransferFrom(msg.sender, address(this), roiAmount);
+        }
+        _refundPayment(usdcToken);
+        for (uint256 i = 0; i < paymentTokens.length; i++) {
+            _refundPayment(paymentTokens[i]);
+        }
+        _refundPayment(ETH);
+
+        emit RefundClaimed(msg.sender, usdcAmount, roiAmount);
+    }
+
+    /**
+     * @dev Return what the caller paid in `asset`
+     */
+    function _refundPayment(address asset) internal {
+        uint256 amount = payments[msg.sender][asset];
+        if (amount == 0) {
+            return;
+        }
+        payments[msg.sender][asset] = 0;
+
+        if (asset == ETH) {
+            _sendETH(msg.sender, amount);
+        } else {
+            IERC20(asset).safeTransfer(msg.sender, amount);
+        }
+    }
+
+    function _sendETH(address to, uint256 amount) internal {
+        (bool sent, ) = payable(to).call{value: amount}("");
+        require(sent, "ETH transfer failed");
+    }
+
     /**
      * @dev Get remaining amount to reach hard cap
      * @return uint256 Remaining amount to reach hard cap (in wei)
@@ -110,32 +900,214 @@ contract RoiTokenSale is Ownable {
     }
 
     /**
-     * @dev Withdraw USDC from contract (only owner)
+     * @dev Get the ROI held by the contract that is not reserved for vesting buyers or
+     * referrers (referral rewards are released once the sale has failed)
+     * @return uint256 Unreserved ROI balance
+     */
+    function availableROI() public view returns (uint256) {
+        uint256 balance = IERC20(roiToken).balanceOf(address(this));
+        uint256 reserved = totalRoiOwed + (isRefundable() ? 0 : totalReferralROIOwed);
+        return balance > reserved ? balance - reserved : 0;
+    }
+
+    /**
+     * @dev Only the owner or, once one is set, the treasury
+     */
+    modifier onlyOwnerOrTreasury() {
+        require(
+            msg.sender == owner() || (treasury != address(0) && msg.sender == treasury),
+            "Caller is not the owner or treasury"
+        );
+        _;
+    }
+
+    /**
+     * @dev Set where withdrawals are sent (only owner). Withdrawals already scheduled keep their recipient.
+     * With a withdrawal delay the change is scheduled instead, and takes effect through executeTreasuryChange
+     * once the delay has passed.
+     * @param _treasury Treasury address, or zero to send withdrawals to the owner
+     */
+    function setTreasury(address _treasury) external onlyOwner {
+        if (withdrawalDelay == 0) {
+            _setTreasury(_treasury);
+            return;
+        }
+
+        pendingTreasury = _treasury;
+        treasuryReadyAt = block.timestamp + withdrawalDelay;
+        emit TreasuryChangeScheduled(_treasury, treasuryReadyAt);
+    }
+
+    /**
+     * @dev Apply a scheduled treasury change once the withdrawal delay has passed (only owner)
+     */
+    function executeTreasuryChange() external onlyOwner {
+        require(treasuryReadyAt != 0, "No treasury change pending");
+        require(block.timestamp >= treasuryReadyAt, "Treasury change is still timelocked");
+        _setTreasury(pendingTreasury);
+    }
+
+    /**
+     * @dev Cancel a scheduled treasury change (owner or treasury)
+     */
+    function cancelTreasuryChange() external onlyOwnerOrTreasury {
+        require(treasuryReadyAt != 0, "No treasury change pending");
+        emit TreasuryChangeCancelled(pendingTreasury);
+        pendingTreasury = address(0);
+        treasuryReadyAt = 0;
+    }
+
+    /**
+     * @dev Set how long withdrawals wait between being scheduled and executed (only owner).
+     * Once the sale has started the delay can only be increased, so a compromised key cannot lift it.
+     * @param delay Delay in seconds (0 = withdrawals are immediate)
+     */
+    function setWithdrawalDelay(uint256 delay) external onlyOwner {
+        require(delay <= MAX_WITHDRAWAL_DELAY, "Withdrawal delay too long");
+        require(
+            block.timestamp < startTime || delay >= withdrawalDelay,
+            "Withdrawal delay can only be increased once the sale has started"
+        );
+
+        emit WithdrawalDelayUpdated(withdrawalDelay, delay);
+        withdrawalDelay = delay;
+    }
+
+    /**
+     * @dev Get the address withdrawals are sent to
+     * @return address The treasury, or the owner when no treasury is set
+     */
+    function withdrawalRecipient() public view returns (address) {
+        return treasury != address(0) ? treasury : owner();
+    }
+
+    /**
+     * @dev Withdraw USDC from contract once the soft cap is reached (only owner, no withdrawal delay).
+     * USDC owed to referrers cannot be withdrawn.
      * @param amount Amount of USDC to withdraw (in wei)
      */
     function withdrawUSDC(uint256 amount) external onlyOwner {
-        require(amount > 0, "Amount must be greater than zero");
-        require(IERC20(usdcToken).balanceOf(address(this)) >= amount, "Not enough USDC in contract");
-        
-        // Transfer USDC to owner
-        IERC20(usdcToken).safeTransfer(owner(), amount);
-
-        // Emit event
-        emit USDCWithdrawn(amount);
+        require(withdrawalDelay == 0, "Withdrawals are timelocked");
+        _withdraw(usdcToken, withdrawalRecipient(), amount);
     }
 
     /**
-     * @dev Withdraw unsold ROI tokens from contract (only owner)
+     * @dev Withdraw unsold ROI tokens from contract (only owner, no withdrawal delay).
+     * ROI reserved for vesting buyers cannot be withdrawn.
      * @param amount Amount of ROI tokens to withdraw
      */
     function withdrawROI(uint256 amount) external onlyOwner {
+        require(withdrawalDelay == 0, "Withdrawals are timelocked");
+        _withdraw(roiToken, withdrawalRecipient(), amount);
+    }
+
+    /**
+     * @dev Withdraw ETH or a listed stablecoin once the soft cap is reached (only owner, no withdrawal delay)
+     * @param asset ETH (the zero address) or a stablecoin that has been listed
+     * @param amount Amount to withdraw
+     */
+    function withdrawPayment(address asset, uint256 amount) external onlyOwner {
+        require(withdrawalDelay == 0, "Withdrawals are timelocked");
+        require(asset == ETH || paymentTokenInfo[asset].listed, "Unknown payment asset");
+        _withdraw(asset, withdrawalRecipient(), amount);
+    }
+
+    /**
+     * @dev Schedule a withdrawal to the current recipient, executable once the withdrawal delay has
+     * passed (only owner). Balances and the soft cap are checked when it is executed.
+     * @param asset USDC, ROI, ETH (the zero address) or a stablecoin that has been listed
+     * @param amount Amount to withdraw
+     * @return uint256 The withdrawal's id
+     */
+    function scheduleWithdrawal(address asset, uint256 amount) external onlyOwner returns (uint256) {
+        require(withdrawalDelay > 0, "Withdrawals are not timelocked");
+        require(
+            asset == usdcToken || asset == roiToken || asset == ETH || paymentTokenInfo[asset].listed,
+            "Unknown payment asset"
+        );
         require(amount > 0, "Amount must be greater than zero");
-        require(IERC20(roiToken).balanceOf(address(this)) >= amount, "Not enough ROI tokens in contract");
-        
-        // Transfer ROI tokens to owner
-        IERC20(roiToken).safeTransfer(owner(), amount);
 
-        // Emit event
-        emit ROIWithdrawn(amount);
+        uint256 readyAt = block.timestamp + withdrawalDelay;
+        address to = withdrawalRecipient();
+        withdrawals.push(Withdrawal(asset, to, amount, readyAt));
+
+        emit WithdrawalScheduled(withdrawals.length - 1, asset, to, amount, readyAt);
+        return withdrawals.length - 1;
+    }
+
+    /**
+     * @dev Execute a scheduled withdrawal once its delay has passed (only owner)
+     * @param id Withdrawal id
+     */
+    function executeWithdrawal(uint256 id) external onlyOwner {
+        require(id < withdrawals.length && withdrawals[id].readyAt != 0, "Unknown withdrawal");
+        Withdrawal memory withdrawal = withdrawals[id];
+        require(block.timestamp >= withdrawal.readyAt, "Withdrawal is still timelocked");
+
+        delete withdrawals[id];
+        _withdraw(withdrawal.asset, withdrawal.to, withdrawal.amount);
+
+        emit WithdrawalExecuted(id);
+    }
+
+    /**
+     * @dev Cancel a scheduled withdrawal (owner or treasury)
+     * @param id Withdrawal id
+     */
+    function cancelWithdrawal(uint256 id) external onlyOwnerOrTreasury {
+        require(id < withdrawals.length && withdrawals[id].readyAt != 0, "Unknown withdrawal");
+        delete withdrawals[id];
+        emit WithdrawalCancelled(id);
+    }
+
+    /**
+     * @dev Get every withdrawal ever scheduled; executed and cancelled ones have a zero readyAt
+     * @return Withdrawal[] Withdrawals by id
+     */
+    function getWithdrawals() external view returns (Withdrawal[] memory) {
+        return withdrawals;
+    }
+
+    /**
+     * @dev Replace the treasury, dropping any scheduled change
+     */
+    function _setTreasury(address _treasury) internal {
+        emit TreasuryUpdated(treasury, _treasury);
+        treasury = _treasury;
+        pendingTreasury = address(0);
+        treasuryReadyAt = 0;
+    }
+
+    /**
+     * @dev Send `amount` of `asset` to `to`. USDC and other payments need the soft cap to have been
+     * reached; USDC owed to referrers and ROI reserved for buyers and referrers stay in the contract.
+     */
+    function _withdraw(address asset, address to, uint256 amount) internal {
+        require(amount > 0, "Amount must be greater than zero");
+
+        if (asset == roiToken) {
+            require(availableROI() >= amount, "Not enough ROI tokens in contract");
+            IERC20(roiToken).safeTransfer(to, amount);
+            emit ROIWithdrawn(amount);
+            return;
+        }
+
+        require(isSoftCapReached(), "Soft cap not reached");
+        if (asset == usdcToken) {
+            require(
+                IERC20(usdcToken).balanceOf(address(this)) >= amount + totalReferralUSDCOwed,
+                "Not enough USDC in contract"
+            );
+            IERC20(usdcToken).safeTransfer(to, amount);
+            emit USDCWithdrawn(amount);
+        } else if (asset == ETH) {
+            require(address(this).balance >= amount, "Not enough funds in contract");
+            _sendETH(to, amount);
+            emit PaymentWithdrawn(asset, amount);
+        } else {
+            require(IERC20(asset).balanceOf(address(this)) >= amount, "Not enough funds in contract");
+            IERC20(asset).safeTransfer(to, amount);
+            emit PaymentWithdrawn(asset, amount);
+        }
     }
 }
@@ -1,130 +1,321 @@
 import { useState, useEffect } from 'react';
+import { ethers } from 'ethers';
 import { PrivyProvider, usePrivy } from '@privy-io/react-auth';
 import Button from './components/Button';
 import Input from './components/Input';
 import ProgressBar from './components/ProgressBar';
 import Notification from './components/Notification';
-import { useContract } from './hooks/useContract';
+import AdminPanel from './components/AdminPanel';
+import PurchaseHistory from './components/PurchaseHistory';
+import StatsDashboard from './components/StatsDashboard';
+import Countdown from './components/Countdown';
+import RoundStatus from './components/RoundStatus';
+import RefundPanel from './components/RefundPanel';
+import VestingPanel from './components/VestingPanel';
+import TransactionQueue from './components/TransactionQueue';
+import PurchaseConfirmation from './components/PurchaseConfirmation';
+import NetworkBanner from './components/NetworkBanner';
+import WalletSelector from './components/WalletSelector';
+import AssetSelector from './components/AssetSelector';
+import ReferralPanel from './components/ReferralPanel';
+import { SaleContext, useSale, useSaleConnection } from './hooks/useSale';
+import { useSaleState } from './hooks/useSaleState';
+import { usePaymentAssets } from './hooks/usePaymentAssets';
+import { useTokenBalances } from './hooks/useTokenBalances';
+import { useAllowance } from './hooks/useAllowance';
+import { useContribution } from './hooks/useContribution';
+import { useAdminState } from './hooks/useAdminState';
+import { useSaleHistory } from './hooks/useSaleHistory';
+import { useSaleActions } from './hooks/useSaleActions';
+import { useSaleSubscriptions } from './hooks/useSaleSubscriptions';
 import { useNotification } from './hooks/useNotification';
-import { 
+import { DeploymentContext, useDeploymentManifest } from './hooks/useDeployment';
+import { useTransactionToasts } from './hooks/useTransactionToasts';
+import { useNow } from './hooks/useNow';
+import { useAllowlist } from './hooks/useAllowlist';
+import { useReferral } from './hooks/useReferral';
+import { useContributionLimit } from './hooks/useContributionLimit';
+import {
+  getSalePhase,
   formatUSDC,
   formatROI,
-  parseUSDC,
-  calculateROIFromUSDC,
-  formatNumber,
-} from './utils/formatting';
+  quoteFromUSDC,
+  quoteFromROI,
+  formatRate,
+  getCurrentRate,
+  getCurrentRoundIndex,
+  ETH_PRICE_BUFFER_BPS,
+  assetKey,
+  getPaymentAmount,
+  getErrorMessage,
+} from '@private-sale/sdk';
+import type { PaymentAsset, PurchasePreflight } from '@private-sale/sdk';
+import { toPrivyChain } from './utils/chains';
 import './App.css';
 
 // Get environment variables
 const PRIVY_APP_ID = import.meta.env.VITE_PRIVY_APP_ID;
 
+type View = 'sale' | 'stats';
+
+// Which purchase field the user typed in; the other one is derived from the quote
+type QuoteSource = 'usdc' | 'roi';
+
+// The stats page is public and linkable as #stats
+const getViewFromHash = (): View => (window.location.hash === '#stats' ? 'stats' : 'sale');
+
 const truncateAddress = (address?: string) => {
   if (!address) return '';
   return `${address.slice(0, 6)}...${address.slice(-4)}`;
 };
 
-// Main App component wrapper with Privy provider
+// Main App component wrapper: loads the deployment manifest, then sets up Privy for its chain
 function App() {
+  const { deployment, error } = useDeploymentManifest();
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-900 text-white py-8 px-4">
+        <div className="container mx-auto max-w-xl bg-gray-800 rounded-lg p-6">
+          <p className="font-medium text-red-400">The sale configuration could not be loaded.</p>
+          <p className="text-sm text-gray-400 mt-1">{error}</p>
+        </div>
+      </div>
+    );
+  }
+  if (!deployment) return null;
+
+  // Embedded wallets are created on, and external wallets asked to connect to, the sale's chain
+  const privyChain = toPrivyChain(deployment.network);
+
   return (
-    <PrivyProvider
-      appId={PRIVY_APP_ID}
-      config={{
-        loginMethods: ['wallet', 'email'],
-        appearance: {
-          theme: 'dark',
-          accentColor: '#f97316',
-        },
-        embeddedWallets: {
-          createOnLogin: 'users-without-wallets'
-        },
-      }}
-    >
-      <TokenSale />
-    </PrivyProvider>
+    <DeploymentContext.Provider value={deployment}>
+      <PrivyProvider
+        appId={PRIVY_APP_ID}
+        config={{
+          loginMethods: ['wallet', 'email'],
+          appearance: {
+            theme: 'dark',
+            accentColor: '#f97316',
+          },
+          embeddedWallets: {
+            createOnLogin: 'users-without-wallets'
+          },
+          defaultChain: privyChain,
+          supportedChains: [privyChain],
+        }}
+      >
+        <SaleConnection>
+          <TokenSale />
+        </SaleConnection>
+      </PrivyProvider>
+    </DeploymentContext.Provider>
   );
 }
 
+// Connects to the sale once and shares the connection and its query cache with everything below
+function SaleConnection({ children }: { children: React.ReactNode }) {
+  return <SaleContext.Provider value={useSaleConnection()}>{children}</SaleContext.Provider>;
+}
+
 // Token Sale Component
 function TokenSale() {
   const { login, authenticated, ready, logout, user } = usePrivy();
   const [usdcAmount, setUsdcAmount] = useState<string>('');
-  const [roiAmount, setRoiAmount] = useState<string>('0');
+  const [roiAmount, setRoiAmount] = useState<string>('');
+  const [quoteSource, setQuoteSource] = useState<QuoteSource>('usdc');
   const [isApproving, setIsApproving] = useState<boolean>(false);
   const [isBuying, setIsBuying] = useState<boolean>(false);
+  const [isCheckingPurchase, setIsCheckingPurchase] = useState<boolean>(false);
+  // Simulated purchase awaiting confirmation
+  const [preflight, setPreflight] = useState<PurchasePreflight | null>(null);
+  // Chosen payment asset, USDC until the buyer picks another
+  const [selectedAsset, setSelectedAsset] = useState<string | null>(null);
+  const [view, setView] = useState<View>(getViewFromHash);
   
-  const { 
-    isLoading,
-    balances,
-    contractState,
-    allowance,
+  const {
+    address,
+    chainId,
+    isWrongNetwork,
+    wallets,
+    chooseWallet,
+    isOwner,
+    usdcSupportsPermit,
+    transactions,
+    clearTransactions,
+    locale,
+  } = useSale();
+  const { contractState, isLoading } = useSaleState();
+  const { paymentAssets, ethPrice } = usePaymentAssets();
+  const { balances, paymentBalances } = useTokenBalances();
+  const { roiAllowance, paymentAllowances } = useAllowance();
+  const { contribution, referralRewards, getRemainingContribution } = useContribution();
+  const { saleBalances, salePaymentBalances, adminState } = useAdminState();
+  const { getWithdrawalHistory, getPurchaseHistory, getAllPurchases, getReferralHistory } = useSaleHistory();
+  const {
     refreshData,
-    approveUSDC,
-    buyTokens
-  } = useContract();
+    switchNetwork,
+    approvePayment,
+    preparePurchase,
+    confirmPurchase,
+    approveROI,
+    claimRefund,
+    claimVested,
+    claimReferralRewards,
+    withdrawUSDC,
+    withdrawROI,
+    withdrawPayment,
+    executeWithdrawal,
+    cancelWithdrawal,
+    setPaused,
+    advanceRound
+  } = useSaleActions();
+  useSaleSubscriptions();
+
+  const now = useNow();
+  const salePhase = getSalePhase(contractState, now);
+  const isRefundable = salePhase === 'ended' && !contractState.isSoftCapReached;
+  const allowlist = useAllowlist(address, contractState.merkleRoot);
+  const canBuy = allowlist.status === 'open' || allowlist.status === 'eligible';
+  const { referrer, referralLink } = useReferral(address);
+  const contributionLimit = useContributionLimit(
+    getRemainingContribution,
+    allowlist.tier,
+    contractState,
+    contribution.usdc
+  );
+
+  // Quote from whichever field was typed in, using the current round's rate and token decimals
+  const decimals = { usdc: contractState.usdcDecimals, roi: contractState.roiDecimals };
+  const currentRate = getCurrentRate(contractState, now);
+  const currentRound = getCurrentRoundIndex(contractState, now);
+  const quote = quoteSource === 'usdc'
+    ? quoteFromUSDC(usdcAmount, currentRate, decimals, locale)
+    : quoteFromROI(roiAmount, currentRate, decimals, locale);
+  const parsedUsdcAmount = quote.usdcAmount;
+  const hasAmount = parsedUsdcAmount > BigInt(0);
+  const amountError = contributionLimit.validate(parsedUsdcAmount);
+  const usdcInputValue = quoteSource === 'usdc' || !roiAmount
+    ? usdcAmount
+    : ethers.formatUnits(quote.usdcAmount, decimals.usdc);
+  const roiInputValue = quoteSource === 'roi' || !usdcAmount
+    ? roiAmount
+    : ethers.formatUnits(quote.roiAmount, decimals.roi);
+
+  // What the purchase costs in the chosen asset; null while the ETH price is unavailable
+  const paymentAsset = paymentAssets.find(asset => assetKey(asset) === selectedAsset) ?? paymentAssets[0] ?? null;
+  const paymentAmount = paymentAsset
+    ? getPaymentAmount(paymentAsset, parsedUsdcAmount, decimals.usdc, ethPrice, now)
+    : null;
+  const paymentBalance = paymentAsset ? paymentBalances[assetKey(paymentAsset)] ?? BigInt(0) : BigInt(0);
+  const paymentAllowance = paymentAsset ? paymentAllowances[assetKey(paymentAsset)] ?? BigInt(0) : BigInt(0);
+  // ETH needs no approval, and USDC with permit is approved by a signature when buying
+  const needsApproval = paymentAsset !== null
+    && paymentAsset.kind !== 'eth'
+    && !(paymentAsset.kind === 'usdc' && usdcSupportsPermit);
+  const isApproved = !needsApproval || (paymentAmount !== null && paymentAllowance >= paymentAmount);
 
   const {
     notification,
+    showNotification,
     hideNotification,
     showSuccess,
     showError
   } = useNotification();
 
-  // Update ROI amount when USDC amount changes
+  // Toast each stage of every submitted transaction
+  useTransactionToasts(transactions, showNotification);
+  const walletTransactions = transactions.filter(
+    transaction => address && transaction.from.toLowerCase() === address.toLowerCase()
+  );
+
+  // Follow #stats / #sale navigation
   useEffect(() => {
-    if (usdcAmount) {
-      setRoiAmount(calculateROIFromUSDC(usdcAmount));
-    } else {
-      setRoiAmount('0');
-    }
-  }, [usdcAmount]);
+    const handleHashChange = () => setView(getViewFromHash());
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
 
   // Handle USDC input change
   const handleUsdcAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
     if (value === '' || /^\d*\.?\d*$/.test(value)) {
       setUsdcAmount(value);
+      setRoiAmount('');
+      setQuoteSource('usdc');
+      setPreflight(null);
+    }
+  };
+
+  // Handle ROI input change (reverse quote)
+  const handleRoiAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    if (value === '' || /^\d*\.?\d*$/.test(value)) {
+      setRoiAmount(value);
+      setUsdcAmount('');
+      setQuoteSource('roi');
+      setPreflight(null);
     }
   };
 
+  // Switch the payment asset; a pending confirmation was priced in the previous one
+  const handleAssetChange = (asset: PaymentAsset) => {
+    setSelectedAsset(assetKey(asset));
+    setPreflight(null);
+  };
+
   // Handle approval button click
   const handleApprove = async () => {
-    if (!usdcAmount || parseFloat(usdcAmount) <= 0) {
+    if (!hasAmount || !paymentAsset || paymentAmount === null) {
       showError('Please enter a valid amount');
       return;
     }
 
     try {
       setIsApproving(true);
-      const parsedAmount = parseUSDC(usdcAmount);
-      await approveUSDC(parsedAmount);
-      showSuccess('USDC approved successfully');
+      await approvePayment(paymentAsset, paymentAmount);
       await refreshData();
     } catch (error) {
       console.error('Approval error:', error);
-      showError('Failed to approve USDC');
+      showError(getErrorMessage(error, `Failed to approve ${paymentAsset.symbol}`));
     } finally {
       setIsApproving(false);
     }
   };
 
-  // Handle buy button click
+  // Handle buy button click: simulate the purchase and show a summary to confirm
   const handleBuy = async () => {
-    if (!usdcAmount || parseFloat(usdcAmount) <= 0) {
+    if (!hasAmount || !paymentAsset) {
       showError('Please enter a valid amount');
       return;
     }
 
+    try {
+      setIsCheckingPurchase(true);
+      setPreflight(await preparePurchase(paymentAsset, parsedUsdcAmount, allowlist.tier, allowlist.proof, referrer));
+    } catch (error) {
+      console.error('Pre-flight error:', error);
+      showError(getErrorMessage(error, 'Failed to check the purchase'));
+    } finally {
+      setIsCheckingPurchase(false);
+    }
+  };
+
+  // Send the purchase shown in the confirmation summary
+  const handleConfirmPurchase = async () => {
+    if (!preflight) return;
+
     try {
       setIsBuying(true);
-      const parsedAmount = parseUSDC(usdcAmount);
-      await buyTokens(parsedAmount);
-      showSuccess('ROI tokens purchased successfully');
+      await confirmPurchase(preflight);
       await refreshData();
+      setPreflight(null);
       setUsdcAmount('');
-      setRoiAmount('0');
+      setRoiAmount('');
+      setQuoteSource('usdc');
     } catch (error) {
       console.error('Purchase error:', error);
-      showError('Failed to purchase ROI tokens');
+      showError(getErrorMessage(error, 'Failed to purchase ROI tokens'));
     } finally {
       setIsBuying(false);
     }
@@ -141,7 +332,11 @@ function TokenSale() {
           <div className="flex justify-center gap-4 items-center">
             {authenticated ? (
               <>
-                <p className="text-gray-300">{user?.wallet?.address ? truncateAddress(user.wallet.address) : ''}</p>
+                {wallets.length > 1 ? (
+                  <WalletSelector wallets={wallets} selected={address} onSelect={chooseWallet} />
+                ) : (
+                  <p className="text-gray-300">{truncateAddress(address ?? user?.wallet?.address)}</p>
+                )}
                 <Button onClick={logout} className="!bg-gray-700 hover:!bg-gray-600">
                   Disconnect
                 </Button>
@@ -150,8 +345,58 @@ function TokenSale() {
               <Button onClick={login}>Connect Wallet</Button>
             )}
           </div>
+          <div className="flex justify-center gap-6 mt-4 text-sm">
+            <a
+              href="#sale"
+              className={view === 'sale' ? 'text-orange-400 font-medium' : 'text-gray-400 hover:text-white'}
+            >
+              Buy
+            </a>
+            <a
+              href="#stats"
+              className={view === 'stats' ? 'text-orange-400 font-medium' : 'text-gray-400 hover:text-white'}
+            >
+              Stats
+            </a>
+          </div>
         </div>
 
+        {authenticated && isWrongNetwork && chainId !== null && (
+          <NetworkBanner
+            chainId={chainId}
+            onSwitch={switchNetwork}
+            onError={error => showError(getErrorMessage(error, 'Failed to switch network'))}
+          />
+        )}
+
+        {/* Sale window */}
+        {salePhase !== 'loading' && (
+          <div className="bg-gray-800 rounded-lg p-6 mb-6">
+            {salePhase === 'upcoming' && (
+              <Countdown target={contractState.startTime} now={now} label="Sale opens in" />
+            )}
+            {salePhase === 'active' && (
+              <Countdown target={contractState.endTime} now={now} label="Sale ends in" />
+            )}
+            {salePhase !== 'ended' && contractState.paused && (
+              <p className="text-center text-sm text-red-400 mt-2">Sale paused</p>
+            )}
+            {salePhase === 'ended' && (
+              <div className="text-center">
+                <p className="text-2xl font-bold">Sale ended</p>
+                <p className="text-sm text-gray-400 mt-1">
+                  Closed on {new Date(contractState.endTime * 1000).toLocaleString()}
+                </p>
+                {isRefundable && (
+                  <p className="text-sm text-yellow-400 mt-1">
+                    The soft cap was not reached. Contributors can claim a refund.
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Sale progress */}
         <div className="bg-gray-800 rounded-lg p-6 mb-6">
           <div className="mb-4">
@@ -161,8 +406,15 @@ function TokenSale() {
               total={Number(contractState.hardCap)}
               softCap={Number(contractState.softCap)}
               label={`${formatUSDC(contractState.totalRaised)} / ${formatUSDC(contractState.hardCap)} USDC`}
+              rounds={contractState.rounds.map((round, index) => ({
+                label: `Round ${index + 1}`,
+                current: Number(round.raised),
+                total: Number(round.cap),
+                active: index === currentRound,
+              }))}
             />
           </div>
+          {contractState.rounds.length > 0 && <RoundStatus contractState={contractState} now={now} />}
           <div className="grid grid-cols-2 gap-4 text-sm">
             <div>
               <p className="text-gray-400">Soft Cap</p>
@@ -176,72 +428,256 @@ function TokenSale() {
               <p className="text-gray-400">Total Raised</p>
               <p className="font-medium">{formatUSDC(contractState.totalRaised)} USDC</p>
             </div>
-            <div>
-              <p className="text-gray-400">Your ROI Balance</p>
-              <p className="font-medium">{formatROI(balances.roi)} ROI</p>
-            </div>
+            {contractState.vestingEnabled ? (
+              <div>
+                <p className="text-gray-400">Vesting</p>
+                <p className="font-medium">
+                  {Math.round(contractState.vestingDuration / 86400)} days after the sale
+                </p>
+              </div>
+            ) : (
+              <div>
+                <p className="text-gray-400">Your ROI Balance</p>
+                <p className="font-medium">{formatROI(balances.roi)} ROI</p>
+              </div>
+            )}
           </div>
         </div>
 
-        {/* Purchase form */}
-        <div className="bg-gray-800 rounded-lg p-6">
-          <div className="mb-6">
-            <Input
-              label="USDC Amount"
-              value={usdcAmount}
-              onChange={handleUsdcAmountChange}
-              placeholder="0.00"
-              disabled={!authenticated || isLoading}
-            />
-            <p className="text-sm text-gray-400 mt-2">
-              MetaMask will show: {roiAmount} ROI
-            </p>
-            <p className="text-sm font-medium text-orange-400 mt-1">
-              You will receive: {formatNumber(Number(usdcAmount || '0') * 1250)} ROI after the transaction
-            </p>
-            <p className="text-sm text-gray-400 mt-1">
-              Balance: {formatUSDC(balances.usdc)} USDC
-            </p>
-          </div>
+        {view === 'stats' ? (
+          <StatsDashboard contractState={contractState} getAllPurchases={getAllPurchases} />
+        ) : (
+          <>
+            {/* Refunds after a failed sale */}
+            {authenticated && isRefundable && contribution.usdc > BigInt(0) && (
+              <RefundPanel
+                contribution={contribution}
+                roiAllowance={roiAllowance}
+                roiBalance={balances.roi}
+                vestingEnabled={contractState.vestingEnabled}
+                approveROI={approveROI}
+                claimRefund={claimRefund}
+                refreshData={refreshData}
+                onSuccess={showSuccess}
+                onError={showError}
+              />
+            )}
 
-          <div className="flex gap-4">
-            <Button
-              onClick={handleApprove}
-              disabled={
-                !authenticated || 
-                isLoading || 
-                isApproving || 
-                !usdcAmount ||
-                allowance >= parseUSDC(usdcAmount)
-              }
-              isLoading={isApproving}
-              className="flex-1"
-            >
-              Approve USDC
-            </Button>
+            {/* Vested, claimable and locked ROI replace the wallet balance in vesting mode */}
+            {authenticated && contractState.vestingEnabled && !isRefundable && contribution.roi > BigInt(0) && (
+              <VestingPanel
+                contractState={contractState}
+                contribution={contribution}
+                now={now}
+                claimVested={claimVested}
+                refreshData={refreshData}
+                onSuccess={showSuccess}
+                onError={showError}
+              />
+            )}
+
+            {/* Purchase form */}
+            <div className="bg-gray-800 rounded-lg p-6">
+              {contractState.paused && salePhase !== 'ended' && (
+                <p className="text-sm text-red-400 mb-4">
+                  The sale is paused and purchases are on hold. Please check back later.
+                </p>
+              )}
+              {authenticated && allowlist.status === 'ineligible' && (
+                <p className="text-sm text-yellow-400 mb-4">
+                  This is a private sale and your wallet is not on the allowlist, so it cannot buy ROI.
+                </p>
+              )}
+              {authenticated && allowlist.status === 'unavailable' && (
+                <p className="text-sm text-yellow-400 mb-4">
+                  The allowlist could not be loaded. Please try again later.
+                </p>
+              )}
+              <div className="mb-6">
+                {paymentAssets.length > 1 && paymentAsset && (
+                  <AssetSelector
+                    assets={paymentAssets}
+                    selected={paymentAsset}
+                    balances={paymentBalances}
+                    disabled={!authenticated || isLoading || isBuying}
+                    onSelect={handleAssetChange}
+                  />
+                )}
+                <Input
+                  label={paymentAsset?.kind === 'eth' ? 'Amount (USD)' : `${paymentAsset?.symbol ?? 'USDC'} Amount`}
+                  value={usdcInputValue}
+                  onChange={handleUsdcAmountChange}
+                  placeholder="0.00"
+                  disabled={!authenticated || isLoading}
+                />
+                <div className="mt-4">
+                  <Input
+                    label="ROI Amount"
+                    value={roiInputValue}
+                    onChange={handleRoiAmountChange}
+                    placeholder="0"
+                    disabled={!authenticated || isLoading}
+                  />
+                </div>
+                {currentRate > BigInt(0) && (
+                  <p className="text-sm text-gray-400 mt-2">
+                    Rate: 1 USDC = {formatRate(currentRate, decimals)} ROI
+                  </p>
+                )}
+                <p className="text-sm font-medium text-orange-400 mt-1">
+                  You will receive: {ethers.formatUnits(quote.roiAmount, decimals.roi)} ROI after the transaction
+                </p>
+                {quote.warnings.map(warning => (
+                  <p key={warning} className="text-sm text-yellow-400 mt-1">{warning}</p>
+                ))}
+                {paymentAsset?.kind === 'eth' && (paymentAmount === null ? (
+                  <p className="text-sm text-yellow-400 mt-1">
+                    The ETH price is not available right now. Try again later or pay with a stablecoin.
+                  </p>
+                ) : hasAmount && (
+                  <p className="text-sm text-gray-400 mt-1">
+                    You pay about {ethers.formatEther(paymentAmount)} ETH, plus {Number(ETH_PRICE_BUFFER_BPS) / 100}% to
+                    cover price moves that is returned if unused
+                  </p>
+                ))}
+                <p className="text-sm text-gray-400 mt-1">
+                  Balance: {paymentAsset
+                    ? `${ethers.formatUnits(paymentBalance, paymentAsset.decimals)} ${paymentAsset.symbol}`
+                    : `${formatUSDC(balances.usdc)} USDC`}
+                </p>
+                {authenticated && contributionLimit.remaining !== null && (
+                  <p className="text-sm text-gray-400 mt-1">
+                    You can still contribute {formatUSDC(contributionLimit.remaining)} USDC
+                  </p>
+                )}
+                {amountError && (
+                  <p className="text-sm text-red-400 mt-1">{amountError}</p>
+                )}
+                {referrer !== ethers.ZeroAddress && (
+                  <p className="text-sm text-gray-400 mt-1">Referred by {truncateAddress(referrer)}</p>
+                )}
+              </div>
+
+              <div className="flex gap-4">
+                {/* Tokens without permit need a separate approval transaction */}
+                {needsApproval && (
+                  <Button
+                    onClick={handleApprove}
+                    disabled={
+                      !authenticated || 
+                      isLoading || 
+                      isWrongNetwork ||
+                      salePhase === 'ended' ||
+                      contractState.paused ||
+                      isApproving || 
+                      !hasAmount ||
+                      amountError !== null ||
+                      isApproved
+                    }
+                    isLoading={isApproving}
+                    className="flex-1"
+                  >
+                    Approve {paymentAsset?.symbol}
+                  </Button>
+                )}
               
-            <Button
-              onClick={handleBuy}
-              disabled={
-                !authenticated || 
-                isLoading || 
-                isBuying || 
-                !usdcAmount || 
-                allowance < parseUSDC(usdcAmount) ||
-                parseUSDC(usdcAmount) > contractState.remainingToHardCap
-              }
-              isLoading={isBuying}
-              className="flex-1"
-            >
-              Buy ROI
-            </Button>
-          </div>
-        </div>
+                <Button
+                  onClick={handleBuy}
+                  disabled={
+                    !authenticated || 
+                    isLoading || 
+                    isWrongNetwork ||
+                    salePhase !== 'active' ||
+                    contractState.paused ||
+                    !canBuy ||
+                    isBuying || 
+                    preflight !== null ||
+                    !hasAmount || 
+                    amountError !== null ||
+                    paymentAmount === null ||
+                    !isApproved ||
+                    parsedUsdcAmount > contractState.remainingToHardCap
+                  }
+                  isLoading={isCheckingPurchase}
+                  className="flex-1"
+                >
+                  Buy ROI
+                </Button>
+              </div>
+
+              {preflight && (
+                <PurchaseConfirmation
+                  preflight={preflight}
+                  decimals={decimals}
+                  isSubmitting={isBuying}
+                  onConfirm={handleConfirmPurchase}
+                  onCancel={() => setPreflight(null)}
+                />
+              )}
+            </div>
+
+            {/* Connected wallet's purchase history */}
+            {authenticated && address && (
+              <PurchaseHistory
+                address={address}
+                getPurchaseHistory={getPurchaseHistory}
+                refreshKey={contractState.totalRaised}
+              />
+            )}
+
+            {/* Connected wallet's referral link and rewards */}
+            {authenticated && address && referralLink && (
+              <ReferralPanel
+                address={address}
+                referralLink={referralLink}
+                contractState={contractState}
+                referralRewards={referralRewards}
+                now={now}
+                getReferralHistory={getReferralHistory}
+                claimReferralRewards={claimReferralRewards}
+                refreshData={refreshData}
+                onSuccess={showSuccess}
+                onError={showError}
+              />
+            )}
+
+            {/* Submitted transactions and their status */}
+            {authenticated && (
+              <TransactionQueue transactions={walletTransactions} onClear={clearTransactions} />
+            )}
+
+            {/* Owner-only admin panel */}
+            {authenticated && isOwner && (
+              <AdminPanel
+                saleBalances={saleBalances}
+                isSoftCapReached={contractState.isSoftCapReached}
+                isPaused={contractState.paused}
+                setPaused={setPaused}
+                adminState={adminState}
+                executeWithdrawal={executeWithdrawal}
+                cancelWithdrawal={cancelWithdrawal}
+                now={now}
+                withdrawUSDC={withdrawUSDC}
+                withdrawROI={withdrawROI}
+                paymentAssets={paymentAssets.filter(asset => asset.kind !== 'usdc')}
+                salePaymentBalances={salePaymentBalances}
+                withdrawPayment={withdrawPayment}
+                canAdvanceRound={salePhase === 'active' && currentRound < contractState.rounds.length}
+                advanceRound={advanceRound}
+                getWithdrawalHistory={getWithdrawalHistory}
+                refreshData={refreshData}
+                onSuccess={showSuccess}
+                onError={showError}
+              />
+            )}
+          </>
+        )}
       
         {/* Notification component */}
         <Notification
           type={notification.type}
           message={notification.message}
+          link={notification.link}
           isVisible={notification.isVisible}
           onClose={hideNotification}
         />
@@ -0,0 +1,443 @@
+import { useCallback, useEffect, useState } from 'react';
+import Button from './Button';
+import Input from './Input';
+import { ethers } from 'ethers';
+import {
+  formatUSDC,
+  formatROI,
+  parseUSDC,
+  parseROI,
+  truncateAddress,
+  getErrorMessage,
+  ETH_ASSET,
+  assetKey,
+} from '@private-sale/sdk';
+import type {
+  AdminState,
+  AssetAmounts,
+  TokenBalances,
+  WithdrawalRecord,
+  PaymentAsset,
+} from '@private-sale/sdk';
+import { useDeployment } from '../hooks/useDeployment';
+
+interface AdminPanelProps {
+  saleBalances: TokenBalances;
+  isSoftCapReached: boolean;
+  isPaused: boolean;
+  setPaused: (paused: boolean) => Promise<void>;
+  adminState: AdminState;
+  executeWithdrawal: (id: number) => Promise<void>;
+  cancelWithdrawal: (id: number) => Promise<void>;
+  now: number; // unix seconds
+  withdrawUSDC: (amount: bigint) => Promise<void>;
+  withdrawROI: (amount: bigint) => Promise<void>;
+  paymentAssets: PaymentAsset[]; // accepted assets other than USDC
+  salePaymentBalances: AssetAmounts;
+  withdrawPayment: (asset: PaymentAsset, amount: bigint) => Promise<void>;
+  canAdvanceRound: boolean; // the sale is running and a round is open
+  advanceRound: () => Promise<void>;
+  getWithdrawalHistory: () => Promise<WithdrawalRecord[]>;
+  refreshData: () => Promise<void>;
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+const AMOUNT_PATTERN = /^\d*\.?\d*$/;
+
+const formatDelay = (seconds: number) => (
+  seconds % 86400 === 0 ? `${seconds / 86400} days` : `${(seconds / 3600).toFixed(1)} hours`
+);
+
+const AdminPanel = ({
+  saleBalances,
+  isSoftCapReached,
+  isPaused,
+  setPaused,
+  adminState,
+  executeWithdrawal,
+  cancelWithdrawal,
+  now,
+  withdrawUSDC,
+  withdrawROI,
+  paymentAssets,
+  salePaymentBalances,
+  withdrawPayment,
+  canAdvanceRound,
+  advanceRound,
+  getWithdrawalHistory,
+  refreshData,
+  onSuccess,
+  onError,
+}: AdminPanelProps) => {
+  const [usdcAmount, setUsdcAmount] = useState<string>('');
+  const [roiAmount, setRoiAmount] = useState<string>('');
+  const [isWithdrawingUSDC, setIsWithdrawingUSDC] = useState<boolean>(false);
+  const [isWithdrawingROI, setIsWithdrawingROI] = useState<boolean>(false);
+  const [isAdvancingRound, setIsAdvancingRound] = useState<boolean>(false);
+  const [withdrawingAsset, setWithdrawingAsset] = useState<string | null>(null);
+  const [isTogglingPause, setIsTogglingPause] = useState<boolean>(false);
+  const [settlingWithdrawal, setSettlingWithdrawal] = useState<number | null>(null);
+  const { sale } = useDeployment();
+  const isTimelocked = adminState.withdrawalDelay > 0;
+  // Withdrawals are scheduled rather than sent while a delay is set
+  const withdrawnLabel = isTimelocked ? 'scheduled for withdrawal' : 'withdrawn successfully';
+
+  // Symbol and decimals of a scheduled withdrawal's asset
+  const describeAsset = (asset: string) => {
+    if (asset.toLowerCase() === sale.usdc.toLowerCase()) return { symbol: 'USDC', decimals: 6 };
+    if (asset.toLowerCase() === sale.roi.toLowerCase()) return { symbol: 'ROI', decimals: 18 };
+    return [ETH_ASSET, ...paymentAssets].find(candidate => assetKey(candidate) === asset.toLowerCase())
+      ?? { symbol: truncateAddress(asset), decimals: 18 };
+  };
+
+  const [history, setHistory] = useState<WithdrawalRecord[]>([]);
+  const [isLoadingHistory, setIsLoadingHistory] = useState<boolean>(false);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setIsLoadingHistory(true);
+      setHistory(await getWithdrawalHistory());
+    } catch (error) {
+      console.error('Error loading withdrawal history:', error);
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  }, [getWithdrawalHistory]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  // Withdraw `amount` (or the full balance when `amount` is null)
+  const handleWithdraw = async (token: 'USDC' | 'ROI', amount: string | null) => {
+    const isUSDC = token === 'USDC';
+    const balance = isUSDC ? saleBalances.usdc : saleBalances.roi;
+
+    let value: bigint;
+    try {
+      value = amount === null ? balance : isUSDC ? parseUSDC(amount) : parseROI(amount);
+    } catch {
+      onError('Please enter a valid amount');
+      return;
+    }
+
+    if (value <= BigInt(0)) {
+      onError('Please enter a valid amount');
+      return;
+    }
+    if (value > balance) {
+      onError(`Amount exceeds the contract's ${token} balance`);
+      return;
+    }
+
+    const setIsWithdrawing = isUSDC ? setIsWithdrawingUSDC : setIsWithdrawingROI;
+    try {
+      setIsWithdrawing(true);
+      await (isUSDC ? withdrawUSDC(value) : withdrawROI(value));
+      onSuccess(`${token} ${withdrawnLabel}`);
+      if (isUSDC) {
+        setUsdcAmount('');
+      } else {
+        setRoiAmount('');
+      }
+      await refreshData();
+      await loadHistory();
+    } catch (error) {
+      console.error('Withdrawal error:', error);
+      onError(getErrorMessage(error, `Failed to withdraw ${token}`));
+    } finally {
+      setIsWithdrawing(false);
+    }
+  };
+
+  // Withdraw the sale's whole balance of another payment asset
+  const handleWithdrawPayment = async (asset: PaymentAsset) => {
+    const balance = salePaymentBalances[assetKey(asset)] ?? BigInt(0);
+    try {
+      setWithdrawingAsset(assetKey(asset));
+      await withdrawPayment(asset, balance);
+      onSuccess(`${asset.symbol} ${withdrawnLabel}`);
+      await refreshData();
+      await loadHistory();
+    } catch (error) {
+      console.error('Withdrawal error:', error);
+      onError(getErrorMessage(error, `Failed to withdraw ${asset.symbol}`));
+    } finally {
+      setWithdrawingAsset(null);
+    }
+  };
+
+  const handleTogglePause = async () => {
+    try {
+      setIsTogglingPause(true);
+      await setPaused(!isPaused);
+      onSuccess(isPaused ? 'Purchases resumed' : 'Purchases paused');
+      await refreshData();
+    } catch (error) {
+      console.error('Pause error:', error);
+      onError(getErrorMessage(error, isPaused ? 'Failed to resume the sale' : 'Failed to pause the sale'));
+    } finally {
+      setIsTogglingPause(false);
+    }
+  };
+
+  // Execute or cancel a scheduled withdrawal
+  const handleSettleWithdrawal = async (id: number, execute: boolean) => {
+    try {
+      setSettlingWithdrawal(id);
+      await (execute ? executeWithdrawal(id) : cancelWithdrawal(id));
+      onSuccess(execute ? 'Withdrawal executed' : 'Withdrawal cancelled');
+      await refreshData();
+      await loadHistory();
+    } catch (error) {
+      console.error('Scheduled withdrawal error:', error);
+      onError(getErrorMessage(error, execute ? 'Failed to execute the withdrawal' : 'Failed to cancel the withdrawal'));
+    } finally {
+      setSettlingWithdrawal(null);
+    }
+  };
+
+  const handleAdvanceRound = async () => {
+    try {
+      setIsAdvancingRound(true);
+      await advanceRound();
+      onSuccess('Moved to the next round');
+      await refreshData();
+    } catch (error) {
+      console.error('Advance round error:', error);
+      onError(getErrorMessage(error, 'Failed to advance the round'));
+    } finally {
+      setIsAdvancingRound(false);
+    }
+  };
+
+  const handleAmountChange = (setter: (value: string) => void) =>
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const value = e.target.value;
+      if (value === '' || AMOUNT_PATTERN.test(value)) {
+        setter(value);
+      }
+    };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 mt-6">
+      <h2 className="text-xl font-bold mb-4">Admin</h2>
+
+      <div className="flex justify-between items-center mb-6">
+        <div className="text-sm">
+          <p className="text-gray-400">Purchases</p>
+          <p className={`font-medium ${isPaused ? 'text-red-400' : 'text-green-400'}`}>
+            {isPaused ? 'Paused' : 'Open'}
+          </p>
+        </div>
+        <Button
+          onClick={handleTogglePause}
+          isLoading={isTogglingPause}
+          className={isPaused ? '' : '!bg-red-600 hover:!bg-red-700'}
+        >
+          {isPaused ? 'Resume Sale' : 'Pause Sale'}
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 text-sm mb-6">
+        <div>
+          <p className="text-gray-400">Contract USDC</p>
+          <p className="font-medium">{formatUSDC(saleBalances.usdc)} USDC</p>
+        </div>
+        <div>
+          <p className="text-gray-400">Contract ROI</p>
+          <p className="font-medium">{formatROI(saleBalances.roi)} ROI</p>
+        </div>
+      </div>
+
+      <div className="text-sm text-gray-400 mb-6">
+        <p>
+          Withdrawals go to {adminState.treasury === ethers.ZeroAddress
+            ? 'the owner'
+            : `the treasury ${truncateAddress(adminState.treasury)}`}.
+        </p>
+        {isTimelocked && (
+          <p>
+            Withdrawals are timelocked: they are scheduled first and can be executed {formatDelay(adminState.withdrawalDelay)} later.
+          </p>
+        )}
+        {adminState.treasuryReadyAt !== 0 && (
+          <p className="text-yellow-400">
+            Treasury change to {adminState.pendingTreasury === ethers.ZeroAddress
+              ? 'the owner'
+              : truncateAddress(adminState.pendingTreasury)} can be applied from {new Date(adminState.treasuryReadyAt * 1000).toLocaleString()}.
+          </p>
+        )}
+        {adminState.pendingOwner !== ethers.ZeroAddress && (
+          <p className="text-yellow-400">
+            Ownership transfer to {truncateAddress(adminState.pendingOwner)} is waiting to be accepted.
+          </p>
+        )}
+      </div>
+
+      {canAdvanceRound && (
+        <div className="mb-6">
+          <Button onClick={handleAdvanceRound} isLoading={isAdvancingRound}>
+            Close Round and Open Next
+          </Button>
+        </div>
+      )}
+
+      <div className="mb-4">
+        <Input
+          id="withdraw-usdc"
+          label="Withdraw USDC"
+          value={usdcAmount}
+          onChange={handleAmountChange(setUsdcAmount)}
+          placeholder="0.00"
+          disabled={isWithdrawingUSDC || !isSoftCapReached}
+        />
+        {!isSoftCapReached && (
+          <p className="text-sm text-yellow-400 mb-2">
+            USDC withdrawals are locked until the soft cap is reached.
+          </p>
+        )}
+        <div className="flex gap-4">
+          <Button
+            onClick={() => handleWithdraw('USDC', usdcAmount)}
+            disabled={!usdcAmount || !isSoftCapReached || isWithdrawingROI}
+            isLoading={isWithdrawingUSDC}
+            className="flex-1"
+          >
+            Withdraw
+          </Button>
+          <Button
+            onClick={() => handleWithdraw('USDC', null)}
+            disabled={saleBalances.usdc === BigInt(0) || !isSoftCapReached || isWithdrawingROI}
+            isLoading={isWithdrawingUSDC}
+            className="flex-1 !bg-gray-700 hover:!bg-gray-600"
+          >
+            Withdraw All
+          </Button>
+        </div>
+      </div>
+
+      <div className="mb-6">
+        <Input
+          id="withdraw-roi"
+          label="Withdraw ROI"
+          value={roiAmount}
+          onChange={handleAmountChange(setRoiAmount)}
+          placeholder="0"
+          disabled={isWithdrawingROI}
+        />
+        <div className="flex gap-4">
+          <Button
+            onClick={() => handleWithdraw('ROI', roiAmount)}
+            disabled={!roiAmount || isWithdrawingUSDC}
+            isLoading={isWithdrawingROI}
+            className="flex-1"
+          >
+            Withdraw
+          </Button>
+          <Button
+            onClick={() => handleWithdraw('ROI', null)}
+            disabled={saleBalances.roi === BigInt(0) || isWithdrawingUSDC}
+            isLoading={isWithdrawingROI}
+            className="flex-1 !bg-gray-700 hover:!bg-gray-600"
+          >
+            Withdraw All
+          </Button>
+        </div>
+      </div>
+
+      {paymentAssets.length > 0 && (
+        <div className="mb-6">
+          <p className="text-sm text-gray-400 mb-2">Other Payments</p>
+          <ul className="text-sm divide-y divide-gray-700">
+            {paymentAssets.map(asset => {
+              const balance = salePaymentBalances[assetKey(asset)] ?? BigInt(0);
+              return (
+                <li key={assetKey(asset)} className="flex justify-between items-center py-2">
+                  <span>{ethers.formatUnits(balance, asset.decimals)} {asset.symbol}</span>
+                  <Button
+                    onClick={() => handleWithdrawPayment(asset)}
+                    disabled={balance === BigInt(0) || !isSoftCapReached || withdrawingAsset !== null}
+                    isLoading={withdrawingAsset === assetKey(asset)}
+                    className="!bg-gray-700 hover:!bg-gray-600"
+                  >
+                    Withdraw All
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+          {!isSoftCapReached && (
+            <p className="text-sm text-yellow-400 mt-2">
+              Payment withdrawals are locked until the soft cap is reached.
+            </p>
+          )}
+        </div>
+      )}
+
+      {adminState.withdrawals.length > 0 && (
+        <div className="mb-6">
+          <p className="text-sm text-gray-400 mb-2">Scheduled Withdrawals</p>
+          <ul className="text-sm divide-y divide-gray-700">
+            {adminState.withdrawals.map(withdrawal => {
+              const { symbol, decimals } = describeAsset(withdrawal.asset);
+              const isReady = now >= withdrawal.readyAt;
+              return (
+                <li key={withdrawal.id} className="flex justify-between items-center gap-2 py-2">
+                  <span>{ethers.formatUnits(withdrawal.amount, decimals)} {symbol}</span>
+                  <span className="text-gray-400">
+                    {isReady ? 'Ready' : `Ready ${new Date(withdrawal.readyAt * 1000).toLocaleString()}`}
+                  </span>
+                  <div className="flex gap-2">
+                    <Button
+                      onClick={() => handleSettleWithdrawal(withdrawal.id, true)}
+                      disabled={!isReady || settlingWithdrawal !== null}
+                      isLoading={settlingWithdrawal === withdrawal.id}
+                    >
+                      Execute
+                    </Button>
+                    <Button
+                      onClick={() => handleSettleWithdrawal(withdrawal.id, false)}
+                      disabled={settlingWithdrawal !== null}
+                      className="!bg-gray-700 hover:!bg-gray-600"
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      <div>
+        <p className="text-sm text-gray-400 mb-2">Withdrawal History</p>
+        {isLoadingHistory ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : history.length === 0 ? (
+          <p className="text-sm text-gray-500">No withdrawals yet</p>
+        ) : (
+          <ul className="text-sm divide-y divide-gray-700">
+            {history.map(record => (
+              <li key={`${record.txHash}-${record.asset}`} className="flex justify-between py-2">
+                <span>
+                  {record.token === 'ROI'
+                    ? `${formatROI(record.amount, record.decimals)} ROI`
+                    : `${formatUSDC(record.amount, record.decimals)} ${record.token}`}
+                </span>
+                <span className="text-gray-400">
+                  {new Date(record.timestamp * 1000).toLocaleString()}
+                </span>
+                <span className="text-gray-500">{truncateAddress(record.txHash)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminPanel;
@@ -0,0 +1,41 @@
+import { ethers } from 'ethers';
+import { assetKey } from '@private-sale/sdk';
+import type { PaymentAsset, AssetAmounts } from '@private-sale/sdk';
+
+interface AssetSelectorProps {
+  assets: PaymentAsset[];
+  selected: PaymentAsset;
+  balances: AssetAmounts;
+  disabled?: boolean;
+  onSelect: (asset: PaymentAsset) => void;
+}
+
+// Lets buyers choose what to pay with, showing their balance of each asset
+const AssetSelector = ({ assets, selected, balances, disabled = false, onSelect }: AssetSelectorProps) => {
+  return (
+    <div className="mb-4">
+      <label htmlFor="payment-asset" className="block text-sm font-medium text-gray-300 mb-1">Pay With</label>
+      <select
+        id="payment-asset"
+        value={assetKey(selected)}
+        onChange={e => {
+          const asset = assets.find(candidate => assetKey(candidate) === e.target.value);
+          if (asset) onSelect(asset);
+        }}
+        disabled={disabled}
+        className="w-full bg-gray-700 text-white rounded-lg px-3 py-2"
+      >
+        {assets.map(asset => (
+          <option key={assetKey(asset)} value={assetKey(asset)}>
+            {asset.symbol}
+            {balances[assetKey(asset)] !== undefined
+              ? ` (${ethers.formatUnits(balances[assetKey(asset)], asset.decimals)})`
+              : ''}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default AssetSelector;
@@ -0,0 +1,33 @@
+import { splitDuration } from '@private-sale/sdk';
+
+interface CountdownProps {
+  target: number; // unix seconds
+  now: number;    // unix seconds
+  label: string;
+}
+
+const Countdown = ({ target, now, label }: CountdownProps) => {
+  const { days, hours, minutes, seconds } = splitDuration(target - now);
+  const units = [
+    { value: days, unit: 'Days' },
+    { value: hours, unit: 'Hours' },
+    { value: minutes, unit: 'Min' },
+    { value: seconds, unit: 'Sec' },
+  ];
+
+  return (
+    <div className="text-center">
+      <p className="text-sm text-gray-400 mb-2">{label}</p>
+      <div className="flex justify-center gap-3">
+        {units.map(({ value, unit }) => (
+          <div key={unit} className="bg-gray-900 rounded-lg px-3 py-2 min-w-[4rem]">
+            <p className="text-2xl font-bold">{String(value).padStart(2, '0')}</p>
+            <p className="text-xs text-gray-400">{unit}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default Countdown;
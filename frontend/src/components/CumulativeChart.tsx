@@ -0,0 +1,58 @@
+import { formatUSDC } from '@private-sale/sdk';
+import type { CumulativePoint } from '@private-sale/sdk';
+
+interface CumulativeChartProps {
+  points: CumulativePoint[];
+  hardCap: bigint;
+  softCap: bigint;
+}
+
+const WIDTH = 600;
+const HEIGHT = 240;
+const PADDING = 8;
+
+// Step chart of cumulative USDC raised over time, scaled to the hard cap
+const CumulativeChart = ({ points, hardCap, softCap }: CumulativeChartProps) => {
+  if (points.length === 0) {
+    return <p className="text-sm text-gray-500">No purchases yet</p>;
+  }
+
+  const start = points[0].timestamp;
+  const end = Math.max(points[points.length - 1].timestamp, Math.floor(Date.now() / 1000));
+  const maxTotal = Math.max(Number(hardCap), Number(points[points.length - 1].totalRaised), 1);
+
+  const x = (timestamp: number) =>
+    PADDING + ((timestamp - start) / Math.max(end - start, 1)) * (WIDTH - PADDING * 2);
+  const y = (amount: bigint) =>
+    HEIGHT - PADDING - (Number(amount) / maxTotal) * (HEIGHT - PADDING * 2);
+
+  // Step path: hold each total until the next purchase, then extend to now
+  let path = `M ${x(start)} ${y(BigInt(0))}`;
+  for (const point of points) {
+    path += ` H ${x(point.timestamp)} V ${y(point.totalRaised)}`;
+  }
+  path += ` H ${x(end)}`;
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto bg-gray-900 rounded">
+        <line
+          x1={PADDING}
+          x2={WIDTH - PADDING}
+          y1={y(softCap)}
+          y2={y(softCap)}
+          stroke="#22c55e"
+          strokeDasharray="4 4"
+        />
+        <path d={path} fill="none" stroke="#f97316" strokeWidth={2} />
+      </svg>
+      <div className="flex justify-between text-xs text-gray-400 mt-1">
+        <span>{new Date(start * 1000).toLocaleDateString()}</span>
+        <span className="text-green-500">Soft cap: {formatUSDC(softCap)} USDC</span>
+        <span>{new Date(end * 1000).toLocaleDateString()}</span>
+      </div>
+    </div>
+  );
+};
+
+export default CumulativeChart;
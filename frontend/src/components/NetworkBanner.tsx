@@ -0,0 +1,41 @@
+import { useState } from 'react';
+import Button from './Button';
+import { getChainName } from '../utils/chains';
+import { useDeployment } from '../hooks/useDeployment';
+
+interface NetworkBannerProps {
+  chainId: number;
+  onSwitch: () => Promise<void>;
+  onError: (error: unknown) => void;
+}
+
+// Shown while the wallet is on another chain; purchases stay disabled until it switches
+const NetworkBanner = ({ chainId, onSwitch, onError }: NetworkBannerProps) => {
+  const { network } = useDeployment();
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  const handleSwitch = async () => {
+    try {
+      setIsSwitching(true);
+      await onSwitch();
+    } catch (error) {
+      onError(error);
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  return (
+    <div className="bg-yellow-900/40 border border-yellow-600 rounded-lg p-4 mb-6">
+      <p className="font-medium text-yellow-300">Wrong network</p>
+      <p className="text-sm text-gray-300 mt-1">
+        Your wallet is connected to {getChainName(chainId)}. Switch to {network.name} to buy ROI.
+      </p>
+      <Button onClick={handleSwitch} isLoading={isSwitching} className="mt-3">
+        Switch to {network.name}
+      </Button>
+    </div>
+  );
+};
+
+export default NetworkBanner;
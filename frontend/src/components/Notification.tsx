@@ -2,9 +2,15 @@ import { useEffect, useState } from 'react';
 
 type NotificationType = 'success' | 'error' | 'info' | 'warning';
 
+export interface NotificationLink {
+  href: string;
+  label: string;
+}
+
 interface NotificationProps {
   type: NotificationType;
   message: string;
+  link?: NotificationLink; // e.g. the transaction on the block explorer
   isVisible: boolean;
   onClose: () => void;
   autoClose?: boolean;
@@ -13,12 +19,14 @@ interface NotificationProps {
 const Notification = ({ 
   type, 
   message, 
+  link,
   isVisible, 
   onClose, 
   autoClose = true 
 }: NotificationProps) => {
   const [isClosing, setIsClosing] = useState(false);
 
+  // Restart the timer for each new message so back-to-back toasts each stay visible
   useEffect(() => {
     if (isVisible && autoClose) {
       const timer = setTimeout(() => {
@@ -31,7 +39,7 @@ const Notification = ({
       }, 5000);
       return () => clearTimeout(timer);
     }
-  }, [isVisible, onClose, autoClose]);
+  }, [isVisible, message, onClose, autoClose]);
 
   if (!isVisible) return null;
 
@@ -51,7 +59,19 @@ const Notification = ({
       ${isClosing ? 'opacity-0 transition-opacity duration-300' : 'opacity-100 transition-opacity duration-300'}`}
     >
       <div className="flex justify-between items-center">
-        <div className="font-medium">{message}</div>
+        <div>
+          <div className="font-medium">{message}</div>
+          {link && (
+            <a
+              href={link.href}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-sm underline hover:text-gray-200"
+            >
+              {link.label}
+            </a>
+          )}
+        </div>
         <button 
           onClick={() => {
             setIsClosing(true);
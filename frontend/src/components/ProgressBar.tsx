@@ -1,22 +1,36 @@
+// One round's share of the sale, drawn as a segment under the main bar
+export interface RoundProgress {
+  label: string;
+  current: number;
+  total: number;
+  active: boolean; // the round purchases currently go to
+}
+
 interface ProgressBarProps {
   current: number;
   total: number;
   softCap: number;
   label?: string;
+  rounds?: RoundProgress[];
 }
 
-const ProgressBar = ({ current, total, softCap, label }: ProgressBarProps) => {
+const toPercentage = (current: number, total: number) => (
+  total > 0 ? Math.min(100, Math.max(0, (current / total) * 100)) : 0
+);
+
+const ProgressBar = ({ current, total, softCap, label, rounds = [] }: ProgressBarProps) => {
   // Calculate percentage
   const percentage = (current / total) * 100;
   const isSoftCapReached = current >= softCap;
   const formattedPercentage = Math.min(100, Math.max(0, percentage)).toFixed(2);
+  const roundsTotal = rounds.reduce((sum, round) => sum + round.total, 0);
 
   return (
     <div className="w-full mt-2 mb-4">
       {label && <div className="text-sm text-gray-300 mb-1">{label}</div>}
       <div className="w-full bg-gray-700 rounded-full h-4 mb-1">
-        <div 
-          className={`h-4 rounded-full ${isSoftCapReached ? 'bg-green-500' : 'bg-orange-500'}`} 
+        <div
+          className={`h-4 rounded-full ${isSoftCapReached ? 'bg-green-500' : 'bg-orange-500'}`}
           style={{ width: `${formattedPercentage}%` }}
         ></div>
       </div>
@@ -24,6 +38,24 @@ const ProgressBar = ({ current, total, softCap, label }: ProgressBarProps) => {
         <span>{formattedPercentage}%</span>
         <span>{current} / {total} USDC</span>
       </div>
+      {/* Per-round progress, each segment as wide as its share of all round caps */}
+      {rounds.length > 0 && (
+        <div className="flex gap-1 mt-3">
+          {rounds.map(round => (
+            <div key={round.label} style={{ width: `${toPercentage(round.total, roundsTotal)}%` }}>
+              <div className={`w-full bg-gray-700 rounded-full h-2 ${round.active ? 'ring-1 ring-orange-400' : ''}`}>
+                <div
+                  className={`h-2 rounded-full ${round.active ? 'bg-orange-500' : 'bg-gray-500'}`}
+                  style={{ width: `${toPercentage(round.current, round.total).toFixed(2)}%` }}
+                ></div>
+              </div>
+              <div className={`text-xs mt-1 truncate ${round.active ? 'text-orange-400' : 'text-gray-400'}`}>
+                {round.label} · {toPercentage(round.current, round.total).toFixed(0)}%
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,85 @@
+import { ethers } from 'ethers';
+import Button from './Button';
+import type { PurchasePreflight } from '@private-sale/sdk';
+
+interface PurchaseConfirmationProps {
+  preflight: PurchasePreflight;
+  decimals: { usdc: number; roi: number };
+  isSubmitting: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Summary of a simulated purchase; it can only be sent if the simulation found no problems
+const PurchaseConfirmation = ({
+  preflight,
+  decimals,
+  isSubmitting,
+  onConfirm,
+  onCancel,
+}: PurchaseConfirmationProps) => {
+  const canConfirm = preflight.errors.length === 0;
+
+  return (
+    <div className="bg-gray-900 rounded-lg p-4 mt-6">
+      <h3 className="text-lg font-bold mb-3">Confirm Purchase</h3>
+
+      <div className="grid grid-cols-2 gap-4 text-sm mb-4">
+        <div>
+          <p className="text-gray-400">You Pay</p>
+          <p className="font-medium">
+            {ethers.formatUnits(preflight.paymentAmount, preflight.asset.decimals)} {preflight.asset.symbol}
+          </p>
+          {preflight.asset.kind !== 'usdc' && (
+            <p className="text-xs text-gray-400">Worth {ethers.formatUnits(preflight.usdcAmount, decimals.usdc)} USDC</p>
+          )}
+        </div>
+        <div>
+          <p className="text-gray-400">You Receive</p>
+          <p className="font-medium">{ethers.formatUnits(preflight.roiAmount, decimals.roi)} ROI</p>
+        </div>
+        <div>
+          <p className="text-gray-400">Estimated Gas</p>
+          <p className="font-medium">{preflight.gasLimit !== null ? preflight.gasLimit.toString() : '-'}</p>
+        </div>
+        <div>
+          <p className="text-gray-400">Estimated Fee</p>
+          <p className="font-medium">{preflight.fee !== null ? `${ethers.formatEther(preflight.fee)} ETH` : '-'}</p>
+        </div>
+      </div>
+
+      {preflight.permit && (
+        <p className="text-sm text-gray-400 mb-2">USDC is approved by the signature you just made, in the same transaction.</p>
+      )}
+      {preflight.asset.kind === 'eth' && (
+        <p className="text-sm text-gray-400 mb-2">Any ETH the purchase doesn't use at the current price is returned in the same transaction.</p>
+      )}
+      {preflight.warnings.map(warning => (
+        <p key={warning} className="text-sm text-yellow-400 mb-2">{warning}</p>
+      ))}
+      {preflight.errors.map(error => (
+        <p key={error} className="text-sm text-red-400 mb-2">{error}</p>
+      ))}
+
+      <div className="flex gap-4 mt-4">
+        <Button
+          onClick={onCancel}
+          disabled={isSubmitting}
+          className="flex-1 !bg-gray-700 hover:!bg-gray-600"
+        >
+          Cancel
+        </Button>
+        <Button
+          onClick={onConfirm}
+          disabled={!canConfirm}
+          isLoading={isSubmitting}
+          className="flex-1"
+        >
+          Confirm
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default PurchaseConfirmation;
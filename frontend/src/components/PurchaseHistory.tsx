@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useState } from 'react';
+import Button from './Button';
+import { formatUSDC, formatROI, truncateAddress, explorerTxUrl } from '@private-sale/sdk';
+import type { PurchaseHistoryPage, PurchaseRecord } from '@private-sale/sdk';
+import { useDeployment } from '../hooks/useDeployment';
+
+interface PurchaseHistoryProps {
+  address: string;
+  getPurchaseHistory: (buyer: string, toBlock?: number) => Promise<PurchaseHistoryPage>;
+  refreshKey?: unknown;
+}
+
+const PurchaseHistory = ({ address, getPurchaseHistory, refreshKey }: PurchaseHistoryProps) => {
+  const { network } = useDeployment();
+  const [purchases, setPurchases] = useState<PurchaseRecord[]>([]);
+  const [nextToBlock, setNextToBlock] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the newest page, or the page ending at `toBlock` when loading older entries
+  const loadPage = useCallback(async (toBlock?: number) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const page = await getPurchaseHistory(address, toBlock);
+      setPurchases(prev => (toBlock === undefined ? page.purchases : [...prev, ...page.purchases]));
+      setNextToBlock(page.hasMore ? page.fromBlock - 1 : null);
+    } catch (err) {
+      console.error('Error loading purchase history:', err);
+      setError('Failed to load purchase history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [address, getPurchaseHistory]);
+
+  useEffect(() => {
+    loadPage();
+  }, [loadPage, refreshKey]);
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 mt-6">
+      <h2 className="text-xl font-bold mb-4">My Purchases</h2>
+
+      {error && <p className="text-sm text-red-400 mb-2">{error}</p>}
+
+      {purchases.length === 0 && !isLoading ? (
+        <p className="text-sm text-gray-500 mb-4">No purchases found</p>
+      ) : (
+        <div className="overflow-x-auto mb-4">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-400">
+                <th className="py-2 font-normal">Time</th>
+                <th className="py-2 font-normal">USDC Spent</th>
+                <th className="py-2 font-normal">ROI Received</th>
+                <th className="py-2 font-normal">Transaction</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              {purchases.map(purchase => (
+                <tr key={`${purchase.txHash}-${purchase.blockNumber}`}>
+                  <td className="py-2 text-gray-300">
+                    {new Date(purchase.timestamp * 1000).toLocaleString()}
+                  </td>
+                  <td className="py-2">{formatUSDC(purchase.usdcAmount)}</td>
+                  <td className="py-2">{formatROI(purchase.roiAmount)}</td>
+                  <td className="py-2">
+                    <a
+                      href={explorerTxUrl(network.explorerUrl, purchase.txHash)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-orange-400 hover:underline"
+                    >
+                      {truncateAddress(purchase.txHash)}
+                    </a>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {nextToBlock !== null && (
+        <Button
+          onClick={() => loadPage(nextToBlock)}
+          isLoading={isLoading}
+          className="w-full !bg-gray-700 hover:!bg-gray-600"
+        >
+          Load older
+        </Button>
+      )}
+      {isLoading && nextToBlock === null && (
+        <p className="text-sm text-gray-500">Loading...</p>
+      )}
+    </div>
+  );
+};
+
+export default PurchaseHistory;
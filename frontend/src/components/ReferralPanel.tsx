@@ -0,0 +1,170 @@
+import { useCallback, useEffect, useState } from 'react';
+import Button from './Button';
+import {
+  summarizeReferrals,
+  formatUSDC,
+  formatROI,
+  truncateAddress,
+  explorerTxUrl,
+  getErrorMessage,
+} from '@private-sale/sdk';
+import type { ContractState, ReferralRewards, ReferralRecord } from '@private-sale/sdk';
+import { useDeployment } from '../hooks/useDeployment';
+
+interface ReferralPanelProps {
+  address: string;
+  referralLink: string;
+  contractState: ContractState;
+  referralRewards: ReferralRewards;
+  now: number; // unix seconds
+  getReferralHistory: (referrer: string) => Promise<ReferralRecord[]>;
+  claimReferralRewards: () => Promise<void>;
+  refreshData: () => Promise<void>;
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+// The connected wallet's referral link, the volume it has referred and the rewards it has earned
+const ReferralPanel = ({
+  address,
+  referralLink,
+  contractState,
+  referralRewards,
+  now,
+  getReferralHistory,
+  claimReferralRewards,
+  refreshData,
+  onSuccess,
+  onError,
+}: ReferralPanelProps) => {
+  const { network } = useDeployment();
+  const [records, setRecords] = useState<ReferralRecord[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [isClaiming, setIsClaiming] = useState<boolean>(false);
+
+  const loadRecords = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setRecords(await getReferralHistory(address));
+    } catch (error) {
+      console.error('Error loading referrals:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [address, getReferralHistory]);
+
+  // Reload when the referred volume changes, i.e. after a new referred purchase
+  useEffect(() => {
+    loadRecords();
+  }, [loadRecords, referralRewards.volume]);
+
+  const summary = summarizeReferrals(records);
+  const hasRewards = referralRewards.usdc > BigInt(0) || referralRewards.roi > BigInt(0);
+  const hasClaimable = referralRewards.usdc > BigInt(0) || referralRewards.claimableRoi > BigInt(0);
+  const hasEnded = now >= contractState.endTime;
+  const rewardPercent = Number(contractState.referralRewardBps) / 100;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(referralLink);
+      onSuccess('Referral link copied');
+    } catch (error) {
+      console.error('Copy error:', error);
+      onError('Failed to copy the referral link');
+    }
+  };
+
+  const handleClaim = async () => {
+    try {
+      setIsClaiming(true);
+      await claimReferralRewards();
+      onSuccess('Referral rewards claimed');
+      await refreshData();
+    } catch (error) {
+      console.error('Claim error:', error);
+      onError(getErrorMessage(error, 'Failed to claim referral rewards'));
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 mt-6">
+      <h2 className="text-xl font-bold mb-2">Referrals</h2>
+      <p className="text-sm text-gray-400 mb-4">
+        {rewardPercent > 0
+          ? `Share your link and earn ${rewardPercent}% of every purchase made through it, paid in ${contractState.referralRewardInROI ? 'ROI' : 'USDC (ROI for purchases paid in other assets)'}.`
+          : 'Share your link to have purchases made through it credited to you.'}
+      </p>
+
+      <div className="flex gap-4 mb-6">
+        <input
+          readOnly
+          value={referralLink}
+          onFocus={e => e.target.select()}
+          className="flex-1 min-w-0 bg-gray-700 text-white rounded-lg px-3 py-2 text-sm"
+        />
+        <Button onClick={handleCopy}>Copy</Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 text-sm mb-4">
+        <div>
+          <p className="text-gray-400">Referred Volume</p>
+          <p className="font-medium">{formatUSDC(referralRewards.volume)} USDC</p>
+          <p className="text-xs text-gray-400">
+            {summary.purchases} purchases by {summary.buyers} buyers
+          </p>
+        </div>
+        <div>
+          <p className="text-gray-400">Rewards Earned</p>
+          <p className="font-medium">
+            {formatUSDC(summary.usdcEarned)} USDC · {formatROI(summary.roiEarned)} ROI
+          </p>
+          <p className="text-xs text-gray-400">
+            Unclaimed: {formatUSDC(referralRewards.usdc)} USDC · {formatROI(referralRewards.roi)} ROI
+          </p>
+        </div>
+      </div>
+
+      {hasRewards && (!contractState.isSoftCapReached || !hasEnded) && (
+        <p className="text-sm text-yellow-400 mb-2">
+          Rewards can be claimed once the sale ends above the soft cap, and are forfeited if the sale fails.
+          {contractState.referralRewardInROI && contractState.vestingEnabled && ' ROI rewards vest on the same schedule as purchases.'}
+        </p>
+      )}
+      <Button
+        onClick={handleClaim}
+        disabled={!hasClaimable || !contractState.isSoftCapReached || !hasEnded}
+        isLoading={isClaiming}
+        className="w-full mb-4"
+      >
+        Claim Rewards
+      </Button>
+
+      {isLoading && records.length === 0 ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : records.length === 0 ? (
+        <p className="text-sm text-gray-500">No referred purchases yet</p>
+      ) : (
+        <ul className="text-sm divide-y divide-gray-700">
+          {records.map(record => (
+            <li key={`${record.txHash}-${record.buyer}`} className="flex justify-between py-2">
+              <span className="text-gray-300">{truncateAddress(record.buyer)}</span>
+              <span>{formatUSDC(record.usdcAmount)} USDC</span>
+              <a
+                href={explorerTxUrl(network.explorerUrl, record.txHash)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-orange-400 hover:underline"
+              >
+                {new Date(record.timestamp * 1000).toLocaleDateString()}
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ReferralPanel;
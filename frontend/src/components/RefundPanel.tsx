@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import Button from './Button';
+import { formatUSDC, formatROI, getErrorMessage } from '@private-sale/sdk';
+import type { Contribution } from '@private-sale/sdk';
+
+interface RefundPanelProps {
+  contribution: Contribution;
+  roiAllowance: bigint;
+  roiBalance: bigint;
+  vestingEnabled: boolean; // vested purchases are cancelled instead of returned
+  approveROI: (amount: bigint) => Promise<void>;
+  claimRefund: () => Promise<void>;
+  refreshData: () => Promise<void>;
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+// Shown after a sale that ended below the soft cap: return the ROI, get the USDC back
+const RefundPanel = ({
+  contribution,
+  roiAllowance,
+  roiBalance,
+  vestingEnabled,
+  approveROI,
+  claimRefund,
+  refreshData,
+  onSuccess,
+  onError,
+}: RefundPanelProps) => {
+  const [isApproving, setIsApproving] = useState<boolean>(false);
+  const [isClaiming, setIsClaiming] = useState<boolean>(false);
+
+  // Vested ROI never left the sale, so there is nothing to hand back
+  const needsApproval = !vestingEnabled && roiAllowance < contribution.roi;
+  const hasEnoughROI = vestingEnabled || roiBalance >= contribution.roi;
+
+  const handleApprove = async () => {
+    try {
+      setIsApproving(true);
+      await approveROI(contribution.roi);
+      onSuccess('ROI approved for refund');
+      await refreshData();
+    } catch (error) {
+      console.error('Approval error:', error);
+      onError(getErrorMessage(error, 'Failed to approve ROI'));
+    } finally {
+      setIsApproving(false);
+    }
+  };
+
+  const handleClaim = async () => {
+    try {
+      setIsClaiming(true);
+      await claimRefund();
+      onSuccess(`Refunded ${formatUSDC(contribution.usdc)} USDC`);
+      await refreshData();
+    } catch (error) {
+      console.error('Refund error:', error);
+      onError(getErrorMessage(error, 'Failed to claim refund'));
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 mb-6">
+      <h2 className="text-xl font-bold mb-2">Claim Refund</h2>
+      <p className="text-sm text-gray-400 mb-4">
+        {vestingEnabled
+          ? 'The sale ended without reaching its soft cap. Your ROI allocation will be cancelled and your USDC returned.'
+          : 'The sale ended without reaching its soft cap. Return the ROI you purchased to get your USDC back.'}
+      </p>
+
+      <div className="grid grid-cols-2 gap-4 text-sm mb-4">
+        <div>
+          <p className="text-gray-400">You Contributed</p>
+          <p className="font-medium">{formatUSDC(contribution.usdc)} USDC</p>
+        </div>
+        <div>
+          <p className="text-gray-400">{vestingEnabled ? 'ROI to Cancel' : 'ROI to Return'}</p>
+          <p className="font-medium">{formatROI(contribution.roi)} ROI</p>
+        </div>
+      </div>
+
+      {!hasEnoughROI && (
+        <p className="text-sm text-yellow-400 mb-4">
+          Your wallet holds less ROI than you purchased. Move it back to this wallet to claim the refund.
+        </p>
+      )}
+
+      <div className="flex gap-4">
+        {!vestingEnabled && (
+          <Button
+            onClick={handleApprove}
+            disabled={!needsApproval || !hasEnoughROI || isClaiming}
+            isLoading={isApproving}
+            className="flex-1"
+          >
+            Approve ROI
+          </Button>
+        )}
+        <Button
+          onClick={handleClaim}
+          disabled={needsApproval || !hasEnoughROI || isApproving}
+          isLoading={isClaiming}
+          className="flex-1"
+        >
+          Claim Refund
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default RefundPanel;
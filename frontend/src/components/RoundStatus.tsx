@@ -0,0 +1,57 @@
+import {
+  getCurrentRoundIndex,
+  getNextRound,
+  isBetweenRounds,
+  formatRate,
+  formatUSDC,
+} from '@private-sale/sdk';
+import type { ContractState } from '@private-sale/sdk';
+
+interface RoundStatusProps {
+  contractState: ContractState;
+  now: number; // unix seconds
+}
+
+const formatDate = (timestamp: number) => new Date(timestamp * 1000).toLocaleString();
+
+// The round purchases go to, its price and what is left in it, and the upcoming price
+const RoundStatus = ({ contractState, now }: RoundStatusProps) => {
+  const { rounds } = contractState;
+  const decimals = { usdc: contractState.usdcDecimals, roi: contractState.roiDecimals };
+  const index = getCurrentRoundIndex(contractState, now);
+  const round = rounds[index];
+  const nextRound = getNextRound(contractState, now);
+
+  if (!round) {
+    return <p className="text-sm text-gray-400 mb-4">All {rounds.length} rounds are over.</p>;
+  }
+
+  return (
+    <div className="grid grid-cols-2 gap-4 text-sm mb-4">
+      <div>
+        <p className="text-gray-400">Current Round</p>
+        <p className="font-medium">Round {index + 1} of {rounds.length}</p>
+        <p className="text-xs text-gray-400">
+          {isBetweenRounds(contractState, now)
+            ? `Opens ${formatDate(round.startTime)}`
+            : `Closes ${formatDate(round.endTime)}`}
+        </p>
+      </div>
+      <div>
+        <p className="text-gray-400">Round Price</p>
+        <p className="font-medium">1 USDC = {formatRate(round.roiPerUSDC, decimals)} ROI</p>
+        <p className="text-xs text-gray-400">{formatUSDC(round.cap - round.raised)} USDC left in this round</p>
+      </div>
+      {nextRound && (
+        <div className="col-span-2">
+          <p className="text-gray-400">Upcoming Price</p>
+          <p className="font-medium">
+            1 USDC = {formatRate(nextRound.roiPerUSDC, decimals)} ROI from {formatDate(nextRound.startTime)}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RoundStatus;
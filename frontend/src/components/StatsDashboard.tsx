@@ -0,0 +1,111 @@
+import { useEffect, useMemo, useState } from 'react';
+import CumulativeChart from './CumulativeChart';
+import { computeSaleStats, formatUSDC, formatROI, formatNumber, truncateAddress } from '@private-sale/sdk';
+import type { ContractState, SalePurchase } from '@private-sale/sdk';
+
+interface StatsDashboardProps {
+  contractState: ContractState;
+  getAllPurchases: () => Promise<SalePurchase[]>;
+}
+
+const StatsDashboard = ({ contractState, getAllPurchases }: StatsDashboardProps) => {
+  const [purchases, setPurchases] = useState<SalePurchase[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload whenever the on-chain total changes
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const result = await getAllPurchases();
+        if (!cancelled) setPurchases(result);
+      } catch (err) {
+        console.error('Error loading sale stats:', err);
+        if (!cancelled) setError('Failed to load sale statistics');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [getAllPurchases, contractState.totalRaised]);
+
+  const stats = useMemo(() => computeSaleStats(purchases), [purchases]);
+
+  return (
+    <div>
+      <div className="bg-gray-800 rounded-lg p-6 mb-6">
+        <p className="text-sm text-gray-400 mb-4">Sale Statistics</p>
+        {error && <p className="text-sm text-red-400 mb-2">{error}</p>}
+        <div className="grid grid-cols-2 gap-4 text-sm">
+          <div>
+            <p className="text-gray-400">Contributors</p>
+            <p className="font-medium">{formatNumber(stats.uniqueContributors)}</p>
+          </div>
+          <div>
+            <p className="text-gray-400">Purchases</p>
+            <p className="font-medium">{formatNumber(stats.purchaseCount)}</p>
+          </div>
+          <div>
+            <p className="text-gray-400">Average Ticket</p>
+            <p className="font-medium">{formatUSDC(stats.averageTicket)} USDC</p>
+          </div>
+          <div>
+            <p className="text-gray-400">Median Ticket</p>
+            <p className="font-medium">{formatUSDC(stats.medianTicket)} USDC</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-gray-800 rounded-lg p-6 mb-6">
+        <p className="text-sm text-gray-400 mb-4">Raised Over Time</p>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : (
+          <CumulativeChart
+            points={stats.cumulativeRaised}
+            hardCap={contractState.hardCap}
+            softCap={contractState.softCap}
+          />
+        )}
+      </div>
+
+      <div className="bg-gray-800 rounded-lg p-6">
+        <p className="text-sm text-gray-400 mb-4">Top Contributors</p>
+        {stats.topContributors.length === 0 ? (
+          <p className="text-sm text-gray-500">{isLoading ? 'Loading...' : 'No contributors yet'}</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-400">
+                <th className="py-2 font-normal">#</th>
+                <th className="py-2 font-normal">Address</th>
+                <th className="py-2 font-normal">USDC</th>
+                <th className="py-2 font-normal">ROI</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              {stats.topContributors.map((contributor, i) => (
+                <tr key={contributor.buyer}>
+                  <td className="py-2 text-gray-400">{i + 1}</td>
+                  <td className="py-2">{truncateAddress(contributor.buyer)}</td>
+                  <td className="py-2">{formatUSDC(contributor.usdcAmount)}</td>
+                  <td className="py-2">{formatROI(contributor.roiAmount)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StatsDashboard;
@@ -0,0 +1,78 @@
+import Button from './Button';
+import type { TrackedTransaction, TransactionStatus } from '../utils/transactions';
+import { SAFE_CONFIRMATIONS } from '../utils/transactions';
+import { explorerTxUrl, truncateAddress } from '@private-sale/sdk';
+import { useDeployment } from '../hooks/useDeployment';
+
+interface TransactionQueueProps {
+  transactions: TrackedTransaction[];
+  onClear: () => void;
+}
+
+const STATUS_STYLES: Record<TransactionStatus, string> = {
+  pending: 'text-blue-400',
+  confirmed: 'text-green-400',
+  failed: 'text-red-400',
+  replaced: 'text-gray-400',
+  cancelled: 'text-yellow-400',
+};
+
+const describeStatus = (transaction: TrackedTransaction) => {
+  switch (transaction.status) {
+    case 'pending': return 'Pending';
+    case 'confirmed': return `Confirmed (${Math.min(transaction.confirmations, SAFE_CONFIRMATIONS)}/${SAFE_CONFIRMATIONS})`;
+    case 'failed': return 'Failed';
+    case 'replaced': return 'Replaced';
+    case 'cancelled': return 'Cancelled';
+  }
+};
+
+// The connected wallet's recent transactions, kept across reloads
+const TransactionQueue = ({ transactions, onClear }: TransactionQueueProps) => {
+  const { network } = useDeployment();
+  if (transactions.length === 0) return null;
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 mt-6">
+      <h2 className="text-xl font-bold mb-4">Recent Transactions</h2>
+
+      <ul className="divide-y divide-gray-700 text-sm mb-4">
+        {transactions.map(transaction => (
+          <li key={transaction.hash} className="py-2 flex justify-between items-center gap-4">
+            <div>
+              <p className="font-medium">{transaction.label}</p>
+              <a
+                href={explorerTxUrl(network.explorerUrl, transaction.hash)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-orange-400 hover:underline"
+              >
+                {truncateAddress(transaction.hash)}
+              </a>
+              {transaction.replacedBy && (
+                <span className="text-gray-500">
+                  {' '}by{' '}
+                  <a
+                    href={explorerTxUrl(network.explorerUrl, transaction.replacedBy)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-orange-400 hover:underline"
+                  >
+                    {truncateAddress(transaction.replacedBy)}
+                  </a>
+                </span>
+              )}
+            </div>
+            <p className={STATUS_STYLES[transaction.status]}>{describeStatus(transaction)}</p>
+          </li>
+        ))}
+      </ul>
+
+      <Button onClick={onClear} className="w-full !bg-gray-700 hover:!bg-gray-600">
+        Clear finished
+      </Button>
+    </div>
+  );
+};
+
+export default TransactionQueue;
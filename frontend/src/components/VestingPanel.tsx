@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import Button from './Button';
+import { getVestingBreakdown, formatROI, getErrorMessage } from '@private-sale/sdk';
+import type { ContractState, Contribution } from '@private-sale/sdk';
+
+interface VestingPanelProps {
+  contractState: ContractState;
+  contribution: Contribution;
+  now: number; // unix seconds
+  claimVested: () => Promise<void>;
+  refreshData: () => Promise<void>;
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+const formatDate = (timestamp: number) => new Date(timestamp * 1000).toLocaleString();
+
+// Purchased ROI released on a cliff + linear schedule after the sale ends
+const VestingPanel = ({
+  contractState,
+  contribution,
+  now,
+  claimVested,
+  refreshData,
+  onSuccess,
+  onError,
+}: VestingPanelProps) => {
+  const [isClaiming, setIsClaiming] = useState<boolean>(false);
+
+  const { vested, claimable, locked, cliffEnd, vestingEnd } = getVestingBreakdown(
+    contractState,
+    contribution,
+    now
+  );
+
+  const handleClaim = async () => {
+    try {
+      setIsClaiming(true);
+      await claimVested();
+      onSuccess(`Claimed ${formatROI(claimable)} ROI`);
+      await refreshData();
+    } catch (error) {
+      console.error('Claim error:', error);
+      onError(getErrorMessage(error, 'Failed to claim ROI'));
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 mb-6">
+      <h2 className="text-xl font-bold mb-2">Your ROI</h2>
+      <p className="text-sm text-gray-400 mb-4">
+        You purchased {formatROI(contribution.roi)} ROI. It is released gradually after the sale ends.
+      </p>
+
+      <div className="grid grid-cols-3 gap-4 text-sm">
+        <div>
+          <p className="text-gray-400">Vested</p>
+          <p className="font-medium">{formatROI(vested)} ROI</p>
+        </div>
+        <div>
+          <p className="text-gray-400">Claimable</p>
+          <p className="font-medium">{formatROI(claimable)} ROI</p>
+        </div>
+        <div>
+          <p className="text-gray-400">Locked</p>
+          <p className="font-medium">{formatROI(locked)} ROI</p>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-400 mt-4">
+        {now < cliffEnd
+          ? `Vesting starts ${formatDate(cliffEnd)} and completes ${formatDate(vestingEnd)}.`
+          : `Fully vested on ${formatDate(vestingEnd)}.`}
+      </p>
+
+      <Button
+        onClick={handleClaim}
+        disabled={claimable === BigInt(0)}
+        isLoading={isClaiming}
+        className="w-full mt-4"
+      >
+        Claim ROI
+      </Button>
+    </div>
+  );
+};
+
+export default VestingPanel;
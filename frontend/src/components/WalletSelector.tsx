@@ -0,0 +1,30 @@
+import { getWalletLabel } from '../utils/wallet';
+import type { WalletOption } from '../utils/wallet';
+
+interface WalletSelectorProps {
+  wallets: WalletOption[];
+  selected: string | null;
+  onSelect: (address: string) => void;
+}
+
+const truncateAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+// Lets users with several linked wallets choose which one signs
+const WalletSelector = ({ wallets, selected, onSelect }: WalletSelectorProps) => {
+  return (
+    <select
+      aria-label="Wallet"
+      value={selected ?? ''}
+      onChange={e => onSelect(e.target.value)}
+      className="bg-gray-800 text-gray-300 rounded-lg px-3 py-2"
+    >
+      {wallets.map(wallet => (
+        <option key={wallet.address} value={wallet.address}>
+          {getWalletLabel(wallet)} ({truncateAddress(wallet.address)})
+        </option>
+      ))}
+    </select>
+  );
+};
+
+export default WalletSelector;
@@ -0,0 +1,30 @@
+import { useSale } from './useSale';
+import { useQuery } from './useQuery';
+import { usePaymentAssets } from './usePaymentAssets';
+import { assetKey } from '@private-sale/sdk';
+import type { AccountState } from '@private-sale/sdk';
+
+// Shown without a connected wallet and until its state has been read
+const EMPTY_ACCOUNT: AccountState = {
+  balances: { usdc: BigInt(0), roi: BigInt(0) },
+  allowance: BigInt(0),
+  roiAllowance: BigInt(0),
+  contribution: { usdc: BigInt(0), roi: BigInt(0), claimed: BigInt(0) },
+  referralRewards: { volume: BigInt(0), usdc: BigInt(0), roi: BigInt(0), claimableRoi: BigInt(0) },
+  paymentBalances: {},
+  paymentAllowances: {},
+};
+
+// Everything the connected wallet holds and has put into the sale, read in one batch that
+// useTokenBalances, useAllowance and useContribution share
+export const useAccountState = (): AccountState => {
+  const { cache, client, address } = useSale();
+  const { paymentAssets } = usePaymentAssets();
+  const { data } = useQuery(
+    cache,
+    `account:${address}:${paymentAssets.map(assetKey).join(',')}`,
+    client && address ? () => client.getAccount(address, paymentAssets) : null
+  );
+
+  return data ?? EMPTY_ACCOUNT;
+};
@@ -0,0 +1,33 @@
+import { ethers } from 'ethers';
+import { useSale } from './useSale';
+import { useQuery } from './useQuery';
+import { usePaymentAssets } from './usePaymentAssets';
+import { assetKey } from '@private-sale/sdk';
+import type { SaleHoldings } from '@private-sale/sdk';
+
+// Shown to everyone but the owner and until the sale's holdings have been read
+const EMPTY_HOLDINGS: SaleHoldings = {
+  saleBalances: { usdc: BigInt(0), roi: BigInt(0) },
+  salePaymentBalances: {},
+  adminState: {
+    treasury: ethers.ZeroAddress,
+    withdrawalDelay: 0,
+    pendingOwner: ethers.ZeroAddress,
+    pendingTreasury: ethers.ZeroAddress,
+    treasuryReadyAt: 0,
+    withdrawals: [],
+  },
+};
+
+// What the sale holds of every accepted asset and its safety settings, read for the owner only
+export const useAdminState = (): SaleHoldings => {
+  const { cache, client, isOwner } = useSale();
+  const { paymentAssets } = usePaymentAssets();
+  const { data } = useQuery(
+    cache,
+    `sale:holdings:${paymentAssets.map(assetKey).join(',')}`,
+    client && isOwner ? () => client.getHoldings(paymentAssets) : null
+  );
+
+  return data ?? EMPTY_HOLDINGS;
+};
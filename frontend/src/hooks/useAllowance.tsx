@@ -0,0 +1,8 @@
+import { useAccountState } from './useAccountState';
+
+// What the sale may pull from the connected wallet: USDC and the listed stablecoins for purchases,
+// ROI for a refund
+export const useAllowance = () => {
+  const { allowance, roiAllowance, paymentAllowances } = useAccountState();
+  return { allowance, roiAllowance, paymentAllowances };
+};
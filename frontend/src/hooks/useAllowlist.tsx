@@ -0,0 +1,64 @@
+import { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+
+// Generated by `npm run allowlist` (scripts/allowlist.ts) and served with the frontend
+const ALLOWLIST_URL = import.meta.env.VITE_ALLOWLIST_URL || '/allowlist.json';
+
+export type AllowlistStatus = 'loading' | 'open' | 'eligible' | 'ineligible' | 'unavailable';
+
+interface AllowlistFile {
+  root: string;
+  entries: Record<string, { tier: number; proof: string[] }>;
+}
+
+// Look up the connected wallet's tier and Merkle proof for the on-chain allowlist root
+export const useAllowlist = (address: string | null, merkleRoot: string) => {
+  const [allowlist, setAllowlist] = useState<AllowlistFile | null>(null);
+  const [loadFailed, setLoadFailed] = useState<boolean>(false);
+  const isOpen = merkleRoot === ethers.ZeroHash;
+
+  useEffect(() => {
+    if (isOpen) return;
+
+    let cancelled = false;
+    const loadAllowlist = async () => {
+      try {
+        const response = await fetch(ALLOWLIST_URL);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const file: AllowlistFile = await response.json();
+        if (!cancelled) {
+          setAllowlist(file);
+          setLoadFailed(false);
+        }
+      } catch (error) {
+        console.error('Error loading allowlist:', error);
+        if (!cancelled) setLoadFailed(true);
+      }
+    };
+
+    loadAllowlist();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, merkleRoot]);
+
+  let status: AllowlistStatus;
+  let tier = 0;
+  let proof: string[] = [];
+
+  if (isOpen) {
+    status = 'open';
+  } else if (loadFailed || (allowlist && allowlist.root !== merkleRoot)) {
+    // A file built for a different root would only produce failing proofs
+    status = 'unavailable';
+  } else if (!allowlist || !address) {
+    status = 'loading';
+  } else if (allowlist.entries[address.toLowerCase()]) {
+    status = 'eligible';
+    ({ tier, proof } = allowlist.entries[address.toLowerCase()]);
+  } else {
+    status = 'ineligible';
+  }
+
+  return { status, tier, proof };
+};
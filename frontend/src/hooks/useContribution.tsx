@@ -0,0 +1,17 @@
+import { useCallback } from 'react';
+import { useSale } from './useSale';
+import { useAccountState } from './useAccountState';
+
+// What the connected wallet put into the sale and earned by referring others
+export const useContribution = () => {
+  const { client, address } = useSale();
+  const { contribution, referralRewards } = useAccountState();
+
+  // How much more the connected wallet can contribute in `tier` (wallet cap and hard cap)
+  const getRemainingContribution = useCallback(async (tier: number): Promise<bigint> => {
+    if (!client || !address) return BigInt(0);
+    return client.getRemainingContribution(address, tier);
+  }, [client, address]);
+
+  return { contribution, referralRewards, getRemainingContribution };
+};
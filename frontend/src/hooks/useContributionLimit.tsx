@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react';
+import { formatUSDC } from '@private-sale/sdk';
+import type { ContractState } from '@private-sale/sdk';
+
+// Per-wallet contribution room for the connected wallet, and validation of a purchase amount against it
+export const useContributionLimit = (
+  getRemainingContribution: (tier: number) => Promise<bigint>,
+  tier: number,
+  contractState: ContractState,
+  contributed: bigint
+) => {
+  const [remaining, setRemaining] = useState<bigint | null>(null);
+  const { minContribution, maxContribution, totalRaised } = contractState;
+
+  // Re-read whenever the limits, the sale total or the wallet's own total change
+  useEffect(() => {
+    let cancelled = false;
+
+    getRemainingContribution(tier)
+      .then(value => {
+        if (!cancelled) setRemaining(value);
+      })
+      .catch(error => console.error('Error fetching remaining contribution:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [getRemainingContribution, tier, minContribution, maxContribution, totalRaised, contributed]);
+
+  // Until the wallet's total reaches the minimum, the next purchase must make up the difference
+  const minimumPurchase = contributed >= minContribution ? BigInt(1) : minContribution - contributed;
+
+  const validate = (amount: bigint): string | null => {
+    if (amount <= BigInt(0)) return null;
+    if (amount < minimumPurchase) {
+      return `Minimum purchase is ${formatUSDC(minimumPurchase)} USDC`;
+    }
+    if (remaining !== null && amount > remaining) {
+      return `You can contribute at most ${formatUSDC(remaining)} USDC`;
+    }
+    return null;
+  };
+
+  return { remaining, minimumPurchase, validate };
+};
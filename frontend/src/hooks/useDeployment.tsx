@@ -0,0 +1,49 @@
+import { createContext, useContext, useEffect, useState } from 'react';
+import { parseDeploymentManifest, selectDeployment } from '../utils/deployments';
+import type { Deployment } from '../utils/deployments';
+
+// Written by scripts/deploy.js and served with the frontend, so one build can serve
+// every network the manifest lists
+const DEPLOYMENTS_URL = import.meta.env.VITE_DEPLOYMENTS_URL || '/deployments.json';
+
+export const DeploymentContext = createContext<Deployment | null>(null);
+
+// The network and sale the app was loaded for
+export const useDeployment = (): Deployment => {
+  const deployment = useContext(DeploymentContext);
+  if (!deployment) throw new Error('useDeployment must be used inside a DeploymentContext provider');
+  return deployment;
+};
+
+// Fetch and validate the deployment manifest, then pick the network and sale from the
+// `?chain=` and `?sale=` query parameters (defaulting to the manifest's default network)
+export const useDeploymentManifest = () => {
+  const [deployment, setDeployment] = useState<Deployment | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadManifest = async () => {
+      try {
+        const response = await fetch(DEPLOYMENTS_URL);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const manifest = parseDeploymentManifest(await response.json());
+
+        const params = new URLSearchParams(window.location.search);
+        const chain = params.get('chain');
+        const selected = selectDeployment(manifest, chain ? Number(chain) : null, params.get('sale'));
+        if (!cancelled) setDeployment(selected);
+      } catch (error) {
+        console.error('Error loading deployments:', error);
+        if (!cancelled) setError(error instanceof Error ? error.message : 'Failed to load deployments');
+      }
+    };
+
+    loadManifest();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { deployment, error };
+};
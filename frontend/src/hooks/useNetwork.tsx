@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useState } from 'react';
+import { switchChain } from '../utils/chains';
+import type { ChainConfig } from '../utils/chains';
+import { readWalletState, subscribeWallet } from '../utils/wallet';
+import type { WalletProvider, WalletState } from '../utils/wallet';
+
+// Follow the wallet's chain and account through chainChanged / accountsChanged,
+// without reloading the page, and compare the chain with the one the sale is on
+export const useNetwork = (provider: WalletProvider | null, targetChain: ChainConfig) => {
+  // Tagged with the provider it was read from, so a previous wallet's state is never reported
+  const [state, setState] = useState<(WalletState & { provider: WalletProvider }) | null>(null);
+
+  useEffect(() => {
+    if (!provider) return;
+
+    let cancelled = false;
+    const update = (changes: Partial<WalletState>) => {
+      if (cancelled) return;
+      setState(prev => ({
+        chainId: prev?.provider === provider ? prev.chainId : 0,
+        account: prev?.provider === provider ? prev.account : null,
+        ...changes,
+        provider,
+      }));
+    };
+
+    readWalletState(provider)
+      .then(update)
+      .catch(error => console.error('Error reading wallet network:', error));
+    const unsubscribe = subscribeWallet(provider, update);
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [provider]);
+
+  // Switch the wallet to the sale's chain, adding it to the wallet if needed
+  const switchNetwork = useCallback(async () => {
+    if (!provider) throw new Error('No wallet connected');
+    await switchChain(provider, targetChain);
+  }, [provider, targetChain]);
+
+  const current = provider && state?.provider === provider ? state : null;
+  const chainId = current?.chainId || null;
+
+  return {
+    chainId,
+    account: current?.account ?? null,
+    isWrongNetwork: chainId !== null && chainId !== targetChain.chainId,
+    switchNetwork,
+  };
+};
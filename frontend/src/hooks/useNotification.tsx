@@ -1,10 +1,12 @@
 import { useState, useCallback } from 'react';
+import type { NotificationLink } from '../components/Notification';
 
-type NotificationType = 'success' | 'error' | 'info' | 'warning';
+export type NotificationType = 'success' | 'error' | 'info' | 'warning';
 
 interface NotificationState {
   type: NotificationType;
   message: string;
+  link?: NotificationLink;
   isVisible: boolean;
 }
 
@@ -15,10 +17,11 @@ export const useNotification = () => {
     isVisible: false,
   });
 
-  const showNotification = useCallback((type: NotificationType, message: string) => {
+  const showNotification = useCallback((type: NotificationType, message: string, link?: NotificationLink) => {
     setNotification({
       type,
       message,
+      link,
       isVisible: true,
     });
   }, []);
@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+
+// Current unix time in seconds, updated every `intervalMs`
+export const useNow = (intervalMs = 1000) => {
+  const [now, setNow] = useState<number>(() => Math.floor(Date.now() / 1000));
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Math.floor(Date.now() / 1000)), intervalMs);
+    return () => clearInterval(interval);
+  }, [intervalMs]);
+
+  return now;
+};
@@ -0,0 +1,25 @@
+import { useSale } from './useSale';
+import { useQuery } from './useQuery';
+import type { PaymentAssets } from '@private-sale/sdk';
+
+const NO_ASSETS: PaymentAssets = { assets: [], priceFeed: null };
+
+// The assets the sale accepts (USDC first) and the current ETH price when ETH is one of them
+export const usePaymentAssets = () => {
+  const { cache, client } = useSale();
+  const { data = NO_ASSETS } = useQuery(cache, 'assets', client ? () => client.getPaymentAssets() : null);
+  const { assets, priceFeed } = data;
+
+  // Keyed by feed, so a replaced feed's price is never shown
+  const { data: ethPrice } = useQuery(
+    cache,
+    `sale:ethPrice:${priceFeed?.contract.target}`,
+    client && priceFeed ? () => client.getEthPrice(priceFeed) : null
+  );
+
+  return {
+    paymentAssets: assets,
+    priceFeed,
+    ethPrice: ethPrice ?? null,
+  };
+};
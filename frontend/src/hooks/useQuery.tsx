@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import { DEFAULT_STALE_TIME, EMPTY_QUERY } from '../utils/queryCache';
+import type { Fetcher, QueryCache, QueryState } from '../utils/queryCache';
+
+// Read a query from the shared cache, fetching it when missing or stale. Components using the
+// same key share one request and one result. Nothing is fetched while `fetcher` is null
+// (e.g. before the sale parameters are known or without a connected wallet)
+export const useQuery = <T,>(
+  cache: QueryCache,
+  key: string,
+  fetcher: Fetcher<T> | null,
+  staleTime = DEFAULT_STALE_TIME
+): QueryState<T> => {
+  // The key identifies what is fetched, so a new fetcher for the same key is not a new query
+  const fetcherRef = useRef(fetcher);
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+  });
+  const enabled = fetcher !== null;
+
+  const subscribe = useCallback(
+    (listener: () => void) => (enabled ? cache.subscribe(key, listener) : () => undefined),
+    [cache, key, enabled]
+  );
+  const state = useSyncExternalStore(subscribe, () => (enabled ? cache.get<T>(key) : EMPTY_QUERY));
+
+  useEffect(() => {
+    if (!enabled) return;
+    // Refetches on invalidation use whichever fetcher is current by then
+    const fetchLatest = () => {
+      const latest = fetcherRef.current;
+      return latest ? latest() : Promise.reject(new Error(`${key} is no longer fetched`));
+    };
+    cache.fetch(key, fetchLatest, staleTime).catch(() => undefined);
+  }, [cache, key, enabled, staleTime]);
+
+  return state;
+};
@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+import { resolveReferrer } from '@private-sale/sdk';
+import { buildReferralLink, loadReferrer, parseReferrer, saveReferrer } from '../utils/referrals';
+
+// The referrer credited with the connected wallet's purchases and the wallet's own link to share.
+// A `?ref=` link replaces the remembered referrer, which is kept across visits
+export const useReferral = (address: string | null) => {
+  const [storedReferrer] = useState<string | null>(() => parseReferrer(window.location.search) ?? loadReferrer());
+
+  useEffect(() => {
+    const linked = parseReferrer(window.location.search);
+    if (linked) saveReferrer(linked);
+  }, []);
+
+  const referrer = resolveReferrer(storedReferrer, address);
+
+  return {
+    referrer, // zero address when no one is credited
+    referralLink: address ? buildReferralLink(window.location.href, address) : null,
+  };
+};
@@ -0,0 +1,164 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { ethers } from 'ethers';
+import { usePrivy } from '@privy-io/react-auth';
+import { useDeployment } from './useDeployment';
+import { useWallet } from './useWallet';
+import { useNetwork } from './useNetwork';
+import { useTransactions } from './useTransactions';
+import { useQuery } from './useQuery';
+import { getWalletSigner } from '../utils/wallet';
+import { createQueryCache } from '../utils/queryCache';
+import type { QueryCache } from '../utils/queryCache';
+import {
+  SaleClient,
+  resolveLocale,
+  HISTORY_PAGE_BLOCKS,
+  LOG_BLOCK_RANGE as DEFAULT_LOG_BLOCK_RANGE,
+} from '@private-sale/sdk';
+import type { Locale } from '@private-sale/sdk';
+import type { SaleDeployment } from '../utils/deployments';
+
+// Everything the sale hooks share: the read-only and wallet connections, the query cache and
+// the transaction queue
+export interface SaleConnection {
+  sale: SaleDeployment;
+  cache: QueryCache;
+  // Read-only client used for state reads, subscriptions and event queries, regardless of
+  // wallet connection
+  client: SaleClient | null;
+  provider: ethers.Provider | null;
+  // The same client sending through the selected wallet, null without one
+  signerClient: SaleClient | null;
+  // Language for decoded error messages
+  locale: Locale;
+  address: string | null;
+  authenticated: boolean;
+  isOwner: boolean;
+  // Whether USDC supports EIP-2612, allowing approve + buy in a single transaction
+  usdcSupportsPermit: boolean;
+  // Refetch everything that can change, resolving once it has been read
+  refreshData: () => Promise<void>;
+  wallets: ReturnType<typeof useWallet>['wallets'];
+  chooseWallet: (address: string) => void;
+  chainId: number | null;
+  isWrongNetwork: boolean;
+  switchNetwork: () => Promise<void>;
+  transactions: ReturnType<typeof useTransactions>['transactions'];
+  trackTransaction: ReturnType<typeof useTransactions>['trackTransaction'];
+  clearTransactions: () => void;
+}
+
+// Used until the read-only provider is up, while every query is disabled
+const IDLE_CACHE = createQueryCache();
+
+const LOCALE = resolveLocale(navigator.language);
+// Max block span per eth_getLogs call and per page of purchase history
+const LOG_BLOCK_RANGE = Number(import.meta.env.VITE_LOG_BLOCK_RANGE || DEFAULT_LOG_BLOCK_RANGE);
+const PAGE_BLOCKS = Number(import.meta.env.VITE_HISTORY_PAGE_BLOCKS || HISTORY_PAGE_BLOCKS);
+
+export const SaleContext = createContext<SaleConnection | null>(null);
+
+// The connection provided by the nearest SaleContext provider
+export const useSale = (): SaleConnection => {
+  const connection = useContext(SaleContext);
+  if (!connection) throw new Error('useSale must be used inside a SaleContext provider');
+  return connection;
+};
+
+// Connect to the deployment's sale, read-only and through the selected Privy wallet
+// (embedded or external). Rendered once, by the SaleContext provider
+export const useSaleConnection = (): SaleConnection => {
+  const { authenticated, ready } = usePrivy();
+  const { network, sale } = useDeployment();
+  const { wallets, wallet, provider: walletProvider, chooseWallet } = useWallet();
+  const { chainId, account, isWrongNetwork, switchNetwork } = useNetwork(authenticated ? walletProvider : null, network);
+  // The read-only client and the cache of what was read through it, replaced together
+  const [reader, setReader] = useState<{ client: SaleClient; cache: QueryCache } | null>(null);
+  const [signer, setSigner] = useState<ethers.JsonRpcSigner | null>(null);
+  const client = reader?.client ?? null;
+  const provider = client?.provider ?? null;
+  const cache = reader?.cache ?? IDLE_CACHE;
+  const { transactions, trackTransaction, clearTransactions } = useTransactions(provider, sale.address);
+
+  useEffect(() => {
+    const readProvider = network.wsUrl
+      ? new ethers.WebSocketProvider(network.wsUrl)
+      : new ethers.JsonRpcProvider(network.rpcUrl);
+    const readClient = new SaleClient(sale, readProvider, {
+      locale: LOCALE,
+      logBlockRange: LOG_BLOCK_RANGE,
+      historyPageBlocks: PAGE_BLOCKS,
+    });
+    setReader({ client: readClient, cache: createQueryCache() });
+
+    // Stop the previous provider's polling / socket when the network or sale changes
+    return () => {
+      readProvider.destroy();
+    };
+  }, [network, sale]);
+
+  // The signer is rebuilt whenever the wallet, chain or account changes
+  useEffect(() => {
+    if (!ready || !authenticated || !wallet || !walletProvider) {
+      setSigner(null);
+      return;
+    }
+
+    let cancelled = false;
+    getWalletSigner(walletProvider, wallet.address)
+      .then(walletSigner => {
+        if (!cancelled) setSigner(walletSigner);
+      })
+      .catch(error => console.error('Error getting wallet signer:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ready, authenticated, wallet, walletProvider, chainId, account]);
+
+  const signerClient = useMemo(() => (client && signer ? client.withSigner(signer) : null), [client, signer]);
+  const address = signer?.address ?? null;
+
+  // Permit support never changes, so it is read once
+  const { data: usdcSupportsPermit } = useQuery(
+    cache,
+    'params:permit',
+    client ? () => client.supportsPermit() : null,
+    Infinity
+  );
+  // The owner can hand the sale over, so this is refreshed with the rest of the state
+  const { data: owner } = useQuery(cache, 'sale:owner', client ? () => client.getOwner() : null);
+  const isOwner = !!address && !!owner && owner.toLowerCase() === address.toLowerCase();
+
+  // The payment assets are refreshed by their own events (see useSaleSubscriptions)
+  const refreshData = useCallback(
+    () => cache.invalidate(key => !key.startsWith('params:') && key !== 'assets'),
+    [cache]
+  );
+
+  return useMemo(() => ({
+    sale,
+    cache,
+    client,
+    provider,
+    signerClient,
+    locale: LOCALE,
+    address,
+    authenticated,
+    isOwner,
+    usdcSupportsPermit: usdcSupportsPermit ?? false,
+    refreshData,
+    wallets,
+    chooseWallet,
+    chainId,
+    isWrongNetwork,
+    switchNetwork,
+    transactions,
+    trackTransaction,
+    clearTransactions,
+  }), [
+    sale, cache, client, provider, signerClient, address, authenticated, isOwner,
+    usdcSupportsPermit, refreshData, wallets, chooseWallet, chainId, isWrongNetwork, switchNetwork, transactions,
+    trackTransaction, clearTransactions,
+  ]);
+};
@@ -0,0 +1,167 @@
+import { ethers } from 'ethers';
+import { SaleError, getErrorText, toSaleError } from '@private-sale/sdk';
+import type { PurchasePreflight, PaymentAsset, SaleClient, WithdrawalTransaction } from '@private-sale/sdk';
+import { useSale } from './useSale';
+
+// Everything the connected wallet can send to the sale. Each action resolves once its
+// transaction is mined; callers refresh the state they show with refreshData
+export const useSaleActions = () => {
+  const {
+    sale,
+    signerClient,
+    locale,
+    isOwner,
+    refreshData,
+    isWrongNetwork,
+    switchNetwork,
+    trackTransaction,
+  } = useSale();
+
+  // Run a contract action, rethrowing failures as a SaleError with a user-facing message
+  const withDecodedErrors = <Args extends unknown[]>(action: (...args: Args) => Promise<void>) => (
+    async (...args: Args) => {
+      try {
+        await action(...args);
+      } catch (error) {
+        throw toSaleError(error, locale);
+      }
+    }
+  );
+
+  // The wallet's client, refusing to send anything while the wallet is on another chain
+  const requireSigner = (): SaleClient => {
+    if (!signerClient) throw new Error('Contract or authentication not ready');
+    if (isWrongNetwork) throw new SaleError('wrongNetwork', getErrorText('wrongNetwork', locale));
+    return signerClient;
+  };
+
+  const requireOwner = (): SaleClient => {
+    if (!signerClient || !isOwner) throw new Error('Not authorized');
+    return requireSigner();
+  };
+
+  // Note the chain head before sending, so the wait also sees a replacement mined in the very
+  // next block, then send the transaction and track it until it is mined
+  const sendTracked = async (
+    client: SaleClient,
+    send: (client: SaleClient) => Promise<ethers.TransactionResponse>,
+    label: string
+  ) => {
+    const startBlock = await client.provider.getBlockNumber();
+    await trackTransaction(await send(client), label, startBlock);
+  };
+
+  // Approve the sale to spend a payment token (USDC or a listed stablecoin)
+  const approvePayment = withDecodedErrors(async (asset: PaymentAsset, amount: bigint) => {
+    await sendTracked(requireSigner(), client => client.approvePayment(asset, amount), `Approve ${asset.symbol}`);
+  });
+
+  // Buy ROI tokens, passing the wallet's allowlist tier and proof (0 / empty when the allowlist is off)
+  // and the referrer (zero address for none)
+  const buyTokens = withDecodedErrors(async (
+    usdcAmount: bigint,
+    tier: number = 0,
+    proof: string[] = [],
+    referrer: string = ethers.ZeroAddress
+  ) => {
+    await sendTracked(requireSigner(), client => client.buy(usdcAmount, { tier, proof, referrer }), 'Buy ROI');
+  });
+
+  // Check balances and inventory, then simulate the purchase and estimate its fee without sending
+  // anything (see SaleClient.preparePurchase)
+  const preparePurchase = async (
+    asset: PaymentAsset,
+    usdcAmount: bigint,
+    tier = 0,
+    proof: string[] = [],
+    referrer: string = ethers.ZeroAddress
+  ): Promise<PurchasePreflight> => requireSigner().preparePurchase(asset, usdcAmount, { tier, proof, referrer });
+
+  // Send a purchase that passed pre-flight, reusing its permit signature if it has one
+  const confirmPurchase = withDecodedErrors(async (preflight: PurchasePreflight) => {
+    await sendTracked(requireSigner(), client => client.confirmPurchase(preflight), 'Buy ROI');
+  });
+
+  // Approve the sale to take back purchased ROI for a refund
+  const approveROI = withDecodedErrors(async (amount: bigint) => {
+    await sendTracked(requireSigner(), client => client.approveROI(amount), 'Approve ROI');
+  });
+
+  // Return purchased ROI and get USDC back after a failed sale
+  const claimRefund = withDecodedErrors(async () => {
+    await sendTracked(requireSigner(), client => client.claimRefund(), 'Claim refund');
+  });
+
+  // Claim vested ROI after a successful sale (vesting mode only)
+  const claimVested = withDecodedErrors(async () => {
+    await sendTracked(requireSigner(), client => client.claimVested(), 'Claim ROI');
+  });
+
+  // Claim referral rewards once the soft cap is reached
+  const claimReferralRewards = withDecodedErrors(async () => {
+    await sendTracked(requireSigner(), client => client.claimReferralRewards(), 'Claim referral rewards');
+  });
+
+  // With a withdrawal delay, withdrawals are scheduled and executed once it has passed
+  const sendWithdrawal = async (token: string, amount: bigint, symbol: string) => {
+    const client = requireOwner();
+    const startBlock = await client.provider.getBlockNumber();
+    const { tx, scheduled }: WithdrawalTransaction = await client.withdraw(token, amount);
+    await trackTransaction(tx, scheduled ? `Schedule ${symbol} withdrawal` : `Withdraw ${symbol}`, startBlock);
+  };
+
+  // Withdraw (or schedule withdrawing) USDC (owner only)
+  const withdrawUSDC = withDecodedErrors(async (amount: bigint) => {
+    await sendWithdrawal(sale.usdc, amount, 'USDC');
+  });
+
+  // Withdraw (or schedule withdrawing) ROI (owner only)
+  const withdrawROI = withDecodedErrors(async (amount: bigint) => {
+    await sendWithdrawal(sale.roi, amount, 'ROI');
+  });
+
+  // Withdraw (or schedule withdrawing) ETH or a listed stablecoin (owner only)
+  const withdrawPayment = withDecodedErrors(async (asset: PaymentAsset, amount: bigint) => {
+    await sendWithdrawal(asset.address, amount, asset.symbol);
+  });
+
+  // Send a scheduled withdrawal whose delay has passed (owner only)
+  const executeWithdrawal = withDecodedErrors(async (id: number) => {
+    await sendTracked(requireOwner(), client => client.executeWithdrawal(id), 'Execute withdrawal');
+  });
+
+  // Drop a scheduled withdrawal (owner only)
+  const cancelWithdrawal = withDecodedErrors(async (id: number) => {
+    await sendTracked(requireOwner(), client => client.cancelWithdrawal(id), 'Cancel withdrawal');
+  });
+
+  // Halt or resume purchases (owner only)
+  const setPaused = withDecodedErrors(async (paused: boolean) => {
+    await sendTracked(requireOwner(), client => client.setPaused(paused), paused ? 'Pause sale' : 'Resume sale');
+  });
+
+  // Close the current round early and open the next one (owner only)
+  const advanceRound = withDecodedErrors(async () => {
+    await sendTracked(requireOwner(), client => client.advanceRound(), 'Advance round');
+  });
+
+  return {
+    refreshData,
+    switchNetwork: withDecodedErrors(switchNetwork),
+    approvePayment,
+    buyTokens,
+    preparePurchase,
+    confirmPurchase,
+    approveROI,
+    claimRefund,
+    claimVested,
+    claimReferralRewards,
+    withdrawUSDC,
+    withdrawROI,
+    withdrawPayment,
+    executeWithdrawal,
+    cancelWithdrawal,
+    setPaused,
+    advanceRound,
+  };
+};
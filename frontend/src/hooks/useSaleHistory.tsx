@@ -0,0 +1,32 @@
+import { useCallback } from 'react';
+import { useSale } from './useSale';
+import type { PurchaseHistoryPage, SalePurchase, WithdrawalRecord, ReferralRecord } from '@private-sale/sdk';
+
+// Loaders for the sale's event history, read on demand by the panels that show it
+export const useSaleHistory = () => {
+  const { client, sale } = useSale();
+
+  // Load USDCWithdrawn / ROIWithdrawn events, newest first
+  const getWithdrawalHistory = useCallback(async (): Promise<WithdrawalRecord[]> => (
+    client ? client.getWithdrawalHistory() : []
+  ), [client]);
+
+  // Load the ReferralRecorded events crediting `referrer`, newest first
+  const getReferralHistory = useCallback(async (referrer: string): Promise<ReferralRecord[]> => (
+    client ? client.getReferralHistory(referrer) : []
+  ), [client]);
+
+  // Load one page of TokensPurchased events for `buyer`, scanning backwards from `toBlock`
+  const getPurchaseHistory = useCallback(async (buyer: string, toBlock?: number): Promise<PurchaseHistoryPage> => (
+    client
+      ? client.getPurchaseHistory(buyer, toBlock)
+      : { purchases: [], fromBlock: sale.deployBlock, hasMore: false }
+  ), [client, sale]);
+
+  // Load every TokensPurchased event since deployment, oldest first
+  const getAllPurchases = useCallback(async (): Promise<SalePurchase[]> => (
+    client ? client.getAllPurchases() : []
+  ), [client]);
+
+  return { getWithdrawalHistory, getReferralHistory, getPurchaseHistory, getAllPurchases };
+};
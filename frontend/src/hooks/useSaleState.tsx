@@ -0,0 +1,41 @@
+import { ethers } from 'ethers';
+import { useSale } from './useSale';
+import { useQuery } from './useQuery';
+import type { ContractState } from '@private-sale/sdk';
+
+// Shown until the sale has been read
+const INITIAL_STATE: ContractState = {
+  softCap: BigInt(0),
+  hardCap: BigInt(0),
+  totalRaised: BigInt(0),
+  roiPerUSDC: BigInt(0),
+  usdcDecimals: 6,
+  roiDecimals: 18,
+  isSoftCapReached: false,
+  isHardCapReached: false,
+  remainingToHardCap: BigInt(0),
+  startTime: 0,
+  endTime: 0,
+  merkleRoot: ethers.ZeroHash,
+  minContribution: BigInt(0),
+  maxContribution: BigInt(0),
+  vestingEnabled: false,
+  cliffDuration: 0,
+  vestingDuration: 0,
+  rounds: [],
+  currentRound: 0,
+  referralRewardBps: BigInt(0),
+  referralRewardInROI: false,
+  paused: false,
+};
+
+// The sale's caps, progress, window, limits, rounds and settings
+export const useSaleState = () => {
+  const { cache, client } = useSale();
+  const { data } = useQuery(cache, 'sale:state', client ? () => client.getState() : null);
+
+  return {
+    contractState: data ?? INITIAL_STATE,
+    isLoading: !data,
+  };
+};
@@ -0,0 +1,129 @@
+import { useEffect } from 'react';
+import { ethers } from 'ethers';
+import { ERC20__factory } from '@private-sale/sdk';
+import { useSale } from './useSale';
+import { usePaymentAssets } from './usePaymentAssets';
+
+// Coalesce bursts of events (e.g. Transfer + TokensPurchased in one tx) into one refresh
+const REFRESH_DEBOUNCE_MS = 500;
+// Safety-net refresh every N new blocks in case an event was missed (~1 minute on Base)
+const BLOCK_REFRESH_INTERVAL = 30;
+// Polling interval used only when event subscriptions cannot be set up
+const FALLBACK_POLL_INTERVAL = 10000;
+
+// Refresh the cached sale state on relevant contract events instead of polling. Used once,
+// near the top of the tree, so every component shares the same subscriptions
+export const useSaleSubscriptions = () => {
+  const { client, sale, address, isOwner, cache, refreshData } = useSale();
+  const { paymentAssets } = usePaymentAssets();
+
+  // Reload the assets whenever the owner lists or delists one, or changes the price feed
+  useEffect(() => {
+    if (!client) return;
+
+    const { sale: saleContract } = client.contracts;
+    const refreshAssets = () => cache.invalidate(key => key === 'assets');
+    const events = [saleContract.filters.PaymentTokenUpdated, saleContract.filters.PriceFeedUpdated];
+    events.forEach(event => saleContract.on(event, refreshAssets));
+    return () => {
+      events.forEach(event => saleContract.off(event, refreshAssets));
+    };
+  }, [client, cache]);
+
+  useEffect(() => {
+    if (!client) return;
+
+    const { provider } = client;
+    const { sale: saleContract, usdc, roi } = client.contracts;
+    let pendingRefresh: ReturnType<typeof setTimeout> | null = null;
+    let fallbackInterval: ReturnType<typeof setInterval> | null = null;
+    let blocksSinceRefresh = 0;
+
+    const scheduleRefresh = () => {
+      blocksSinceRefresh = 0;
+      if (pendingRefresh) return;
+      pendingRefresh = setTimeout(() => {
+        pendingRefresh = null;
+        refreshData();
+      }, REFRESH_DEBOUNCE_MS);
+    };
+
+    const onBlock = () => {
+      blocksSinceRefresh += 1;
+      if (blocksSinceRefresh >= BLOCK_REFRESH_INTERVAL) {
+        scheduleRefresh();
+      }
+    };
+
+    const subscriptions: [ethers.BaseContract, ethers.ContractEventName][] = [
+      [saleContract, saleContract.filters.TokensPurchased],
+      [saleContract, saleContract.filters.SaleWindowUpdated],
+      [saleContract, saleContract.filters.SaleExtended],
+      [saleContract, saleContract.filters.RefundClaimed],
+      [saleContract, saleContract.filters.MerkleRootUpdated],
+      [saleContract, saleContract.filters.ContributionLimitsUpdated],
+      [saleContract, saleContract.filters.TierCapUpdated],
+      [saleContract, saleContract.filters.VestingScheduleUpdated],
+      [saleContract, saleContract.filters.TokensClaimed],
+      [saleContract, saleContract.filters.RoundAdded],
+      [saleContract, saleContract.filters.RoundsCleared],
+      [saleContract, saleContract.filters.RoundAdvanced],
+      [saleContract, saleContract.filters.ReferralRewardUpdated],
+      [saleContract, saleContract.filters.ReferralRewardsClaimed],
+      [saleContract, saleContract.filters.Paused],
+      [saleContract, saleContract.filters.Unpaused],
+      // Who sees the owner's panel
+      [saleContract, saleContract.filters.OwnershipTransferred],
+    ];
+    if (address) {
+      for (const asset of paymentAssets.filter(candidate => candidate.kind === 'token')) {
+        const token = ERC20__factory.connect(asset.address, provider);
+        subscriptions.push(
+          [token, token.filters.Transfer(address)],
+          [token, token.filters.Transfer(undefined, address)],
+          [token, token.filters.Approval(address, sale.address)],
+        );
+      }
+      subscriptions.push(
+        [usdc, usdc.filters.Transfer(address)],
+        [usdc, usdc.filters.Transfer(undefined, address)],
+        [usdc, usdc.filters.Approval(address, sale.address)],
+        [roi, roi.filters.Transfer(address)],
+        [roi, roi.filters.Transfer(undefined, address)],
+        [roi, roi.filters.Approval(address, sale.address)],
+      );
+    }
+    if (address && isOwner) {
+      // Withdrawals and ROI top-ups; USDC inflows are covered by TokensPurchased
+      subscriptions.push(
+        [saleContract, saleContract.filters.TreasuryUpdated],
+        [saleContract, saleContract.filters.TreasuryChangeScheduled],
+        [saleContract, saleContract.filters.TreasuryChangeCancelled],
+        [saleContract, saleContract.filters.WithdrawalDelayUpdated],
+        [saleContract, saleContract.filters.WithdrawalScheduled],
+        [saleContract, saleContract.filters.WithdrawalExecuted],
+        [saleContract, saleContract.filters.PaymentWithdrawn],
+        [saleContract, saleContract.filters.WithdrawalCancelled],
+        [saleContract, saleContract.filters.OwnershipTransferStarted],
+        [usdc, usdc.filters.Transfer(sale.address)],
+        [roi, roi.filters.Transfer(sale.address)],
+        [roi, roi.filters.Transfer(undefined, sale.address)],
+      );
+    }
+
+    Promise.all([
+      ...subscriptions.map(([contract, event]) => contract.on(event, scheduleRefresh)),
+      provider.on('block', onBlock),
+    ]).catch(error => {
+      console.error('Event subscriptions unavailable, falling back to polling:', error);
+      fallbackInterval = setInterval(refreshData, FALLBACK_POLL_INTERVAL);
+    });
+
+    return () => {
+      subscriptions.forEach(([contract, event]) => contract.off(event, scheduleRefresh));
+      provider.off('block', onBlock);
+      if (pendingRefresh) clearTimeout(pendingRefresh);
+      if (fallbackInterval) clearInterval(fallbackInterval);
+    };
+  }, [client, address, isOwner, refreshData, sale, paymentAssets]);
+};
@@ -0,0 +1,7 @@
+import { useAccountState } from './useAccountState';
+
+// The connected wallet's USDC and ROI, and its balance of every accepted payment asset
+export const useTokenBalances = () => {
+  const { balances, paymentBalances } = useAccountState();
+  return { balances, paymentBalances };
+};
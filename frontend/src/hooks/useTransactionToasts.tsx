@@ -0,0 +1,42 @@
+import { useEffect, useRef } from 'react';
+import type { NotificationLink } from '../components/Notification';
+import type { NotificationType } from './useNotification';
+import type { TrackedTransaction, TransactionStatus } from '../utils/transactions';
+import { explorerTxUrl } from '@private-sale/sdk';
+import { useDeployment } from './useDeployment';
+
+const STAGE_TOASTS: Record<TransactionStatus, { type: NotificationType; suffix: string }> = {
+  pending: { type: 'info', suffix: 'submitted' },
+  confirmed: { type: 'success', suffix: 'confirmed' },
+  failed: { type: 'error', suffix: 'failed' },
+  replaced: { type: 'info', suffix: 'was sped up or replaced' },
+  cancelled: { type: 'warning', suffix: 'was cancelled' },
+};
+
+// Show a toast, with an explorer link, each time a tracked transaction changes stage
+export const useTransactionToasts = (
+  transactions: TrackedTransaction[],
+  showNotification: (type: NotificationType, message: string, link?: NotificationLink) => void
+) => {
+  const { network } = useDeployment();
+  // Stages already announced (or restored from storage), by hash
+  const announced = useRef<Map<string, TransactionStatus> | null>(null);
+
+  useEffect(() => {
+    if (!announced.current) {
+      announced.current = new Map(transactions.map(transaction => [transaction.hash, transaction.status]));
+      return;
+    }
+
+    for (const transaction of transactions) {
+      if (announced.current.get(transaction.hash) === transaction.status) continue;
+      announced.current.set(transaction.hash, transaction.status);
+
+      const { type, suffix } = STAGE_TOASTS[transaction.status];
+      showNotification(type, `${transaction.label} ${suffix}`, {
+        href: explorerTxUrl(network.explorerUrl, transaction.hash),
+        label: 'View on explorer',
+      });
+    }
+  }, [transactions, showNotification, network.explorerUrl]);
+};
@@ -0,0 +1,138 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ethers } from 'ethers';
+import {
+  MAX_TRACKED_TRANSACTIONS,
+  SAFE_CONFIRMATIONS,
+  loadTransactions,
+  saveTransactions,
+  isUnsettled,
+} from '../utils/transactions';
+import type { TrackedTransaction } from '../utils/transactions';
+import { waitForTransaction } from '../utils/transactionWait';
+
+// Track submitted transactions through pending / confirmed / failed / replaced,
+// persisting the queue in localStorage so it survives page reloads
+export const useTransactions = (provider: ethers.Provider | null | undefined, saleAddress: string) => {
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>(() => loadTransactions(saleAddress));
+  // Hashes with an active watcher, so a resumed transaction isn't watched twice
+  const watching = useRef(new Set<string>());
+
+  useEffect(() => {
+    saveTransactions(saleAddress, transactions);
+  }, [saleAddress, transactions]);
+
+  const updateTransaction = useCallback((hash: string, changes: Partial<TrackedTransaction>) => {
+    setTransactions(prev => prev.map(transaction => (
+      transaction.hash === hash ? { ...transaction, ...changes } : transaction
+    )));
+  }, []);
+
+  const addTransaction = useCallback((transaction: TrackedTransaction) => {
+    setTransactions(prev => [
+      transaction,
+      ...prev.filter(existing => existing.hash !== transaction.hash),
+    ].slice(0, MAX_TRACKED_TRANSACTIONS));
+  }, []);
+
+  // Wait for a transaction to be mined, following speed-ups and cancellations. Resolves with
+  // the receipt of whichever transaction ended up doing the work; throws if it failed or was cancelled
+  const watchTransaction = useCallback(async (
+    tx: ethers.TransactionResponse,
+    tracked: TrackedTransaction
+  ): Promise<ethers.TransactionReceipt> => {
+    watching.current.add(tx.hash);
+    try {
+      const receipt = (await waitForTransaction(tx, tracked.startBlock))!;
+      updateTransaction(tx.hash, { status: 'confirmed', confirmations: 1, blockNumber: receipt.blockNumber });
+
+      // Keep counting confirmations in the background
+      waitForTransaction(tx, tracked.startBlock, SAFE_CONFIRMATIONS)
+        .then(() => updateTransaction(tx.hash, { confirmations: SAFE_CONFIRMATIONS }))
+        .catch(() => undefined);
+
+      return receipt;
+    } catch (error) {
+      if (ethers.isError(error, 'TRANSACTION_REPLACED')) {
+        updateTransaction(tx.hash, {
+          status: error.cancelled ? 'cancelled' : 'replaced',
+          replacedBy: error.replacement.hash,
+        });
+
+        // A speed-up does the same work, so follow the replacement instead
+        if (!error.cancelled) {
+          const succeeded = error.receipt.status === 1;
+          addTransaction({
+            ...tracked,
+            hash: error.replacement.hash,
+            submittedAt: Math.floor(Date.now() / 1000),
+            status: succeeded ? 'confirmed' : 'failed',
+            confirmations: 1,
+            blockNumber: error.receipt.blockNumber,
+          });
+          if (succeeded) return error.receipt;
+        }
+      } else if (ethers.isError(error, 'CALL_EXCEPTION')) {
+        updateTransaction(tx.hash, { status: 'failed', blockNumber: error.receipt?.blockNumber });
+      }
+      throw error;
+    } finally {
+      watching.current.delete(tx.hash);
+    }
+  }, [addTransaction, updateTransaction]);
+
+  // Record a just-submitted transaction and wait for it. startBlock is the chain head read
+  // before sending, so a replacement mined straight away is still found
+  const trackTransaction = useCallback(async (
+    tx: ethers.TransactionResponse,
+    label: string,
+    startBlock: number
+  ): Promise<ethers.TransactionReceipt> => {
+    const tracked: TrackedTransaction = {
+      hash: tx.hash,
+      label,
+      from: tx.from,
+      nonce: tx.nonce,
+      startBlock,
+      submittedAt: Math.floor(Date.now() / 1000),
+      status: 'pending',
+      confirmations: 0,
+    };
+    addTransaction(tracked);
+    return watchTransaction(tx, tracked);
+  }, [addTransaction, watchTransaction]);
+
+  // After a reload, pick up transactions that were still pending or confirming
+  useEffect(() => {
+    if (!provider) return;
+
+    loadTransactions(saleAddress)
+      .filter(transaction => isUnsettled(transaction) && !watching.current.has(transaction.hash))
+      .forEach(async transaction => {
+        try {
+          const tx = await provider.getTransaction(transaction.hash);
+          if (tx) {
+            await watchTransaction(tx, transaction);
+            return;
+          }
+
+          // The node no longer knows the transaction: if its nonce was used, something replaced it
+          const nonce = await provider.getTransactionCount(transaction.from);
+          if (nonce > transaction.nonce) {
+            updateTransaction(transaction.hash, { status: 'replaced' });
+          }
+        } catch (error) {
+          console.error('Error resuming transaction:', transaction.hash, error);
+        }
+      });
+  }, [provider, saleAddress, watchTransaction, updateTransaction]);
+
+  const clearTransactions = useCallback(() => {
+    setTransactions(prev => prev.filter(isUnsettled));
+  }, []);
+
+  return {
+    transactions,
+    trackTransaction,
+    clearTransactions,
+  };
+};
@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useWallets } from '@privy-io/react-auth';
+import { loadPreferredWallet, savePreferredWallet, selectWallet } from '../utils/wallet';
+import type { WalletProvider } from '../utils/wallet';
+
+// The Privy-connected wallet used for signing, embedded or external, and its EIP-1193 provider.
+// When several wallets are linked the user can pick one; the choice is remembered
+export const useWallet = () => {
+  const { wallets, ready } = useWallets();
+  const [preferredAddress, setPreferredAddress] = useState<string | null>(loadPreferredWallet);
+  // Tagged with the wallet it came from, so a previous wallet's provider is never used
+  const [resolved, setResolved] = useState<{ address: string; provider: WalletProvider } | null>(null);
+
+  const ethereumWallets = useMemo(() => wallets.filter(wallet => wallet.type === 'ethereum'), [wallets]);
+  const wallet = ready ? selectWallet(ethereumWallets, preferredAddress) : null;
+
+  useEffect(() => {
+    if (!wallet) return;
+
+    let cancelled = false;
+    wallet.getEthereumProvider()
+      .then(provider => {
+        if (cancelled) return;
+        setResolved(prev => (
+          prev?.address === wallet.address && prev.provider === provider
+            ? prev
+            : { address: wallet.address, provider }
+        ));
+      })
+      .catch(error => console.error('Error getting wallet provider:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [wallet]);
+
+  const chooseWallet = useCallback((address: string) => {
+    setPreferredAddress(address);
+    savePreferredWallet(address);
+  }, []);
+
+  return {
+    wallets: ethereumWallets,
+    wallet,
+    provider: wallet && resolved?.address === wallet.address ? resolved.provider : null,
+    chooseWallet,
+  };
+};
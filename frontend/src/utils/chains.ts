@@ -0,0 +1,73 @@
+import { ethers } from "ethers";
+
+export interface ChainConfig {
+  chainId: number;
+  name: string;
+  rpcUrl: string;
+  explorerUrl: string;
+}
+
+// Chains the sale is known to be deployed to, used to name the chain a wallet is on.
+// The chain the app targets comes from the deployment manifest (see utils/deployments.ts)
+export const CHAINS: Record<number, ChainConfig> = {
+  8453: {
+    chainId: 8453,
+    name: "Base",
+    rpcUrl: "https://mainnet.base.org",
+    explorerUrl: "https://basescan.org",
+  },
+  84532: {
+    chainId: 84532,
+    name: "Base Sepolia",
+    rpcUrl: "https://sepolia.base.org",
+    explorerUrl: "https://sepolia.basescan.org",
+  },
+  31337: {
+    chainId: 31337,
+    name: "Hardhat",
+    rpcUrl: "http://127.0.0.1:8545",
+    explorerUrl: "",
+  },
+};
+
+export const getChainName = (chainId: number): string => CHAINS[chainId]?.name ?? `Chain ${chainId}`;
+
+const NATIVE_CURRENCY = { name: "Ether", symbol: "ETH", decimals: 18 };
+
+// The chain in the shape Privy's `defaultChain` / `supportedChains` config expects
+export const toPrivyChain = (chain: ChainConfig) => ({
+  id: chain.chainId,
+  name: chain.name,
+  nativeCurrency: NATIVE_CURRENCY,
+  rpcUrls: { default: { http: [chain.rpcUrl] } },
+  blockExplorers: chain.explorerUrl
+    ? { default: { name: `${chain.name} explorer`, url: chain.explorerUrl } }
+    : undefined,
+  testnet: chain.chainId !== 8453,
+});
+
+// Wallet error code for a chain it doesn't know yet (EIP-3085)
+const UNRECOGNIZED_CHAIN = 4902;
+
+// Ask the wallet to switch to `chain`, adding it first if the wallet doesn't know it
+export const switchChain = async (provider: ethers.Eip1193Provider, chain: ChainConfig) => {
+  const chainId = ethers.toQuantity(chain.chainId);
+  try {
+    await provider.request({ method: "wallet_switchEthereumChain", params: [{ chainId }] });
+  } catch (error) {
+    const code = (error as { code?: number }).code
+      ?? (error as { data?: { originalError?: { code?: number } } }).data?.originalError?.code;
+    if (code !== UNRECOGNIZED_CHAIN) throw error;
+
+    await provider.request({
+      method: "wallet_addEthereumChain",
+      params: [{
+        chainId,
+        chainName: chain.name,
+        nativeCurrency: NATIVE_CURRENCY,
+        rpcUrls: [chain.rpcUrl],
+        blockExplorerUrls: chain.explorerUrl ? [chain.explorerUrl] : undefined,
+      }],
+    });
+  }
+};
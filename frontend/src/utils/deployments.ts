@@ -0,0 +1,124 @@
+import { ethers } from "ethers";
+import type { SaleAddresses } from "@private-sale/sdk";
+import type { ChainConfig } from "./chains";
+
+// A sale contract and the tokens it trades, as recorded by scripts/deploy.js
+export interface SaleDeployment extends SaleAddresses {
+  id: string;          // e.g. "main", or one id per round when a network runs several sales
+}
+
+export interface NetworkDeployment extends ChainConfig {
+  wsUrl?: string;      // optional websocket endpoint for push-based event subscriptions
+  sales: SaleDeployment[];
+}
+
+// The deployment registry (deployments/deployments.json, served as /deployments.json)
+export interface DeploymentManifest {
+  defaultChainId: number;
+  networks: Record<string, NetworkDeployment>; // keyed by chain ID
+}
+
+// The network and sale this page talks to
+export interface Deployment {
+  network: NetworkDeployment;
+  sale: SaleDeployment;
+}
+
+const invalid = (path: string, expected: string): Error => (
+  new Error(`Invalid deployment manifest: ${path} must be ${expected}`)
+);
+
+const readObject = (value: unknown, path: string): Record<string, unknown> => {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) throw invalid(path, "an object");
+  return value as Record<string, unknown>;
+};
+
+const readString = (value: unknown, path: string): string => {
+  if (typeof value !== "string" || value === "") throw invalid(path, "a non-empty string");
+  return value;
+};
+
+const readOptionalString = (value: unknown, path: string): string => {
+  if (value === undefined || value === "") return "";
+  return readString(value, path);
+};
+
+const readInteger = (value: unknown, path: string): number => {
+  if (typeof value !== "number" || !Number.isSafeInteger(value) || value < 0) {
+    throw invalid(path, "a non-negative integer");
+  }
+  return value;
+};
+
+const readAddress = (value: unknown, path: string): string => {
+  if (typeof value !== "string" || !ethers.isAddress(value)) throw invalid(path, "an address");
+  return ethers.getAddress(value);
+};
+
+const parseSale = (value: unknown, path: string): SaleDeployment => {
+  const sale = readObject(value, path);
+  return {
+    id: readString(sale.id, `${path}.id`),
+    address: readAddress(sale.address, `${path}.address`),
+    usdc: readAddress(sale.usdc, `${path}.usdc`),
+    roi: readAddress(sale.roi, `${path}.roi`),
+    deployBlock: readInteger(sale.deployBlock ?? 0, `${path}.deployBlock`),
+  };
+};
+
+const parseNetwork = (value: unknown, key: string): NetworkDeployment => {
+  const path = `networks.${key}`;
+  const network = readObject(value, path);
+  const chainId = readInteger(network.chainId, `${path}.chainId`);
+  if (String(chainId) !== key) throw invalid(`${path}.chainId`, `${key}, the key it is listed under`);
+
+  if (!Array.isArray(network.sales) || network.sales.length === 0) throw invalid(`${path}.sales`, "a non-empty array");
+  const sales = network.sales.map((sale, index) => parseSale(sale, `${path}.sales[${index}]`));
+  const ids = new Set(sales.map(sale => sale.id));
+  if (ids.size !== sales.length) throw invalid(`${path}.sales`, "a list of sales with unique ids");
+
+  return {
+    chainId,
+    name: readString(network.name, `${path}.name`),
+    rpcUrl: readString(network.rpcUrl, `${path}.rpcUrl`),
+    wsUrl: readOptionalString(network.wsUrl, `${path}.wsUrl`) || undefined,
+    explorerUrl: readOptionalString(network.explorerUrl, `${path}.explorerUrl`),
+    sales,
+  };
+};
+
+// Check a fetched manifest's shape, so a bad deploy fails loudly instead of pointing
+// the app at the wrong contracts. Addresses come back checksummed
+export const parseDeploymentManifest = (data: unknown): DeploymentManifest => {
+  const manifest = readObject(data, "manifest");
+  const networks = readObject(manifest.networks, "networks");
+  if (Object.keys(networks).length === 0) throw invalid("networks", "a non-empty object");
+
+  const parsed: Record<string, NetworkDeployment> = {};
+  for (const [key, network] of Object.entries(networks)) {
+    parsed[key] = parseNetwork(network, key);
+  }
+
+  const defaultChainId = readInteger(manifest.defaultChainId, "defaultChainId");
+  if (!parsed[defaultChainId]) throw invalid("defaultChainId", "one of the listed networks");
+
+  return { defaultChainId, networks: parsed };
+};
+
+// Pick the network and sale to use: the requested ones when given, otherwise the default
+// network and its most recently deployed sale
+export const selectDeployment = (
+  manifest: DeploymentManifest,
+  chainId?: number | null,
+  saleId?: string | null
+): Deployment => {
+  const network = manifest.networks[chainId ?? manifest.defaultChainId];
+  if (!network) throw new Error(`No deployment for chain ${chainId}`);
+
+  const sale = saleId
+    ? network.sales.find(candidate => candidate.id === saleId)
+    : network.sales[network.sales.length - 1];
+  if (!sale) throw new Error(`No sale "${saleId}" on ${network.name}`);
+
+  return { network, sale };
+};
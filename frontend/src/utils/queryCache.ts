@@ -0,0 +1,116 @@
+// Results of async queries (contract reads), shared by every component under the sale provider.
+// Concurrent requests for a key share one fetch, and a result is reused until it is older than
+// the staleTime it was requested with or the key is invalidated
+
+export interface QueryState<T> {
+  data: T | undefined;
+  error: unknown;       // from the last fetch, null once one succeeds
+  isFetching: boolean;
+  updatedAt: number;    // ms timestamp of the last successful fetch, 0 before the first
+}
+
+export type Fetcher<T> = () => Promise<T>;
+
+export interface QueryCache {
+  get: <T>(key: string) => QueryState<T>;
+  fetch: <T>(key: string, fetcher: Fetcher<T>, staleTime?: number) => Promise<T>;
+  subscribe: (key: string, listener: () => void) => () => void;
+  invalidate: (matches?: (key: string) => boolean) => Promise<void>;
+}
+
+// How long a result is reused before a component mounting with the same key refetches it.
+// Contract events invalidate results sooner
+export const DEFAULT_STALE_TIME = 5000;
+
+export const EMPTY_QUERY: QueryState<never> = { data: undefined, error: null, isFetching: false, updatedAt: 0 };
+
+export const createQueryCache = (): QueryCache => {
+  const states = new Map<string, QueryState<unknown>>();
+  const requests = new Map<string, Promise<unknown>>();
+  // The latest fetcher for each key, used to refetch it when invalidated
+  const fetchers = new Map<string, Fetcher<unknown>>();
+  const listeners = new Map<string, Set<() => void>>();
+  // Keys invalidated while a fetch was in flight, whose result may predate the change
+  const invalidatedDuringFetch = new Set<string>();
+
+  const get = <T>(key: string) => (states.get(key) ?? EMPTY_QUERY) as QueryState<T>;
+
+  // States are replaced rather than mutated so subscribers can compare snapshots
+  const update = (key: string, changes: Partial<QueryState<unknown>>) => {
+    states.set(key, { ...get(key), ...changes });
+    listeners.get(key)?.forEach(listener => listener());
+  };
+
+  const run = <T>(key: string, fetcher: Fetcher<T>): Promise<T> => {
+    const pending = requests.get(key);
+    if (pending) return pending as Promise<T>;
+
+    update(key, { isFetching: true });
+    const request = fetcher().then(
+      data => {
+        requests.delete(key);
+        update(key, { data, error: null, isFetching: false, updatedAt: Date.now() });
+        refetchIfInvalidated(key);
+        return data;
+      },
+      error => {
+        requests.delete(key);
+        console.error(`Error loading ${key}:`, error);
+        update(key, { error, isFetching: false });
+        refetchIfInvalidated(key);
+        throw error;
+      }
+    );
+    requests.set(key, request);
+    return request;
+  };
+
+  const refetch = (key: string): Promise<unknown> => {
+    const fetcher = fetchers.get(key);
+    return fetcher ? run(key, fetcher).catch(() => undefined) : Promise.resolve();
+  };
+
+  const refetchIfInvalidated = (key: string) => {
+    if (invalidatedDuringFetch.delete(key)) refetch(key);
+  };
+
+  return {
+    get,
+
+    fetch: <T>(key: string, fetcher: Fetcher<T>, staleTime = DEFAULT_STALE_TIME): Promise<T> => {
+      fetchers.set(key, fetcher);
+      const state = get<T>(key);
+      const isFresh = state.updatedAt > 0 && state.error === null && Date.now() - state.updatedAt < staleTime;
+      return isFresh ? Promise.resolve(state.data as T) : run(key, fetcher);
+    },
+
+    subscribe: (key: string, listener: () => void) => {
+      const keyListeners = listeners.get(key) ?? new Set();
+      keyListeners.add(listener);
+      listeners.set(key, keyListeners);
+      return () => {
+        keyListeners.delete(listener);
+      };
+    },
+
+    // Refetch matching queries that are in use and mark the rest stale. Resolves once the
+    // refetches have settled
+    invalidate: async (matches = () => true) => {
+      const refetches: Promise<unknown>[] = [];
+      for (const [key, state] of states) {
+        if (!matches(key)) continue;
+        const pending = requests.get(key);
+        if (pending) {
+          invalidatedDuringFetch.add(key);
+          // The queued refetch starts as soon as the pending request settles
+          refetches.push(pending.catch(() => undefined).then(() => requests.get(key)?.catch(() => undefined)));
+        } else if (listeners.get(key)?.size) {
+          refetches.push(refetch(key));
+        } else {
+          states.set(key, { ...state, updatedAt: 0 });
+        }
+      }
+      await Promise.all(refetches);
+    },
+  };
+};
@@ -0,0 +1,37 @@
+import { ethers } from "ethers";
+
+// Query parameter carrying the referrer in shared links, e.g. https://sale.example/?ref=0x…
+export const REFERRAL_PARAM = "ref";
+
+const STORAGE_KEY = "roi-sale:referrer";
+
+// The referrer named by a query string (window.location.search), checksummed; null when absent or invalid
+export const parseReferrer = (search: string): string | null => {
+  const value = new URLSearchParams(search).get(REFERRAL_PARAM);
+  return value && ethers.isAddress(value) ? ethers.getAddress(value) : null;
+};
+
+// Link to the sale at `pageUrl` that credits `referrer`, keeping any other parameters (chain, sale)
+export const buildReferralLink = (pageUrl: string, referrer: string): string => {
+  const url = new URL(pageUrl);
+  url.hash = "";
+  url.searchParams.set(REFERRAL_PARAM, ethers.getAddress(referrer));
+  return url.toString();
+};
+
+// The referrer from the last referral link followed, remembered across visits
+export const loadReferrer = (): string | null => {
+  try {
+    return window.localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const saveReferrer = (referrer: string) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, referrer);
+  } catch (error) {
+    console.error("Error saving referrer:", error);
+  }
+};
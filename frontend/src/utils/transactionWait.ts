@@ -0,0 +1,12 @@
+import { ethers } from 'ethers';
+
+// Wait for a submitted transaction, scanning from the block it was submitted at so that a
+// speed-up or cancellation mined in its place rejects with TRANSACTION_REPLACED instead of
+// leaving the wait hanging on a hash that will never be mined
+export const waitForTransaction = (
+  tx: ethers.TransactionResponse,
+  startBlock: number,
+  confirmations = 1
+): Promise<ethers.TransactionReceipt | null> => {
+  return tx.replaceableTransaction(startBlock).wait(confirmations);
+};
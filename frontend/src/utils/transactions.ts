@@ -0,0 +1,50 @@
+export type TransactionStatus = 'pending' | 'confirmed' | 'failed' | 'replaced' | 'cancelled';
+
+export interface TrackedTransaction {
+  hash: string;
+  label: string;        // what the user did, e.g. "Buy ROI"
+  from: string;
+  nonce: number;
+  startBlock: number;   // block number at submission, used to detect replacements after a reload
+  submittedAt: number;  // unix seconds
+  status: TransactionStatus;
+  confirmations: number;
+  blockNumber?: number;
+  replacedBy?: string;  // hash of the speed-up / replacement transaction
+}
+
+// Confirmations after which a transaction is no longer watched
+export const SAFE_CONFIRMATIONS = Number(import.meta.env.VITE_SAFE_CONFIRMATIONS || 3);
+
+// Only the most recent transactions are kept
+export const MAX_TRACKED_TRANSACTIONS = 20;
+
+const storageKey = (saleAddress: string) => `roi-sale:transactions:${saleAddress.toLowerCase()}`;
+
+// Load the transaction queue persisted for a sale contract (newest first)
+export const loadTransactions = (saleAddress: string): TrackedTransaction[] => {
+  try {
+    const stored = window.localStorage.getItem(storageKey(saleAddress));
+    return stored ? (JSON.parse(stored) as TrackedTransaction[]) : [];
+  } catch (error) {
+    console.error("Error loading transactions:", error);
+    return [];
+  }
+};
+
+export const saveTransactions = (saleAddress: string, transactions: TrackedTransaction[]) => {
+  try {
+    window.localStorage.setItem(
+      storageKey(saleAddress),
+      JSON.stringify(transactions.slice(0, MAX_TRACKED_TRANSACTIONS))
+    );
+  } catch (error) {
+    console.error("Error saving transactions:", error);
+  }
+};
+
+// Whether a transaction still needs to be watched for confirmations or replacement
+export const isUnsettled = (transaction: TrackedTransaction): boolean => {
+  return transaction.status === 'pending'
+    || (transaction.status === 'confirmed' && transaction.confirmations < SAFE_CONFIRMATIONS);
+};
@@ -0,0 +1,90 @@
+import { ethers } from "ethers";
+
+type WalletListener = (...args: unknown[]) => void;
+
+// The EIP-1193 provider of the wallet that signs (Privy embedded wallet, MetaMask, WalletConnect, ...),
+// with the event emitter most wallets expose
+export interface WalletProvider extends ethers.Eip1193Provider {
+  on?: (event: string, listener: WalletListener) => void;
+  removeListener?: (event: string, listener: WalletListener) => void;
+}
+
+export interface WalletState {
+  chainId: number;
+  account: string | null; // selected account, null while the wallet is locked
+}
+
+// The minimum the app needs to know about a connected wallet (a Privy ConnectedWallet fits)
+export interface WalletOption {
+  address: string;
+  walletClientType: string; // "privy" for the embedded wallet, otherwise e.g. "metamask"
+}
+
+const STORAGE_KEY = "roi-sale:wallet";
+
+const firstAccount = (accounts: unknown): string | null => (accounts as string[])[0] ?? null;
+
+// The wallet's current chain and selected account
+export const readWalletState = async (provider: WalletProvider): Promise<WalletState> => {
+  const [chainId, accounts] = await Promise.all([
+    provider.request({ method: "eth_chainId" }),
+    provider.request({ method: "eth_accounts" }),
+  ]);
+  return { chainId: Number(chainId), account: firstAccount(accounts) };
+};
+
+// Call `onChange` whenever the wallet switches chain or account. Returns the unsubscribe function
+export const subscribeWallet = (
+  provider: WalletProvider,
+  onChange: (changes: Partial<WalletState>) => void
+): (() => void) => {
+  const onChainChanged: WalletListener = chainId => onChange({ chainId: Number(chainId) });
+  const onAccountsChanged: WalletListener = accounts => onChange({ account: firstAccount(accounts) });
+
+  provider.on?.("chainChanged", onChainChanged);
+  provider.on?.("accountsChanged", onAccountsChanged);
+
+  return () => {
+    provider.removeListener?.("chainChanged", onChainChanged);
+    provider.removeListener?.("accountsChanged", onAccountsChanged);
+  };
+};
+
+// A signer for `address` (or the selected account) on the wallet's provider.
+// 'any' lets the provider survive chain switches instead of erroring
+export const getWalletSigner = async (provider: WalletProvider, address?: string): Promise<ethers.JsonRpcSigner> => {
+  return new ethers.BrowserProvider(provider, "any").getSigner(address);
+};
+
+// The wallet to sign with: the one the user picked if it is still connected, otherwise the first
+export const selectWallet = <T extends WalletOption>(wallets: T[], preferred: string | null): T | null => {
+  const chosen = preferred
+    ? wallets.find(wallet => wallet.address.toLowerCase() === preferred.toLowerCase())
+    : undefined;
+  return chosen ?? wallets[0] ?? null;
+};
+
+export const getWalletLabel = (wallet: WalletOption): string => {
+  if (wallet.walletClientType === "privy") return "Embedded wallet";
+  return wallet.walletClientType
+    .split("_")
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+};
+
+// The wallet the user picked last time, remembered across visits
+export const loadPreferredWallet = (): string | null => {
+  try {
+    return window.localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const savePreferredWallet = (address: string) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, address);
+  } catch (error) {
+    console.error("Error saving wallet selection:", error);
+  }
+};
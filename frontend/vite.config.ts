@@ -1,9 +1,18 @@
-import { defineConfig } from 'vite'
+import { defineConfig, searchForWorkspaceRoot } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    // The SDK is linked from ../sdk and must share the app's ethers
+    dedupe: ['ethers'],
+  },
+  server: {
+    fs: {
+      allow: [searchForWorkspaceRoot(process.cwd()), '../sdk'],
+    },
+  },
   build: {
     outDir: 'dist',
     sourcemap: true
@@ -1,18 +1,46 @@
 require("@nomicfoundation/hardhat-toolbox");
 require("dotenv").config();
+const { task } = require("hardhat/config");
+const { TASK_COMPILE } = require("hardhat/builtin-tasks/task-names");
+const { generateAbi } = require("./scripts/generate-abi");
 
 const PRIVATE_KEY = process.env.PRIVATE_KEY || "0x0000000000000000000000000000000000000000000000000000000000000000";
 const BASE_RPC_URL = process.env.BASE_RPC_URL || "https://mainnet.base.org";
+const BASE_SEPOLIA_RPC_URL = process.env.BASE_SEPOLIA_RPC_URL || "https://sepolia.base.org";
 const BASESCAN_API_KEY = process.env.BASESCAN_API_KEY || "";
 
+// Keep the ABI files and the frontend's contract bindings in step with the contracts
+task(TASK_COMPILE).setAction(async (args, hre, runSuper) => {
+  const result = await runSuper(args);
+  await generateAbi({ quiet: args.quiet });
+  return result;
+});
+
 /** @type import('hardhat/config').HardhatUserConfig */
 module.exports = {
-  solidity: "0.8.20",
+  solidity: {
+    version: "0.8.20",
+    settings: {
+      // Keeps RoiTokenSale under the 24 KB contract size limit
+      optimizer: {
+        enabled: true,
+        runs: 200,
+      },
+    },
+  },
   networks: {
     base: {
       url: BASE_RPC_URL,
       accounts: [PRIVATE_KEY],
     },
+    baseSepolia: {
+      url: BASE_SEPOLIA_RPC_URL,
+      accounts: [PRIVATE_KEY],
+    },
+    localhost: {
+      // A node started with `npm run node`
+      url: "http://127.0.0.1:8545",
+    },
     hardhat: {
       // Used for local testing
     }
@@ -20,6 +48,7 @@ module.exports = {
   etherscan: {
     apiKey: {
       base: BASESCAN_API_KEY,
+      baseSepolia: BASESCAN_API_KEY,
     },
     customChains: [
       {
@@ -29,9 +58,23 @@ module.exports = {
           apiURL: "https://api.basescan.org/api",
           browserURL: "https://basescan.org"
         }
+      },
+      {
+        network: "baseSepolia",
+        chainId: 84532,
+        urls: {
+          apiURL: "https://api-sepolia.basescan.org/api",
+          browserURL: "https://sepolia.basescan.org"
+        }
       }
     ]
   },
+  typechain: {
+    // Typed bindings for the tests, regenerated on every compile
+    outDir: "typechain-types",
+    target: "ethers-v6",
+    dontOverrideCompile: false,
+  },
   paths: {
     sources: "./contracts",
     tests: "./test",
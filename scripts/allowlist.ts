@@ -0,0 +1,100 @@
+import fs from "fs";
+import path from "path";
+import { ethers } from "ethers";
+import { StandardMerkleTree } from "@openzeppelin/merkle-tree";
+
+// This script builds the allowlist Merkle tree from a CSV of addresses and
+// tiers and writes the root plus a proof per address, for `setMerkleRoot` on
+// the sale contract and for the frontend's proof lookup.
+//
+// Usage:
+//   npm run allowlist -- <addresses.csv> [output.json]
+//
+// The CSV needs one `address,tier` pair per line; the tier column is optional
+// (defaults to 0) and a header row is allowed. Per-tier caps are set on the
+// contract with `setTierCap`.
+
+const DEFAULT_OUTPUT = path.join(__dirname, "..", "frontend", "public", "allowlist.json");
+
+export interface AllowlistEntry {
+  address: string;
+  tier: number;
+}
+
+export interface AllowlistFile {
+  root: string;
+  entries: Record<string, { tier: number; proof: string[] }>; // keyed by lowercase address
+}
+
+// Read and validate the `address,tier` rows; each address may appear only once
+export function readEntries(csvPath: string): AllowlistEntry[] {
+  const lines = fs.readFileSync(csvPath, "utf8").split(/\r?\n/);
+  const entries = new Map<string, AllowlistEntry>();
+
+  lines.forEach((line, i) => {
+    const [addressCell = "", tierCell = ""] = line.split(",").map(cell => cell.trim());
+    if (!addressCell) return;
+
+    if (!ethers.isAddress(addressCell)) {
+      // Allow a header row, reject anything else
+      if (i === 0) return;
+      throw new Error(`Invalid address on line ${i + 1}: ${addressCell}`);
+    }
+
+    const tier = tierCell === "" ? 0 : Number(tierCell);
+    if (!Number.isInteger(tier) || tier < 0 || tier > 255) {
+      throw new Error(`Invalid tier on line ${i + 1}: ${tierCell}`);
+    }
+
+    const address = ethers.getAddress(addressCell);
+    if (entries.has(address)) {
+      throw new Error(`Address listed twice on line ${i + 1}: ${address}`);
+    }
+    entries.set(address, { address, tier });
+  });
+
+  return [...entries.values()];
+}
+
+export function buildAllowlist(entries: AllowlistEntry[]): AllowlistFile {
+  const tree = StandardMerkleTree.of(
+    entries.map(({ address, tier }) => [address, tier]),
+    ["address", "uint8"]
+  );
+  const result: AllowlistFile["entries"] = {};
+
+  for (const [i, [address, tier]] of tree.entries()) {
+    result[String(address).toLowerCase()] = { tier: Number(tier), proof: tree.getProof(i) };
+  }
+
+  return { root: tree.root, entries: result };
+}
+
+function main() {
+  const [csvPath, outputPath = DEFAULT_OUTPUT] = process.argv.slice(2);
+  if (!csvPath) {
+    console.error("Usage: npm run allowlist -- <addresses.csv> [output.json]");
+    process.exit(1);
+  }
+
+  const entries = readEntries(csvPath);
+  if (entries.length === 0) {
+    console.error("No addresses found in " + csvPath);
+    process.exit(1);
+  }
+
+  const allowlist = buildAllowlist(entries);
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  fs.writeFileSync(outputPath, JSON.stringify(allowlist, null, 2));
+
+  const tiers = [...new Set(entries.map(entry => entry.tier))].sort((a, b) => a - b);
+  console.log(`Allowlisted addresses: ${entries.length} (tiers: ${tiers.join(", ")})`);
+  console.log(`Merkle root: ${allowlist.root}`);
+  console.log("Allowlist file created at: " + outputPath);
+  console.log("\nSet the root on the sale contract with setMerkleRoot, or at deploy time with:");
+  console.log(`MERKLE_ROOT=${allowlist.root}`);
+}
+
+if (require.main === module) {
+  main();
+}
@@ -1,29 +1,7 @@
-const { ethers, run } = require("hardhat");
-const fs = require('fs');
-const path = require('path');
+const { ethers, network, run } = require("hardhat");
+const { recordDeployment } = require('./deployments');
 require("dotenv").config();
 
-// Function to generate ABI files
-async function generateAbi() {
-  // Path to the script
-  const generateAbiPath = path.join(__dirname, 'generate-abi.js');
-  
-  // Check if the script exists
-  if (!fs.existsSync(generateAbiPath)) {
-    console.error('ABI generation script not found.');
-    return;
-  }
-
-  console.log("\nGenerating ABI files...");
-  
-  try {
-    // Execute the script
-    require('./generate-abi.js');
-  } catch (error) {
-    console.error("Error generating ABI:", error);
-  }
-}
-
 async function main() {
   // Get parameters from environment variables
   const USDC_ADDRESS = process.env.USDC_ADDRESS;
@@ -38,12 +16,19 @@ async function main() {
   // Convert 10000 USDC to wei (6 decimals for USDC)
   const HARD_CAP = ethers.parseUnits("10000", 6);
 
+  // Sale window as unix timestamps (defaults: opens in 10 minutes, runs for 30 days)
+  const now = Math.floor(Date.now() / 1000);
+  const START_TIME = Number(process.env.SALE_START_TIME || now + 10 * 60);
+  const END_TIME = Number(process.env.SALE_END_TIME || START_TIME + 30 * 24 * 60 * 60);
+
   console.log("Deploying RoiTokenSale contract...");
   console.log(`USDC Address: ${USDC_ADDRESS}`);
   console.log(`ROI Address: ${ROI_ADDRESS}`);
   console.log(`ROI per USDC: ${ROI_PER_USDC}`);
   console.log(`Soft Cap: ${SOFT_CAP} (5,000 USDC)`);
   console.log(`Hard Cap: ${HARD_CAP} (10,000 USDC)`);
+  console.log(`Start Time: ${START_TIME} (${new Date(START_TIME * 1000).toISOString()})`);
+  console.log(`End Time: ${END_TIME} (${new Date(END_TIME * 1000).toISOString()})`);
 
   // Deploy the contract
   const RoiTokenSale = await ethers.getContractFactory("RoiTokenSale");
@@ -52,27 +37,113 @@ async function main() {
     ROI_ADDRESS,
     ROI_PER_USDC,
     SOFT_CAP,
-    HARD_CAP
+    HARD_CAP,
+    START_TIME,
+    END_TIME
   );
 
   await roiTokenSale.waitForDeployment();
 
   const contractAddress = await roiTokenSale.getAddress();
+  const deployReceipt = await roiTokenSale.deploymentTransaction().wait();
   console.log(`RoiTokenSale deployed to: ${contractAddress}`);
+
+  // Per-wallet contribution limits in USDC (0 or unset = no limit)
+  const MIN_CONTRIBUTION = ethers.parseUnits(process.env.MIN_CONTRIBUTION || "0", 6);
+  const MAX_CONTRIBUTION = ethers.parseUnits(process.env.MAX_CONTRIBUTION || "0", 6);
+  if (MIN_CONTRIBUTION > 0n || MAX_CONTRIBUTION > 0n) {
+    console.log(`\nSetting contribution limits: min ${MIN_CONTRIBUTION}, max ${MAX_CONTRIBUTION}`);
+    await (await roiTokenSale.setContributionLimits(MIN_CONTRIBUTION, MAX_CONTRIBUTION)).wait();
+  }
+
+  // Vest purchases after the sale instead of transferring them immediately (durations in days)
+  if (process.env.VESTING_DURATION_DAYS) {
+    const CLIFF_DURATION = Number(process.env.VESTING_CLIFF_DAYS || 0) * 24 * 60 * 60;
+    const VESTING_DURATION = Number(process.env.VESTING_DURATION_DAYS) * 24 * 60 * 60;
+    console.log(`\nEnabling vesting: cliff ${CLIFF_DURATION}s, duration ${VESTING_DURATION}s`);
+    await (await roiTokenSale.setVestingSchedule(true, CLIFF_DURATION, VESTING_DURATION)).wait();
+  }
+
+  // Sale rounds as a JSON array, e.g. [{"rate":"2000","cap":"2000","startTime":1767225600,"endTime":1767657600}]
+  // with the rate in ROI per USDC and the cap in USDC. Rounds must run back to back inside the sale window
+  const SALE_ROUNDS = JSON.parse(process.env.SALE_ROUNDS || "[]");
+  for (const [index, round] of SALE_ROUNDS.entries()) {
+    const rate = ethers.parseUnits(String(round.rate), 12);
+    const cap = ethers.parseUnits(String(round.cap), 6);
+    console.log(`\nAdding round ${index + 1}: 1 USDC = ${round.rate} ROI, cap ${round.cap} USDC`);
+    await (await roiTokenSale.addRound(rate, cap, round.startTime, round.endTime)).wait();
+  }
+
+  // Other stablecoins accepted as payment, as a comma-separated list of token addresses
+  const PAYMENT_TOKENS = (process.env.PAYMENT_TOKENS || "").split(",").map(token => token.trim()).filter(Boolean);
+  for (const token of PAYMENT_TOKENS) {
+    console.log(`\nAccepting payment token: ${token}`);
+    await (await roiTokenSale.setPaymentToken(token, true)).wait();
+  }
+
+  // Accept ETH, priced by a Chainlink ETH/USD feed whose answers are used for up to PRICE_FEED_MAX_AGE seconds
+  if (process.env.ETH_PRICE_FEED) {
+    const PRICE_FEED_MAX_AGE = Number(process.env.PRICE_FEED_MAX_AGE || 60 * 60);
+    console.log(`\nSetting ETH price feed: ${process.env.ETH_PRICE_FEED} (max age ${PRICE_FEED_MAX_AGE}s)`);
+    await (await roiTokenSale.setPriceFeed(process.env.ETH_PRICE_FEED, PRICE_FEED_MAX_AGE)).wait();
+  }
+
+  // Reward referrers with REFERRAL_REWARD_BPS basis points of each referred purchase, in USDC
+  // or (with REFERRAL_REWARD_IN_ROI=true) in ROI
+  if (process.env.REFERRAL_REWARD_BPS) {
+    const REFERRAL_REWARD_IN_ROI = process.env.REFERRAL_REWARD_IN_ROI === "true";
+    console.log(`\nSetting referral reward: ${process.env.REFERRAL_REWARD_BPS} bps in ${REFERRAL_REWARD_IN_ROI ? "ROI" : "USDC"}`);
+    await (await roiTokenSale.setReferralReward(process.env.REFERRAL_REWARD_BPS, REFERRAL_REWARD_IN_ROI)).wait();
+  }
+
+  // Enable the allowlist if a Merkle root was provided (see scripts/allowlist.ts)
+  if (process.env.MERKLE_ROOT) {
+    console.log(`\nSetting allowlist Merkle root: ${process.env.MERKLE_ROOT}`);
+    await (await roiTokenSale.setMerkleRoot(process.env.MERKLE_ROOT)).wait();
+  }
+
+  // Send withdrawals to a treasury instead of the deployer, and timelock them by WITHDRAWAL_DELAY seconds.
+  // The treasury is set first, as treasury changes are timelocked too once there is a delay
+  if (process.env.TREASURY_ADDRESS) {
+    console.log(`\nSetting treasury: ${process.env.TREASURY_ADDRESS}`);
+    await (await roiTokenSale.setTreasury(process.env.TREASURY_ADDRESS)).wait();
+  }
+  if (process.env.WITHDRAWAL_DELAY) {
+    console.log(`\nSetting withdrawal delay: ${process.env.WITHDRAWAL_DELAY}s`);
+    await (await roiTokenSale.setWithdrawalDelay(process.env.WITHDRAWAL_DELAY)).wait();
+  }
+
+  // Hand the sale to another owner (e.g. a multisig), which must call acceptOwnership to take over
+  if (process.env.NEW_OWNER) {
+    console.log(`\nStarting ownership transfer to: ${process.env.NEW_OWNER}`);
+    await (await roiTokenSale.transferOwnership(process.env.NEW_OWNER)).wait();
+  }
   
-  // Generate ABI files
-  await generateAbi();
-  
-  // Add a reminder to update the .env file
-  console.log("\nDon't forget to update your .env file with the new contract address:");
-  console.log(`SALE_CONTRACT_ADDRESS=${contractAddress}`);
+  // Record the sale in the deployment registry the frontend loads. SALE_ID names the sale when a
+  // network runs several (redeploying with the same id replaces the entry)
+  const { chainId } = await ethers.provider.getNetwork();
+  console.log("\nUpdating deployment manifest...");
+  recordDeployment(
+    Number(chainId),
+    {
+      id: process.env.SALE_ID || "main",
+      address: contractAddress,
+      usdc: USDC_ADDRESS,
+      roi: ROI_ADDRESS,
+      deployBlock: deployReceipt.blockNumber,
+    },
+    { rpcUrl: process.env.FRONTEND_RPC_URL, wsUrl: process.env.FRONTEND_WS_URL }
+  );
+
+  // Nothing to verify on a local node
+  if (chainId === 31337n) return;
 
   // Wait for a few block confirmations before verification
   console.log("\nWaiting for block confirmations...");
   await new Promise(resolve => setTimeout(resolve, 30000)); // 30 seconds delay
   
   // Verify the contract on BaseScan
-  console.log("\nVerifying contract on BaseScan...");
+  console.log(`\nVerifying contract on BaseScan (${network.name})...`);
   try {
     await run("verify:verify", {
       address: contractAddress,
@@ -81,14 +152,16 @@ async function main() {
         ROI_ADDRESS,
         ROI_PER_USDC,
         SOFT_CAP,
-        HARD_CAP
+        HARD_CAP,
+        START_TIME,
+        END_TIME
       ],
     });
     console.log("Contract verification successful!");
   } catch (error) {
     console.error("Error verifying contract:", error);
     console.log("\nIf verification failed, you can manually verify with this command:");
-    console.log(`npx hardhat verify --network base ${contractAddress} ${USDC_ADDRESS} ${ROI_ADDRESS} ${ROI_PER_USDC} ${SOFT_CAP} ${HARD_CAP}`);
+    console.log(`npx hardhat verify --network ${network.name} ${contractAddress} ${USDC_ADDRESS} ${ROI_ADDRESS} ${ROI_PER_USDC} ${SOFT_CAP} ${HARD_CAP} ${START_TIME} ${END_TIME}`);
   }
 }
 
@@ -0,0 +1,55 @@
+const fs = require("fs");
+const path = require("path");
+
+// The deployment registry: every network the sale is deployed to and its sale contracts.
+// The copy in frontend/public is what the frontend loads at runtime (see frontend/src/utils/deployments.ts)
+const MANIFEST_PATH = path.join(__dirname, "..", "deployments", "deployments.json");
+const FRONTEND_MANIFEST_PATH = path.join(__dirname, "..", "frontend", "public", "deployments.json");
+
+// Public endpoints written to the manifest, so private RPC URLs from .env never reach the frontend
+const NETWORK_DEFAULTS = {
+  8453: { name: "Base", rpcUrl: "https://mainnet.base.org", explorerUrl: "https://basescan.org" },
+  84532: { name: "Base Sepolia", rpcUrl: "https://sepolia.base.org", explorerUrl: "https://sepolia.basescan.org" },
+  31337: { name: "Hardhat", rpcUrl: "http://127.0.0.1:8545", explorerUrl: "" },
+};
+
+function readManifest(manifestPath = MANIFEST_PATH) {
+  if (!fs.existsSync(manifestPath)) return null;
+  return JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+}
+
+// Add (or replace, when the id is already listed) a sale for `chainId` and write the manifest
+// to every path. `network` overrides the public RPC / explorer defaults for the chain
+function recordDeployment(chainId, sale, network = {}, manifestPaths = [MANIFEST_PATH, FRONTEND_MANIFEST_PATH]) {
+  const manifest = readManifest(manifestPaths[0]) || { defaultChainId: chainId, networks: {} };
+  const key = String(chainId);
+  const existing = manifest.networks[key] || { sales: [] };
+  const defaults = NETWORK_DEFAULTS[chainId] || { name: `Chain ${chainId}`, rpcUrl: "", explorerUrl: "" };
+
+  const wsUrl = network.wsUrl || existing.wsUrl;
+
+  manifest.networks[key] = {
+    chainId: Number(chainId),
+    name: network.name || existing.name || defaults.name,
+    rpcUrl: network.rpcUrl || existing.rpcUrl || defaults.rpcUrl,
+    ...(wsUrl ? { wsUrl } : {}),
+    explorerUrl: network.explorerUrl ?? existing.explorerUrl ?? defaults.explorerUrl,
+    sales: [...existing.sales.filter(listed => listed.id !== sale.id), sale],
+  };
+  if (!manifest.networks[manifest.defaultChainId]) manifest.defaultChainId = Number(chainId);
+
+  const content = JSON.stringify(manifest, null, 2) + "\n";
+  for (const manifestPath of manifestPaths) {
+    fs.mkdirSync(path.dirname(manifestPath), { recursive: true });
+    fs.writeFileSync(manifestPath, content);
+    console.log(`Deployment manifest written to: ${manifestPath}`);
+  }
+  return manifest;
+}
+
+module.exports = {
+  MANIFEST_PATH,
+  FRONTEND_MANIFEST_PATH,
+  readManifest,
+  recordDeployment,
+};
@@ -1,59 +1,110 @@
+const { execFileSync } = require('child_process');
 const fs = require('fs');
+const os = require('os');
 const path = require('path');
+const { runTypeChain } = require('typechain');
 
-// This script extracts the ABI from the compiled contract artifacts
-// and saves it to the abi folder for use in the frontend
+// This script extracts the ABI from the compiled contract artifacts, saves it to the abi folder
+// and generates the typed contract bindings the SDK uses. It runs after every compile.
+// With --check it fails instead when that changed the committed files, so CI catches
+// contract changes whose ABI and bindings were not regenerated
 
-async function main() {
-  // Create abi directory if it doesn't exist
-  const abiDir = path.join(__dirname, '..', 'abi');
-  if (!fs.existsSync(abiDir)) {
-    fs.mkdirSync(abiDir, { recursive: true });
-  }
+const rootDir = path.join(__dirname, '..');
+const artifactsDir = path.join(rootDir, 'artifacts');
+
+// Where the SDK bindings are written. Generated code: do not edit by hand
+const bindingsDir = path.join(rootDir, 'sdk', 'src', 'contracts');
+
+// Contracts the SDK talks to, by binding name and artifact path
+const BINDINGS = {
+  RoiTokenSale: 'contracts/RoiTokenSale.sol/RoiTokenSale.json',
+  // Any ERC20 the sale accepts or sells, including the EIP-2612 permit functions
+  ERC20: '@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol/ERC20Permit.json',
+  IPriceFeed: 'contracts/IPriceFeed.sol/IPriceFeed.json',
+};
+
+// USDC predates EIP-5267 and exposes its EIP-712 version through version() instead
+const VERSION_FRAGMENT = {
+  type: 'function',
+  name: 'version',
+  inputs: [],
+  outputs: [{ internalType: 'string', name: '', type: 'string' }],
+  stateMutability: 'view',
+};
 
-  // Create frontend/abi directory if it doesn't exist
-  const frontendAbiDir = path.join(__dirname, '..', 'frontend', 'abi');
-  if (!fs.existsSync(frontendAbiDir)) {
-    fs.mkdirSync(frontendAbiDir, { recursive: true });
+const readAbi = (artifactPath) => {
+  const fullPath = path.join(artifactsDir, artifactPath);
+  if (!fs.existsSync(fullPath)) {
+    throw new Error(`Contract artifact not found at ${fullPath}. Please compile the contracts first with: npx hardhat compile`);
   }
+  return JSON.parse(fs.readFileSync(fullPath, 'utf8')).abi;
+};
+
+// Write the raw sale ABI to abi/ for tools outside this repo
+function writeAbiFile(log) {
+  const abiDir = path.join(rootDir, 'abi');
+  fs.mkdirSync(abiDir, { recursive: true });
+  fs.writeFileSync(path.join(abiDir, 'Launchpad.json'), JSON.stringify({ abi: readAbi(BINDINGS.RoiTokenSale) }, null, 2));
+  log('ABI file created at: ' + path.join(abiDir, 'Launchpad.json'));
+}
+
+// Generate ethers v6 bindings for the SDK. They are built from the ABIs alone so the
+// factories only connect to deployed contracts and do not bundle any bytecode
+async function writeBindings(log) {
+  const inputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'roi-sale-abi-'));
+
+  try {
+    const files = Object.entries(BINDINGS).map(([name, artifactPath]) => {
+      const abi = readAbi(artifactPath);
+      const file = path.join(inputDir, `${name}.json`);
+      fs.writeFileSync(file, JSON.stringify(name === 'ERC20' ? [...abi, VERSION_FRAGMENT] : abi));
+      return file;
+    });
 
-  // Path to the compiled contract artifact
-  const contractArtifactPath = path.join(
-    __dirname, 
-    '..', 
-    'artifacts', 
-    'contracts', 
-    'RoiTokenSale.sol', 
-    'RoiTokenSale.json'
-  );
-
-  // Check if the artifact exists
-  if (!fs.existsSync(contractArtifactPath)) {
-    console.error('Contract artifact not found. Please compile the contract first with: npx hardhat compile');
-    process.exit(1);
+    fs.rmSync(bindingsDir, { recursive: true, force: true });
+    await runTypeChain({
+      cwd: rootDir,
+      filesToProcess: files,
+      allFiles: files,
+      outDir: bindingsDir,
+      target: 'ethers-v6',
+    });
+    log('Contract bindings created at: ' + bindingsDir);
+  } finally {
+    fs.rmSync(inputDir, { recursive: true, force: true });
   }
+}
+
+async function generateAbi({ quiet = false } = {}) {
+  const log = quiet ? () => {} : console.log;
+  writeAbiFile(log);
+  await writeBindings(log);
+}
+
+// The generated files git sees as changed, added or removed since the last commit
+function staleFiles() {
+  return execFileSync('git', ['status', '--porcelain', '--', 'abi', path.relative(rootDir, bindingsDir)], {
+    cwd: rootDir,
+    encoding: 'utf8',
+  }).trim();
+}
 
-  // Read the artifact JSON
-  const contractArtifact = JSON.parse(fs.readFileSync(contractArtifactPath, 'utf8'));
-  
-  // Extract the ABI
-  const abi = contractArtifact.abi;
-  
-  // Create the ABI file content
-  const abiFileContent = JSON.stringify({ abi }, null, 2);
-  
-  // Write to the abi folder
-  fs.writeFileSync(path.join(abiDir, 'Launchpad.json'), abiFileContent);
-  console.log('ABI file created at: ' + path.join(abiDir, 'Launchpad.json'));
-  
-  // Also write to the frontend/abi folder
-  fs.writeFileSync(path.join(frontendAbiDir, 'Launchpad.json'), abiFileContent);
-  console.log('ABI file created at: ' + path.join(frontendAbiDir, 'Launchpad.json'));
+async function checkAbi() {
+  await generateAbi({ quiet: true });
+  const stale = staleFiles();
+  if (stale) {
+    throw new Error(`The ABI and SDK bindings are out of date with the contracts. Commit the regenerated files:\n${stale}`);
+  }
+  console.log('ABI and SDK bindings are up to date');
 }
 
-main()
-  .then(() => process.exit(0))
-  .catch(error => {
-    console.error(error);
-    process.exit(1);
-  });
+module.exports = { generateAbi };
+
+if (require.main === module) {
+  (process.argv.includes('--check') ? checkAbi() : generateAbi())
+    .then(() => process.exit(0))
+    .catch(error => {
+      console.error(error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,392 @@
+import fs from "fs";
+import path from "path";
+import dotenv from "dotenv";
+import { ethers } from "ethers";
+import {
+  SaleClient,
+  formatRate,
+  getCurrentRate,
+  getSalePhase,
+  toSaleError,
+} from "@private-sale/sdk";
+import type { BoundCall, SaleAddresses, SalePurchase, SaleRefund } from "@private-sale/sdk";
+
+dotenv.config();
+
+// This script reads and operates a deployed sale through the SDK, the same way the frontend does.
+//
+// Usage:
+//   npm run sale -- <command> [arguments] [options]
+//
+// Commands:
+//   status                        caps, progress, window, rate, owner and what the sale holds
+//   quote <amount> [usdc|roi]     ROI bought with an amount of USDC, or USDC needed for an amount of ROI
+//   fund-roi <amount>             top up the sale's ROI inventory from the operator's balance
+//   withdraw-usdc <amount>        withdraw raised USDC to the treasury (scheduled with a withdrawal delay)
+//   withdraw-roi <amount>         withdraw unsold ROI to the treasury (scheduled with a withdrawal delay)
+//   export-buyers [--out <file>]  every buyer with their total USDC, ROI, number of purchases and whether
+//                                 they took a refund, as CSV
+//   transfer-ownership <address>  offer the sale to a new owner, who must accept it
+//
+// Options:
+//   --network <name>  base, baseSepolia or localhost (default: the manifest's default network)
+//   --chain <id>      the same, by chain ID
+//   --sale <id>       a sale listed for the network (default: its latest sale)
+//   --rpc <url>       RPC endpoint (default: BASE_RPC_URL / BASE_SEPOLIA_RPC_URL, then the manifest's)
+//   --dry-run         simulate transactions and print them instead of sending them
+//   --from <address>  the sender to simulate as with --dry-run, when PRIVATE_KEY is not that account
+//   --json            print the result as JSON
+//
+// Transactions are sent from PRIVATE_KEY, or from the node's first account on localhost.
+// The sale is looked up in deployments/deployments.json.
+
+const MANIFEST_PATH = path.join(__dirname, "..", "deployments", "deployments.json");
+
+// Hardhat network names (see hardhat.config.js) and their chain IDs
+const NETWORK_CHAIN_IDS: Record<string, number> = {
+  base: 8453,
+  baseSepolia: 84532,
+  localhost: 31337,
+};
+
+// Private RPC endpoints from .env, used instead of the public ones in the manifest
+const RPC_URL_ENV: Record<number, string> = {
+  8453: "BASE_RPC_URL",
+  84532: "BASE_SEPOLIA_RPC_URL",
+};
+
+const LOCAL_CHAIN_ID = 31337;
+
+const USAGE = "Usage: npm run sale -- <status | quote | fund-roi | withdraw-usdc | withdraw-roi | export-buyers | "
+  + "transfer-ownership> [arguments] [--network <name>] [--chain <id>] [--sale <id>] [--rpc <url>] [--dry-run] "
+  + "[--from <address>] [--json] [--out <file>]";
+
+export interface CliOptions {
+  network?: string;
+  chain?: string;
+  sale?: string;
+  rpc?: string;
+  from?: string;
+  out?: string;
+  dryRun?: boolean;
+  json?: boolean;
+}
+
+// A command's result, printed as label / value pairs or as JSON
+export type Report = Record<string, unknown>;
+
+export interface BuyerRow {
+  address: string;
+  usdc: string;
+  roi: string;
+  purchases: number;
+  refunded: boolean; // Took a refund, so the totals were paid back and hold no ROI
+}
+
+const VALUE_FLAGS = ["network", "chain", "sale", "rpc", "from", "out"];
+const BOOLEAN_FLAGS: Record<string, keyof CliOptions> = { "dry-run": "dryRun", json: "json" };
+
+// Split `--name value` and `--flag` options from positional arguments
+export function parseArgs(argv: string[]): { args: string[]; options: CliOptions } {
+  const args: string[] = [];
+  const options: Record<string, string | boolean> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const name = argv[i].startsWith("--") ? argv[i].slice(2) : null;
+    if (name === null) {
+      args.push(argv[i]);
+    } else if (BOOLEAN_FLAGS[name]) {
+      options[BOOLEAN_FLAGS[name]] = true;
+    } else if (VALUE_FLAGS.includes(name)) {
+      const value = argv[++i];
+      if (value === undefined) throw new Error(`Missing value for --${name}`);
+      options[name] = value;
+    } else {
+      throw new Error(`Unknown option --${name}`);
+    }
+  }
+  return { args, options };
+}
+
+// The sale to talk to and an RPC endpoint for its network, from the deployment registry
+export function loadSale(
+  options: CliOptions,
+  manifestPath = MANIFEST_PATH
+): { sale: SaleAddresses & { id: string }; chainId: number; rpcUrl: string } {
+  if (!fs.existsSync(manifestPath)) throw new Error(`No deployment manifest at ${manifestPath}`);
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+
+  if (options.network && !NETWORK_CHAIN_IDS[options.network]) {
+    throw new Error(`Unknown network "${options.network}" (expected ${Object.keys(NETWORK_CHAIN_IDS).join(", ")})`);
+  }
+  const chainId = options.network
+    ? NETWORK_CHAIN_IDS[options.network]
+    : Number(options.chain ?? manifest.defaultChainId);
+  const network = manifest.networks[chainId];
+  if (!network) throw new Error(`No deployment for chain ${chainId}`);
+
+  const sales: (SaleAddresses & { id: string })[] = network.sales;
+  const sale = options.sale
+    ? sales.find(candidate => candidate.id === options.sale)
+    : sales[sales.length - 1];
+  if (!sale) throw new Error(`No sale "${options.sale}" on ${network.name}`);
+
+  const envUrl = RPC_URL_ENV[chainId] && process.env[RPC_URL_ENV[chainId]];
+  return { sale, chainId, rpcUrl: options.rpc ?? (envUrl || network.rpcUrl) };
+}
+
+// The account transactions are sent (or, with --dry-run, simulated) from
+export async function getSigner(
+  provider: ethers.JsonRpcProvider,
+  chainId: number,
+  options: CliOptions
+): Promise<ethers.Signer> {
+  if (options.dryRun && options.from) return new ethers.VoidSigner(ethers.getAddress(options.from), provider);
+  // hardhat.config.js falls back to the all-zero key, which is not a usable account
+  if (process.env.PRIVATE_KEY === ethers.ZeroHash) {
+    throw new Error("PRIVATE_KEY is the all-zero placeholder; set it to the operator's key (or pass --dry-run --from <address>)");
+  }
+  if (process.env.PRIVATE_KEY && ethers.isHexString(process.env.PRIVATE_KEY, 32)) {
+    return new ethers.Wallet(process.env.PRIVATE_KEY, provider);
+  }
+  if (chainId === LOCAL_CHAIN_ID) return provider.getSigner(0);
+  throw new Error("Set PRIVATE_KEY to send transactions (or pass --dry-run --from <address>)");
+}
+
+const parseAmount = (amount: string | undefined, decimals: number): bigint => {
+  if (!amount) throw new Error("An amount is required");
+  const value = ethers.parseUnits(amount, decimals);
+  if (value <= BigInt(0)) throw new Error("Amount must be greater than zero");
+  return value;
+};
+
+// Simulate a transaction and print it with --dry-run, otherwise send it and wait for it to be mined
+async function execute(call: BoundCall, options: CliOptions): Promise<Report> {
+  try {
+    if (options.dryRun) {
+      await call.staticCall();
+      const [gasLimit, tx] = await Promise.all([call.estimateGas(), call.populateTransaction()]);
+      return { dryRun: true, to: tx.to, data: tx.data, gasLimit };
+    }
+
+    const tx = await call.send();
+    const receipt = await tx.wait();
+    return { txHash: tx.hash, blockNumber: receipt?.blockNumber ?? null };
+  } catch (error) {
+    // Reverts and wallet errors get a readable message; anything else is shown as it is
+    const saleError = toSaleError(error);
+    throw saleError.key === "unknown" ? error : saleError;
+  }
+}
+
+// The latest block's timestamp, which a local node may have moved ahead of the wall clock
+const chainTime = async (client: SaleClient): Promise<number> => (
+  (await client.provider.getBlock("latest"))?.timestamp ?? Math.floor(Date.now() / 1000)
+);
+
+export async function status(client: SaleClient): Promise<Report> {
+  const [state, now] = await Promise.all([client.getState(), chainTime(client)]);
+  const decimals = { usdc: state.usdcDecimals, roi: state.roiDecimals };
+  const [owner, holdings] = await Promise.all([client.getOwner(), client.getHoldings()]);
+
+  return {
+    sale: client.sale.address,
+    phase: getSalePhase(state, now),
+    paused: state.paused,
+    startTime: new Date(state.startTime * 1000).toISOString(),
+    endTime: new Date(state.endTime * 1000).toISOString(),
+    raised: ethers.formatUnits(state.totalRaised, state.usdcDecimals),
+    softCap: ethers.formatUnits(state.softCap, state.usdcDecimals),
+    hardCap: ethers.formatUnits(state.hardCap, state.usdcDecimals),
+    softCapReached: state.isSoftCapReached,
+    roiPerUSDC: formatRate(getCurrentRate(state, now), decimals),
+    round: state.rounds.length > 0
+      ? `${Math.min(state.currentRound + 1, state.rounds.length)} of ${state.rounds.length}`
+      : null,
+    usdcBalance: ethers.formatUnits(holdings.saleBalances.usdc, state.usdcDecimals),
+    roiBalance: ethers.formatUnits(holdings.saleBalances.roi, state.roiDecimals),
+    owner,
+    pendingOwner: holdings.adminState.pendingOwner === ethers.ZeroAddress ? null : holdings.adminState.pendingOwner,
+    treasury: holdings.adminState.treasury === ethers.ZeroAddress ? owner : holdings.adminState.treasury,
+    pendingTreasury: holdings.adminState.treasuryReadyAt === 0
+      ? null
+      : `${holdings.adminState.pendingTreasury === ethers.ZeroAddress ? owner : holdings.adminState.pendingTreasury} from ${new Date(holdings.adminState.treasuryReadyAt * 1000).toISOString()}`,
+    withdrawalDelay: holdings.adminState.withdrawalDelay,
+    scheduledWithdrawals: holdings.adminState.withdrawals.length,
+  };
+}
+
+export async function quote(client: SaleClient, amount: string | undefined, from = "usdc"): Promise<Report> {
+  if (!amount) throw new Error("An amount is required");
+  if (from !== "usdc" && from !== "roi") throw new Error(`Expected usdc or roi, got "${from}"`);
+
+  const { roiDecimals, usdcDecimals } = await client.getParams();
+  const result = await client.quote(amount, from, await chainTime(client));
+  return {
+    usdc: ethers.formatUnits(result.usdcAmount, usdcDecimals),
+    roi: ethers.formatUnits(result.roiAmount, roiDecimals),
+    warnings: result.warnings,
+  };
+}
+
+export async function fundROI(client: SaleClient, amount: string | undefined, options: CliOptions): Promise<Report> {
+  const { roiDecimals } = await client.getParams();
+  const value = parseAmount(amount, roiDecimals);
+  return {
+    action: "fund-roi",
+    amount: ethers.formatUnits(value, roiDecimals),
+    ...await execute(client.fundROICall(value), options),
+  };
+}
+
+export async function withdraw(
+  client: SaleClient,
+  token: "usdc" | "roi",
+  amount: string | undefined,
+  options: CliOptions
+): Promise<Report> {
+  const params = await client.getParams();
+  const decimals = token === "usdc" ? params.usdcDecimals : params.roiDecimals;
+  const value = parseAmount(amount, decimals);
+  const { call, scheduled } = await client.withdrawalCall(token === "usdc" ? client.sale.usdc : client.sale.roi, value);
+  return {
+    action: `withdraw-${token}`,
+    amount: ethers.formatUnits(value, decimals),
+    scheduled,
+    ...await execute(call, options),
+  };
+}
+
+export async function transferOwnership(
+  client: SaleClient,
+  newOwner: string | undefined,
+  options: CliOptions
+): Promise<Report> {
+  if (!newOwner || !ethers.isAddress(newOwner)) throw new Error("A new owner address is required");
+  const pendingOwner = ethers.getAddress(newOwner);
+  return {
+    action: "transfer-ownership",
+    pendingOwner,
+    ...await execute(client.transferOwnershipCall(pendingOwner), options),
+  };
+}
+
+// Every buyer's purchases added up, in order of their first purchase, marking those who took a refund
+export function summarizeBuyers(
+  purchases: SalePurchase[],
+  refunds: SaleRefund[],
+  usdcDecimals: number,
+  roiDecimals: number
+): BuyerRow[] {
+  const refunded = new Set(refunds.map(refund => refund.buyer));
+  const buyers = new Map<string, { usdc: bigint; roi: bigint; purchases: number }>();
+  for (const purchase of purchases) {
+    const buyer = buyers.get(purchase.buyer) ?? { usdc: BigInt(0), roi: BigInt(0), purchases: 0 };
+    buyer.usdc += purchase.usdcAmount;
+    buyer.roi += purchase.roiAmount;
+    buyer.purchases += 1;
+    buyers.set(purchase.buyer, buyer);
+  }
+
+  return [...buyers].map(([address, buyer]) => ({
+    address,
+    usdc: ethers.formatUnits(buyer.usdc, usdcDecimals),
+    roi: ethers.formatUnits(buyer.roi, roiDecimals),
+    purchases: buyer.purchases,
+    refunded: refunded.has(address),
+  }));
+}
+
+export async function exportBuyers(client: SaleClient): Promise<BuyerRow[]> {
+  const [{ usdcDecimals, roiDecimals }, purchases, refunds] = await Promise.all([
+    client.getParams(),
+    client.getAllPurchases(),
+    client.getAllRefunds(),
+  ]);
+  return summarizeBuyers(purchases, refunds, usdcDecimals, roiDecimals);
+}
+
+export const toCsv = (rows: BuyerRow[]): string => [
+  "address,usdc,roi,purchases,refunded",
+  ...rows.map(row => `${row.address},${row.usdc},${row.roi},${row.purchases},${row.refunded}`),
+].join("\n") + "\n";
+
+const toJson = (value: unknown): string => JSON.stringify(
+  value,
+  (_key, field) => (typeof field === "bigint" ? field.toString() : field),
+  2
+);
+
+const printReport = (report: Report) => {
+  const width = Math.max(...Object.keys(report).map(key => key.length)) + 2;
+  for (const [key, value] of Object.entries(report)) {
+    if (value === null || (Array.isArray(value) && value.length === 0)) continue;
+    console.log(`${`${key}:`.padEnd(width)}${Array.isArray(value) ? value.join("; ") : String(value)}`);
+  }
+};
+
+// Run one command against `client`, which must have a signer for the commands that send
+export async function runCommand(
+  client: SaleClient,
+  command: string,
+  args: string[],
+  options: CliOptions
+): Promise<Report | BuyerRow[]> {
+  switch (command) {
+    case "status":
+      return status(client);
+    case "quote":
+      return quote(client, args[0], args[1]);
+    case "fund-roi":
+      return fundROI(client, args[0], options);
+    case "withdraw-usdc":
+      return withdraw(client, "usdc", args[0], options);
+    case "withdraw-roi":
+      return withdraw(client, "roi", args[0], options);
+    case "transfer-ownership":
+      return transferOwnership(client, args[0], options);
+    case "export-buyers":
+      return exportBuyers(client);
+    default:
+      throw new Error(USAGE);
+  }
+}
+
+const READ_COMMANDS = ["status", "quote", "export-buyers"];
+
+async function main() {
+  const { args: [command, ...args], options } = parseArgs(process.argv.slice(2));
+  if (!command) throw new Error(USAGE);
+
+  const { sale, chainId, rpcUrl } = loadSale(options);
+  const provider = new ethers.JsonRpcProvider(rpcUrl, chainId, { staticNetwork: true });
+  try {
+    const reader = new SaleClient(sale, provider);
+    const client = READ_COMMANDS.includes(command)
+      ? reader
+      : reader.withSigner(await getSigner(provider, chainId, options));
+    const result = await runCommand(client, command, args, options);
+
+    if (Array.isArray(result)) {
+      const output = options.json ? toJson(result) + "\n" : toCsv(result);
+      if (options.out) {
+        fs.writeFileSync(options.out, output);
+        console.error(`${result.length} buyers written to ${options.out}`);
+      } else {
+        process.stdout.write(output);
+      }
+    } else if (options.json) {
+      console.log(toJson(result));
+    } else {
+      printReport(result);
+    }
+  } finally {
+    provider.destroy();
+  }
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,99 @@
+const { ethers } = require("hardhat");
+const { recordDeployment } = require("./deployments");
+
+// This script deploys mock USDC/ROI tokens and a RoiTokenSale to a local
+// Hardhat node and makes a few purchases, so the frontend's event-based
+// views (purchase history, stats) have data to show.
+//
+// Usage:
+//   npx hardhat node
+//   npm run seed:local
+
+async function main() {
+  const [owner, ...buyers] = await ethers.getSigners();
+
+  const ROI_PER_USDC = ethers.parseUnits("1250", 12); // 1 USDC = 1250 ROI
+  const SOFT_CAP = ethers.parseUnits("5000", 6);
+  const HARD_CAP = ethers.parseUnits("10000", 6);
+  const ROI_INVENTORY = ethers.parseUnits("20000000", 18);
+
+  // Deploy mock tokens (USDC supports permit, like on Base)
+  const MockToken = await ethers.getContractFactory("MockERC20");
+  const MockPermitToken = await ethers.getContractFactory("MockERC20Permit");
+  const usdcToken = await MockPermitToken.deploy("USD Coin", "USDC", 6);
+  const roiToken = await MockToken.deploy("ROI Token", "ROI", 18);
+  await usdcToken.waitForDeployment();
+  await roiToken.waitForDeployment();
+
+  // Deploy the sale (open now, for 30 days) and fund it with ROI
+  const startTime = (await ethers.provider.getBlock("latest")).timestamp;
+  const endTime = startTime + 30 * 24 * 60 * 60;
+  const RoiTokenSale = await ethers.getContractFactory("RoiTokenSale");
+  const roiTokenSale = await RoiTokenSale.deploy(
+    await usdcToken.getAddress(),
+    await roiToken.getAddress(),
+    ROI_PER_USDC,
+    SOFT_CAP,
+    HARD_CAP,
+    startTime,
+    endTime
+  );
+  await roiTokenSale.waitForDeployment();
+  const saleAddress = await roiTokenSale.getAddress();
+  const deployBlock = await ethers.provider.getBlockNumber();
+
+  await (await roiToken.mint(saleAddress, ROI_INVENTORY)).wait();
+
+  // Accept a second stablecoin, and ETH at 2,500 USD from a mock price feed
+  const usdbcToken = await MockToken.deploy("USD Base Coin", "USDbC", 6);
+  await usdbcToken.waitForDeployment();
+  await (await roiTokenSale.setPaymentToken(await usdbcToken.getAddress(), true)).wait();
+  const MockPriceFeed = await ethers.getContractFactory("MockPriceFeed");
+  const priceFeed = await MockPriceFeed.deploy(8, ethers.parseUnits("2500", 8));
+  await priceFeed.waitForDeployment();
+  await (await roiTokenSale.setPriceFeed(await priceFeed.getAddress(), 30 * 24 * 60 * 60)).wait();
+  for (const buyer of buyers.slice(0, 3)) {
+    await (await usdbcToken.mint(buyer.address, ethers.parseUnits("1000", 6))).wait();
+  }
+
+  // Reward referrers with 5% of referred purchases, in USDC
+  await (await roiTokenSale.setReferralReward(500, false)).wait();
+
+  // Make a few purchases from the first buyers, some referred by the first one
+  const purchases = ["250", "1000", "75.5", "500", "1200"];
+  for (let i = 0; i < purchases.length; i++) {
+    const buyer = buyers[i % 3];
+    const amount = ethers.parseUnits(purchases[i], 6);
+    const referrer = buyer === buyers[0] ? ethers.ZeroAddress : buyers[0].address;
+
+    await (await usdcToken.mint(buyer.address, amount)).wait();
+    await (await usdcToken.connect(buyer).approve(saleAddress, amount)).wait();
+    await (await roiTokenSale.connect(buyer).buy(amount, 0, [], referrer)).wait();
+    console.log(`${buyer.address} bought ROI for ${purchases[i]} USDC`);
+  }
+
+  // And one paid in ETH
+  const ethPurchase = ethers.parseUnits("300", 6);
+  const ethAmount = await roiTokenSale.ethAmountFor(ethPurchase);
+  await (await roiTokenSale.connect(buyers[3]).buyWithETH(ethPurchase, 0, [], ethers.ZeroAddress, { value: ethAmount })).wait();
+  console.log(`${buyers[3].address} bought ROI for 300 USDC worth of ETH`);
+
+  console.log(`\nOwner: ${owner.address}`);
+
+  // Point the frontend at the seeded sale
+  const { chainId } = await ethers.provider.getNetwork();
+  recordDeployment(Number(chainId), {
+    id: "local",
+    address: saleAddress,
+    usdc: await usdcToken.getAddress(),
+    roi: await roiToken.getAddress(),
+    deployBlock,
+  });
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
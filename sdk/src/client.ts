@@ -0,0 +1,551 @@
+import { ethers } from "ethers";
+import { ERC20__factory } from "./contracts";
+import type { RoiTokenSale } from "./contracts";
+import { LOG_BLOCK_RANGE, getBlockTimestamps, queryFilterPaginated } from "./events";
+import { contractCall, multicall } from "./multicall";
+import { signPermit, supportsPermit } from "./permit";
+import { getErrorText, toSaleError } from "./errors";
+import type { Locale } from "./errors";
+import { getROIForUSDC, quoteFromROI, quoteFromUSDC } from "./quote";
+import type { Quote } from "./quote";
+import { getCurrentRate } from "./rounds";
+import { ETH_ASSET, withPriceBuffer } from "./payments";
+import type { EthPrice, PaymentAsset } from "./payments";
+import { checkPurchaseBalances } from "./preflight";
+import type { PurchasePreflight } from "./preflight";
+import type { ReferralRecord } from "./referrals";
+import {
+  connectSale,
+  fetchAccountState,
+  fetchEthPrice,
+  fetchPaymentAssets,
+  fetchSaleHoldings,
+  fetchSaleParams,
+  fetchSaleState,
+} from "./saleState";
+import type {
+  AccountState,
+  ContractState,
+  PaymentAssets,
+  PriceFeed,
+  PurchaseHistoryPage,
+  SaleAddresses,
+  SaleContracts,
+  SaleHoldings,
+  SaleParams,
+  SalePurchase,
+  SaleRefund,
+  WithdrawalRecord,
+} from "./saleState";
+
+// Blocks scanned per page of purchase history by default (~1 day on Base)
+export const HISTORY_PAGE_BLOCKS = 50000;
+
+export interface SaleClientOptions {
+  signer?: ethers.Signer | null; // sends transactions; the client only reads without one
+  locale?: Locale;               // language of quote warnings and pre-flight errors
+  logBlockRange?: number;        // max block span per eth_getLogs call
+  historyPageBlocks?: number;    // blocks scanned per page of purchase history
+}
+
+// Purchase options that depend on the buyer rather than the amount
+export interface PurchaseOptions {
+  tier?: number;      // allowlist tier, 0 when the allowlist is off
+  proof?: string[];   // allowlist proof, empty when the allowlist is off
+  referrer?: string;  // zero address for none
+}
+
+// A withdrawal sent straight away, or scheduled when the sale has a withdrawal delay
+export interface WithdrawalTransaction {
+  tx: ethers.ContractTransactionResponse;
+  scheduled: boolean;
+}
+
+// A contract method bound to its arguments, so it can be simulated, estimated, populated and sent alike
+export interface BoundCall {
+  staticCall: () => Promise<unknown>;
+  estimateGas: () => Promise<bigint>;
+  populateTransaction: () => Promise<ethers.ContractTransaction>;
+  send: () => Promise<ethers.ContractTransactionResponse>;
+}
+
+// A withdrawal call, and whether it schedules the withdrawal rather than sending the funds
+export interface WithdrawalCall {
+  call: BoundCall;
+  scheduled: boolean;
+}
+
+// Values fixed at deployment, read once and shared by a client and the clients derived from it
+interface FixedReads {
+  params?: Promise<SaleParams>;
+  permit?: Promise<boolean>;
+}
+
+export const bindCall = <A extends unknown[]>(
+  method: {
+    staticCall: (...args: A) => Promise<unknown>;
+    estimateGas: (...args: A) => Promise<bigint>;
+    populateTransaction: (...args: A) => Promise<ethers.ContractTransaction>;
+    send: (...args: A) => Promise<ethers.ContractTransactionResponse>;
+  },
+  ...args: A
+): BoundCall => ({
+  staticCall: () => method.staticCall(...args),
+  estimateGas: () => method.estimateGas(...args),
+  populateTransaction: () => method.populateTransaction(...args),
+  send: () => method.send(...args),
+});
+
+// The sale call for a pre-flighted purchase
+const getPurchaseCall = (
+  saleContract: RoiTokenSale,
+  { asset, usdcAmount, paymentAmount, tier, proof, referrer, permit }: PurchasePreflight
+): BoundCall => {
+  if (asset.kind === "eth") {
+    return bindCall(saleContract.buyWithETH, usdcAmount, tier, proof, referrer, { value: paymentAmount });
+  }
+  if (asset.kind === "token") {
+    return bindCall(saleContract.buyWithToken, asset.address, usdcAmount, tier, proof, referrer);
+  }
+  return permit
+    ? bindCall(saleContract.buyWithPermit, usdcAmount, tier, proof, referrer, permit.deadline, permit.v, permit.r, permit.s)
+    : bindCall(saleContract.buy, usdcAmount, tier, proof, referrer);
+};
+
+// Reads, quotes, purchases, owner actions and event history for one deployed sale, with no
+// dependency on React or the browser. Transactions are returned as soon as they are sent;
+// waiting for them is up to the caller
+export class SaleClient {
+  readonly sale: SaleAddresses;
+  readonly provider: ethers.Provider;
+  readonly contracts: SaleContracts;              // read-only
+  readonly signerContracts: SaleContracts | null; // connected to the signer, null without one
+  readonly locale: Locale;
+  private readonly options: SaleClientOptions;
+  private fixed: FixedReads = {};
+
+  constructor(sale: SaleAddresses, provider: ethers.Provider, options: SaleClientOptions = {}) {
+    this.sale = sale;
+    this.provider = provider;
+    this.contracts = connectSale(sale, provider);
+    this.signerContracts = options.signer ? connectSale(sale, options.signer) : null;
+    this.locale = options.locale ?? "en";
+    this.options = options;
+  }
+
+  // The same sale sending through `signer`, reusing what this client has already read
+  withSigner(signer: ethers.Signer | null): SaleClient {
+    const client = new SaleClient(this.sale, this.provider, { ...this.options, signer });
+    client.fixed = this.fixed;
+    return client;
+  }
+
+  private requireSigner(): SaleContracts {
+    if (!this.signerContracts) throw new Error("A signer is required to send transactions");
+    return this.signerContracts;
+  }
+
+  // Caps, rate and token decimals never change, so they are read once
+  getParams(): Promise<SaleParams> {
+    this.fixed.params ??= fetchSaleParams(this.provider, this.contracts).catch(error => {
+      this.fixed.params = undefined;
+      throw error;
+    });
+    return this.fixed.params;
+  }
+
+  // Whether USDC supports EIP-2612, allowing approve + buy in a single transaction
+  supportsPermit(): Promise<boolean> {
+    this.fixed.permit ??= supportsPermit(this.contracts.usdc);
+    return this.fixed.permit;
+  }
+
+  async getState(): Promise<ContractState> {
+    return fetchSaleState(this.provider, this.contracts, await this.getParams());
+  }
+
+  async getPaymentAssets(): Promise<PaymentAssets> {
+    return fetchPaymentAssets(this.provider, this.contracts, await this.getParams());
+  }
+
+  getEthPrice(priceFeed: PriceFeed): Promise<EthPrice> {
+    return fetchEthPrice(priceFeed);
+  }
+
+  getOwner(): Promise<string> {
+    return this.contracts.sale.owner();
+  }
+
+  // Balances, allowances, contribution and referral rewards of `address`, for every accepted
+  // asset (read from the sale unless given)
+  async getAccount(address: string, assets?: PaymentAsset[]): Promise<AccountState> {
+    const accepted = assets ?? (await this.getPaymentAssets()).assets;
+    return fetchAccountState(this.provider, this.contracts, address, accepted);
+  }
+
+  // What the sale holds of every accepted asset and its safety settings
+  async getHoldings(assets?: PaymentAsset[]): Promise<SaleHoldings> {
+    const accepted = assets ?? (await this.getPaymentAssets()).assets;
+    return fetchSaleHoldings(this.provider, this.contracts, accepted);
+  }
+
+  // How much more `address` can contribute in `tier` (wallet cap and hard cap)
+  getRemainingContribution(address: string, tier = 0): Promise<bigint> {
+    return this.contracts.sale.remainingContribution(address, tier);
+  }
+
+  // Quote a typed amount of USDC (or the ROI wanted) at the rate that applies at `now`
+  async quote(input: string, from: "usdc" | "roi" = "usdc", now = Math.floor(Date.now() / 1000)): Promise<Quote> {
+    const state = await this.getState();
+    const rate = getCurrentRate(state, now);
+    const decimals = { usdc: state.usdcDecimals, roi: state.roiDecimals };
+    return from === "usdc"
+      ? quoteFromUSDC(input, rate, decimals, this.locale)
+      : quoteFromROI(input, rate, decimals, this.locale);
+  }
+
+  // Approve the sale to spend a payment token (USDC or a listed stablecoin)
+  approvePayment(asset: PaymentAsset, amount: bigint): Promise<ethers.ContractTransactionResponse> {
+    const { usdc } = this.requireSigner();
+    if (asset.kind === "eth") throw new Error("ETH does not need an approval");
+    const token = asset.kind === "usdc" ? usdc : ERC20__factory.connect(asset.address, usdc.runner);
+    return token.approve(this.sale.address, amount);
+  }
+
+  // Approve the sale to take back purchased ROI for a refund
+  approveROI(amount: bigint): Promise<ethers.ContractTransactionResponse> {
+    return this.requireSigner().roi.approve(this.sale.address, amount);
+  }
+
+  // Buy ROI with USDC the sale is already approved to spend
+  buy(usdcAmount: bigint, { tier = 0, proof = [], referrer = ethers.ZeroAddress }: PurchaseOptions = {}) {
+    return this.requireSigner().sale.buy(usdcAmount, tier, proof, referrer);
+  }
+
+  // Check balances and inventory, then simulate the purchase and estimate its fee without sending
+  // anything. When paying with USDC that supports permit and the allowance is short, the permit is
+  // signed here. ETH is priced by the sale itself, plus a buffer that the sale returns if unused.
+  async preparePurchase(
+    asset: PaymentAsset,
+    usdcAmount: bigint,
+    { tier = 0, proof = [], referrer = ethers.ZeroAddress }: PurchaseOptions = {}
+  ): Promise<PurchasePreflight> {
+    const signerContracts = this.requireSigner();
+    const { provider, locale } = this;
+    const { sale } = this.contracts;
+    const address = await (signerContracts.sale.runner as ethers.Signer).getAddress();
+
+    const token = asset.kind === "eth" ? null : ERC20__factory.connect(asset.address, provider);
+    const [availableROI, currentRate, tokenBalance, currentAllowance] = await multicall(provider, [
+      contractCall(sale, "availableROI"),
+      // The current round's rate (or the fixed rate without rounds)
+      contractCall(sale, "currentRate"),
+      ...(token ? [
+        contractCall(token, "balanceOf", address),
+        contractCall(token, "allowance", address, this.sale.address),
+      ] : []),
+    ]) as bigint[];
+    const usesPermit = asset.kind === "usdc" && (await this.supportsPermit()) && currentAllowance < usdcAmount;
+
+    const preflight: PurchasePreflight = {
+      usdcAmount,
+      asset,
+      paymentAmount: usdcAmount,
+      roiAmount: getROIForUSDC(usdcAmount, BigInt(currentRate)),
+      tier,
+      proof,
+      referrer,
+      permit: null,
+      gasLimit: null,
+      fee: null,
+      errors: [],
+      warnings: [],
+    };
+
+    try {
+      if (asset.kind === "token") {
+        preflight.paymentAmount = await sale.tokenAmountFor(asset.address, usdcAmount);
+      } else if (asset.kind === "eth") {
+        preflight.paymentAmount = withPriceBuffer(await sale.ethAmountFor(usdcAmount));
+      }
+    } catch (error) {
+      preflight.errors.push(toSaleError(error, locale).message);
+      return preflight;
+    }
+
+    const ethBalance = await provider.getBalance(address);
+    preflight.errors = checkPurchaseBalances(
+      asset,
+      preflight.paymentAmount,
+      preflight.roiAmount,
+      {
+        paymentBalance: token ? BigInt(tokenBalance) : ethBalance,
+        allowance: token ? BigInt(currentAllowance) : BigInt(0),
+        availableROI,
+        usesPermit,
+      },
+      (await this.getParams()).roiDecimals,
+      locale
+    );
+    if (preflight.errors.length > 0) return preflight;
+
+    try {
+      if (usesPermit) {
+        const signer = signerContracts.sale.runner as ethers.Signer;
+        preflight.permit = await signPermit(signerContracts.usdc, signer, this.sale.address, usdcAmount);
+      }
+      const purchaseCall = getPurchaseCall(signerContracts.sale, preflight);
+      await purchaseCall.staticCall();
+      preflight.gasLimit = await purchaseCall.estimateGas();
+
+      const feeData = await provider.getFeeData();
+      preflight.fee = preflight.gasLimit * (feeData.maxFeePerGas ?? feeData.gasPrice ?? BigInt(0));
+      const ethNeeded = preflight.fee + (asset.kind === "eth" ? preflight.paymentAmount : BigInt(0));
+      if (ethBalance < ethNeeded) {
+        preflight.warnings.push(getErrorText("networkFeeAtRisk", locale));
+      }
+    } catch (error) {
+      preflight.errors.push(toSaleError(error, locale).message);
+    }
+
+    return preflight;
+  }
+
+  // Send a purchase that passed pre-flight, reusing its permit signature if it has one
+  confirmPurchase(preflight: PurchasePreflight): Promise<ethers.ContractTransactionResponse> {
+    const { sale } = this.requireSigner();
+    if (preflight.errors.length > 0) throw new Error("Purchase did not pass pre-flight checks");
+    return getPurchaseCall(sale, preflight).send();
+  }
+
+  // Return purchased ROI and get USDC back after a failed sale
+  claimRefund() {
+    return this.requireSigner().sale.claimRefund();
+  }
+
+  // Claim vested ROI after a successful sale (vesting mode only)
+  claimVested() {
+    return this.requireSigner().sale.claim();
+  }
+
+  // Claim referral rewards once the soft cap is reached
+  claimReferralRewards() {
+    return this.requireSigner().sale.claimReferralRewards();
+  }
+
+  // The call withdrawing `asset` (USDC, ROI, ethers.ZeroAddress for ETH, or a listed stablecoin)
+  // to the treasury, or scheduling the withdrawal when the sale has a withdrawal delay (owner only)
+  async withdrawalCall(asset: string, amount: bigint): Promise<WithdrawalCall> {
+    const { sale } = this.requireSigner();
+    if (await this.contracts.sale.withdrawalDelay() > BigInt(0)) {
+      return { call: bindCall(sale.scheduleWithdrawal, asset, amount), scheduled: true };
+    }
+
+    const call = asset.toLowerCase() === this.sale.usdc.toLowerCase()
+      ? bindCall(sale.withdrawUSDC, amount)
+      : asset.toLowerCase() === this.sale.roi.toLowerCase()
+        ? bindCall(sale.withdrawROI, amount)
+        : bindCall(sale.withdrawPayment, asset, amount);
+    return { call, scheduled: false };
+  }
+
+  async withdraw(asset: string, amount: bigint): Promise<WithdrawalTransaction> {
+    const { call, scheduled } = await this.withdrawalCall(asset, amount);
+    return { tx: await call.send(), scheduled };
+  }
+
+  // Send a scheduled withdrawal whose delay has passed (owner only)
+  executeWithdrawal(id: number) {
+    return this.requireSigner().sale.executeWithdrawal(id);
+  }
+
+  // Drop a scheduled withdrawal (owner or treasury)
+  cancelWithdrawal(id: number) {
+    return this.requireSigner().sale.cancelWithdrawal(id);
+  }
+
+  // Halt or resume purchases (owner only)
+  setPaused(paused: boolean) {
+    const { sale } = this.requireSigner();
+    return paused ? sale.pause() : sale.unpause();
+  }
+
+  // Close the current round early and open the next one (owner only)
+  advanceRound() {
+    return this.requireSigner().sale.advanceRound();
+  }
+
+  // The call topping up the sale's ROI inventory from the signer's balance
+  fundROICall(amount: bigint): BoundCall {
+    return bindCall(this.requireSigner().roi.transfer, this.sale.address, amount);
+  }
+
+  fundROI(amount: bigint) {
+    return this.fundROICall(amount).send();
+  }
+
+  // The call offering the sale to `newOwner`, who takes over once they accept it (owner only)
+  transferOwnershipCall(newOwner: string): BoundCall {
+    return bindCall(this.requireSigner().sale.transferOwnership, newOwner);
+  }
+
+  transferOwnership(newOwner: string) {
+    return this.transferOwnershipCall(newOwner).send();
+  }
+
+  private get logBlockRange(): number {
+    return this.options.logBlockRange ?? LOG_BLOCK_RANGE;
+  }
+
+  // Load USDCWithdrawn / ROIWithdrawn / PaymentWithdrawn events, newest first
+  async getWithdrawalHistory(): Promise<WithdrawalRecord[]> {
+    const { sale } = this.contracts;
+    const { usdcDecimals, roiDecimals } = await this.getParams();
+    const latestBlock = await this.provider.getBlockNumber();
+    const [usdcEvents, roiEvents, paymentEvents] = await Promise.all([
+      queryFilterPaginated(sale, sale.filters.USDCWithdrawn(), this.sale.deployBlock, latestBlock, this.logBlockRange),
+      queryFilterPaginated(sale, sale.filters.ROIWithdrawn(), this.sale.deployBlock, latestBlock, this.logBlockRange),
+      queryFilterPaginated(sale, sale.filters.PaymentWithdrawn(), this.sale.deployBlock, latestBlock, this.logBlockRange),
+    ]);
+
+    // Symbol and decimals of every stablecoin withdrawn, read once each
+    const tokens = [...new Set(
+      paymentEvents.map(event => event.args.asset).filter(asset => asset !== ethers.ZeroAddress)
+    )];
+    const tokenInfo = await multicall(this.provider, tokens.flatMap(token => [
+      contractCall(ERC20__factory.connect(token, this.provider), "symbol"),
+      contractCall(ERC20__factory.connect(token, this.provider), "decimals"),
+    ]));
+    const describe = (asset: string) => {
+      if (asset === ethers.ZeroAddress) return { asset, token: ETH_ASSET.symbol, decimals: ETH_ASSET.decimals };
+      const index = tokens.indexOf(asset);
+      return { asset, token: tokenInfo[index * 2] as string, decimals: Number(tokenInfo[index * 2 + 1]) };
+    };
+
+    const events = [
+      ...usdcEvents.map(event => ({
+        event,
+        asset: { asset: this.sale.usdc, token: "USDC", decimals: usdcDecimals },
+      })),
+      ...roiEvents.map(event => ({
+        event,
+        asset: { asset: this.sale.roi, token: "ROI", decimals: roiDecimals },
+      })),
+      ...paymentEvents.map(event => ({ event, asset: describe(event.args.asset) })),
+    ];
+    const timestamps = await getBlockTimestamps(events.map(({ event }) => event));
+
+    return events
+      .map(({ event, asset }) => ({
+        ...asset,
+        amount: event.args.amount,
+        txHash: event.transactionHash,
+        blockNumber: event.blockNumber,
+        timestamp: timestamps.get(event.blockNumber) ?? 0,
+      }))
+      .sort((a, b) => b.blockNumber - a.blockNumber);
+  }
+
+  // Load the ReferralRecorded events crediting `referrer`, newest first
+  async getReferralHistory(referrer: string): Promise<ReferralRecord[]> {
+    const { sale } = this.contracts;
+    const latestBlock = await this.provider.getBlockNumber();
+    const events = await queryFilterPaginated(
+      sale,
+      sale.filters.ReferralRecorded(referrer),
+      this.sale.deployBlock,
+      latestBlock,
+      this.logBlockRange
+    );
+    const timestamps = await getBlockTimestamps(events);
+
+    return events
+      .map(event => ({
+        buyer: event.args.buyer,
+        usdcAmount: event.args.usdcAmount,
+        usdcReward: event.args.usdcReward,
+        roiReward: event.args.roiReward,
+        txHash: event.transactionHash,
+        blockNumber: event.blockNumber,
+        timestamp: timestamps.get(event.blockNumber) ?? 0,
+      }))
+      .sort((a, b) => b.blockNumber - a.blockNumber);
+  }
+
+  // Load one page of TokensPurchased events for `buyer`, scanning backwards from `toBlock`
+  async getPurchaseHistory(buyer: string, toBlock?: number): Promise<PurchaseHistoryPage> {
+    const { sale } = this.contracts;
+    const { deployBlock } = this.sale;
+    const endBlock = toBlock ?? await this.provider.getBlockNumber();
+    const fromBlock = Math.max(deployBlock, endBlock - (this.options.historyPageBlocks ?? HISTORY_PAGE_BLOCKS) + 1);
+
+    const events = await queryFilterPaginated(
+      sale,
+      sale.filters.TokensPurchased(buyer),
+      fromBlock,
+      endBlock,
+      this.logBlockRange
+    );
+    const timestamps = await getBlockTimestamps(events);
+
+    const purchases = events
+      .map(event => ({
+        usdcAmount: event.args.usdcAmount,
+        roiAmount: event.args.roiAmount,
+        txHash: event.transactionHash,
+        blockNumber: event.blockNumber,
+        timestamp: timestamps.get(event.blockNumber) ?? 0,
+      }))
+      .sort((a, b) => b.blockNumber - a.blockNumber);
+
+    return { purchases, fromBlock, hasMore: fromBlock > deployBlock };
+  }
+
+  // Load every TokensPurchased event since deployment, oldest first
+  async getAllPurchases(): Promise<SalePurchase[]> {
+    const { sale } = this.contracts;
+    const latestBlock = await this.provider.getBlockNumber();
+    const events = await queryFilterPaginated(
+      sale,
+      sale.filters.TokensPurchased(),
+      this.sale.deployBlock,
+      latestBlock,
+      this.logBlockRange
+    );
+    const timestamps = await getBlockTimestamps(events);
+
+    return events
+      .map(event => ({
+        buyer: event.args.buyer,
+        usdcAmount: event.args.usdcAmount,
+        roiAmount: event.args.roiAmount,
+        txHash: event.transactionHash,
+        blockNumber: event.blockNumber,
+        timestamp: timestamps.get(event.blockNumber) ?? 0,
+      }))
+      .sort((a, b) => a.blockNumber - b.blockNumber);
+  }
+
+  // Load every RefundClaimed event since deployment, oldest first
+  async getAllRefunds(): Promise<SaleRefund[]> {
+    const { sale } = this.contracts;
+    const latestBlock = await this.provider.getBlockNumber();
+    const events = await queryFilterPaginated(
+      sale,
+      sale.filters.RefundClaimed(),
+      this.sale.deployBlock,
+      latestBlock,
+      this.logBlockRange
+    );
+
+    return events
+      .map(event => ({
+        buyer: event.args.buyer,
+        usdcAmount: event.args.usdcAmount,
+        roiAmount: event.args.roiAmount,
+        txHash: event.transactionHash,
+        blockNumber: event.blockNumber,
+      }))
+      .sort((a, b) => a.blockNumber - b.blockNumber);
+  }
+}
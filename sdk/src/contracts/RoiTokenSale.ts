@@ -0,0 +1,2930 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common";
+
+export declare namespace RoiTokenSale {
+  export type RoundStruct = {
+    roiPerUSDC: BigNumberish;
+    cap: BigNumberish;
+    startTime: BigNumberish;
+    endTime: BigNumberish;
+    raised: BigNumberish;
+  };
+
+  export type RoundStructOutput = [
+    roiPerUSDC: bigint,
+    cap: bigint,
+    startTime: bigint,
+    endTime: bigint,
+    raised: bigint
+  ] & {
+    roiPerUSDC: bigint;
+    cap: bigint;
+    startTime: bigint;
+    endTime: bigint;
+    raised: bigint;
+  };
+
+  export type WithdrawalStruct = {
+    asset: AddressLike;
+    to: AddressLike;
+    amount: BigNumberish;
+    readyAt: BigNumberish;
+  };
+
+  export type WithdrawalStructOutput = [
+    asset: string,
+    to: string,
+    amount: bigint,
+    readyAt: bigint
+  ] & { asset: string; to: string; amount: bigint; readyAt: bigint };
+}
+
+export interface RoiTokenSaleInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "ETH"
+      | "MAX_REFERRAL_REWARD_BPS"
+      | "MAX_WITHDRAWAL_DELAY"
+      | "acceptOwnership"
+      | "addRound"
+      | "advanceRound"
+      | "availableROI"
+      | "buy"
+      | "buyWithETH"
+      | "buyWithPermit"
+      | "buyWithToken"
+      | "cancelTreasuryChange"
+      | "cancelWithdrawal"
+      | "claim"
+      | "claimReferralRewards"
+      | "claimRefund"
+      | "claimableAmount"
+      | "claimableReferralROI"
+      | "clearRounds"
+      | "cliffDuration"
+      | "contributionCap"
+      | "contributions"
+      | "currentRate"
+      | "currentRound"
+      | "currentRoundIndex"
+      | "endTime"
+      | "ethAmountFor"
+      | "ethPriceFeed"
+      | "executeTreasuryChange"
+      | "executeWithdrawal"
+      | "extendSale"
+      | "getPaymentTokens"
+      | "getRounds"
+      | "getWithdrawals"
+      | "hardCap"
+      | "hasSaleEnded"
+      | "isAllowlisted"
+      | "isHardCapReached"
+      | "isRefundable"
+      | "isSaleActive"
+      | "isSoftCapReached"
+      | "maxContribution"
+      | "merkleRoot"
+      | "minContribution"
+      | "owner"
+      | "pause"
+      | "paused"
+      | "paymentTokenInfo"
+      | "paymentTokens"
+      | "payments"
+      | "pendingOwner"
+      | "pendingTreasury"
+      | "priceFeedMaxAge"
+      | "referralROIClaimed"
+      | "referralRewardBps"
+      | "referralRewardInROI"
+      | "referralRewardsROI"
+      | "referralRewardsUSDC"
+      | "referredVolume"
+      | "remainingContribution"
+      | "remainingToHardCap"
+      | "renounceOwnership"
+      | "roiClaimed"
+      | "roiPerUSDC"
+      | "roiPurchased"
+      | "roiToken"
+      | "rounds"
+      | "scheduleWithdrawal"
+      | "setContributionLimits"
+      | "setMerkleRoot"
+      | "setPaymentToken"
+      | "setPriceFeed"
+      | "setReferralReward"
+      | "setSaleWindow"
+      | "setTierCap"
+      | "setTreasury"
+      | "setVestingSchedule"
+      | "setWithdrawalDelay"
+      | "softCap"
+      | "startTime"
+      | "tierMaxContribution"
+      | "tokenAmountFor"
+      | "totalRaised"
+      | "totalReferralROIOwed"
+      | "totalReferralUSDCOwed"
+      | "totalRefunded"
+      | "totalRoiOwed"
+      | "transferOwnership"
+      | "treasury"
+      | "treasuryReadyAt"
+      | "unpause"
+      | "usdcDecimals"
+      | "usdcToken"
+      | "vestedAmount"
+      | "vestingDuration"
+      | "vestingEnabled"
+      | "withdrawPayment"
+      | "withdrawROI"
+      | "withdrawUSDC"
+      | "withdrawalDelay"
+      | "withdrawalRecipient"
+      | "withdrawals"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "ContributionLimitsUpdated"
+      | "MerkleRootUpdated"
+      | "OwnershipTransferStarted"
+      | "OwnershipTransferred"
+      | "Paused"
+      | "PaymentReceived"
+      | "PaymentTokenUpdated"
+      | "PaymentWithdrawn"
+      | "PriceFeedUpdated"
+      | "ROIWithdrawn"
+      | "ReferralRecorded"
+      | "ReferralRewardUpdated"
+      | "ReferralRewardsClaimed"
+      | "RefundClaimed"
+      | "RoundAdded"
+      | "RoundAdvanced"
+      | "RoundsCleared"
+      | "SaleExtended"
+      | "SaleWindowUpdated"
+      | "TierCapUpdated"
+      | "TokensClaimed"
+      | "TokensPurchased"
+      | "TreasuryChangeCancelled"
+      | "TreasuryChangeScheduled"
+      | "TreasuryUpdated"
+      | "USDCWithdrawn"
+      | "Unpaused"
+      | "VestingScheduleUpdated"
+      | "WithdrawalCancelled"
+      | "WithdrawalDelayUpdated"
+      | "WithdrawalExecuted"
+      | "WithdrawalScheduled"
+  ): EventFragment;
+
+  encodeFunctionData(functionFragment: "ETH", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "MAX_REFERRAL_REWARD_BPS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_WITHDRAWAL_DELAY",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "acceptOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addRound",
+    values: [BigNumberish, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "advanceRound",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "availableROI",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "buy",
+    values: [BigNumberish, BigNumberish, BytesLike[], AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "buyWithETH",
+    values: [BigNumberish, BigNumberish, BytesLike[], AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "buyWithPermit",
+    values: [
+      BigNumberish,
+      BigNumberish,
+      BytesLike[],
+      AddressLike,
+      BigNumberish,
+      BigNumberish,
+      BytesLike,
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "buyWithToken",
+    values: [AddressLike, BigNumberish, BigNumberish, BytesLike[], AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelTreasuryChange",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelWithdrawal",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "claim", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "claimReferralRewards",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimRefund",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimableAmount",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimableReferralROI",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "clearRounds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cliffDuration",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "contributionCap",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "contributions",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentRate",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentRound",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentRoundIndex",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "endTime", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "ethAmountFor",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "ethPriceFeed",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "executeTreasuryChange",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "executeWithdrawal",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "extendSale",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPaymentTokens",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "getRounds", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "getWithdrawals",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "hardCap", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "hasSaleEnded",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isAllowlisted",
+    values: [AddressLike, BigNumberish, BytesLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isHardCapReached",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isRefundable",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isSaleActive",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isSoftCapReached",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "maxContribution",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "merkleRoot",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "minContribution",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
+  encodeFunctionData(functionFragment: "pause", values?: undefined): string;
+  encodeFunctionData(functionFragment: "paused", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "paymentTokenInfo",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "paymentTokens",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "payments",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pendingOwner",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pendingTreasury",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "priceFeedMaxAge",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "referralROIClaimed",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "referralRewardBps",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "referralRewardInROI",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "referralRewardsROI",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "referralRewardsUSDC",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "referredVolume",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "remainingContribution",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "remainingToHardCap",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renounceOwnership",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "roiClaimed",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "roiPerUSDC",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "roiPurchased",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "roiToken", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "rounds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "scheduleWithdrawal",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setContributionLimits",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setMerkleRoot",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPaymentToken",
+    values: [AddressLike, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPriceFeed",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setReferralReward",
+    values: [BigNumberish, boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setSaleWindow",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setTierCap",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setTreasury",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setVestingSchedule",
+    values: [boolean, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setWithdrawalDelay",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "softCap", values?: undefined): string;
+  encodeFunctionData(functionFragment: "startTime", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "tierMaxContribution",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tokenAmountFor",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalRaised",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalReferralROIOwed",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalReferralUSDCOwed",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalRefunded",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalRoiOwed",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "treasury", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "treasuryReadyAt",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "unpause", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "usdcDecimals",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "usdcToken", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "vestedAmount",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "vestingDuration",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "vestingEnabled",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawPayment",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawROI",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawUSDC",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawalDelay",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawalRecipient",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawals",
+    values: [BigNumberish]
+  ): string;
+
+  decodeFunctionResult(functionFragment: "ETH", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_REFERRAL_REWARD_BPS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_WITHDRAWAL_DELAY",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "acceptOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "addRound", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "advanceRound",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "availableROI",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "buy", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "buyWithETH", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "buyWithPermit",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "buyWithToken",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelTreasuryChange",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelWithdrawal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "claim", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "claimReferralRewards",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimRefund",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimableAmount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimableReferralROI",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "clearRounds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cliffDuration",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "contributionCap",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "contributions",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "currentRate",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "currentRound",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "currentRoundIndex",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "endTime", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "ethAmountFor",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "ethPriceFeed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "executeTreasuryChange",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "executeWithdrawal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "extendSale", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getPaymentTokens",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getRounds", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getWithdrawals",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "hardCap", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "hasSaleEnded",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isAllowlisted",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isHardCapReached",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isRefundable",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isSaleActive",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isSoftCapReached",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "maxContribution",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "merkleRoot", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "minContribution",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "pause", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "paused", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "paymentTokenInfo",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "paymentTokens",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "payments", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingOwner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingTreasury",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "priceFeedMaxAge",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "referralROIClaimed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "referralRewardBps",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "referralRewardInROI",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "referralRewardsROI",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "referralRewardsUSDC",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "referredVolume",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "remainingContribution",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "remainingToHardCap",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "roiClaimed", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "roiPerUSDC", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "roiPurchased",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "roiToken", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "rounds", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "scheduleWithdrawal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setContributionLimits",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setMerkleRoot",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setPaymentToken",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setPriceFeed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setReferralReward",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setSaleWindow",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setTierCap", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setTreasury",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setVestingSchedule",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setWithdrawalDelay",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "softCap", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "startTime", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "tierMaxContribution",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "tokenAmountFor",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "totalRaised",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "totalReferralROIOwed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "totalReferralUSDCOwed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "totalRefunded",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "totalRoiOwed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "treasury", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "treasuryReadyAt",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "unpause", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "usdcDecimals",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "usdcToken", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "vestedAmount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "vestingDuration",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "vestingEnabled",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawPayment",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawROI",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawUSDC",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawalDelay",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawalRecipient",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawals",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace ContributionLimitsUpdatedEvent {
+  export type InputTuple = [
+    minContribution: BigNumberish,
+    maxContribution: BigNumberish
+  ];
+  export type OutputTuple = [minContribution: bigint, maxContribution: bigint];
+  export interface OutputObject {
+    minContribution: bigint;
+    maxContribution: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MerkleRootUpdatedEvent {
+  export type InputTuple = [previousRoot: BytesLike, newRoot: BytesLike];
+  export type OutputTuple = [previousRoot: string, newRoot: string];
+  export interface OutputObject {
+    previousRoot: string;
+    newRoot: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferStartedEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace OwnershipTransferredEvent {
+  export type InputTuple = [previousOwner: AddressLike, newOwner: AddressLike];
+  export type OutputTuple = [previousOwner: string, newOwner: string];
+  export interface OutputObject {
+    previousOwner: string;
+    newOwner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PaymentReceivedEvent {
+  export type InputTuple = [
+    buyer: AddressLike,
+    asset: AddressLike,
+    amount: BigNumberish,
+    usdcAmount: BigNumberish
+  ];
+  export type OutputTuple = [
+    buyer: string,
+    asset: string,
+    amount: bigint,
+    usdcAmount: bigint
+  ];
+  export interface OutputObject {
+    buyer: string;
+    asset: string;
+    amount: bigint;
+    usdcAmount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PaymentTokenUpdatedEvent {
+  export type InputTuple = [
+    token: AddressLike,
+    accepted: boolean,
+    decimals: BigNumberish
+  ];
+  export type OutputTuple = [
+    token: string,
+    accepted: boolean,
+    decimals: bigint
+  ];
+  export interface OutputObject {
+    token: string;
+    accepted: boolean;
+    decimals: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PaymentWithdrawnEvent {
+  export type InputTuple = [asset: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [asset: string, amount: bigint];
+  export interface OutputObject {
+    asset: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PriceFeedUpdatedEvent {
+  export type InputTuple = [priceFeed: AddressLike, maxAge: BigNumberish];
+  export type OutputTuple = [priceFeed: string, maxAge: bigint];
+  export interface OutputObject {
+    priceFeed: string;
+    maxAge: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ROIWithdrawnEvent {
+  export type InputTuple = [amount: BigNumberish];
+  export type OutputTuple = [amount: bigint];
+  export interface OutputObject {
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReferralRecordedEvent {
+  export type InputTuple = [
+    referrer: AddressLike,
+    buyer: AddressLike,
+    usdcAmount: BigNumberish,
+    usdcReward: BigNumberish,
+    roiReward: BigNumberish
+  ];
+  export type OutputTuple = [
+    referrer: string,
+    buyer: string,
+    usdcAmount: bigint,
+    usdcReward: bigint,
+    roiReward: bigint
+  ];
+  export interface OutputObject {
+    referrer: string;
+    buyer: string;
+    usdcAmount: bigint;
+    usdcReward: bigint;
+    roiReward: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReferralRewardUpdatedEvent {
+  export type InputTuple = [rewardBps: BigNumberish, rewardInROI: boolean];
+  export type OutputTuple = [rewardBps: bigint, rewardInROI: boolean];
+  export interface OutputObject {
+    rewardBps: bigint;
+    rewardInROI: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReferralRewardsClaimedEvent {
+  export type InputTuple = [
+    referrer: AddressLike,
+    usdcAmount: BigNumberish,
+    roiAmount: BigNumberish
+  ];
+  export type OutputTuple = [
+    referrer: string,
+    usdcAmount: bigint,
+    roiAmount: bigint
+  ];
+  export interface OutputObject {
+    referrer: string;
+    usdcAmount: bigint;
+    roiAmount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RefundClaimedEvent {
+  export type InputTuple = [
+    buyer: AddressLike,
+    usdcAmount: BigNumberish,
+    roiAmount: BigNumberish
+  ];
+  export type OutputTuple = [
+    buyer: string,
+    usdcAmount: bigint,
+    roiAmount: bigint
+  ];
+  export interface OutputObject {
+    buyer: string;
+    usdcAmount: bigint;
+    roiAmount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoundAddedEvent {
+  export type InputTuple = [
+    round: BigNumberish,
+    roiPerUSDC: BigNumberish,
+    cap: BigNumberish,
+    startTime: BigNumberish,
+    endTime: BigNumberish
+  ];
+  export type OutputTuple = [
+    round: bigint,
+    roiPerUSDC: bigint,
+    cap: bigint,
+    startTime: bigint,
+    endTime: bigint
+  ];
+  export interface OutputObject {
+    round: bigint;
+    roiPerUSDC: bigint;
+    cap: bigint;
+    startTime: bigint;
+    endTime: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoundAdvancedEvent {
+  export type InputTuple = [
+    previousRound: BigNumberish,
+    newRound: BigNumberish
+  ];
+  export type OutputTuple = [previousRound: bigint, newRound: bigint];
+  export interface OutputObject {
+    previousRound: bigint;
+    newRound: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoundsClearedEvent {
+  export type InputTuple = [];
+  export type OutputTuple = [];
+  export interface OutputObject {}
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SaleExtendedEvent {
+  export type InputTuple = [
+    previousEndTime: BigNumberish,
+    newEndTime: BigNumberish
+  ];
+  export type OutputTuple = [previousEndTime: bigint, newEndTime: bigint];
+  export interface OutputObject {
+    previousEndTime: bigint;
+    newEndTime: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SaleWindowUpdatedEvent {
+  export type InputTuple = [startTime: BigNumberish, endTime: BigNumberish];
+  export type OutputTuple = [startTime: bigint, endTime: bigint];
+  export interface OutputObject {
+    startTime: bigint;
+    endTime: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TierCapUpdatedEvent {
+  export type InputTuple = [tier: BigNumberish, maxContribution: BigNumberish];
+  export type OutputTuple = [tier: bigint, maxContribution: bigint];
+  export interface OutputObject {
+    tier: bigint;
+    maxContribution: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TokensClaimedEvent {
+  export type InputTuple = [buyer: AddressLike, roiAmount: BigNumberish];
+  export type OutputTuple = [buyer: string, roiAmount: bigint];
+  export interface OutputObject {
+    buyer: string;
+    roiAmount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TokensPurchasedEvent {
+  export type InputTuple = [
+    buyer: AddressLike,
+    usdcAmount: BigNumberish,
+    roiAmount: BigNumberish
+  ];
+  export type OutputTuple = [
+    buyer: string,
+    usdcAmount: bigint,
+    roiAmount: bigint
+  ];
+  export interface OutputObject {
+    buyer: string;
+    usdcAmount: bigint;
+    roiAmount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TreasuryChangeCancelledEvent {
+  export type InputTuple = [newTreasury: AddressLike];
+  export type OutputTuple = [newTreasury: string];
+  export interface OutputObject {
+    newTreasury: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TreasuryChangeScheduledEvent {
+  export type InputTuple = [newTreasury: AddressLike, readyAt: BigNumberish];
+  export type OutputTuple = [newTreasury: string, readyAt: bigint];
+  export interface OutputObject {
+    newTreasury: string;
+    readyAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TreasuryUpdatedEvent {
+  export type InputTuple = [
+    previousTreasury: AddressLike,
+    newTreasury: AddressLike
+  ];
+  export type OutputTuple = [previousTreasury: string, newTreasury: string];
+  export interface OutputObject {
+    previousTreasury: string;
+    newTreasury: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace USDCWithdrawnEvent {
+  export type InputTuple = [amount: BigNumberish];
+  export type OutputTuple = [amount: bigint];
+  export interface OutputObject {
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace UnpausedEvent {
+  export type InputTuple = [account: AddressLike];
+  export type OutputTuple = [account: string];
+  export interface OutputObject {
+    account: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace VestingScheduleUpdatedEvent {
+  export type InputTuple = [
+    enabled: boolean,
+    cliffDuration: BigNumberish,
+    vestingDuration: BigNumberish
+  ];
+  export type OutputTuple = [
+    enabled: boolean,
+    cliffDuration: bigint,
+    vestingDuration: bigint
+  ];
+  export interface OutputObject {
+    enabled: boolean;
+    cliffDuration: bigint;
+    vestingDuration: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WithdrawalCancelledEvent {
+  export type InputTuple = [id: BigNumberish];
+  export type OutputTuple = [id: bigint];
+  export interface OutputObject {
+    id: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WithdrawalDelayUpdatedEvent {
+  export type InputTuple = [
+    previousDelay: BigNumberish,
+    newDelay: BigNumberish
+  ];
+  export type OutputTuple = [previousDelay: bigint, newDelay: bigint];
+  export interface OutputObject {
+    previousDelay: bigint;
+    newDelay: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WithdrawalExecutedEvent {
+  export type InputTuple = [id: BigNumberish];
+  export type OutputTuple = [id: bigint];
+  export interface OutputObject {
+    id: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace WithdrawalScheduledEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    asset: AddressLike,
+    to: AddressLike,
+    amount: BigNumberish,
+    readyAt: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    asset: string,
+    to: string,
+    amount: bigint,
+    readyAt: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    asset: string;
+    to: string;
+    amount: bigint;
+    readyAt: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface RoiTokenSale extends BaseContract {
+  connect(runner?: ContractRunner | null): RoiTokenSale;
+  waitForDeployment(): Promise<this>;
+
+  interface: RoiTokenSaleInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  ETH: TypedContractMethod<[], [string], "view">;
+
+  MAX_REFERRAL_REWARD_BPS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_WITHDRAWAL_DELAY: TypedContractMethod<[], [bigint], "view">;
+
+  acceptOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  addRound: TypedContractMethod<
+    [
+      _roiPerUSDC: BigNumberish,
+      cap: BigNumberish,
+      _startTime: BigNumberish,
+      _endTime: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  advanceRound: TypedContractMethod<[], [void], "nonpayable">;
+
+  availableROI: TypedContractMethod<[], [bigint], "view">;
+
+  buy: TypedContractMethod<
+    [
+      usdcAmount: BigNumberish,
+      tier: BigNumberish,
+      proof: BytesLike[],
+      referrer: AddressLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  buyWithETH: TypedContractMethod<
+    [
+      usdcAmount: BigNumberish,
+      tier: BigNumberish,
+      proof: BytesLike[],
+      referrer: AddressLike
+    ],
+    [void],
+    "payable"
+  >;
+
+  buyWithPermit: TypedContractMethod<
+    [
+      usdcAmount: BigNumberish,
+      tier: BigNumberish,
+      proof: BytesLike[],
+      referrer: AddressLike,
+      deadline: BigNumberish,
+      v: BigNumberish,
+      r: BytesLike,
+      s: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  buyWithToken: TypedContractMethod<
+    [
+      token: AddressLike,
+      usdcAmount: BigNumberish,
+      tier: BigNumberish,
+      proof: BytesLike[],
+      referrer: AddressLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  cancelTreasuryChange: TypedContractMethod<[], [void], "nonpayable">;
+
+  cancelWithdrawal: TypedContractMethod<
+    [id: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  claim: TypedContractMethod<[], [void], "nonpayable">;
+
+  claimReferralRewards: TypedContractMethod<[], [void], "nonpayable">;
+
+  claimRefund: TypedContractMethod<[], [void], "nonpayable">;
+
+  claimableAmount: TypedContractMethod<
+    [account: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  claimableReferralROI: TypedContractMethod<
+    [account: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  clearRounds: TypedContractMethod<[], [void], "nonpayable">;
+
+  cliffDuration: TypedContractMethod<[], [bigint], "view">;
+
+  contributionCap: TypedContractMethod<[tier: BigNumberish], [bigint], "view">;
+
+  contributions: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  currentRate: TypedContractMethod<[], [bigint], "view">;
+
+  currentRound: TypedContractMethod<[], [bigint], "view">;
+
+  currentRoundIndex: TypedContractMethod<[], [bigint], "view">;
+
+  endTime: TypedContractMethod<[], [bigint], "view">;
+
+  ethAmountFor: TypedContractMethod<
+    [usdcAmount: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  ethPriceFeed: TypedContractMethod<[], [string], "view">;
+
+  executeTreasuryChange: TypedContractMethod<[], [void], "nonpayable">;
+
+  executeWithdrawal: TypedContractMethod<
+    [id: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  extendSale: TypedContractMethod<
+    [newEndTime: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getPaymentTokens: TypedContractMethod<[], [string[]], "view">;
+
+  getRounds: TypedContractMethod<
+    [],
+    [RoiTokenSale.RoundStructOutput[]],
+    "view"
+  >;
+
+  getWithdrawals: TypedContractMethod<
+    [],
+    [RoiTokenSale.WithdrawalStructOutput[]],
+    "view"
+  >;
+
+  hardCap: TypedContractMethod<[], [bigint], "view">;
+
+  hasSaleEnded: TypedContractMethod<[], [boolean], "view">;
+
+  isAllowlisted: TypedContractMethod<
+    [account: AddressLike, tier: BigNumberish, proof: BytesLike[]],
+    [boolean],
+    "view"
+  >;
+
+  isHardCapReached: TypedContractMethod<[], [boolean], "view">;
+
+  isRefundable: TypedContractMethod<[], [boolean], "view">;
+
+  isSaleActive: TypedContractMethod<[], [boolean], "view">;
+
+  isSoftCapReached: TypedContractMethod<[], [boolean], "view">;
+
+  maxContribution: TypedContractMethod<[], [bigint], "view">;
+
+  merkleRoot: TypedContractMethod<[], [string], "view">;
+
+  minContribution: TypedContractMethod<[], [bigint], "view">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  pause: TypedContractMethod<[], [void], "nonpayable">;
+
+  paused: TypedContractMethod<[], [boolean], "view">;
+
+  paymentTokenInfo: TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [boolean, boolean, bigint] & {
+        listed: boolean;
+        accepted: boolean;
+        decimals: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  paymentTokens: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+
+  payments: TypedContractMethod<
+    [arg0: AddressLike, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  pendingOwner: TypedContractMethod<[], [string], "view">;
+
+  pendingTreasury: TypedContractMethod<[], [string], "view">;
+
+  priceFeedMaxAge: TypedContractMethod<[], [bigint], "view">;
+
+  referralROIClaimed: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  referralRewardBps: TypedContractMethod<[], [bigint], "view">;
+
+  referralRewardInROI: TypedContractMethod<[], [boolean], "view">;
+
+  referralRewardsROI: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  referralRewardsUSDC: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  referredVolume: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  remainingContribution: TypedContractMethod<
+    [account: AddressLike, tier: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  remainingToHardCap: TypedContractMethod<[], [bigint], "view">;
+
+  renounceOwnership: TypedContractMethod<[], [void], "nonpayable">;
+
+  roiClaimed: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  roiPerUSDC: TypedContractMethod<[], [bigint], "view">;
+
+  roiPurchased: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  roiToken: TypedContractMethod<[], [string], "view">;
+
+  rounds: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint, bigint] & {
+        roiPerUSDC: bigint;
+        cap: bigint;
+        startTime: bigint;
+        endTime: bigint;
+        raised: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  scheduleWithdrawal: TypedContractMethod<
+    [asset: AddressLike, amount: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  setContributionLimits: TypedContractMethod<
+    [_minContribution: BigNumberish, _maxContribution: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setMerkleRoot: TypedContractMethod<
+    [newRoot: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setPaymentToken: TypedContractMethod<
+    [token: AddressLike, accepted: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setPriceFeed: TypedContractMethod<
+    [priceFeed: AddressLike, maxAge: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setReferralReward: TypedContractMethod<
+    [rewardBps: BigNumberish, rewardInROI: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setSaleWindow: TypedContractMethod<
+    [_startTime: BigNumberish, _endTime: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setTierCap: TypedContractMethod<
+    [tier: BigNumberish, cap: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setTreasury: TypedContractMethod<
+    [_treasury: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setVestingSchedule: TypedContractMethod<
+    [
+      enabled: boolean,
+      _cliffDuration: BigNumberish,
+      _vestingDuration: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setWithdrawalDelay: TypedContractMethod<
+    [delay: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  softCap: TypedContractMethod<[], [bigint], "view">;
+
+  startTime: TypedContractMethod<[], [bigint], "view">;
+
+  tierMaxContribution: TypedContractMethod<
+    [arg0: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  tokenAmountFor: TypedContractMethod<
+    [token: AddressLike, usdcAmount: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  totalRaised: TypedContractMethod<[], [bigint], "view">;
+
+  totalReferralROIOwed: TypedContractMethod<[], [bigint], "view">;
+
+  totalReferralUSDCOwed: TypedContractMethod<[], [bigint], "view">;
+
+  totalRefunded: TypedContractMethod<[], [bigint], "view">;
+
+  totalRoiOwed: TypedContractMethod<[], [bigint], "view">;
+
+  transferOwnership: TypedContractMethod<
+    [newOwner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  treasury: TypedContractMethod<[], [string], "view">;
+
+  treasuryReadyAt: TypedContractMethod<[], [bigint], "view">;
+
+  unpause: TypedContractMethod<[], [void], "nonpayable">;
+
+  usdcDecimals: TypedContractMethod<[], [bigint], "view">;
+
+  usdcToken: TypedContractMethod<[], [string], "view">;
+
+  vestedAmount: TypedContractMethod<[account: AddressLike], [bigint], "view">;
+
+  vestingDuration: TypedContractMethod<[], [bigint], "view">;
+
+  vestingEnabled: TypedContractMethod<[], [boolean], "view">;
+
+  withdrawPayment: TypedContractMethod<
+    [asset: AddressLike, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  withdrawROI: TypedContractMethod<
+    [amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  withdrawUSDC: TypedContractMethod<
+    [amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  withdrawalDelay: TypedContractMethod<[], [bigint], "view">;
+
+  withdrawalRecipient: TypedContractMethod<[], [string], "view">;
+
+  withdrawals: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, bigint, bigint] & {
+        asset: string;
+        to: string;
+        amount: bigint;
+        readyAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "ETH"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "MAX_REFERRAL_REWARD_BPS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_WITHDRAWAL_DELAY"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "acceptOwnership"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "addRound"
+  ): TypedContractMethod<
+    [
+      _roiPerUSDC: BigNumberish,
+      cap: BigNumberish,
+      _startTime: BigNumberish,
+      _endTime: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "advanceRound"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "availableROI"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "buy"
+  ): TypedContractMethod<
+    [
+      usdcAmount: BigNumberish,
+      tier: BigNumberish,
+      proof: BytesLike[],
+      referrer: AddressLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "buyWithETH"
+  ): TypedContractMethod<
+    [
+      usdcAmount: BigNumberish,
+      tier: BigNumberish,
+      proof: BytesLike[],
+      referrer: AddressLike
+    ],
+    [void],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "buyWithPermit"
+  ): TypedContractMethod<
+    [
+      usdcAmount: BigNumberish,
+      tier: BigNumberish,
+      proof: BytesLike[],
+      referrer: AddressLike,
+      deadline: BigNumberish,
+      v: BigNumberish,
+      r: BytesLike,
+      s: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "buyWithToken"
+  ): TypedContractMethod<
+    [
+      token: AddressLike,
+      usdcAmount: BigNumberish,
+      tier: BigNumberish,
+      proof: BytesLike[],
+      referrer: AddressLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "cancelTreasuryChange"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cancelWithdrawal"
+  ): TypedContractMethod<[id: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "claim"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "claimReferralRewards"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "claimRefund"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "claimableAmount"
+  ): TypedContractMethod<[account: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "claimableReferralROI"
+  ): TypedContractMethod<[account: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "clearRounds"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "cliffDuration"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "contributionCap"
+  ): TypedContractMethod<[tier: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "contributions"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "currentRate"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "currentRound"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "currentRoundIndex"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "endTime"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "ethAmountFor"
+  ): TypedContractMethod<[usdcAmount: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "ethPriceFeed"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "executeTreasuryChange"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "executeWithdrawal"
+  ): TypedContractMethod<[id: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "extendSale"
+  ): TypedContractMethod<[newEndTime: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "getPaymentTokens"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getRounds"
+  ): TypedContractMethod<[], [RoiTokenSale.RoundStructOutput[]], "view">;
+  getFunction(
+    nameOrSignature: "getWithdrawals"
+  ): TypedContractMethod<[], [RoiTokenSale.WithdrawalStructOutput[]], "view">;
+  getFunction(
+    nameOrSignature: "hardCap"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "hasSaleEnded"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isAllowlisted"
+  ): TypedContractMethod<
+    [account: AddressLike, tier: BigNumberish, proof: BytesLike[]],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isHardCapReached"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isRefundable"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isSaleActive"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isSoftCapReached"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "maxContribution"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "merkleRoot"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "minContribution"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "pause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "paused"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "paymentTokenInfo"
+  ): TypedContractMethod<
+    [arg0: AddressLike],
+    [
+      [boolean, boolean, bigint] & {
+        listed: boolean;
+        accepted: boolean;
+        decimals: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "paymentTokens"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "payments"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "pendingOwner"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "pendingTreasury"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "priceFeedMaxAge"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "referralROIClaimed"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "referralRewardBps"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "referralRewardInROI"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "referralRewardsROI"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "referralRewardsUSDC"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "referredVolume"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "remainingContribution"
+  ): TypedContractMethod<
+    [account: AddressLike, tier: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "remainingToHardCap"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "renounceOwnership"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "roiClaimed"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "roiPerUSDC"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "roiPurchased"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "roiToken"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "rounds"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, bigint, bigint, bigint, bigint] & {
+        roiPerUSDC: bigint;
+        cap: bigint;
+        startTime: bigint;
+        endTime: bigint;
+        raised: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "scheduleWithdrawal"
+  ): TypedContractMethod<
+    [asset: AddressLike, amount: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setContributionLimits"
+  ): TypedContractMethod<
+    [_minContribution: BigNumberish, _maxContribution: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setMerkleRoot"
+  ): TypedContractMethod<[newRoot: BytesLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setPaymentToken"
+  ): TypedContractMethod<
+    [token: AddressLike, accepted: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setPriceFeed"
+  ): TypedContractMethod<
+    [priceFeed: AddressLike, maxAge: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setReferralReward"
+  ): TypedContractMethod<
+    [rewardBps: BigNumberish, rewardInROI: boolean],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setSaleWindow"
+  ): TypedContractMethod<
+    [_startTime: BigNumberish, _endTime: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setTierCap"
+  ): TypedContractMethod<
+    [tier: BigNumberish, cap: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setTreasury"
+  ): TypedContractMethod<[_treasury: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setVestingSchedule"
+  ): TypedContractMethod<
+    [
+      enabled: boolean,
+      _cliffDuration: BigNumberish,
+      _vestingDuration: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setWithdrawalDelay"
+  ): TypedContractMethod<[delay: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "softCap"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "startTime"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "tierMaxContribution"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "tokenAmountFor"
+  ): TypedContractMethod<
+    [token: AddressLike, usdcAmount: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "totalRaised"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "totalReferralROIOwed"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "totalReferralUSDCOwed"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "totalRefunded"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "totalRoiOwed"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "transferOwnership"
+  ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "treasury"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "treasuryReadyAt"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "unpause"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "usdcDecimals"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "usdcToken"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "vestedAmount"
+  ): TypedContractMethod<[account: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "vestingDuration"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "vestingEnabled"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "withdrawPayment"
+  ): TypedContractMethod<
+    [asset: AddressLike, amount: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "withdrawROI"
+  ): TypedContractMethod<[amount: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "withdrawUSDC"
+  ): TypedContractMethod<[amount: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "withdrawalDelay"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "withdrawalRecipient"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "withdrawals"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [string, string, bigint, bigint] & {
+        asset: string;
+        to: string;
+        amount: bigint;
+        readyAt: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getEvent(
+    key: "ContributionLimitsUpdated"
+  ): TypedContractEvent<
+    ContributionLimitsUpdatedEvent.InputTuple,
+    ContributionLimitsUpdatedEvent.OutputTuple,
+    ContributionLimitsUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MerkleRootUpdated"
+  ): TypedContractEvent<
+    MerkleRootUpdatedEvent.InputTuple,
+    MerkleRootUpdatedEvent.OutputTuple,
+    MerkleRootUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferStarted"
+  ): TypedContractEvent<
+    OwnershipTransferStartedEvent.InputTuple,
+    OwnershipTransferStartedEvent.OutputTuple,
+    OwnershipTransferStartedEvent.OutputObject
+  >;
+  getEvent(
+    key: "OwnershipTransferred"
+  ): TypedContractEvent<
+    OwnershipTransferredEvent.InputTuple,
+    OwnershipTransferredEvent.OutputTuple,
+    OwnershipTransferredEvent.OutputObject
+  >;
+  getEvent(
+    key: "Paused"
+  ): TypedContractEvent<
+    PausedEvent.InputTuple,
+    PausedEvent.OutputTuple,
+    PausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PaymentReceived"
+  ): TypedContractEvent<
+    PaymentReceivedEvent.InputTuple,
+    PaymentReceivedEvent.OutputTuple,
+    PaymentReceivedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PaymentTokenUpdated"
+  ): TypedContractEvent<
+    PaymentTokenUpdatedEvent.InputTuple,
+    PaymentTokenUpdatedEvent.OutputTuple,
+    PaymentTokenUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PaymentWithdrawn"
+  ): TypedContractEvent<
+    PaymentWithdrawnEvent.InputTuple,
+    PaymentWithdrawnEvent.OutputTuple,
+    PaymentWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "PriceFeedUpdated"
+  ): TypedContractEvent<
+    PriceFeedUpdatedEvent.InputTuple,
+    PriceFeedUpdatedEvent.OutputTuple,
+    PriceFeedUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ROIWithdrawn"
+  ): TypedContractEvent<
+    ROIWithdrawnEvent.InputTuple,
+    ROIWithdrawnEvent.OutputTuple,
+    ROIWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReferralRecorded"
+  ): TypedContractEvent<
+    ReferralRecordedEvent.InputTuple,
+    ReferralRecordedEvent.OutputTuple,
+    ReferralRecordedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReferralRewardUpdated"
+  ): TypedContractEvent<
+    ReferralRewardUpdatedEvent.InputTuple,
+    ReferralRewardUpdatedEvent.OutputTuple,
+    ReferralRewardUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReferralRewardsClaimed"
+  ): TypedContractEvent<
+    ReferralRewardsClaimedEvent.InputTuple,
+    ReferralRewardsClaimedEvent.OutputTuple,
+    ReferralRewardsClaimedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RefundClaimed"
+  ): TypedContractEvent<
+    RefundClaimedEvent.InputTuple,
+    RefundClaimedEvent.OutputTuple,
+    RefundClaimedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoundAdded"
+  ): TypedContractEvent<
+    RoundAddedEvent.InputTuple,
+    RoundAddedEvent.OutputTuple,
+    RoundAddedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoundAdvanced"
+  ): TypedContractEvent<
+    RoundAdvancedEvent.InputTuple,
+    RoundAdvancedEvent.OutputTuple,
+    RoundAdvancedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoundsCleared"
+  ): TypedContractEvent<
+    RoundsClearedEvent.InputTuple,
+    RoundsClearedEvent.OutputTuple,
+    RoundsClearedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SaleExtended"
+  ): TypedContractEvent<
+    SaleExtendedEvent.InputTuple,
+    SaleExtendedEvent.OutputTuple,
+    SaleExtendedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SaleWindowUpdated"
+  ): TypedContractEvent<
+    SaleWindowUpdatedEvent.InputTuple,
+    SaleWindowUpdatedEvent.OutputTuple,
+    SaleWindowUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TierCapUpdated"
+  ): TypedContractEvent<
+    TierCapUpdatedEvent.InputTuple,
+    TierCapUpdatedEvent.OutputTuple,
+    TierCapUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TokensClaimed"
+  ): TypedContractEvent<
+    TokensClaimedEvent.InputTuple,
+    TokensClaimedEvent.OutputTuple,
+    TokensClaimedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TokensPurchased"
+  ): TypedContractEvent<
+    TokensPurchasedEvent.InputTuple,
+    TokensPurchasedEvent.OutputTuple,
+    TokensPurchasedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TreasuryChangeCancelled"
+  ): TypedContractEvent<
+    TreasuryChangeCancelledEvent.InputTuple,
+    TreasuryChangeCancelledEvent.OutputTuple,
+    TreasuryChangeCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "TreasuryChangeScheduled"
+  ): TypedContractEvent<
+    TreasuryChangeScheduledEvent.InputTuple,
+    TreasuryChangeScheduledEvent.OutputTuple,
+    TreasuryChangeScheduledEvent.OutputObject
+  >;
+  getEvent(
+    key: "TreasuryUpdated"
+  ): TypedContractEvent<
+    TreasuryUpdatedEvent.InputTuple,
+    TreasuryUpdatedEvent.OutputTuple,
+    TreasuryUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "USDCWithdrawn"
+  ): TypedContractEvent<
+    USDCWithdrawnEvent.InputTuple,
+    USDCWithdrawnEvent.OutputTuple,
+    USDCWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "Unpaused"
+  ): TypedContractEvent<
+    UnpausedEvent.InputTuple,
+    UnpausedEvent.OutputTuple,
+    UnpausedEvent.OutputObject
+  >;
+  getEvent(
+    key: "VestingScheduleUpdated"
+  ): TypedContractEvent<
+    VestingScheduleUpdatedEvent.InputTuple,
+    VestingScheduleUpdatedEvent.OutputTuple,
+    VestingScheduleUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "WithdrawalCancelled"
+  ): TypedContractEvent<
+    WithdrawalCancelledEvent.InputTuple,
+    WithdrawalCancelledEvent.OutputTuple,
+    WithdrawalCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "WithdrawalDelayUpdated"
+  ): TypedContractEvent<
+    WithdrawalDelayUpdatedEvent.InputTuple,
+    WithdrawalDelayUpdatedEvent.OutputTuple,
+    WithdrawalDelayUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "WithdrawalExecuted"
+  ): TypedContractEvent<
+    WithdrawalExecutedEvent.InputTuple,
+    WithdrawalExecutedEvent.OutputTuple,
+    WithdrawalExecutedEvent.OutputObject
+  >;
+  getEvent(
+    key: "WithdrawalScheduled"
+  ): TypedContractEvent<
+    WithdrawalScheduledEvent.InputTuple,
+    WithdrawalScheduledEvent.OutputTuple,
+    WithdrawalScheduledEvent.OutputObject
+  >;
+
+  filters: {
+    "ContributionLimitsUpdated(uint256,uint256)": TypedContractEvent<
+      ContributionLimitsUpdatedEvent.InputTuple,
+      ContributionLimitsUpdatedEvent.OutputTuple,
+      ContributionLimitsUpdatedEvent.OutputObject
+    >;
+    ContributionLimitsUpdated: TypedContractEvent<
+      ContributionLimitsUpdatedEvent.InputTuple,
+      ContributionLimitsUpdatedEvent.OutputTuple,
+      ContributionLimitsUpdatedEvent.OutputObject
+    >;
+
+    "MerkleRootUpdated(bytes32,bytes32)": TypedContractEvent<
+      MerkleRootUpdatedEvent.InputTuple,
+      MerkleRootUpdatedEvent.OutputTuple,
+      MerkleRootUpdatedEvent.OutputObject
+    >;
+    MerkleRootUpdated: TypedContractEvent<
+      MerkleRootUpdatedEvent.InputTuple,
+      MerkleRootUpdatedEvent.OutputTuple,
+      MerkleRootUpdatedEvent.OutputObject
+    >;
+
+    "OwnershipTransferStarted(address,address)": TypedContractEvent<
+      OwnershipTransferStartedEvent.InputTuple,
+      OwnershipTransferStartedEvent.OutputTuple,
+      OwnershipTransferStartedEvent.OutputObject
+    >;
+    OwnershipTransferStarted: TypedContractEvent<
+      OwnershipTransferStartedEvent.InputTuple,
+      OwnershipTransferStartedEvent.OutputTuple,
+      OwnershipTransferStartedEvent.OutputObject
+    >;
+
+    "OwnershipTransferred(address,address)": TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+    OwnershipTransferred: TypedContractEvent<
+      OwnershipTransferredEvent.InputTuple,
+      OwnershipTransferredEvent.OutputTuple,
+      OwnershipTransferredEvent.OutputObject
+    >;
+
+    "Paused(address)": TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+    Paused: TypedContractEvent<
+      PausedEvent.InputTuple,
+      PausedEvent.OutputTuple,
+      PausedEvent.OutputObject
+    >;
+
+    "PaymentReceived(address,address,uint256,uint256)": TypedContractEvent<
+      PaymentReceivedEvent.InputTuple,
+      PaymentReceivedEvent.OutputTuple,
+      PaymentReceivedEvent.OutputObject
+    >;
+    PaymentReceived: TypedContractEvent<
+      PaymentReceivedEvent.InputTuple,
+      PaymentReceivedEvent.OutputTuple,
+      PaymentReceivedEvent.OutputObject
+    >;
+
+    "PaymentTokenUpdated(address,bool,uint8)": TypedContractEvent<
+      PaymentTokenUpdatedEvent.InputTuple,
+      PaymentTokenUpdatedEvent.OutputTuple,
+      PaymentTokenUpdatedEvent.OutputObject
+    >;
+    PaymentTokenUpdated: TypedContractEvent<
+      PaymentTokenUpdatedEvent.InputTuple,
+      PaymentTokenUpdatedEvent.OutputTuple,
+      PaymentTokenUpdatedEvent.OutputObject
+    >;
+
+    "PaymentWithdrawn(address,uint256)": TypedContractEvent<
+      PaymentWithdrawnEvent.InputTuple,
+      PaymentWithdrawnEvent.OutputTuple,
+      PaymentWithdrawnEvent.OutputObject
+    >;
+    PaymentWithdrawn: TypedContractEvent<
+      PaymentWithdrawnEvent.InputTuple,
+      PaymentWithdrawnEvent.OutputTuple,
+      PaymentWithdrawnEvent.OutputObject
+    >;
+
+    "PriceFeedUpdated(address,uint256)": TypedContractEvent<
+      PriceFeedUpdatedEvent.InputTuple,
+      PriceFeedUpdatedEvent.OutputTuple,
+      PriceFeedUpdatedEvent.OutputObject
+    >;
+    PriceFeedUpdated: TypedContractEvent<
+      PriceFeedUpdatedEvent.InputTuple,
+      PriceFeedUpdatedEvent.OutputTuple,
+      PriceFeedUpdatedEvent.OutputObject
+    >;
+
+    "ROIWithdrawn(uint256)": TypedContractEvent<
+      ROIWithdrawnEvent.InputTuple,
+      ROIWithdrawnEvent.OutputTuple,
+      ROIWithdrawnEvent.OutputObject
+    >;
+    ROIWithdrawn: TypedContractEvent<
+      ROIWithdrawnEvent.InputTuple,
+      ROIWithdrawnEvent.OutputTuple,
+      ROIWithdrawnEvent.OutputObject
+    >;
+
+    "ReferralRecorded(address,address,uint256,uint256,uint256)": TypedContractEvent<
+      ReferralRecordedEvent.InputTuple,
+      ReferralRecordedEvent.OutputTuple,
+      ReferralRecordedEvent.OutputObject
+    >;
+    ReferralRecorded: TypedContractEvent<
+      ReferralRecordedEvent.InputTuple,
+      ReferralRecordedEvent.OutputTuple,
+      ReferralRecordedEvent.OutputObject
+    >;
+
+    "ReferralRewardUpdated(uint256,bool)": TypedContractEvent<
+      ReferralRewardUpdatedEvent.InputTuple,
+      ReferralRewardUpdatedEvent.OutputTuple,
+      ReferralRewardUpdatedEvent.OutputObject
+    >;
+    ReferralRewardUpdated: TypedContractEvent<
+      ReferralRewardUpdatedEvent.InputTuple,
+      ReferralRewardUpdatedEvent.OutputTuple,
+      ReferralRewardUpdatedEvent.OutputObject
+    >;
+
+    "ReferralRewardsClaimed(address,uint256,uint256)": TypedContractEvent<
+      ReferralRewardsClaimedEvent.InputTuple,
+      ReferralRewardsClaimedEvent.OutputTuple,
+      ReferralRewardsClaimedEvent.OutputObject
+    >;
+    ReferralRewardsClaimed: TypedContractEvent<
+      ReferralRewardsClaimedEvent.InputTuple,
+      ReferralRewardsClaimedEvent.OutputTuple,
+      ReferralRewardsClaimedEvent.OutputObject
+    >;
+
+    "RefundClaimed(address,uint256,uint256)": TypedContractEvent<
+      RefundClaimedEvent.InputTuple,
+      RefundClaimedEvent.OutputTuple,
+      RefundClaimedEvent.OutputObject
+    >;
+    RefundClaimed: TypedContractEvent<
+      RefundClaimedEvent.InputTuple,
+      RefundClaimedEvent.OutputTuple,
+      RefundClaimedEvent.OutputObject
+    >;
+
+    "RoundAdded(uint256,uint256,uint256,uint256,uint256)": TypedContractEvent<
+      RoundAddedEvent.InputTuple,
+      RoundAddedEvent.OutputTuple,
+      RoundAddedEvent.OutputObject
+    >;
+    RoundAdded: TypedContractEvent<
+      RoundAddedEvent.InputTuple,
+      RoundAddedEvent.OutputTuple,
+      RoundAddedEvent.OutputObject
+    >;
+
+    "RoundAdvanced(uint256,uint256)": TypedContractEvent<
+      RoundAdvancedEvent.InputTuple,
+      RoundAdvancedEvent.OutputTuple,
+      RoundAdvancedEvent.OutputObject
+    >;
+    RoundAdvanced: TypedContractEvent<
+      RoundAdvancedEvent.InputTuple,
+      RoundAdvancedEvent.OutputTuple,
+      RoundAdvancedEvent.OutputObject
+    >;
+
+    "RoundsCleared()": TypedContractEvent<
+      RoundsClearedEvent.InputTuple,
+      RoundsClearedEvent.OutputTuple,
+      RoundsClearedEvent.OutputObject
+    >;
+    RoundsCleared: TypedContractEvent<
+      RoundsClearedEvent.InputTuple,
+      RoundsClearedEvent.OutputTuple,
+      RoundsClearedEvent.OutputObject
+    >;
+
+    "SaleExtended(uint256,uint256)": TypedContractEvent<
+      SaleExtendedEvent.InputTuple,
+      SaleExtendedEvent.OutputTuple,
+      SaleExtendedEvent.OutputObject
+    >;
+    SaleExtended: TypedContractEvent<
+      SaleExtendedEvent.InputTuple,
+      SaleExtendedEvent.OutputTuple,
+      SaleExtendedEvent.OutputObject
+    >;
+
+    "SaleWindowUpdated(uint256,uint256)": TypedContractEvent<
+      SaleWindowUpdatedEvent.InputTuple,
+      SaleWindowUpdatedEvent.OutputTuple,
+      SaleWindowUpdatedEvent.OutputObject
+    >;
+    SaleWindowUpdated: TypedContractEvent<
+      SaleWindowUpdatedEvent.InputTuple,
+      SaleWindowUpdatedEvent.OutputTuple,
+      SaleWindowUpdatedEvent.OutputObject
+    >;
+
+    "TierCapUpdated(uint8,uint256)": TypedContractEvent<
+      TierCapUpdatedEvent.InputTuple,
+      TierCapUpdatedEvent.OutputTuple,
+      TierCapUpdatedEvent.OutputObject
+    >;
+    TierCapUpdated: TypedContractEvent<
+      TierCapUpdatedEvent.InputTuple,
+      TierCapUpdatedEvent.OutputTuple,
+      TierCapUpdatedEvent.OutputObject
+    >;
+
+    "TokensClaimed(address,uint256)": TypedContractEvent<
+      TokensClaimedEvent.InputTuple,
+      TokensClaimedEvent.OutputTuple,
+      TokensClaimedEvent.OutputObject
+    >;
+    TokensClaimed: TypedContractEvent<
+      TokensClaimedEvent.InputTuple,
+      TokensClaimedEvent.OutputTuple,
+      TokensClaimedEvent.OutputObject
+    >;
+
+    "TokensPurchased(address,uint256,uint256)": TypedContractEvent<
+      TokensPurchasedEvent.InputTuple,
+      TokensPurchasedEvent.OutputTuple,
+      TokensPurchasedEvent.OutputObject
+    >;
+    TokensPurchased: TypedContractEvent<
+      TokensPurchasedEvent.InputTuple,
+      TokensPurchasedEvent.OutputTuple,
+      TokensPurchasedEvent.OutputObject
+    >;
+
+    "TreasuryChangeCancelled(address)": TypedContractEvent<
+      TreasuryChangeCancelledEvent.InputTuple,
+      TreasuryChangeCancelledEvent.OutputTuple,
+      TreasuryChangeCancelledEvent.OutputObject
+    >;
+    TreasuryChangeCancelled: TypedContractEvent<
+      TreasuryChangeCancelledEvent.InputTuple,
+      TreasuryChangeCancelledEvent.OutputTuple,
+      TreasuryChangeCancelledEvent.OutputObject
+    >;
+
+    "TreasuryChangeScheduled(address,uint256)": TypedContractEvent<
+      TreasuryChangeScheduledEvent.InputTuple,
+      TreasuryChangeScheduledEvent.OutputTuple,
+      TreasuryChangeScheduledEvent.OutputObject
+    >;
+    TreasuryChangeScheduled: TypedContractEvent<
+      TreasuryChangeScheduledEvent.InputTuple,
+      TreasuryChangeScheduledEvent.OutputTuple,
+      TreasuryChangeScheduledEvent.OutputObject
+    >;
+
+    "TreasuryUpdated(address,address)": TypedContractEvent<
+      TreasuryUpdatedEvent.InputTuple,
+      TreasuryUpdatedEvent.OutputTuple,
+      TreasuryUpdatedEvent.OutputObject
+    >;
+    TreasuryUpdated: TypedContractEvent<
+      TreasuryUpdatedEvent.InputTuple,
+      TreasuryUpdatedEvent.OutputTuple,
+      TreasuryUpdatedEvent.OutputObject
+    >;
+
+    "USDCWithdrawn(uint256)": TypedContractEvent<
+      USDCWithdrawnEvent.InputTuple,
+      USDCWithdrawnEvent.OutputTuple,
+      USDCWithdrawnEvent.OutputObject
+    >;
+    USDCWithdrawn: TypedContractEvent<
+      USDCWithdrawnEvent.InputTuple,
+      USDCWithdrawnEvent.OutputTuple,
+      USDCWithdrawnEvent.OutputObject
+    >;
+
+    "Unpaused(address)": TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+    Unpaused: TypedContractEvent<
+      UnpausedEvent.InputTuple,
+      UnpausedEvent.OutputTuple,
+      UnpausedEvent.OutputObject
+    >;
+
+    "VestingScheduleUpdated(bool,uint256,uint256)": TypedContractEvent<
+      VestingScheduleUpdatedEvent.InputTuple,
+      VestingScheduleUpdatedEvent.OutputTuple,
+      VestingScheduleUpdatedEvent.OutputObject
+    >;
+    VestingScheduleUpdated: TypedContractEvent<
+      VestingScheduleUpdatedEvent.InputTuple,
+      VestingScheduleUpdatedEvent.OutputTuple,
+      VestingScheduleUpdatedEvent.OutputObject
+    >;
+
+    "WithdrawalCancelled(uint256)": TypedContractEvent<
+      WithdrawalCancelledEvent.InputTuple,
+      WithdrawalCancelledEvent.OutputTuple,
+      WithdrawalCancelledEvent.OutputObject
+    >;
+    WithdrawalCancelled: TypedContractEvent<
+      WithdrawalCancelledEvent.InputTuple,
+      WithdrawalCancelledEvent.OutputTuple,
+      WithdrawalCancelledEvent.OutputObject
+    >;
+
+    "WithdrawalDelayUpdated(uint256,uint256)": TypedContractEvent<
+      WithdrawalDelayUpdatedEvent.InputTuple,
+      WithdrawalDelayUpdatedEvent.OutputTuple,
+      WithdrawalDelayUpdatedEvent.OutputObject
+    >;
+    WithdrawalDelayUpdated: TypedContractEvent<
+      WithdrawalDelayUpdatedEvent.InputTuple,
+      WithdrawalDelayUpdatedEvent.OutputTuple,
+      WithdrawalDelayUpdatedEvent.OutputObject
+    >;
+
+    "WithdrawalExecuted(uint256)": TypedContractEvent<
+      WithdrawalExecutedEvent.InputTuple,
+      WithdrawalExecutedEvent.OutputTuple,
+      WithdrawalExecutedEvent.OutputObject
+    >;
+    WithdrawalExecuted: TypedContractEvent<
+      WithdrawalExecutedEvent.InputTuple,
+      WithdrawalExecutedEvent.OutputTuple,
+      WithdrawalExecutedEvent.OutputObject
+    >;
+
+    "WithdrawalScheduled(uint256,address,address,uint256,uint256)": TypedContractEvent<
+      WithdrawalScheduledEvent.InputTuple,
+      WithdrawalScheduledEvent.OutputTuple,
+      WithdrawalScheduledEvent.OutputObject
+    >;
+    WithdrawalScheduled: TypedContractEvent<
+      WithdrawalScheduledEvent.InputTuple,
+      WithdrawalScheduledEvent.OutputTuple,
+      WithdrawalScheduledEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { ERC20__factory } from "./ERC20__factory";
+export { IPriceFeed__factory } from "./IPriceFeed__factory";
+export { RoiTokenSale__factory } from "./RoiTokenSale__factory";
@@ -0,0 +1,10 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { ERC20 } from "./ERC20";
+export type { IPriceFeed } from "./IPriceFeed";
+export type { RoiTokenSale } from "./RoiTokenSale";
+export * as factories from "./factories";
+export { RoiTokenSale__factory } from "./factories/RoiTokenSale__factory";
+export { ERC20__factory } from "./factories/ERC20__factory";
+export { IPriceFeed__factory } from "./factories/IPriceFeed__factory";
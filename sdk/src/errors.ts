@@ -0,0 +1,411 @@
+import { ethers } from "ethers";
+import { ERC20__factory, RoiTokenSale__factory } from "./contracts";
+
+export type ErrorKey =
+  // RoiTokenSale require() messages
+  | "saleNotStarted"
+  | "saleEnded"
+  | "saleNotEnded"
+  | "notAllowlisted"
+  | "zeroAmount"
+  | "exceedsHardCap"
+  | "belowMinimum"
+  | "exceedsMaximum"
+  | "insufficientRoiInventory"
+  | "insufficientUsdcInContract"
+  | "softCapNotReached"
+  | "refundsUnavailable"
+  | "nothingToRefund"
+  | "nothingToClaim"
+  | "vestingDisabled"
+  | "saleAlreadyStarted"
+  | "startInPast"
+  | "invalidSaleWindow"
+  | "invalidExtension"
+  | "invalidContributionLimits"
+  | "invalidVestingSchedule"
+  | "invalidSaleParameters"
+  | "roundNotStarted"
+  | "exceedsRoundCap"
+  | "noActiveRound"
+  | "invalidRound"
+  | "roundsOutsideWindow"
+  | "paymentTokenNotAccepted"
+  | "invalidPaymentToken"
+  | "ethNotAccepted"
+  | "ethPriceUnavailable"
+  | "insufficientEthSent"
+  | "ethTransferFailed"
+  | "insufficientFundsInContract"
+  | "invalidPriceFeed"
+  | "selfReferral"
+  | "referralRewardTooHigh"
+  | "noReferralRewards"
+  | "salePaused"
+  | "saleNotPaused"
+  | "withdrawalsTimelocked"
+  | "withdrawalsNotTimelocked"
+  | "unknownWithdrawal"
+  | "withdrawalNotReady"
+  | "invalidWithdrawalDelay"
+  | "noTreasuryChange"
+  | "treasuryChangeNotReady"
+  | "notOwnerOrTreasury"
+  // Custom errors from OpenZeppelin and ERC-6093 tokens
+  | "notOwner"
+  | "insufficientTokenBalance"
+  | "insufficientTokenAllowance"
+  | "tokenTransferFailed"
+  // Pre-flight balance checks and warnings
+  | "insufficientPaymentBalance"
+  | "roiInventoryLeft"
+  | "approvalRequired"
+  | "networkFeeAtRisk"
+  // Quote rounding warnings and rate parsing
+  | "usdcRoundedDown"
+  | "roiDigitsIgnored"
+  | "roiRoundedUp"
+  | "rateTooFine"
+  // Wallet, gas, network and RPC failures
+  | "userRejected"
+  | "insufficientFunds"
+  | "outOfGas"
+  | "wrongNetwork"
+  | "rpcUnavailable"
+  | "reverted"
+  | "unknown";
+
+export type Locale = "en" | "es";
+
+// Every revert string in RoiTokenSale.sol and the error it maps to
+export const REVERT_REASONS: Record<string, ErrorKey> = {
+  "Sale has not started": "saleNotStarted",
+  "Sale has ended": "saleEnded",
+  "Sale has not ended": "saleNotEnded",
+  "Address not allowlisted": "notAllowlisted",
+  "Amount must be greater than zero": "zeroAmount",
+  "Purchase exceeds hard cap": "exceedsHardCap",
+  "Below minimum contribution": "belowMinimum",
+  "Exceeds maximum contribution": "exceedsMaximum",
+  "Not enough ROI tokens in contract": "insufficientRoiInventory",
+  "Not enough USDC in contract": "insufficientUsdcInContract",
+  "Soft cap not reached": "softCapNotReached",
+  "Refunds are not available": "refundsUnavailable",
+  "No contribution to refund": "nothingToRefund",
+  "Nothing to claim": "nothingToClaim",
+  "Vesting is not enabled": "vestingDisabled",
+  "Sale has already started": "saleAlreadyStarted",
+  "Start time must not be in the past": "startInPast",
+  "End time must be after start time": "invalidSaleWindow",
+  "New end time must be after current end time": "invalidExtension",
+  "Max contribution must not be below min contribution": "invalidContributionLimits",
+  "Cliff must not exceed vesting duration": "invalidVestingSchedule",
+  "USDC token address cannot be zero": "invalidSaleParameters",
+  "ROI token address cannot be zero": "invalidSaleParameters",
+  "ROI per USDC must be greater than zero": "invalidSaleParameters",
+  "Soft cap must be greater than zero": "invalidSaleParameters",
+  "Hard cap must be greater than soft cap": "invalidSaleParameters",
+  "Round has not started": "roundNotStarted",
+  "Purchase exceeds round cap": "exceedsRoundCap",
+  "No active round": "noActiveRound",
+  "Round cap must be greater than zero": "invalidRound",
+  "Round must start after the previous round": "invalidRound",
+  "Round must end within the sale window": "invalidRound",
+  "Sale window must cover every round": "roundsOutsideWindow",
+  "Payment token not accepted": "paymentTokenNotAccepted",
+  "Invalid payment token": "invalidPaymentToken",
+  "Unknown payment asset": "invalidPaymentToken",
+  "ETH payments are not enabled": "ethNotAccepted",
+  "Invalid ETH price": "ethPriceUnavailable",
+  "ETH price is stale": "ethPriceUnavailable",
+  "Not enough ETH sent": "insufficientEthSent",
+  "ETH transfer failed": "ethTransferFailed",
+  "Not enough funds in contract": "insufficientFundsInContract",
+  "Price feed max age must be greater than zero": "invalidPriceFeed",
+  "Cannot refer yourself": "selfReferral",
+  "Referral reward too high": "referralRewardTooHigh",
+  "No referral rewards to claim": "noReferralRewards",
+  "Withdrawals are timelocked": "withdrawalsTimelocked",
+  "Withdrawals are not timelocked": "withdrawalsNotTimelocked",
+  "Unknown withdrawal": "unknownWithdrawal",
+  "Withdrawal is still timelocked": "withdrawalNotReady",
+  "Withdrawal delay too long": "invalidWithdrawalDelay",
+  "Withdrawal delay can only be increased once the sale has started": "invalidWithdrawalDelay",
+  "No treasury change pending": "noTreasuryChange",
+  "Treasury change is still timelocked": "treasuryChangeNotReady",
+  "Caller is not the owner or treasury": "notOwnerOrTreasury",
+};
+
+// Custom errors the sale or the tokens it calls can revert with
+export const CUSTOM_ERRORS: Record<string, ErrorKey> = {
+  OwnableUnauthorizedAccount: "notOwner",
+  OwnableInvalidOwner: "notOwner",
+  EnforcedPause: "salePaused",
+  ExpectedPause: "saleNotPaused",
+  SafeERC20FailedOperation: "tokenTransferFailed",
+  ERC20InsufficientBalance: "insufficientTokenBalance",
+  ERC20InsufficientAllowance: "insufficientTokenAllowance",
+};
+
+const ERROR_INTERFACE = new ethers.Interface([
+  ...RoiTokenSale__factory.abi.filter(fragment => fragment.type === "error"),
+  ...ERC20__factory.abi.filter(fragment => fragment.type === "error"),
+]);
+
+const MESSAGES: Record<Locale, Record<ErrorKey, string>> = {
+  en: {
+    saleNotStarted: "The sale has not started yet.",
+    saleEnded: "The sale has ended.",
+    saleNotEnded: "This is only possible once the sale has ended.",
+    notAllowlisted: "Your wallet is not on the allowlist for this sale.",
+    zeroAmount: "Enter an amount greater than zero.",
+    exceedsHardCap: "This purchase would exceed the hard cap. Try a smaller amount.",
+    belowMinimum: "This purchase is below the minimum contribution.",
+    exceedsMaximum: "This purchase would exceed your maximum contribution.",
+    insufficientRoiInventory: "The sale does not hold enough ROI for this amount.",
+    insufficientUsdcInContract: "The sale does not hold enough USDC for this withdrawal.",
+    softCapNotReached: "The soft cap has not been reached yet.",
+    refundsUnavailable: "Refunds are only available after a sale that missed its soft cap.",
+    nothingToRefund: "This wallet has nothing to refund.",
+    nothingToClaim: "There is no vested ROI to claim yet.",
+    vestingDisabled: "Vesting is not enabled for this sale.",
+    saleAlreadyStarted: "This can only be changed before the sale starts.",
+    startInPast: "The start time must not be in the past.",
+    invalidSaleWindow: "The end time must be after the start time.",
+    invalidExtension: "The new end time must be after the current end time.",
+    invalidContributionLimits: "The maximum contribution must not be below the minimum.",
+    invalidVestingSchedule: "The cliff must not be longer than the vesting duration.",
+    invalidSaleParameters: "The sale parameters are invalid.",
+    roundNotStarted: "The next round has not opened yet.",
+    exceedsRoundCap: "This purchase would exceed what is left in the current round. Try a smaller amount.",
+    noActiveRound: "There are no rounds left in this sale.",
+    invalidRound: "Rounds must have a cap and follow each other inside the sale window.",
+    roundsOutsideWindow: "The sale window must cover every round.",
+    paymentTokenNotAccepted: "This token is not accepted as payment. Choose another asset.",
+    invalidPaymentToken: "This token cannot be used as a payment asset.",
+    ethNotAccepted: "ETH is not accepted as payment in this sale.",
+    ethPriceUnavailable: "The ETH price is not available right now. Try again later or pay with a stablecoin.",
+    insufficientEthSent: "The ETH price moved since your quote. Refresh the quote and try again.",
+    ethTransferFailed: "The ETH transfer failed.",
+    insufficientFundsInContract: "The sale does not hold enough of this asset for this withdrawal.",
+    invalidPriceFeed: "The price feed settings are invalid.",
+    selfReferral: "You cannot use your own referral link.",
+    referralRewardTooHigh: "The referral reward is above the maximum allowed.",
+    noReferralRewards: "You have no referral rewards to claim.",
+    salePaused: "The sale is paused. Purchases will reopen once it resumes.",
+    saleNotPaused: "The sale is not paused.",
+    withdrawalsTimelocked: "Withdrawals are timelocked and must be scheduled first.",
+    withdrawalsNotTimelocked: "Withdrawals are not timelocked and can be made directly.",
+    unknownWithdrawal: "This withdrawal does not exist or has already been executed or cancelled.",
+    withdrawalNotReady: "This withdrawal cannot be executed until its timelock has passed.",
+    invalidWithdrawalDelay: "The withdrawal delay is too long, or would be lowered after the sale started.",
+    noTreasuryChange: "No treasury change is scheduled.",
+    treasuryChangeNotReady: "The treasury change cannot be applied until its timelock has passed.",
+    notOwnerOrTreasury: "Only the sale owner or treasury can do this.",
+    notOwner: "Only the sale owner can do this.",
+    insufficientTokenBalance: "Your wallet does not hold enough tokens for this transaction.",
+    insufficientTokenAllowance: "The approved amount is too low. Approve the full amount and try again.",
+    tokenTransferFailed: "The token transfer failed.",
+    insufficientPaymentBalance: "Your {symbol} balance is too low: you have {balance}.",
+    roiInventoryLeft: "The sale only has {amount} ROI left for purchase.",
+    approvalRequired: "Approve at least {amount} first.",
+    networkFeeAtRisk: "Your wallet may not have enough ETH to pay the network fee.",
+    usdcRoundedDown: "USDC has {decimals} decimals; the amount was rounded down to {amount} USDC",
+    roiDigitsIgnored: "ROI has {decimals} decimals; digits beyond that were ignored",
+    roiRoundedUp: "ROI is sold in steps of {step}; you will receive {dust} ROI more than requested",
+    rateTooFine: "A rate of {rate} ROI per USDC is finer than one ROI base unit per USDC base unit",
+    userRejected: "You rejected the request in your wallet.",
+    insufficientFunds: "Your wallet does not have enough ETH for this transaction and its gas.",
+    outOfGas: "The transaction ran out of gas. Try again with a higher gas limit.",
+    wrongNetwork: "Your wallet is connected to the wrong network.",
+    rpcUnavailable: "The network is not responding. Please try again in a moment.",
+    reverted: "The transaction was reverted.",
+    unknown: "Something went wrong. Please try again.",
+  },
+  es: {
+    saleNotStarted: "La venta aún no ha comenzado.",
+    saleEnded: "La venta ha terminado.",
+    saleNotEnded: "Esto solo es posible cuando la venta haya terminado.",
+    notAllowlisted: "Tu billetera no está en la lista de acceso de esta venta.",
+    zeroAmount: "Introduce una cantidad mayor que cero.",
+    exceedsHardCap: "Esta compra superaría el límite máximo. Prueba con una cantidad menor.",
+    belowMinimum: "Esta compra está por debajo de la contribución mínima.",
+    exceedsMaximum: "Esta compra superaría tu contribución máxima.",
+    insufficientRoiInventory: "La venta no tiene suficientes ROI para esta cantidad.",
+    insufficientUsdcInContract: "La venta no tiene suficientes USDC para este retiro.",
+    softCapNotReached: "Aún no se ha alcanzado el límite mínimo.",
+    refundsUnavailable: "Los reembolsos solo están disponibles si la venta no alcanzó su límite mínimo.",
+    nothingToRefund: "Esta billetera no tiene nada que reembolsar.",
+    nothingToClaim: "Todavía no hay ROI liberados para reclamar.",
+    vestingDisabled: "Esta venta no tiene liberación gradual.",
+    saleAlreadyStarted: "Esto solo se puede cambiar antes de que empiece la venta.",
+    startInPast: "La hora de inicio no puede estar en el pasado.",
+    invalidSaleWindow: "La hora de fin debe ser posterior a la de inicio.",
+    invalidExtension: "La nueva hora de fin debe ser posterior a la actual.",
+    invalidContributionLimits: "La contribución máxima no puede ser menor que la mínima.",
+    invalidVestingSchedule: "El periodo de bloqueo no puede superar la duración de la liberación.",
+    invalidSaleParameters: "Los parámetros de la venta no son válidos.",
+    roundNotStarted: "La siguiente ronda aún no ha comenzado.",
+    exceedsRoundCap: "Esta compra superaría lo que queda en la ronda actual. Prueba con una cantidad menor.",
+    noActiveRound: "No quedan rondas en esta venta.",
+    invalidRound: "Las rondas deben tener un límite y sucederse dentro del periodo de la venta.",
+    roundsOutsideWindow: "El periodo de la venta debe cubrir todas las rondas.",
+    paymentTokenNotAccepted: "Este token no se acepta como pago. Elige otro activo.",
+    invalidPaymentToken: "Este token no se puede usar como activo de pago.",
+    ethNotAccepted: "Esta venta no acepta pagos en ETH.",
+    ethPriceUnavailable: "El precio de ETH no está disponible ahora. Inténtalo más tarde o paga con una stablecoin.",
+    insufficientEthSent: "El precio de ETH cambió desde tu cotización. Actualiza la cotización e inténtalo de nuevo.",
+    ethTransferFailed: "La transferencia de ETH falló.",
+    insufficientFundsInContract: "La venta no tiene suficiente de este activo para este retiro.",
+    invalidPriceFeed: "La configuración del oráculo de precios no es válida.",
+    selfReferral: "No puedes usar tu propio enlace de referido.",
+    referralRewardTooHigh: "La recompensa por referido supera el máximo permitido.",
+    noReferralRewards: "No tienes recompensas por referidos para reclamar.",
+    salePaused: "La venta está en pausa. Las compras se reanudarán cuando se reactive.",
+    saleNotPaused: "La venta no está en pausa.",
+    withdrawalsTimelocked: "Los retiros tienen un bloqueo temporal y deben programarse primero.",
+    withdrawalsNotTimelocked: "Los retiros no tienen bloqueo temporal y pueden hacerse directamente.",
+    unknownWithdrawal: "Este retiro no existe o ya fue ejecutado o cancelado.",
+    withdrawalNotReady: "Este retiro no puede ejecutarse hasta que pase su bloqueo temporal.",
+    invalidWithdrawalDelay: "El plazo de retiro es demasiado largo o se reduciría después de iniciada la venta.",
+    noTreasuryChange: "No hay ningún cambio de tesorería programado.",
+    treasuryChangeNotReady: "El cambio de tesorería no puede aplicarse hasta que pase su bloqueo temporal.",
+    notOwnerOrTreasury: "Solo el propietario o la tesorería de la venta pueden hacer esto.",
+    notOwner: "Solo el propietario de la venta puede hacer esto.",
+    insufficientTokenBalance: "Tu billetera no tiene suficientes tokens para esta transacción.",
+    insufficientTokenAllowance: "La cantidad aprobada es insuficiente. Aprueba la cantidad completa e inténtalo de nuevo.",
+    tokenTransferFailed: "La transferencia del token falló.",
+    insufficientPaymentBalance: "Tu saldo de {symbol} es insuficiente: tienes {balance}.",
+    roiInventoryLeft: "A la venta solo le quedan {amount} ROI disponibles para comprar.",
+    approvalRequired: "Aprueba primero al menos {amount}.",
+    networkFeeAtRisk: "Es posible que tu billetera no tenga suficiente ETH para pagar la comisión de red.",
+    usdcRoundedDown: "USDC tiene {decimals} decimales; la cantidad se redondeó hacia abajo a {amount} USDC",
+    roiDigitsIgnored: "ROI tiene {decimals} decimales; se ignoraron los dígitos adicionales",
+    roiRoundedUp: "ROI se vende en pasos de {step}; recibirás {dust} ROI más de lo solicitado",
+    rateTooFine: "Una tasa de {rate} ROI por USDC es más fina que una unidad base de ROI por unidad base de USDC",
+    userRejected: "Rechazaste la solicitud en tu billetera.",
+    insufficientFunds: "Tu billetera no tiene suficiente ETH para esta transacción y su gas.",
+    outOfGas: "La transacción se quedó sin gas. Inténtalo de nuevo con un límite de gas mayor.",
+    wrongNetwork: "Tu billetera está conectada a la red equivocada.",
+    rpcUnavailable: "La red no responde. Inténtalo de nuevo en un momento.",
+    reverted: "La transacción fue revertida.",
+    unknown: "Algo salió mal. Inténtalo de nuevo.",
+  },
+};
+
+// Pick a supported locale from a BCP 47 tag such as navigator.language
+export const resolveLocale = (language?: string): Locale => {
+  return language?.toLowerCase().startsWith("es") ? "es" : "en";
+};
+
+// Messages can take values, written as {name} in the text
+export const getErrorText = (key: ErrorKey, locale: Locale = "en", values: Record<string, string> = {}): string => {
+  return MESSAGES[locale][key].replace(/\{(\w+)\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+};
+
+// A failed contract action, carrying a message that can be shown to the user as is
+export class SaleError extends Error {
+  readonly key: ErrorKey;
+  readonly original: unknown; // the error as thrown by ethers, the wallet or the RPC
+
+  constructor(key: ErrorKey, message: string, original?: unknown) {
+    super(message);
+    this.name = "SaleError";
+    this.key = key;
+    this.original = original;
+  }
+}
+
+// Wallets and RPCs nest the original error at different depths; collect every message
+const collectMessages = (error: unknown, depth = 0): string[] => {
+  if (!error || typeof error !== "object" || depth > 4) return [];
+  const { message, shortMessage, reason, error: inner, info, cause } = error as Record<string, unknown>;
+  return [
+    ...[message, shortMessage, reason].filter((text): text is string => typeof text === "string"),
+    ...collectMessages(inner, depth + 1),
+    ...collectMessages(info, depth + 1),
+    ...collectMessages(cause, depth + 1),
+  ];
+};
+
+// Find revert data (selector + arguments) anywhere in a nested error
+const findRevertData = (error: unknown, depth = 0): string | null => {
+  if (!error || typeof error !== "object" || depth > 4) return null;
+  const { data, error: inner, info, cause } = error as Record<string, unknown>;
+  if (typeof data === "string" && ethers.isHexString(data) && data.length >= 10) return data;
+  return findRevertData(inner, depth + 1) ?? findRevertData(info, depth + 1) ?? findRevertData(cause, depth + 1);
+};
+
+const decodeRevert = (error: unknown): ErrorKey | null => {
+  if (ethers.isError(error, "CALL_EXCEPTION")) {
+    if (error.reason && REVERT_REASONS[error.reason]) return REVERT_REASONS[error.reason];
+    if (error.revert && CUSTOM_ERRORS[error.revert.name]) return CUSTOM_ERRORS[error.revert.name];
+  }
+
+  const data = findRevertData(error);
+  if (data) {
+    try {
+      const parsed = ERROR_INTERFACE.parseError(data);
+      if (parsed?.name === "Error" && REVERT_REASONS[parsed.args[0]]) return REVERT_REASONS[parsed.args[0]];
+      if (parsed && CUSTOM_ERRORS[parsed.name]) return CUSTOM_ERRORS[parsed.name];
+    } catch {
+      // Not an error we know how to decode
+    }
+  }
+
+  // Fall back to the text, e.g. "execution reverted: Sale has ended"
+  const text = collectMessages(error).join("\n");
+  const reason = Object.keys(REVERT_REASONS).find(candidate => text.includes(candidate));
+  if (reason) return REVERT_REASONS[reason];
+  const customError = Object.keys(CUSTOM_ERRORS).find(candidate => text.includes(candidate));
+  if (customError) return CUSTOM_ERRORS[customError];
+
+  return null;
+};
+
+// Classify an error thrown by ethers, the wallet or the RPC
+export const getErrorKey = (error: unknown): ErrorKey => {
+  if (error instanceof SaleError) return error.key;
+
+  const text = collectMessages(error).join("\n").toLowerCase();
+  const code = (error as { code?: unknown } | null)?.code;
+
+  if (ethers.isError(error, "ACTION_REJECTED") || code === 4001 || text.includes("user rejected")) {
+    return "userRejected";
+  }
+  if (ethers.isError(error, "INSUFFICIENT_FUNDS") || text.includes("insufficient funds")) {
+    return "insufficientFunds";
+  }
+
+  const revert = decodeRevert(error);
+  if (revert) return revert;
+
+  if (text.includes("out of gas") || text.includes("intrinsic gas too low") || text.includes("gas required exceeds")) {
+    return "outOfGas";
+  }
+  if (text.includes("network changed") || text.includes("chain mismatch") || text.includes("does not match the target chain")) {
+    return "wrongNetwork";
+  }
+  if (ethers.isError(error, "CALL_EXCEPTION")) return "reverted";
+  if (
+    ethers.isError(error, "NETWORK_ERROR")
+    || ethers.isError(error, "SERVER_ERROR")
+    || ethers.isError(error, "TIMEOUT")
+    || ethers.isError(error, "BAD_DATA")
+  ) {
+    return "rpcUnavailable";
+  }
+  return "unknown";
+};
+
+// Wrap any error as a SaleError with a localized message
+export const toSaleError = (error: unknown, locale: Locale = "en"): SaleError => {
+  if (error instanceof SaleError) return error;
+  const key = getErrorKey(error);
+  return new SaleError(key, getErrorText(key, locale), error);
+};
+
+// The message to show for a failed action, or `fallback` when nothing specific is known
+export const getErrorMessage = (error: unknown, fallback: string): string => {
+  return error instanceof SaleError && error.key !== "unknown" ? error.message : fallback;
+};
@@ -0,0 +1,37 @@
+import { ethers } from "ethers";
+import type { TypedContractEvent, TypedDeferredTopicFilter, TypedEventLog } from "./contracts/common";
+
+// Default max block span per eth_getLogs call (public Base RPCs reject large ranges)
+export const LOG_BLOCK_RANGE = 10000;
+
+// A typed contract binding that can be queried for `TCEvent` logs
+interface EventSource<TCEvent extends TypedContractEvent> {
+  queryFilter(filter: TypedDeferredTopicFilter<TCEvent>, fromBlock: number, toBlock: number): Promise<TypedEventLog<TCEvent>[]>;
+}
+
+// Query events in chunks of `chunkSize` blocks between fromBlock and toBlock (inclusive)
+export const queryFilterPaginated = async <TCEvent extends TypedContractEvent>(
+  contract: EventSource<TCEvent>,
+  filter: TypedDeferredTopicFilter<TCEvent>,
+  fromBlock: number,
+  toBlock: number,
+  chunkSize = LOG_BLOCK_RANGE
+): Promise<TypedEventLog<TCEvent>[]> => {
+  const events: TypedEventLog<TCEvent>[] = [];
+
+  for (let start = fromBlock; start <= toBlock; start += chunkSize) {
+    const end = Math.min(start + chunkSize - 1, toBlock);
+    const chunk = await contract.queryFilter(filter, start, end);
+    // Logs the ABI cannot decode come back without args
+    events.push(...chunk.filter(event => event instanceof ethers.EventLog));
+  }
+
+  return events;
+};
+
+// Fetch each distinct block once and map block number to timestamp (seconds)
+export const getBlockTimestamps = async (events: ethers.Log[]): Promise<Map<number, number>> => {
+  const blockEvents = new Map(events.map(event => [event.blockNumber, event]));
+  const blocks = await Promise.all([...blockEvents.values()].map(event => event.getBlock()));
+  return new Map(blocks.map(block => [block.number, block.timestamp]));
+};
@@ -0,0 +1,46 @@
+import { ethers } from "ethers";
+
+// Format numbers with commas
+export const formatNumber = (num: number | string | bigint): string => {
+  return new Intl.NumberFormat().format(Number(num));
+};
+
+// Decimals of USDC and ROI on Base, for callers that have not read them from the tokens
+export const USDC_DECIMALS = 6;
+export const ROI_DECIMALS = 18;
+
+// Format USDC amount
+export const formatUSDC = (amount: bigint, decimals = USDC_DECIMALS): string => {
+  return ethers.formatUnits(amount, decimals);
+};
+
+// Format ROI amount
+export const formatROI = (amount: bigint, decimals = ROI_DECIMALS): string => {
+  // Convert from base units to actual ROI amount
+  const formatted = ethers.formatUnits(amount, decimals);
+  
+  // Format with commas and no decimals
+  return formatNumber(Number(formatted));
+};
+
+// Parse USDC input to bigint
+export const parseUSDC = (amount: string, decimals = USDC_DECIMALS): bigint => {
+  return ethers.parseUnits(amount || "0", decimals);
+};
+
+// Parse ROI input to bigint
+export const parseROI = (amount: string, decimals = ROI_DECIMALS): bigint => {
+  return ethers.parseUnits(amount || "0", decimals);
+};
+
+// Truncate address for display
+export const truncateAddress = (address: string, start = 6, end = 4): string => {
+  if (!address) return "";
+  if (address.length <= start + end) return address;
+  return `${address.substring(0, start)}...${address.substring(address.length - end)}`;
+};
+
+// Block explorer link for a transaction hash (the explorer comes from the deployment manifest)
+export const explorerTxUrl = (explorerUrl: string, txHash: string): string => {
+  return `${explorerUrl}/tx/${txHash}`;
+};
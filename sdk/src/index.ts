@@ -0,0 +1,19 @@
+// Headless client for the ROI token sale, shared by the frontend, the scripts and the tests.
+// SaleClient covers a deployed sale end to end; the modules below are the pure pieces it is
+// built from (quoting, rounds, payments, errors) for callers that already have the state
+export * from "./client";
+export * from "./contracts";
+export * from "./errors";
+export * from "./events";
+export * from "./formatting";
+export * from "./multicall";
+export * from "./payments";
+export * from "./permit";
+export * from "./preflight";
+export * from "./quote";
+export * from "./referrals";
+export * from "./rounds";
+export * from "./saleState";
+export * from "./saleWindow";
+export * from "./stats";
+export * from "./vesting";
@@ -0,0 +1,68 @@
+import { ethers } from "ethers";
+
+// Multicall3 is deployed at the same address on Base, Base Sepolia and most EVM chains
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+];
+
+export interface ContractCall {
+  contract: ethers.BaseContract;
+  method: string;
+  args?: unknown[];
+}
+
+// Methods of a typed contract binding that can be called
+type MethodName<C> = {
+  [K in keyof C & string]: C[K] extends { staticCall: (...args: never[]) => unknown } ? K : never;
+}[keyof C & string];
+
+type MethodArgs<C, M extends keyof C> = C[M] extends { staticCall: (...args: infer A) => unknown } ? A : never;
+
+// A call whose method name and arguments are checked against the contract's typed bindings
+export const contractCall = <C extends ethers.BaseContract, M extends MethodName<C>>(
+  contract: C,
+  method: M,
+  ...args: MethodArgs<C, M>
+): ContractCall => ({ contract, method, args });
+
+// Whether Multicall3 exists on each provider's chain (it doesn't on a fresh Hardhat node)
+const multicallSupport = new WeakMap<ethers.Provider, Promise<boolean>>();
+
+const hasMulticall = (provider: ethers.Provider): Promise<boolean> => {
+  let supported = multicallSupport.get(provider);
+  if (!supported) {
+    supported = provider
+      .getCode(MULTICALL3_ADDRESS)
+      .then(code => code !== "0x")
+      .catch(() => false);
+    multicallSupport.set(provider, supported);
+  }
+  return supported;
+};
+
+// Run several view calls in one eth_call through Multicall3, falling back to parallel calls
+// when Multicall3 is not deployed. Calls with several return values resolve to the whole Result
+export const multicall = async (provider: ethers.Provider, calls: ContractCall[]): Promise<unknown[]> => {
+  if (calls.length === 0) return [];
+
+  if (!(await hasMulticall(provider))) {
+    return Promise.all(calls.map(({ contract, method, args = [] }) => contract.getFunction(method)(...args)));
+  }
+
+  const multicall3 = new ethers.Contract(MULTICALL3_ADDRESS, MULTICALL3_ABI, provider);
+  const results: { success: boolean; returnData: string }[] = await multicall3.aggregate3.staticCall(
+    calls.map(({ contract, method, args = [] }) => ({
+      target: contract.target,
+      allowFailure: false,
+      callData: contract.interface.encodeFunctionData(method, args),
+    }))
+  );
+
+  return results.map(({ returnData }, i) => {
+    const { contract, method } = calls[i];
+    const result = contract.interface.decodeFunctionResult(method, returnData);
+    return result.length === 1 ? result[0] : result;
+  });
+};
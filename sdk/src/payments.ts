@@ -0,0 +1,65 @@
+import { ethers } from "ethers";
+
+// An asset the sale accepts: its own USDC, a listed stablecoin (valued 1:1 with USDC) or native ETH
+export interface PaymentAsset {
+  kind: "usdc" | "token" | "eth";
+  address: string; // ethers.ZeroAddress for ETH, as in RoiTokenSale
+  symbol: string;
+  decimals: number;
+}
+
+// The latest answer of the sale's ETH/USD price feed
+export interface EthPrice {
+  answer: bigint;    // USD per ETH, with `decimals` decimals
+  decimals: number;
+  updatedAt: number; // unix seconds
+  maxAge: number;    // seconds the sale accepts the answer for
+}
+
+export const ETH_ASSET: PaymentAsset = { kind: "eth", address: ethers.ZeroAddress, symbol: "ETH", decimals: 18 };
+
+// Extra ETH sent with a purchase to cover price moves before it is mined; the sale returns what it doesn't use
+export const ETH_PRICE_BUFFER_BPS = BigInt(100);
+
+const ceilDiv = (a: bigint, b: bigint): bigint => (a + b - BigInt(1)) / b;
+
+// Amount of a stablecoin a purchase worth `usdcAmount` costs, mirroring RoiTokenSale.tokenAmountFor
+export const getTokenAmount = (usdcAmount: bigint, tokenDecimals: number, usdcDecimals: number): bigint => {
+  if (tokenDecimals >= usdcDecimals) return usdcAmount * BigInt(10) ** BigInt(tokenDecimals - usdcDecimals);
+  return ceilDiv(usdcAmount, BigInt(10) ** BigInt(usdcDecimals - tokenDecimals));
+};
+
+// ETH a purchase worth `usdcAmount` costs at `price`, mirroring RoiTokenSale.ethAmountFor (in wei, rounded up)
+export const getEthAmount = (usdcAmount: bigint, price: EthPrice, usdcDecimals: number): bigint => {
+  if (price.answer <= BigInt(0)) return BigInt(0);
+  return ceilDiv(
+    usdcAmount * BigInt(10) ** BigInt(18 + price.decimals),
+    price.answer * BigInt(10) ** BigInt(usdcDecimals)
+  );
+};
+
+// ETH to send for a purchase costing `ethAmount`, including the price buffer
+export const withPriceBuffer = (ethAmount: bigint): bigint => (
+  ethAmount + ceilDiv(ethAmount * ETH_PRICE_BUFFER_BPS, BigInt(10000))
+);
+
+// Whether the sale would accept the feed's answer at `now` (unix seconds)
+export const isEthPriceFresh = (price: EthPrice | null, now: number): price is EthPrice => (
+  price !== null && price.answer > BigInt(0) && now - price.updatedAt <= price.maxAge
+);
+
+// Amount of `asset` a purchase worth `usdcAmount` costs, or null while the ETH price is unavailable
+export const getPaymentAmount = (
+  asset: PaymentAsset,
+  usdcAmount: bigint,
+  usdcDecimals: number,
+  ethPrice: EthPrice | null,
+  now: number
+): bigint | null => {
+  if (asset.kind === "usdc") return usdcAmount;
+  if (asset.kind === "token") return getTokenAmount(usdcAmount, asset.decimals, usdcDecimals);
+  return isEthPriceFresh(ethPrice, now) ? getEthAmount(usdcAmount, ethPrice, usdcDecimals) : null;
+};
+
+// Key for per-asset balances and allowances
+export const assetKey = (asset: Pick<PaymentAsset, "address">): string => asset.address.toLowerCase();
@@ -0,0 +1,69 @@
+import { ethers } from "ethers";
+import type { ERC20 } from "./contracts";
+
+// How long a permit signature stays valid
+export const PERMIT_DEADLINE_SECONDS = 20 * 60;
+
+const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export interface PermitSignature {
+  deadline: number;
+  v: number;
+  r: string;
+  s: string;
+}
+
+// A token supports EIP-2612 if it exposes both nonces() and DOMAIN_SEPARATOR()
+export const supportsPermit = async (token: ERC20): Promise<boolean> => {
+  try {
+    await Promise.all([token.nonces(ethers.ZeroAddress), token.DOMAIN_SEPARATOR()]);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Read the token's EIP-712 domain: EIP-5267 where available, otherwise name() + version()
+// (USDC predates EIP-5267 and uses version "2")
+export const getPermitDomain = async (token: ERC20): Promise<ethers.TypedDataDomain> => {
+  try {
+    const [, name, version, chainId, verifyingContract] = await token.eip712Domain();
+    return { name, version, chainId, verifyingContract };
+  } catch {
+    const [name, version, network] = await Promise.all([
+      token.name(),
+      token.version().catch(() => "1"),
+      token.runner!.provider!.getNetwork(),
+    ]);
+    return { name, version, chainId: network.chainId, verifyingContract: await token.getAddress() };
+  }
+};
+
+// Ask the wallet to sign a permit letting `spender` pull `value` of `token`
+export const signPermit = async (
+  token: ERC20,
+  signer: ethers.Signer,
+  spender: string,
+  value: bigint
+): Promise<PermitSignature> => {
+  const owner = await signer.getAddress();
+  const [domain, nonce, latestBlock] = await Promise.all([
+    getPermitDomain(token),
+    token.nonces(owner),
+    signer.provider?.getBlock("latest"),
+  ]);
+  // Counted from the chain's clock, which a local node may have moved ahead of the wall clock
+  const deadline = (latestBlock?.timestamp ?? Math.floor(Date.now() / 1000)) + PERMIT_DEADLINE_SECONDS;
+
+  const signature = await signer.signTypedData(domain, PERMIT_TYPES, { owner, spender, value, nonce, deadline });
+  const { v, r, s } = ethers.Signature.from(signature);
+  return { deadline, v, r, s };
+};
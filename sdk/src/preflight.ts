@@ -0,0 +1,57 @@
+import { ethers } from "ethers";
+import { getErrorText } from "./errors";
+import type { Locale } from "./errors";
+import type { PermitSignature } from "./permit";
+import type { PaymentAsset } from "./payments";
+
+export interface PurchasePreflight {
+  usdcAmount: bigint;  // what the purchase is worth in USDC
+  asset: PaymentAsset;
+  paymentAmount: bigint; // amount of the asset sent; for ETH this includes the price buffer
+  roiAmount: bigint;   // ROI the purchase will transfer or vest
+  tier: number;
+  proof: string[];
+  referrer: string;    // zero address when no one referred the buyer
+  permit: PermitSignature | null; // signed during pre-flight when buying with permit
+  gasLimit: bigint | null;
+  fee: bigint | null;  // estimated network fee in wei
+  errors: string[];    // problems that would make the purchase revert; nothing is sent while any remain
+  warnings: string[];
+}
+
+export interface PurchaseBalances {
+  paymentBalance: bigint; // the wallet's balance of the payment asset
+  allowance: bigint;      // ignored for ETH
+  availableROI: bigint; // sale inventory not reserved for vesting buyers
+  usesPermit: boolean;
+}
+
+// Checks that can be made from balances alone, before simulating the call
+export const checkPurchaseBalances = (
+  asset: PaymentAsset,
+  paymentAmount: bigint,
+  roiAmount: bigint,
+  balances: PurchaseBalances,
+  roiDecimals: number,
+  locale: Locale = "en"
+): string[] => {
+  const errors: string[] = [];
+  const format = (amount: bigint) => `${ethers.formatUnits(amount, asset.decimals)} ${asset.symbol}`;
+
+  if (balances.paymentBalance < paymentAmount) {
+    errors.push(getErrorText("insufficientPaymentBalance", locale, {
+      symbol: asset.symbol,
+      balance: format(balances.paymentBalance),
+    }));
+  }
+  if (balances.availableROI < roiAmount) {
+    errors.push(getErrorText("roiInventoryLeft", locale, {
+      amount: ethers.formatUnits(balances.availableROI, roiDecimals),
+    }));
+  }
+  if (asset.kind !== "eth" && !balances.usesPermit && balances.allowance < paymentAmount) {
+    errors.push(getErrorText("approvalRequired", locale, { amount: format(paymentAmount) }));
+  }
+
+  return errors;
+};
@@ -0,0 +1,107 @@
+import { ethers } from "ethers";
+import { getErrorText } from "./errors";
+import type { Locale } from "./errors";
+
+export interface TokenDecimals {
+  usdc: number;
+  roi: number;
+}
+
+export interface Quote {
+  usdcAmount: bigint; // USDC to spend (in base units)
+  roiAmount: bigint;  // ROI the sale will transfer (in base units)
+  warnings: string[]; // rounding / dust notices to show next to the quote
+}
+
+const ZERO = BigInt(0);
+
+const emptyQuote = (): Quote => ({ usdcAmount: ZERO, roiAmount: ZERO, warnings: [] });
+
+// Exactly what RoiTokenSale.buy transfers: roiPerUSDC is ROI base units per USDC base unit
+export const getROIForUSDC = (usdcAmount: bigint, roiPerUSDC: bigint): bigint => {
+  return usdcAmount * roiPerUSDC;
+};
+
+// Smallest USDC amount that buys at least `roiAmount` (rounds up)
+export const getUSDCForROI = (roiAmount: bigint, roiPerUSDC: bigint): bigint => {
+  if (roiPerUSDC === ZERO) return ZERO;
+  return (roiAmount + roiPerUSDC - BigInt(1)) / roiPerUSDC;
+};
+
+// Whole ROI per whole USDC, for display (e.g. "1250.0")
+export const formatRate = (roiPerUSDC: bigint, decimals: TokenDecimals): string => {
+  return ethers.formatUnits(roiPerUSDC * BigInt(10) ** BigInt(decimals.usdc), decimals.roi);
+};
+
+// The sale's roiPerUSDC for a rate in whole ROI per whole USDC (e.g. "1250"), the inverse of formatRate
+export const parseRate = (rate: string, decimals: TokenDecimals, locale: Locale = "en"): bigint => {
+  const scale = BigInt(10) ** BigInt(decimals.usdc);
+  const perWholeUSDC = ethers.parseUnits(rate, decimals.roi);
+  if (perWholeUSDC % scale !== ZERO) {
+    throw new Error(getErrorText("rateTooFine", locale, { rate }));
+  }
+  return perWholeUSDC / scale;
+};
+
+// Parse a decimal string, dropping digits beyond `decimals` instead of throwing
+export const parseUnitsTruncated = (value: string, decimals: number): { amount: bigint; truncated: boolean } => {
+  if (!/^\d*\.?\d*$/.test(value) || value === "" || value === ".") return { amount: ZERO, truncated: false };
+
+  const [whole, fraction = ""] = value.split(".");
+  const kept = fraction.slice(0, decimals);
+  const dropped = fraction.slice(decimals);
+
+  return {
+    amount: ethers.parseUnits(`${whole || "0"}.${kept || "0"}`, decimals),
+    truncated: /[1-9]/.test(dropped),
+  };
+};
+
+// Quote the ROI received for a typed USDC amount
+export const quoteFromUSDC = (
+  input: string,
+  roiPerUSDC: bigint,
+  decimals: TokenDecimals,
+  locale: Locale = "en"
+): Quote => {
+  if (roiPerUSDC === ZERO) return emptyQuote();
+
+  const { amount, truncated } = parseUnitsTruncated(input, decimals.usdc);
+  const warnings: string[] = [];
+  if (truncated) {
+    warnings.push(getErrorText("usdcRoundedDown", locale, {
+      decimals: String(decimals.usdc),
+      amount: ethers.formatUnits(amount, decimals.usdc),
+    }));
+  }
+
+  return { usdcAmount: amount, roiAmount: getROIForUSDC(amount, roiPerUSDC), warnings };
+};
+
+// Quote the USDC needed for a typed ROI amount. ROI is only sold in multiples of
+// roiPerUSDC, so targets in between are rounded up to the next purchasable amount.
+export const quoteFromROI = (
+  input: string,
+  roiPerUSDC: bigint,
+  decimals: TokenDecimals,
+  locale: Locale = "en"
+): Quote => {
+  if (roiPerUSDC === ZERO) return emptyQuote();
+
+  const { amount: requested, truncated } = parseUnitsTruncated(input, decimals.roi);
+  const usdcAmount = getUSDCForROI(requested, roiPerUSDC);
+  const roiAmount = getROIForUSDC(usdcAmount, roiPerUSDC);
+  const warnings: string[] = [];
+
+  if (truncated) {
+    warnings.push(getErrorText("roiDigitsIgnored", locale, { decimals: String(decimals.roi) }));
+  }
+  if (roiAmount > requested) {
+    warnings.push(getErrorText("roiRoundedUp", locale, {
+      step: ethers.formatUnits(roiPerUSDC, decimals.roi),
+      dust: ethers.formatUnits(roiAmount - requested, decimals.roi),
+    }));
+  }
+
+  return { usdcAmount, roiAmount, warnings };
+};
@@ -0,0 +1,36 @@
+import { ethers } from "ethers";
+
+// A referred purchase, from a ReferralRecorded event
+export interface ReferralRecord {
+  buyer: string;
+  usdcAmount: bigint; // what the purchase was worth
+  usdcReward: bigint;
+  roiReward: bigint;
+  txHash: string;
+  blockNumber: number;
+  timestamp: number;
+}
+
+export interface ReferralSummary {
+  buyers: number;    // distinct wallets referred
+  purchases: number;
+  volume: bigint;    // USDC of referred purchases
+  usdcEarned: bigint; // rewards earned, claimed or not
+  roiEarned: bigint;
+}
+
+// Referrer to pass to the sale for `buyer`: the zero address when there is none or it is the buyer
+// themselves, which the sale rejects
+export const resolveReferrer = (referrer: string | null, buyer: string | null): string => {
+  if (!referrer || (buyer && referrer.toLowerCase() === buyer.toLowerCase())) return ethers.ZeroAddress;
+  return referrer;
+};
+
+// Totals shown on a referrer's dashboard
+export const summarizeReferrals = (records: ReferralRecord[]): ReferralSummary => ({
+  buyers: new Set(records.map(record => record.buyer.toLowerCase())).size,
+  purchases: records.length,
+  volume: records.reduce((sum, record) => sum + record.usdcAmount, BigInt(0)),
+  usdcEarned: records.reduce((sum, record) => sum + record.usdcReward, BigInt(0)),
+  roiEarned: records.reduce((sum, record) => sum + record.roiReward, BigInt(0)),
+});
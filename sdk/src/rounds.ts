@@ -0,0 +1,50 @@
+// A sale round as returned by RoiTokenSale.getRounds
+export interface SaleRound {
+  roiPerUSDC: bigint; // ROI base units per USDC base unit during the round
+  cap: bigint;        // USDC the round may raise (in base units)
+  startTime: number;  // unix seconds
+  endTime: number;    // unix seconds
+  raised: bigint;     // USDC raised in the round so far
+}
+
+// Round data read from the sale contract
+export interface RoundState {
+  roiPerUSDC: bigint;  // the sale's fixed rate, used when there are no rounds
+  rounds: SaleRound[];
+  currentRound: number; // RoiTokenSale.currentRound when the state was read
+}
+
+const isOver = (round: SaleRound, now: number): boolean => now >= round.endTime || round.raised >= round.cap;
+
+// Index of the round purchases go to at `now` (unix seconds), mirroring RoiTokenSale.currentRound:
+// the first round from the last known one that has neither ended nor filled. rounds.length once every round is over
+export const getCurrentRoundIndex = (state: RoundState, now: number): number => {
+  let index = state.currentRound;
+  while (index < state.rounds.length && isOver(state.rounds[index], now)) {
+    index += 1;
+  }
+  return index;
+};
+
+// The round purchases go to at `now`, null when the sale has no rounds or they are all over
+export const getCurrentRound = (state: RoundState, now: number): SaleRound | null => (
+  state.rounds[getCurrentRoundIndex(state, now)] ?? null
+);
+
+// The round after the current one, whose price is shown as the upcoming price
+export const getNextRound = (state: RoundState, now: number): SaleRound | null => (
+  state.rounds[getCurrentRoundIndex(state, now) + 1] ?? null
+);
+
+// Rate a purchase gets at `now`, mirroring RoiTokenSale.currentRate: the sale's fixed rate
+// without rounds, 0 once every round is over
+export const getCurrentRate = (state: RoundState, now: number): bigint => {
+  if (state.rounds.length === 0) return state.roiPerUSDC;
+  return getCurrentRound(state, now)?.roiPerUSDC ?? BigInt(0);
+};
+
+// Whether the current round has been scheduled but not opened yet (a gap between rounds)
+export const isBetweenRounds = (state: RoundState, now: number): boolean => {
+  const round = getCurrentRound(state, now);
+  return round !== null && now < round.startTime;
+};
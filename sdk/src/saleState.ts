@@ -0,0 +1,401 @@
+import { ethers } from "ethers";
+import { ERC20__factory, IPriceFeed__factory, RoiTokenSale__factory } from "./contracts";
+import type { ERC20, IPriceFeed, RoiTokenSale } from "./contracts";
+import { contractCall, multicall } from "./multicall";
+import type { ContractCall } from "./multicall";
+import { ETH_ASSET, assetKey } from "./payments";
+import type { EthPrice, PaymentAsset } from "./payments";
+import type { SaleRound } from "./rounds";
+
+export interface ContractState {
+  softCap: bigint;
+  hardCap: bigint;
+  totalRaised: bigint;
+  roiPerUSDC: bigint; // ROI base units per USDC base unit
+  usdcDecimals: number;
+  roiDecimals: number;
+  isSoftCapReached: boolean;
+  isHardCapReached: boolean;
+  remainingToHardCap: bigint;
+  startTime: number; // unix seconds
+  endTime: number;   // unix seconds
+  merkleRoot: string; // allowlist root, ZeroHash when the sale is open to everyone
+  minContribution: bigint; // per-wallet minimum total, 0 = none
+  maxContribution: bigint; // per-wallet maximum total, 0 = none (tiers may override)
+  vestingEnabled: boolean; // purchases vest after the sale instead of being transferred immediately
+  cliffDuration: number;   // seconds after endTime before anything vests
+  vestingDuration: number; // seconds after endTime until everything has vested
+  rounds: SaleRound[];     // empty when the whole sale runs at roiPerUSDC
+  currentRound: number;    // index of the round purchases go to, rounds.length once every round is over
+  referralRewardBps: bigint; // referrers' reward per referred purchase, 0 = attribution only
+  referralRewardInROI: boolean; // rewards are a share of the ROI bought rather than of the USDC paid
+  paused: boolean; // the owner has halted purchases
+}
+
+export interface TokenBalances {
+  usdc: bigint;
+  roi: bigint;
+}
+
+// Amounts per payment asset, keyed by assetKey
+export type AssetAmounts = Record<string, bigint>;
+
+// What the connected wallet put into the sale, refundable if the soft cap is missed
+export interface Contribution {
+  usdc: bigint;
+  roi: bigint;
+  claimed: bigint; // vested ROI already claimed
+}
+
+// The connected wallet's referrals: volume referred and rewards not yet claimed
+export interface ReferralRewards {
+  volume: bigint;
+  usdc: bigint;
+  roi: bigint;
+  claimableRoi: bigint; // ROI rewards claimable now: none before the sale ends, then what has vested
+}
+
+// A withdrawal waiting for the timelock, as returned by RoiTokenSale.getWithdrawals
+export interface ScheduledWithdrawal {
+  id: number;
+  asset: string; // USDC, ROI, ethers.ZeroAddress for ETH, or a listed stablecoin
+  to: string;
+  amount: bigint;
+  readyAt: number; // unix seconds
+}
+
+// Safety settings only the owner needs
+export interface AdminState {
+  treasury: string;        // where withdrawals go, ZeroAddress for the owner
+  withdrawalDelay: number; // seconds between scheduling and executing a withdrawal, 0 = immediate
+  pendingOwner: string;    // ZeroAddress unless an ownership transfer awaits acceptance
+  pendingTreasury: string; // treasury waiting out the withdrawal delay, only meaningful with treasuryReadyAt
+  treasuryReadyAt: number; // unix seconds from which pendingTreasury can take over, 0 = no change scheduled
+  withdrawals: ScheduledWithdrawal[]; // scheduled and neither executed nor cancelled
+}
+
+export interface WithdrawalRecord {
+  asset: string;    // USDC, ROI, ethers.ZeroAddress for ETH, or a listed stablecoin
+  token: string;    // the asset's symbol
+  decimals: number;
+  amount: bigint;
+  txHash: string;
+  blockNumber: number;
+  timestamp: number;
+}
+
+export interface PurchaseRecord {
+  usdcAmount: bigint;
+  roiAmount: bigint;
+  txHash: string;
+  blockNumber: number;
+  timestamp: number;
+}
+
+export interface SalePurchase extends PurchaseRecord {
+  buyer: string;
+}
+
+export interface SaleRefund {
+  buyer: string;
+  usdcAmount: bigint;
+  roiAmount: bigint;
+  txHash: string;
+  blockNumber: number;
+}
+
+export interface PurchaseHistoryPage {
+  purchases: PurchaseRecord[];
+  fromBlock: number;
+  hasMore: boolean;
+}
+
+// Sale parameters that are fixed at deployment
+export type SaleParams = Pick<ContractState, "softCap" | "hardCap" | "roiPerUSDC" | "usdcDecimals" | "roiDecimals">;
+
+// Sale values that change over time (the window is owner-adjustable)
+type SaleProgress = Pick<
+  ContractState,
+  | "totalRaised" | "startTime" | "endTime" | "merkleRoot" | "minContribution" | "maxContribution"
+  | "vestingEnabled" | "cliffDuration" | "vestingDuration" | "rounds" | "currentRound"
+  | "referralRewardBps" | "referralRewardInROI" | "paused"
+>;
+
+// Where a sale and the tokens it trades are deployed
+export interface SaleAddresses {
+  address: string;
+  usdc: string;
+  roi: string;
+  deployBlock: number; // first block to scan for the sale's events
+}
+
+// The sale contract and the tokens it trades, connected to one provider or signer
+export interface SaleContracts {
+  sale: RoiTokenSale;
+  usdc: ERC20;
+  roi: ERC20;
+}
+
+// The ETH/USD feed the sale prices ETH with
+export interface PriceFeed {
+  contract: IPriceFeed;
+  decimals: number;
+  maxAge: number; // seconds
+}
+
+// The assets the sale accepts, USDC first, and the feed that prices ETH when it is accepted
+export interface PaymentAssets {
+  assets: PaymentAsset[];
+  priceFeed: PriceFeed | null;
+}
+
+// Everything the connected wallet holds and has put into the sale
+export interface AccountState {
+  balances: TokenBalances;
+  allowance: bigint;     // USDC the sale may pull
+  roiAllowance: bigint;  // ROI the sale may pull back for a refund
+  contribution: Contribution;
+  referralRewards: ReferralRewards;
+  paymentBalances: AssetAmounts;   // every accepted asset, ETH included
+  paymentAllowances: AssetAmounts; // every accepted token
+}
+
+// What the sale holds and its safety settings, for the owner
+export interface SaleHoldings {
+  saleBalances: TokenBalances;
+  salePaymentBalances: AssetAmounts; // ETH and the listed stablecoins
+  adminState: AdminState;
+}
+
+export const connectSale = (sale: SaleAddresses, runner: ethers.ContractRunner): SaleContracts => ({
+  sale: RoiTokenSale__factory.connect(sale.address, runner),
+  usdc: ERC20__factory.connect(sale.usdc, runner),
+  roi: ERC20__factory.connect(sale.roi, runner),
+});
+
+export const buildContractState = (params: SaleParams, progress: SaleProgress): ContractState => ({
+  ...params,
+  ...progress,
+  isSoftCapReached: progress.totalRaised >= params.softCap,
+  isHardCapReached: progress.totalRaised >= params.hardCap,
+  remainingToHardCap: progress.totalRaised >= params.hardCap ? BigInt(0) : params.hardCap - progress.totalRaised,
+});
+
+// Caps, rate and token decimals never change, so they are read once
+export const fetchSaleParams = async (provider: ethers.Provider, contracts: SaleContracts): Promise<SaleParams> => {
+  const [softCap, hardCap, roiPerUSDC, usdcDecimals, roiDecimals] = await multicall(provider, [
+    contractCall(contracts.sale, "softCap"),
+    contractCall(contracts.sale, "hardCap"),
+    contractCall(contracts.sale, "roiPerUSDC"),
+    contractCall(contracts.usdc, "decimals"),
+    contractCall(contracts.roi, "decimals"),
+  ]);
+  return {
+    softCap: BigInt(softCap as bigint),
+    hardCap: BigInt(hardCap as bigint),
+    roiPerUSDC: BigInt(roiPerUSDC as bigint),
+    usdcDecimals: Number(usdcDecimals),
+    roiDecimals: Number(roiDecimals),
+  };
+};
+
+// Total raised, sale window, limits, rounds and settings, in one multicall
+export const fetchSaleState = async (
+  provider: ethers.Provider,
+  contracts: SaleContracts,
+  params: SaleParams
+): Promise<ContractState> => {
+  const { sale } = contracts;
+  const results = await multicall(provider, [
+    contractCall(sale, "totalRaised"),
+    contractCall(sale, "startTime"),
+    contractCall(sale, "endTime"),
+    contractCall(sale, "merkleRoot"),
+    contractCall(sale, "minContribution"),
+    contractCall(sale, "maxContribution"),
+    contractCall(sale, "vestingEnabled"),
+    contractCall(sale, "cliffDuration"),
+    contractCall(sale, "vestingDuration"),
+    contractCall(sale, "getRounds"),
+    contractCall(sale, "currentRound"),
+    contractCall(sale, "referralRewardBps"),
+    contractCall(sale, "referralRewardInROI"),
+    contractCall(sale, "paused"),
+  ]);
+  const [totalRaised, startTime, endTime] = results as bigint[];
+  const [minContribution, maxContribution] = results.slice(4, 6) as bigint[];
+  const [cliffDuration, vestingDuration] = results.slice(7, 9) as bigint[];
+  const rounds = results[9] as ethers.Result[];
+
+  return buildContractState(params, {
+    totalRaised: BigInt(totalRaised),
+    startTime: Number(startTime),
+    endTime: Number(endTime),
+    merkleRoot: results[3] as string,
+    minContribution: BigInt(minContribution),
+    maxContribution: BigInt(maxContribution),
+    vestingEnabled: results[6] as boolean,
+    cliffDuration: Number(cliffDuration),
+    vestingDuration: Number(vestingDuration),
+    rounds: rounds.map(round => ({
+      roiPerUSDC: BigInt(round.roiPerUSDC),
+      cap: BigInt(round.cap),
+      startTime: Number(round.startTime),
+      endTime: Number(round.endTime),
+      raised: BigInt(round.raised),
+    })),
+    currentRound: Number(results[10] as bigint),
+    referralRewardBps: BigInt(results[11] as bigint),
+    referralRewardInROI: results[12] as boolean,
+    paused: results[13] as boolean,
+  });
+};
+
+// USDC, the stablecoins the owner has listed and ETH when a price feed is set
+export const fetchPaymentAssets = async (
+  provider: ethers.Provider,
+  contracts: SaleContracts,
+  params: SaleParams
+): Promise<PaymentAssets> => {
+  const { sale } = contracts;
+  const [tokens, feedAddress, maxAge] = await multicall(provider, [
+    contractCall(sale, "getPaymentTokens"),
+    contractCall(sale, "ethPriceFeed"),
+    contractCall(sale, "priceFeedMaxAge"),
+  ]) as [string[], string, bigint];
+  const tokenInfo = await multicall(provider, [...tokens].flatMap(token => [
+    contractCall(sale, "paymentTokenInfo", token),
+    contractCall(ERC20__factory.connect(token, provider), "symbol"),
+  ]));
+
+  const assets: PaymentAsset[] = [
+    { kind: "usdc", address: await contracts.usdc.getAddress(), symbol: "USDC", decimals: params.usdcDecimals },
+  ];
+  tokens.forEach((token, index) => {
+    const { accepted, decimals } = tokenInfo[index * 2] as ethers.Result;
+    if (accepted) {
+      assets.push({ kind: "token", address: token, symbol: tokenInfo[index * 2 + 1] as string, decimals: Number(decimals) });
+    }
+  });
+
+  if (feedAddress === ethers.ZeroAddress) return { assets, priceFeed: null };
+
+  const contract = IPriceFeed__factory.connect(feedAddress, provider);
+  assets.push(ETH_ASSET);
+  return { assets, priceFeed: { contract, decimals: Number(await contract.decimals()), maxAge: Number(maxAge) } };
+};
+
+export const fetchEthPrice = async (priceFeed: PriceFeed): Promise<EthPrice> => {
+  const { answer, updatedAt } = await priceFeed.contract.latestRoundData();
+  return { answer, decimals: priceFeed.decimals, updatedAt: Number(updatedAt), maxAge: priceFeed.maxAge };
+};
+
+// The wallet's balances, allowances, contribution and referral rewards, in one multicall
+// (plus the ETH balance)
+export const fetchAccountState = async (
+  provider: ethers.Provider,
+  contracts: SaleContracts,
+  address: string,
+  assets: PaymentAsset[]
+): Promise<AccountState> => {
+  const { sale, usdc, roi } = contracts;
+  const saleAddress = await sale.getAddress();
+  const tokenAssets = assets.filter(asset => asset.kind === "token");
+  const calls: ContractCall[] = [
+    contractCall(usdc, "balanceOf", address),
+    contractCall(roi, "balanceOf", address),
+    contractCall(usdc, "allowance", address, saleAddress),
+    contractCall(sale, "contributions", address),
+    contractCall(sale, "roiPurchased", address),
+    contractCall(roi, "allowance", address, saleAddress),
+    contractCall(sale, "roiClaimed", address),
+    contractCall(sale, "referredVolume", address),
+    contractCall(sale, "referralRewardsUSDC", address),
+    contractCall(sale, "referralRewardsROI", address),
+    contractCall(sale, "claimableReferralROI", address),
+  ];
+  for (const asset of tokenAssets) {
+    const token = ERC20__factory.connect(asset.address, provider);
+    calls.push(contractCall(token, "balanceOf", address), contractCall(token, "allowance", address, saleAddress));
+  }
+
+  const [results, ethBalance] = await Promise.all([multicall(provider, calls), provider.getBalance(address)]);
+  const [
+    usdcBalance, roiBalance, allowance, contributedUsdc, purchasedRoi, roiAllowance, claimedRoi,
+    referredVolume, referralUsdc, referralRoi, claimableReferralRoi,
+  ] = (results as bigint[]).map(value => BigInt(value));
+
+  const usdcKey = (await usdc.getAddress()).toLowerCase();
+  const paymentBalances: AssetAmounts = { [assetKey(ETH_ASSET)]: ethBalance, [usdcKey]: usdcBalance };
+  const paymentAllowances: AssetAmounts = { [usdcKey]: allowance };
+  tokenAssets.forEach((asset, index) => {
+    paymentBalances[assetKey(asset)] = BigInt(results[11 + index * 2] as bigint);
+    paymentAllowances[assetKey(asset)] = BigInt(results[12 + index * 2] as bigint);
+  });
+
+  return {
+    balances: { usdc: usdcBalance, roi: roiBalance },
+    allowance,
+    roiAllowance,
+    contribution: { usdc: contributedUsdc, roi: purchasedRoi, claimed: claimedRoi },
+    referralRewards: { volume: referredVolume, usdc: referralUsdc, roi: referralRoi, claimableRoi: claimableReferralRoi },
+    paymentBalances,
+    paymentAllowances,
+  };
+};
+
+// The sale's holdings of every accepted asset and its safety settings, in one multicall
+// (plus the ETH balance)
+export const fetchSaleHoldings = async (
+  provider: ethers.Provider,
+  contracts: SaleContracts,
+  assets: PaymentAsset[]
+): Promise<SaleHoldings> => {
+  const { sale, usdc, roi } = contracts;
+  const saleAddress = await sale.getAddress();
+  const tokenAssets = assets.filter(asset => asset.kind === "token");
+  const calls: ContractCall[] = [
+    contractCall(usdc, "balanceOf", saleAddress),
+    contractCall(roi, "balanceOf", saleAddress),
+    contractCall(sale, "treasury"),
+    contractCall(sale, "withdrawalDelay"),
+    contractCall(sale, "pendingOwner"),
+    contractCall(sale, "getWithdrawals"),
+    contractCall(sale, "pendingTreasury"),
+    contractCall(sale, "treasuryReadyAt"),
+    ...tokenAssets.map(asset => contractCall(ERC20__factory.connect(asset.address, provider), "balanceOf", saleAddress)),
+  ];
+
+  const [results, ethBalance] = await Promise.all([multicall(provider, calls), provider.getBalance(saleAddress)]);
+  const [saleUsdc, saleRoi] = results as bigint[];
+  const [treasury, withdrawalDelay, pendingOwner, withdrawals, pendingTreasury, treasuryReadyAt] = results.slice(2, 8) as [
+    string, bigint, string, ethers.Result[], string, bigint
+  ];
+
+  const salePaymentBalances: AssetAmounts = { [assetKey(ETH_ASSET)]: ethBalance };
+  tokenAssets.forEach((asset, index) => {
+    salePaymentBalances[assetKey(asset)] = BigInt(results[8 + index] as bigint);
+  });
+
+  return {
+    saleBalances: { usdc: BigInt(saleUsdc), roi: BigInt(saleRoi) },
+    salePaymentBalances,
+    adminState: {
+      treasury,
+      withdrawalDelay: Number(withdrawalDelay),
+      pendingOwner,
+      pendingTreasury,
+      treasuryReadyAt: Number(treasuryReadyAt),
+      withdrawals: withdrawals
+        .map((withdrawal, id) => ({
+          id,
+          asset: withdrawal.asset as string,
+          to: withdrawal.to as string,
+          amount: BigInt(withdrawal.amount),
+          readyAt: Number(withdrawal.readyAt),
+        }))
+        // Executed and cancelled withdrawals are cleared
+        .filter(withdrawal => withdrawal.readyAt !== 0),
+    },
+  };
+};
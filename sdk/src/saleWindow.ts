@@ -0,0 +1,22 @@
+import type { ContractState } from "./saleState";
+
+export type SalePhase = 'loading' | 'upcoming' | 'active' | 'ended';
+
+// Where `now` (unix seconds) falls relative to the sale window
+export const getSalePhase = (state: Pick<ContractState, 'startTime' | 'endTime'>, now: number): SalePhase => {
+  if (state.endTime === 0) return 'loading';
+  if (now < state.startTime) return 'upcoming';
+  if (now < state.endTime) return 'active';
+  return 'ended';
+};
+
+// Split a number of seconds into days / hours / minutes / seconds
+export const splitDuration = (totalSeconds: number) => {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  return {
+    days: Math.floor(seconds / 86400),
+    hours: Math.floor((seconds % 86400) / 3600),
+    minutes: Math.floor((seconds % 3600) / 60),
+    seconds: seconds % 60,
+  };
+};
@@ -0,0 +1,73 @@
+import type { SalePurchase } from "./saleState";
+
+export interface ContributorTotal {
+  buyer: string;
+  usdcAmount: bigint;
+  roiAmount: bigint;
+  purchases: number;
+}
+
+export interface CumulativePoint {
+  timestamp: number;
+  totalRaised: bigint;
+}
+
+export interface SaleStats {
+  totalRaised: bigint;
+  purchaseCount: number;
+  uniqueContributors: number;
+  averageTicket: bigint;
+  medianTicket: bigint;
+  topContributors: ContributorTotal[];
+  cumulativeRaised: CumulativePoint[];
+}
+
+// Median of a list of amounts (mean of the two middle values for even counts)
+export const median = (amounts: bigint[]): bigint => {
+  if (amounts.length === 0) return BigInt(0);
+
+  const sorted = [...amounts].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  const middle = Math.floor(sorted.length / 2);
+
+  if (sorted.length % 2 === 1) return sorted[middle];
+  return (sorted[middle - 1] + sorted[middle]) / BigInt(2);
+};
+
+// Aggregate TokensPurchased events (oldest first) into sale-wide statistics
+export const computeSaleStats = (purchases: SalePurchase[], topCount = 10): SaleStats => {
+  const contributors = new Map<string, ContributorTotal>();
+  const cumulativeRaised: CumulativePoint[] = [];
+  let totalRaised = BigInt(0);
+
+  for (const purchase of purchases) {
+    const key = purchase.buyer.toLowerCase();
+    const contributor = contributors.get(key) ?? {
+      buyer: purchase.buyer,
+      usdcAmount: BigInt(0),
+      roiAmount: BigInt(0),
+      purchases: 0,
+    };
+
+    contributor.usdcAmount += purchase.usdcAmount;
+    contributor.roiAmount += purchase.roiAmount;
+    contributor.purchases += 1;
+    contributors.set(key, contributor);
+
+    totalRaised += purchase.usdcAmount;
+    cumulativeRaised.push({ timestamp: purchase.timestamp, totalRaised });
+  }
+
+  const topContributors = [...contributors.values()]
+    .sort((a, b) => (a.usdcAmount < b.usdcAmount ? 1 : a.usdcAmount > b.usdcAmount ? -1 : 0))
+    .slice(0, topCount);
+
+  return {
+    totalRaised,
+    purchaseCount: purchases.length,
+    uniqueContributors: contributors.size,
+    averageTicket: purchases.length > 0 ? totalRaised / BigInt(purchases.length) : BigInt(0),
+    medianTicket: median(purchases.map(purchase => purchase.usdcAmount)),
+    topContributors,
+    cumulativeRaised,
+  };
+};
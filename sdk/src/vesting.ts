@@ -0,0 +1,41 @@
+import type { ContractState, Contribution } from "./saleState";
+
+export interface VestingBreakdown {
+  vested: bigint;    // vested so far, including anything already claimed
+  claimable: bigint; // vested but not yet claimed
+  locked: bigint;    // not vested yet
+  cliffEnd: number;  // unix seconds when the first tokens vest
+  vestingEnd: number; // unix seconds when everything has vested
+}
+
+type VestingSchedule = Pick<
+  ContractState,
+  'endTime' | 'cliffDuration' | 'vestingDuration' | 'vestingEnabled' | 'isSoftCapReached'
+>;
+
+// Mirrors RoiTokenSale.vestedAmount / claimableAmount so the amounts tick without a refresh
+export const getVestingBreakdown = (
+  schedule: VestingSchedule,
+  contribution: Pick<Contribution, 'roi' | 'claimed'>,
+  now: number
+): VestingBreakdown => {
+  const cliffEnd = schedule.endTime + schedule.cliffDuration;
+  const vestingEnd = schedule.endTime + schedule.vestingDuration;
+  const total = contribution.roi;
+
+  let vested = BigInt(0);
+  if (schedule.vestingEnabled && now >= cliffEnd) {
+    const elapsed = now - schedule.endTime;
+    vested = elapsed >= schedule.vestingDuration
+      ? total
+      : (total * BigInt(elapsed)) / BigInt(schedule.vestingDuration);
+  }
+
+  return {
+    vested,
+    claimable: schedule.isSoftCapReached ? vested - contribution.claimed : BigInt(0),
+    locked: total - vested,
+    cliffEnd,
+    vestingEnd,
+  };
+};
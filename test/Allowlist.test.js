@@ -0,0 +1,78 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const { time } = require("@nomicfoundation/hardhat-network-helpers");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+require("./helpers/typescript");
+const { buildAllowlist, readEntries } = require("../scripts/allowlist");
+
+describe("Allowlist builder", function () {
+  let buyer;
+  let otherBuyer;
+  let outsider;
+  let directory;
+
+  // Write `lines` to a CSV in a fresh temporary directory
+  const writeCsv = (lines) => {
+    const csvPath = path.join(directory, "addresses.csv");
+    fs.writeFileSync(csvPath, lines.join("\n"));
+    return csvPath;
+  };
+
+  beforeEach(async function () {
+    [, buyer, otherBuyer, outsider] = await ethers.getSigners();
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "allowlist-"));
+  });
+
+  it("Should build proofs the sale contract accepts", async function () {
+    const entries = readEntries(writeCsv([
+      "address,tier",
+      `${buyer.address.toLowerCase()},2`,
+      `${otherBuyer.address}`,
+      "",
+    ]));
+    expect(entries).to.deep.equal([
+      { address: buyer.address, tier: 2 },
+      { address: otherBuyer.address, tier: 0 },
+    ]);
+
+    const MockToken = await ethers.getContractFactory("MockERC20");
+    const usdcToken = await MockToken.deploy("USD Coin", "USDC", 6);
+    const roiToken = await MockToken.deploy("ROI Token", "ROI", 18);
+    const startTime = (await time.latest()) + 60;
+    const sale = await (await ethers.getContractFactory("RoiTokenSale")).deploy(
+      await usdcToken.getAddress(),
+      await roiToken.getAddress(),
+      ethers.parseUnits("1250", 12),
+      ethers.parseUnits("5000", 6),
+      ethers.parseUnits("10000", 6),
+      startTime,
+      startTime + 30 * 24 * 60 * 60
+    );
+
+    const allowlist = buildAllowlist(entries);
+    await sale.setMerkleRoot(allowlist.root);
+
+    const buyerEntry = allowlist.entries[buyer.address.toLowerCase()];
+    const otherEntry = allowlist.entries[otherBuyer.address.toLowerCase()];
+    expect(buyerEntry.tier).to.equal(2);
+    expect(await sale.isAllowlisted(buyer.address, buyerEntry.tier, buyerEntry.proof)).to.be.true;
+    expect(await sale.isAllowlisted(otherBuyer.address, otherEntry.tier, otherEntry.proof)).to.be.true;
+
+    // A proof only holds for its own address and tier
+    expect(await sale.isAllowlisted(buyer.address, 0, buyerEntry.proof)).to.be.false;
+    expect(await sale.isAllowlisted(outsider.address, 2, buyerEntry.proof)).to.be.false;
+  });
+
+  it("Should reject bad addresses, duplicates and bad tiers", function () {
+    expect(() => readEntries(writeCsv([`${buyer.address},0`, "0x1234,0"])))
+      .to.throw("Invalid address on line 2: 0x1234");
+    expect(() => readEntries(writeCsv([`${buyer.address},0`, `${buyer.address.toLowerCase()},1`])))
+      .to.throw(`Address listed twice on line 2: ${buyer.address}`);
+    expect(() => readEntries(writeCsv([`${buyer.address},256`])))
+      .to.throw("Invalid tier on line 1: 256");
+    expect(() => readEntries(writeCsv([`${buyer.address},gold`])))
+      .to.throw("Invalid tier on line 1: gold");
+  });
+});
@@ -0,0 +1,202 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { recordDeployment } = require("../scripts/deployments");
+const { requireFrontend } = require("./helpers/frontend");
+
+const { parseDeploymentManifest, selectDeployment } = requireFrontend("utils/deployments");
+
+describe("Deployment registry", function () {
+  const ROI_PER_USDC = ethers.parseUnits("1250", 12);
+  const SOFT_CAP = ethers.parseUnits("5000", 6);
+  const HARD_CAP = ethers.parseUnits("10000", 6);
+
+  let manifestPaths;
+  let originalLog;
+
+  // A sale entry with distinct, valid addresses
+  const saleEntry = (id, seed) => ({
+    id,
+    address: ethers.getAddress(ethers.zeroPadValue(ethers.toBeHex(seed), 20)),
+    usdc: ethers.getAddress(ethers.zeroPadValue(ethers.toBeHex(seed + 1), 20)),
+    roi: ethers.getAddress(ethers.zeroPadValue(ethers.toBeHex(seed + 2), 20)),
+    deployBlock: seed,
+  });
+
+  const validManifest = () => ({
+    defaultChainId: 8453,
+    networks: {
+      8453: {
+        chainId: 8453,
+        name: "Base",
+        rpcUrl: "https://mainnet.base.org",
+        explorerUrl: "https://basescan.org",
+        sales: [saleEntry("seed-round", 100), saleEntry("public-round", 200)],
+      },
+      84532: {
+        chainId: 84532,
+        name: "Base Sepolia",
+        rpcUrl: "https://sepolia.base.org",
+        explorerUrl: "https://sepolia.basescan.org",
+        sales: [saleEntry("main", 300)],
+      },
+    },
+  });
+
+  // Parse a manifest and return the validation message, or null if it is valid
+  const validationError = (manifest) => {
+    try {
+      parseDeploymentManifest(manifest);
+      return null;
+    } catch (error) {
+      return error.message;
+    }
+  };
+
+  beforeEach(function () {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "deployments-"));
+    manifestPaths = [path.join(dir, "deployments.json"), path.join(dir, "public", "deployments.json")];
+    // recordDeployment reports each file it writes
+    originalLog = console.log;
+    console.log = () => undefined;
+  });
+
+  afterEach(function () {
+    console.log = originalLog;
+    fs.rmSync(path.dirname(manifestPaths[0]), { recursive: true, force: true });
+  });
+
+  describe("Recording deployments", function () {
+    it("Should create the manifest with public endpoints for the chain", async function () {
+      const manifest = recordDeployment(84532, saleEntry("main", 10), {}, manifestPaths);
+
+      expect(manifest.defaultChainId).to.equal(84532);
+      expect(manifest.networks["84532"]).to.include({
+        name: "Base Sepolia",
+        rpcUrl: "https://sepolia.base.org",
+        explorerUrl: "https://sepolia.basescan.org",
+      });
+      for (const manifestPath of manifestPaths) {
+        expect(JSON.parse(fs.readFileSync(manifestPath, "utf8"))).to.deep.equal(manifest);
+      }
+    });
+
+    it("Should add rounds, replace a redeployed round and keep the default network", async function () {
+      recordDeployment(8453, saleEntry("seed-round", 10), {}, manifestPaths);
+      recordDeployment(8453, saleEntry("public-round", 20), {}, manifestPaths);
+      recordDeployment(8453, saleEntry("seed-round", 30), {}, manifestPaths);
+      const manifest = recordDeployment(31337, saleEntry("local", 40), { rpcUrl: "http://localhost:9545" }, manifestPaths);
+
+      expect(manifest.defaultChainId).to.equal(8453);
+      expect(manifest.networks["8453"].sales.map(sale => [sale.id, sale.deployBlock])).to.deep.equal([
+        ["public-round", 20],
+        ["seed-round", 30],
+      ]);
+      expect(manifest.networks["31337"].rpcUrl).to.equal("http://localhost:9545");
+    });
+
+    it("Should record a deployed sale the frontend can load", async function () {
+      const MockToken = await ethers.getContractFactory("MockERC20");
+      const usdcToken = await MockToken.deploy("USD Coin", "USDC", 6);
+      const roiToken = await MockToken.deploy("ROI Token", "ROI", 18);
+      const startTime = (await ethers.provider.getBlock("latest")).timestamp + 60;
+      const RoiTokenSale = await ethers.getContractFactory("RoiTokenSale");
+      const sale = await RoiTokenSale.deploy(
+        await usdcToken.getAddress(),
+        await roiToken.getAddress(),
+        ROI_PER_USDC,
+        SOFT_CAP,
+        HARD_CAP,
+        startTime,
+        startTime + 24 * 60 * 60
+      );
+      const receipt = await sale.deploymentTransaction().wait();
+      const { chainId } = await ethers.provider.getNetwork();
+
+      recordDeployment(Number(chainId), {
+        id: "main",
+        address: (await sale.getAddress()).toLowerCase(),
+        usdc: await usdcToken.getAddress(),
+        roi: await roiToken.getAddress(),
+        deployBlock: receipt.blockNumber,
+      }, {}, manifestPaths);
+
+      const manifest = parseDeploymentManifest(JSON.parse(fs.readFileSync(manifestPaths[1], "utf8")));
+      const deployment = selectDeployment(manifest);
+      const loaded = await ethers.getContractAt("RoiTokenSale", deployment.sale.address);
+
+      expect(deployment.network.chainId).to.equal(Number(chainId));
+      expect(deployment.sale.address).to.equal(await sale.getAddress());
+      expect(await loaded.usdcToken()).to.equal(deployment.sale.usdc);
+      expect(await loaded.roiToken()).to.equal(deployment.sale.roi);
+    });
+  });
+
+  describe("Validation", function () {
+    it("Should accept a valid manifest and checksum its addresses", async function () {
+      const manifest = validManifest();
+      manifest.networks["8453"].sales[0].address = manifest.networks["8453"].sales[0].address.toLowerCase();
+
+      const parsed = parseDeploymentManifest(manifest);
+      expect(parsed.networks["8453"].sales[0].address).to.equal(saleEntry("seed-round", 100).address);
+      expect(parsed.networks["8453"].wsUrl).to.equal(undefined);
+    });
+
+    it("Should reject sales with invalid addresses", async function () {
+      const manifest = validManifest();
+      manifest.networks["8453"].sales[1].usdc = "0x1234";
+      expect(validationError(manifest)).to.equal(
+        "Invalid deployment manifest: networks.8453.sales[1].usdc must be an address"
+      );
+    });
+
+    it("Should reject networks listed under another chain ID", async function () {
+      const manifest = validManifest();
+      manifest.networks["8453"].chainId = 1;
+      expect(validationError(manifest)).to.match(/networks\.8453\.chainId/);
+    });
+
+    it("Should reject networks without sales or with duplicate sale ids", async function () {
+      const empty = validManifest();
+      empty.networks["84532"].sales = [];
+      expect(validationError(empty)).to.match(/networks\.84532\.sales must be a non-empty array/);
+
+      const duplicate = validManifest();
+      duplicate.networks["8453"].sales[1].id = "seed-round";
+      expect(validationError(duplicate)).to.match(/unique ids/);
+    });
+
+    it("Should reject a default network that is not listed", async function () {
+      const manifest = validManifest();
+      manifest.defaultChainId = 1;
+      expect(validationError(manifest)).to.match(/defaultChainId/);
+    });
+
+    it("Should reject anything that is not a manifest", async function () {
+      expect(validationError(null)).to.match(/manifest must be an object/);
+      expect(validationError({ defaultChainId: 8453, networks: {} })).to.match(/networks must be a non-empty object/);
+    });
+  });
+
+  describe("Selection", function () {
+    it("Should default to the latest sale on the default network", async function () {
+      const { network, sale } = selectDeployment(parseDeploymentManifest(validManifest()));
+      expect(network.chainId).to.equal(8453);
+      expect(sale.id).to.equal("public-round");
+    });
+
+    it("Should select a requested network and sale", async function () {
+      const manifest = parseDeploymentManifest(validManifest());
+      expect(selectDeployment(manifest, 84532).network.name).to.equal("Base Sepolia");
+      expect(selectDeployment(manifest, 8453, "seed-round").sale.deployBlock).to.equal(100);
+    });
+
+    it("Should fail for unknown networks and sales", async function () {
+      const manifest = parseDeploymentManifest(validManifest());
+      expect(() => selectDeployment(manifest, 1)).to.throw("No deployment for chain 1");
+      expect(() => selectDeployment(manifest, 8453, "missing")).to.throw('No sale "missing" on Base');
+    });
+  });
+});
@@ -0,0 +1,367 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const { time } = require("@nomicfoundation/hardhat-network-helpers");
+const {
+  REVERT_REASONS,
+  checkPurchaseBalances,
+  getErrorKey,
+  getErrorMessage,
+  resolveLocale,
+  toSaleError,
+} = require("./helpers/sdk");
+
+describe("Error decoding", function () {
+  const ROI_PER_USDC = ethers.parseUnits("1250", 12);
+  const SOFT_CAP = ethers.parseUnits("5000", 6);
+  const HARD_CAP = ethers.parseUnits("10000", 6);
+  const SALE_DURATION = 30 * 24 * 60 * 60;
+
+  let owner;
+  let buyer;
+  let outsider;
+  /** @type {import("../typechain-types").MockERC20} */ let usdcToken;
+  /** @type {import("../typechain-types").MockERC20} */ let roiToken;
+  /** @type {import("../typechain-types").RoiTokenSale} */ let sale;
+  let startTime;
+  let endTime;
+
+  // Await a failing call and return the key the frontend would decode it to
+  const decode = async (promise) => {
+    try {
+      await promise;
+    } catch (error) {
+      return getErrorKey(error);
+    }
+    throw new Error("Expected the call to fail");
+  };
+
+  const deploySale = async (start, end, roiInventory = HARD_CAP * ROI_PER_USDC) => {
+    const RoiTokenSale = await ethers.getContractFactory("RoiTokenSale");
+    const deployed = await RoiTokenSale.deploy(
+      await usdcToken.getAddress(),
+      await roiToken.getAddress(),
+      ROI_PER_USDC,
+      SOFT_CAP,
+      HARD_CAP,
+      start,
+      end
+    );
+    await roiToken.mint(await deployed.getAddress(), roiInventory);
+    return deployed;
+  };
+
+  beforeEach(async function () {
+    [owner, buyer, outsider] = await ethers.getSigners();
+
+    const MockToken = await ethers.getContractFactory("MockERC20");
+    usdcToken = await MockToken.deploy("USD Coin", "USDC", 6);
+    roiToken = await MockToken.deploy("ROI Token", "ROI", 18);
+    await usdcToken.mint(buyer.address, HARD_CAP * BigInt(2));
+
+    // The sale opens in a day, so both pre-start and running paths can be reached
+    startTime = (await time.latest()) + 24 * 60 * 60;
+    endTime = startTime + SALE_DURATION;
+    sale = await deploySale(startTime, endTime);
+    await usdcToken.connect(buyer).approve(await sale.getAddress(), HARD_CAP * BigInt(2));
+  });
+
+  it("Should know every revert string in the sale contract", async function () {
+    const source = require("fs").readFileSync(
+      require("path").join(__dirname, "../contracts/RoiTokenSale.sol"),
+      "utf8"
+    );
+    const reasons = [...source.matchAll(/require\([^;]*?"([^"]+)"\s*\)/gs)].map(match => match[1]);
+
+    expect(reasons).to.not.be.empty;
+    for (const reason of reasons) {
+      expect(REVERT_REASONS, reason).to.have.property(reason);
+    }
+  });
+
+  describe("Before the sale starts", function () {
+    it("Should decode purchases before the start", async function () {
+      expect(await decode(sale.connect(buyer).buy(SOFT_CAP, 0, [], ethers.ZeroAddress))).to.equal("saleNotStarted");
+    });
+
+    it("Should decode a start time in the past", async function () {
+      const now = await time.latest();
+      expect(await decode(sale.setSaleWindow(now - 1, endTime))).to.equal("startInPast");
+    });
+
+    it("Should decode an end time before the start time", async function () {
+      expect(await decode(sale.setSaleWindow(startTime, startTime - 1))).to.equal("invalidSaleWindow");
+    });
+
+    it("Should decode a cliff longer than the vesting duration", async function () {
+      expect(await decode(sale.setVestingSchedule(true, 2, 1))).to.equal("invalidVestingSchedule");
+    });
+
+    it("Should decode a maximum contribution below the minimum", async function () {
+      expect(await decode(sale.setContributionLimits(2, 1))).to.equal("invalidContributionLimits");
+    });
+
+    it("Should decode owner-only calls from other accounts", async function () {
+      expect(await decode(sale.connect(buyer).setMerkleRoot(ethers.ZeroHash))).to.equal("notOwner");
+    });
+
+    it("Should decode rounds that do not fit the sale", async function () {
+      expect(await decode(sale.addRound(ROI_PER_USDC, 0, startTime, endTime))).to.equal("invalidRound");
+      expect(await decode(sale.addRound(ROI_PER_USDC, SOFT_CAP, startTime, endTime + 1))).to.equal("invalidRound");
+
+      await sale.addRound(ROI_PER_USDC, SOFT_CAP, startTime + 60, endTime);
+      expect(await decode(sale.addRound(ROI_PER_USDC, SOFT_CAP, startTime, endTime))).to.equal("invalidRound");
+      expect(await decode(sale.setSaleWindow(startTime + 120, endTime))).to.equal("roundsOutsideWindow");
+    });
+
+    it("Should decode invalid constructor arguments", async function () {
+      const RoiTokenSale = await ethers.getContractFactory("RoiTokenSale");
+      const usdc = await usdcToken.getAddress();
+      const roi = await roiToken.getAddress();
+
+      /** @type {Parameters<typeof RoiTokenSale.deploy>[]} */
+      const invalidArgs = [
+        [ethers.ZeroAddress, roi, ROI_PER_USDC, SOFT_CAP, HARD_CAP, startTime, endTime],
+        [usdc, ethers.ZeroAddress, ROI_PER_USDC, SOFT_CAP, HARD_CAP, startTime, endTime],
+        [usdc, roi, 0, SOFT_CAP, HARD_CAP, startTime, endTime],
+        [usdc, roi, ROI_PER_USDC, 0, HARD_CAP, startTime, endTime],
+        [usdc, roi, ROI_PER_USDC, SOFT_CAP, SOFT_CAP, startTime, endTime],
+      ];
+      for (const args of invalidArgs) {
+        expect(await decode(RoiTokenSale.deploy(...args))).to.equal("invalidSaleParameters");
+      }
+      expect(await decode(RoiTokenSale.deploy(usdc, roi, ROI_PER_USDC, SOFT_CAP, HARD_CAP, endTime, startTime)))
+        .to.equal("invalidSaleWindow");
+    });
+  });
+
+  describe("While the sale is running", function () {
+    beforeEach(async function () {
+      await time.increaseTo(startTime);
+    });
+
+    it("Should decode sale window changes after the start", async function () {
+      expect(await decode(sale.setSaleWindow(startTime + 10, endTime))).to.equal("saleAlreadyStarted");
+    });
+
+    it("Should decode an extension that does not move the end time forward", async function () {
+      expect(await decode(sale.extendSale(endTime))).to.equal("invalidExtension");
+    });
+
+    it("Should decode zero amounts", async function () {
+      expect(await decode(sale.connect(buyer).buy(0, 0, [], ethers.ZeroAddress))).to.equal("zeroAmount");
+    });
+
+    it("Should decode purchases over the hard cap", async function () {
+      expect(await decode(sale.connect(buyer).buy(HARD_CAP + BigInt(1), 0, [], ethers.ZeroAddress))).to.equal("exceedsHardCap");
+    });
+
+    it("Should decode contributions below the minimum and above the maximum", async function () {
+      await sale.setContributionLimits(ethers.parseUnits("100", 6), ethers.parseUnits("200", 6));
+      expect(await decode(sale.connect(buyer).buy(ethers.parseUnits("1", 6), 0, [], ethers.ZeroAddress))).to.equal("belowMinimum");
+      expect(await decode(sale.connect(buyer).buy(ethers.parseUnits("300", 6), 0, [], ethers.ZeroAddress))).to.equal("exceedsMaximum");
+    });
+
+    it("Should decode wallets missing from the allowlist", async function () {
+      await sale.setMerkleRoot(ethers.id("allowlist"));
+      expect(await decode(sale.connect(buyer).buy(SOFT_CAP, 0, [], ethers.ZeroAddress))).to.equal("notAllowlisted");
+    });
+
+    it("Should decode a sale without enough ROI", async function () {
+      const start = (await time.latest()) + 60;
+      const underfunded = await deploySale(start, start + SALE_DURATION, BigInt(1));
+      await usdcToken.connect(buyer).approve(await underfunded.getAddress(), SOFT_CAP);
+      await time.increaseTo(start);
+
+      expect(await decode(underfunded.connect(buyer).buy(SOFT_CAP, 0, [], ethers.ZeroAddress))).to.equal("insufficientRoiInventory");
+    });
+
+    it("Should decode token custom errors for missing allowance and balance", async function () {
+      expect(await decode(sale.connect(outsider).buy(SOFT_CAP, 0, [], ethers.ZeroAddress))).to.equal("insufficientTokenAllowance");
+
+      await usdcToken.connect(outsider).approve(await sale.getAddress(), SOFT_CAP);
+      expect(await decode(sale.connect(outsider).buy(SOFT_CAP, 0, [], ethers.ZeroAddress))).to.equal("insufficientTokenBalance");
+    });
+
+    it("Should decode USDC withdrawals before the soft cap and beyond the balance", async function () {
+      expect(await decode(sale.withdrawUSDC(SOFT_CAP))).to.equal("softCapNotReached");
+
+      await sale.connect(buyer).buy(SOFT_CAP, 0, [], ethers.ZeroAddress);
+      expect(await decode(sale.withdrawUSDC(SOFT_CAP + BigInt(1)))).to.equal("insufficientUsdcInContract");
+    });
+
+    it("Should decode purchases before the first round, over its cap and after the last round", async function () {
+      const start = (await time.latest()) + 60;
+      const rounded = await deploySale(start, start + SALE_DURATION);
+      await rounded.addRound(ROI_PER_USDC, SOFT_CAP, start + 60, start + 120);
+      await usdcToken.connect(buyer).approve(await rounded.getAddress(), HARD_CAP);
+
+      await time.increaseTo(start);
+      expect(await decode(rounded.connect(buyer).buy(SOFT_CAP, 0, [], ethers.ZeroAddress))).to.equal("roundNotStarted");
+
+      await time.increaseTo(start + 60);
+      expect(await decode(rounded.connect(buyer).buy(SOFT_CAP + BigInt(1), 0, [], ethers.ZeroAddress))).to.equal("exceedsRoundCap");
+
+      await time.increaseTo(start + 120);
+      expect(await decode(rounded.connect(buyer).buy(SOFT_CAP, 0, [], ethers.ZeroAddress))).to.equal("noActiveRound");
+    });
+
+    it("Should decode payment assets that are not accepted or priced", async function () {
+      const MockToken = await ethers.getContractFactory("MockERC20");
+      const dai = await MockToken.deploy("Dai Stablecoin", "DAI", 18);
+      expect(await decode(sale.connect(buyer).buyWithToken(await dai.getAddress(), SOFT_CAP, 0, [], ethers.ZeroAddress)))
+        .to.equal("paymentTokenNotAccepted");
+      expect(await decode(sale.setPaymentToken(await usdcToken.getAddress(), true))).to.equal("invalidPaymentToken");
+      expect(await decode(sale.connect(buyer).buyWithETH(SOFT_CAP, 0, [], ethers.ZeroAddress))).to.equal("ethNotAccepted");
+
+      const MockPriceFeed = await ethers.getContractFactory("MockPriceFeed");
+      const priceFeed = await MockPriceFeed.deploy(8, ethers.parseUnits("2500", 8));
+      expect(await decode(sale.setPriceFeed(await priceFeed.getAddress(), 0))).to.equal("invalidPriceFeed");
+      await sale.setPriceFeed(await priceFeed.getAddress(), 60);
+      expect(await decode(sale.connect(buyer).buyWithETH(SOFT_CAP, 0, [], ethers.ZeroAddress))).to.equal("insufficientEthSent");
+
+      await priceFeed.setAnswerAt(ethers.parseUnits("2500", 8), (await time.latest()) - 120);
+      expect(await decode(sale.connect(buyer).buyWithETH(SOFT_CAP, 0, [], ethers.ZeroAddress))).to.equal("ethPriceUnavailable");
+    });
+
+    it("Should decode referrals to yourself and reward claims without rewards", async function () {
+      expect(await decode(sale.connect(buyer).buy(SOFT_CAP, 0, [], buyer.address))).to.equal("selfReferral");
+      expect(await decode(sale.setReferralReward(5000, false))).to.equal("referralRewardTooHigh");
+      await sale.connect(buyer).buy(SOFT_CAP, 0, [], ethers.ZeroAddress);
+      expect(await decode(sale.connect(buyer).claimReferralRewards())).to.equal("saleNotEnded");
+      await time.increaseTo(endTime);
+      expect(await decode(sale.connect(buyer).claimReferralRewards())).to.equal("noReferralRewards");
+    });
+
+    it("Should decode purchases while paused", async function () {
+      expect(await decode(sale.unpause())).to.equal("saleNotPaused");
+      await sale.pause();
+      expect(await decode(sale.connect(buyer).buy(SOFT_CAP, 0, [], ethers.ZeroAddress))).to.equal("salePaused");
+    });
+
+    it("Should decode timelocked withdrawals", async function () {
+      expect(await decode(sale.scheduleWithdrawal(await roiToken.getAddress(), 1))).to.equal("withdrawalsNotTimelocked");
+      expect(await decode(sale.setWithdrawalDelay(31 * 24 * 60 * 60))).to.equal("invalidWithdrawalDelay");
+      await sale.setWithdrawalDelay(60 * 60);
+      expect(await decode(sale.setWithdrawalDelay(60))).to.equal("invalidWithdrawalDelay");
+      expect(await decode(sale.withdrawROI(1))).to.equal("withdrawalsTimelocked");
+
+      await sale.scheduleWithdrawal(await roiToken.getAddress(), 1);
+      expect(await decode(sale.executeWithdrawal(0))).to.equal("withdrawalNotReady");
+      expect(await decode(sale.connect(buyer).cancelWithdrawal(0))).to.equal("notOwnerOrTreasury");
+      await sale.cancelWithdrawal(0);
+      expect(await decode(sale.executeWithdrawal(0))).to.equal("unknownWithdrawal");
+
+      expect(await decode(sale.executeTreasuryChange())).to.equal("noTreasuryChange");
+      await sale.setTreasury(buyer.address);
+      expect(await decode(sale.executeTreasuryChange())).to.equal("treasuryChangeNotReady");
+    });
+
+    it("Should decode claims when vesting is off", async function () {
+      expect(await decode(sale.connect(buyer).claim())).to.equal("vestingDisabled");
+    });
+
+    it("Should decode refunds while the sale is running", async function () {
+      expect(await decode(sale.connect(buyer).claimRefund())).to.equal("refundsUnavailable");
+    });
+
+    it("Should decode transactions that run out of gas", async function () {
+      expect(await decode(sale.connect(buyer).buy(SOFT_CAP, 0, [], ethers.ZeroAddress, { gasLimit: 30000 }))).to.equal("outOfGas");
+    });
+  });
+
+  describe("After the sale ends", function () {
+    it("Should decode purchases after the end", async function () {
+      await time.increaseTo(endTime);
+      expect(await decode(sale.connect(buyer).buy(SOFT_CAP, 0, [], ethers.ZeroAddress))).to.equal("saleEnded");
+    });
+
+    it("Should decode refunds for wallets that did not contribute", async function () {
+      await time.increaseTo(endTime);
+      expect(await decode(sale.connect(outsider).claimRefund())).to.equal("nothingToRefund");
+    });
+
+    it("Should decode claims before anything has vested", async function () {
+      await sale.setVestingSchedule(true, SALE_DURATION, SALE_DURATION);
+      await time.increaseTo(startTime);
+      await sale.connect(buyer).buy(SOFT_CAP, 0, [], ethers.ZeroAddress);
+      await time.increaseTo(endTime);
+
+      expect(await decode(sale.connect(buyer).claim())).to.equal("nothingToClaim");
+    });
+  });
+
+  describe("Wallet and network failures", function () {
+    it("Should decode wallet rejections", async function () {
+      expect(getErrorKey(ethers.makeError("user rejected action", "ACTION_REJECTED", { action: "sendTransaction", reason: "rejected" })))
+        .to.equal("userRejected");
+      expect(getErrorKey({ code: 4001, message: "User denied transaction signature." })).to.equal("userRejected");
+    });
+
+    it("Should decode missing gas funds", async function () {
+      expect(getErrorKey(ethers.makeError("insufficient funds", "INSUFFICIENT_FUNDS", { transaction: {} })))
+        .to.equal("insufficientFunds");
+    });
+
+    it("Should decode network switches", async function () {
+      expect(getErrorKey(ethers.makeError("network changed: 1 => 8453", "NETWORK_ERROR", { event: "changed" })))
+        .to.equal("wrongNetwork");
+    });
+
+    it("Should decode RPC failures", async function () {
+      expect(getErrorKey(ethers.makeError("server response 503", "SERVER_ERROR", /** @type {any} */ ({})))).to.equal("rpcUnavailable");
+      expect(getErrorKey(ethers.makeError("timeout", "TIMEOUT", /** @type {any} */ ({ operation: "call" })))).to.equal("rpcUnavailable");
+    });
+
+    it("Should decode revert data nested by the wallet", async function () {
+      const data = sale.interface.encodeErrorResult("OwnableUnauthorizedAccount", [buyer.address]);
+      expect(getErrorKey({ message: "Internal JSON-RPC error.", error: { code: 3, data } })).to.equal("notOwner");
+
+      const reasonData = new ethers.Interface(["error Error(string)"]).encodeErrorResult("Error", ["Sale has ended"]);
+      expect(getErrorKey({ message: "execution reverted", info: { error: { data: reasonData } } })).to.equal("saleEnded");
+    });
+
+    it("Should fall back to a generic message for unknown errors", async function () {
+      expect(getErrorKey(new Error("boom"))).to.equal("unknown");
+      expect(getErrorMessage(toSaleError(new Error("boom")), "Failed to purchase ROI tokens"))
+        .to.equal("Failed to purchase ROI tokens");
+    });
+  });
+
+  describe("Localization", function () {
+    it("Should pick a supported locale", async function () {
+      expect(resolveLocale("es-AR")).to.equal("es");
+      expect(resolveLocale("fr-FR")).to.equal("en");
+      expect(resolveLocale(undefined)).to.equal("en");
+    });
+
+    it("Should translate decoded messages", async function () {
+      const error = ethers.makeError("user rejected action", "ACTION_REJECTED", { action: "sendTransaction", reason: "rejected" });
+      expect(toSaleError(error, "en").message).to.equal("You rejected the request in your wallet.");
+      expect(toSaleError(error, "es").message).to.equal("Rechazaste la solicitud en tu billetera.");
+      expect(getErrorMessage(toSaleError(error), "fallback")).to.equal("You rejected the request in your wallet.");
+    });
+
+    it("Should translate pre-flight balance checks", async function () {
+      /** @type {import("@private-sale/sdk").PaymentAsset} */
+      const dai = { kind: "token", address: ethers.ZeroAddress, symbol: "DAI", decimals: 18 };
+      const balances = {
+        paymentBalance: ethers.parseUnits("5", 18),
+        allowance: BigInt(0),
+        availableROI: ethers.parseUnits("100", 18),
+        usesPermit: false,
+      };
+      const check = (locale) => checkPurchaseBalances(dai, ethers.parseUnits("10", 18), ethers.parseUnits("1000", 18), balances, 18, locale);
+
+      expect(check("en")).to.deep.equal([
+        "Your DAI balance is too low: you have 5.0 DAI.",
+        "The sale only has 100.0 ROI left for purchase.",
+        "Approve at least 10.0 DAI first.",
+      ]);
+      expect(check("es")).to.deep.equal([
+        "Tu saldo de DAI es insuficiente: tienes 5.0 DAI.",
+        "A la venta solo le quedan 100.0 ROI disponibles para comprar.",
+        "Aprueba primero al menos 10.0 DAI.",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,342 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const { time } = require("@nomicfoundation/hardhat-network-helpers");
+const fc = require("fast-check");
+const {
+  getROIForUSDC,
+  getUSDCForROI,
+  formatRate,
+  parseRate,
+  parseUnitsTruncated,
+  quoteFromUSDC,
+  quoteFromROI,
+  getCurrentRate,
+  getCurrentRoundIndex,
+  getNextRound,
+  ETH_ASSET,
+  getPaymentAmount,
+  withPriceBuffer,
+} = require("./helpers/sdk");
+
+describe("Quote", function () {
+  const DECIMALS = { usdc: 6, roi: 18 };
+  const ROI_PER_USDC = ethers.parseUnits("1250", 12); // 1 USDC = 1,250 ROI
+  const SOFT_CAP = ethers.parseUnits("5000", 6);
+  const HARD_CAP = ethers.parseUnits("10000", 6);
+  const SALE_DURATION = 30 * 24 * 60 * 60;
+
+  // Any purchasable amount up to the hard cap, in USDC base units
+  const usdcAmounts = fc.bigInt({ min: BigInt(1), max: HARD_CAP });
+  // Any ROI target, including amounts between purchasable steps
+  const roiAmounts = fc.bigInt({ min: BigInt(1), max: HARD_CAP * ROI_PER_USDC });
+
+  describe("Pure quoting", function () {
+    it("Should show the rate per whole token", async function () {
+      expect(formatRate(ROI_PER_USDC, DECIMALS)).to.equal("1250.0");
+    });
+
+    it("Should quote a typed USDC amount", async function () {
+      const quote = quoteFromUSDC("1.5", ROI_PER_USDC, DECIMALS);
+      expect(quote.usdcAmount).to.equal(ethers.parseUnits("1.5", 6));
+      expect(quote.roiAmount).to.equal(ethers.parseUnits("1875", 18));
+      expect(quote.warnings).to.be.empty;
+    });
+
+    it("Should round down USDC beyond its decimals and warn", async function () {
+      const quote = quoteFromUSDC("1.0000009", ROI_PER_USDC, DECIMALS);
+      expect(quote.usdcAmount).to.equal(ethers.parseUnits("1", 6));
+      expect(quote.warnings).to.have.lengthOf(1);
+    });
+
+    it("Should round reverse quotes up to the next purchasable amount and warn about dust", async function () {
+      const quote = quoteFromROI("0.001", ROI_PER_USDC, DECIMALS);
+      expect(quote.usdcAmount).to.equal(BigInt(1)); // 0.000001 USDC buys 0.00125 ROI
+      expect(quote.roiAmount).to.equal(ROI_PER_USDC);
+      expect(quote.warnings).to.have.lengthOf(1);
+    });
+
+    it("Should word rounding warnings and rate errors in the requested language", async function () {
+      expect(quoteFromUSDC("1.0000009", ROI_PER_USDC, DECIMALS, "es").warnings).to.deep.equal([
+        "USDC tiene 6 decimales; la cantidad se redondeó hacia abajo a 1.0 USDC",
+      ]);
+      expect(quoteFromROI("0.001", ROI_PER_USDC, DECIMALS).warnings).to.deep.equal([
+        "ROI is sold in steps of 0.00125; you will receive 0.00025 ROI more than requested",
+      ]);
+      expect(parseRate("1250", DECIMALS)).to.equal(ROI_PER_USDC);
+      expect(() => parseRate("0.0000000000000001", DECIMALS, "es"))
+        .to.throw("Una tasa de 0.0000000000000001 ROI por USDC es más fina que una unidad base de ROI por unidad base de USDC");
+    });
+
+    it("Should quote nothing for empty input or an unknown rate", async function () {
+      expect(quoteFromUSDC("", ROI_PER_USDC, DECIMALS).usdcAmount).to.equal(0);
+      expect(quoteFromROI("100", BigInt(0), DECIMALS).usdcAmount).to.equal(0);
+      expect(parseUnitsTruncated(".", 6).amount).to.equal(0);
+    });
+
+    it("Should round-trip forward quotes exactly", async function () {
+      fc.assert(
+        fc.property(usdcAmounts, usdc => {
+          const roi = getROIForUSDC(usdc, ROI_PER_USDC);
+          expect(getUSDCForROI(roi, ROI_PER_USDC)).to.equal(usdc);
+          expect(quoteFromROI(ethers.formatUnits(roi, DECIMALS.roi), ROI_PER_USDC, DECIMALS).warnings).to.be.empty;
+        })
+      );
+    });
+
+    it("Should quote the cheapest USDC amount covering a reverse quote", async function () {
+      fc.assert(
+        fc.property(roiAmounts, roi => {
+          const usdc = getUSDCForROI(roi, ROI_PER_USDC);
+          expect(getROIForUSDC(usdc, ROI_PER_USDC) >= roi).to.be.true;
+          expect(getROIForUSDC(usdc - BigInt(1), ROI_PER_USDC) < roi).to.be.true;
+        })
+      );
+    });
+  });
+
+  describe("Against the sale contract", function () {
+    let buyer;
+    /** @type {import("../typechain-types").MockERC20} */ let usdcToken;
+    /** @type {import("../typechain-types").MockERC20} */ let roiToken;
+    /** @type {import("../typechain-types").RoiTokenSale} */ let roiTokenSale;
+
+    beforeEach(async function () {
+      [, buyer] = await ethers.getSigners();
+
+      const MockToken = await ethers.getContractFactory("MockERC20");
+      usdcToken = await MockToken.deploy("USD Coin", "USDC", DECIMALS.usdc);
+      roiToken = await MockToken.deploy("ROI Token", "ROI", DECIMALS.roi);
+
+      const startTime = (await time.latest()) + 60;
+      const RoiTokenSale = await ethers.getContractFactory("RoiTokenSale");
+      roiTokenSale = await RoiTokenSale.deploy(
+        await usdcToken.getAddress(),
+        await roiToken.getAddress(),
+        ROI_PER_USDC,
+        SOFT_CAP,
+        HARD_CAP,
+        startTime,
+        startTime + SALE_DURATION
+      );
+
+      await usdcToken.mint(buyer.address, HARD_CAP);
+      await roiToken.mint(await roiTokenSale.getAddress(), HARD_CAP * ROI_PER_USDC);
+      await usdcToken.connect(buyer).approve(await roiTokenSale.getAddress(), HARD_CAP);
+      await time.increaseTo(startTime);
+    });
+
+    it("Should match the ROI that buy transfers for any typed USDC amount", async function () {
+      // Keep each purchase small so 20 runs stay well under the hard cap
+      const typedAmounts = fc
+        .bigInt({ min: BigInt(1), max: ethers.parseUnits("400", 6) })
+        .map(amount => ethers.formatUnits(amount, DECIMALS.usdc));
+
+      await fc.assert(
+        fc.asyncProperty(typedAmounts, async typed => {
+          const quote = quoteFromUSDC(typed, ROI_PER_USDC, DECIMALS);
+          const before = await roiToken.balanceOf(buyer.address);
+
+          await expect(roiTokenSale.connect(buyer).buy(quote.usdcAmount, 0, [], ethers.ZeroAddress))
+            .to.emit(roiTokenSale, "TokensPurchased")
+            .withArgs(buyer.address, quote.usdcAmount, quote.roiAmount);
+          expect(await roiToken.balanceOf(buyer.address)).to.equal(before + quote.roiAmount);
+        }),
+        { numRuns: 20 }
+      );
+    });
+
+    it("Should deliver at least the requested ROI for any reverse quote", async function () {
+      const typedAmounts = fc
+        .bigInt({ min: BigInt(1), max: ethers.parseUnits("400", 6) * ROI_PER_USDC })
+        .map(amount => ethers.formatUnits(amount, DECIMALS.roi));
+
+      await fc.assert(
+        fc.asyncProperty(typedAmounts, async typed => {
+          const quote = quoteFromROI(typed, ROI_PER_USDC, DECIMALS);
+          const before = await roiToken.balanceOf(buyer.address);
+
+          await roiTokenSale.connect(buyer).buy(quote.usdcAmount, 0, [], ethers.ZeroAddress);
+          const received = (await roiToken.balanceOf(buyer.address)) - before;
+
+          expect(received).to.equal(quote.roiAmount);
+          expect(received >= ethers.parseUnits(typed, DECIMALS.roi)).to.be.true;
+        }),
+        { numRuns: 20 }
+      );
+    });
+  });
+
+  describe("Against a sale with rounds", function () {
+    const DAY = 24 * 60 * 60;
+    const SEED_RATE = ethers.parseUnits("2000", 12);
+    const PUBLIC_RATE = ROI_PER_USDC;
+    const SEED_CAP = ethers.parseUnits("2000", 6);
+    let buyer;
+    /** @type {import("../typechain-types").MockERC20} */ let roiToken;
+    /** @type {import("../typechain-types").RoiTokenSale} */ let roundSale;
+    let startTime;
+
+    // Round state as the frontend reads it from the contract
+    const readRoundState = async () => ({
+      roiPerUSDC: await roundSale.roiPerUSDC(),
+      rounds: (await roundSale.getRounds()).map(round => ({
+        roiPerUSDC: round.roiPerUSDC,
+        cap: round.cap,
+        startTime: Number(round.startTime),
+        endTime: Number(round.endTime),
+        raised: round.raised,
+      })),
+      currentRound: Number(await roundSale.currentRound()),
+    });
+
+    beforeEach(async function () {
+      [, buyer] = await ethers.getSigners();
+
+      const MockToken = await ethers.getContractFactory("MockERC20");
+      const usdcToken = await MockToken.deploy("USD Coin", "USDC", DECIMALS.usdc);
+      roiToken = await MockToken.deploy("ROI Token", "ROI", DECIMALS.roi);
+
+      startTime = (await time.latest()) + 60;
+      const RoiTokenSale = await ethers.getContractFactory("RoiTokenSale");
+      roundSale = await RoiTokenSale.deploy(
+        await usdcToken.getAddress(),
+        await roiToken.getAddress(),
+        ROI_PER_USDC,
+        SOFT_CAP,
+        HARD_CAP,
+        startTime,
+        startTime + SALE_DURATION
+      );
+      // A seed round, a one-day gap, then a public round until the end of the sale
+      await roundSale.addRound(SEED_RATE, SEED_CAP, startTime, startTime + 5 * DAY);
+      await roundSale.addRound(PUBLIC_RATE, HARD_CAP, startTime + 6 * DAY, startTime + SALE_DURATION);
+
+      await usdcToken.mint(buyer.address, HARD_CAP);
+      await roiToken.mint(await roundSale.getAddress(), HARD_CAP * SEED_RATE);
+      await usdcToken.connect(buyer).approve(await roundSale.getAddress(), HARD_CAP);
+      await time.increaseTo(startTime);
+    });
+
+    it("Should quote at the current round's rate", async function () {
+      const state = await readRoundState();
+      const quote = quoteFromUSDC("10", getCurrentRate(state, await time.latest()), DECIMALS);
+
+      await expect(roundSale.connect(buyer).buy(quote.usdcAmount, 0, [], ethers.ZeroAddress))
+        .to.emit(roundSale, "TokensPurchased")
+        .withArgs(buyer.address, quote.usdcAmount, quote.roiAmount);
+      expect(getNextRound(state, await time.latest()).roiPerUSDC).to.equal(PUBLIC_RATE);
+    });
+
+    it("Should follow the contract's current round as time passes", async function () {
+      // State read at the start stays usable: rounds advance with `now` until the next refresh
+      const state = await readRoundState();
+
+      for (const offset of [DAY, 5 * DAY, 6 * DAY, SALE_DURATION]) {
+        await time.increaseTo(startTime + offset);
+        const now = await time.latest();
+
+        expect(getCurrentRoundIndex(state, now)).to.equal(await roundSale.currentRound());
+        expect(getCurrentRate(state, now)).to.equal(await roundSale.currentRate());
+      }
+    });
+
+    it("Should move past a round once it has filled", async function () {
+      await roundSale.connect(buyer).buy(SEED_CAP, 0, [], ethers.ZeroAddress);
+      const state = await readRoundState();
+      const now = await time.latest();
+
+      expect(getCurrentRoundIndex(state, now)).to.equal(1);
+      expect(getCurrentRate(state, now)).to.equal(PUBLIC_RATE);
+      expect(getNextRound(state, now)).to.equal(null);
+    });
+  });
+
+  describe("Against a sale that accepts other payments", function () {
+    const ETH_PRICE = ethers.parseUnits("2500.12345678", 8); // USD per ETH, 8 decimals like Chainlink
+    const MAX_AGE = 60 * 60;
+    let buyer;
+    /** @type {import("../typechain-types").RoiTokenSale} */ let paymentSale;
+    /** @type {import("../typechain-types").MockPriceFeed} */ let priceFeed;
+    /** @type {import("../typechain-types").MockERC20} */ let dai;
+    /** @type {import("../typechain-types").MockERC20} */ let usd2; // a stablecoin with fewer decimals than USDC
+
+    // ETH price as the frontend reads it from the feed
+    const readEthPrice = async () => {
+      const [, answer, , updatedAt] = await priceFeed.latestRoundData();
+      return { answer, decimals: 8, updatedAt: Number(updatedAt), maxAge: MAX_AGE };
+    };
+
+    beforeEach(async function () {
+      [, buyer] = await ethers.getSigners();
+
+      const MockToken = await ethers.getContractFactory("MockERC20");
+      const usdcToken = await MockToken.deploy("USD Coin", "USDC", DECIMALS.usdc);
+      const roiToken = await MockToken.deploy("ROI Token", "ROI", DECIMALS.roi);
+      dai = await MockToken.deploy("Dai Stablecoin", "DAI", 18);
+      usd2 = await MockToken.deploy("Two Decimal Dollar", "USD2", 2);
+
+      const startTime = (await time.latest()) + 60;
+      const RoiTokenSale = await ethers.getContractFactory("RoiTokenSale");
+      paymentSale = await RoiTokenSale.deploy(
+        await usdcToken.getAddress(),
+        await roiToken.getAddress(),
+        ROI_PER_USDC,
+        SOFT_CAP,
+        HARD_CAP,
+        startTime,
+        startTime + SALE_DURATION
+      );
+      const MockPriceFeed = await ethers.getContractFactory("MockPriceFeed");
+      priceFeed = await MockPriceFeed.deploy(8, ETH_PRICE);
+      await paymentSale.setPaymentToken(await dai.getAddress(), true);
+      await paymentSale.setPaymentToken(await usd2.getAddress(), true);
+      await paymentSale.setPriceFeed(await priceFeed.getAddress(), MAX_AGE);
+
+      await roiToken.mint(await paymentSale.getAddress(), HARD_CAP * ROI_PER_USDC);
+      await time.increaseTo(startTime);
+    });
+
+    it("Should quote stablecoin amounts as the contract converts them", async function () {
+      for (const { token, decimals } of [{ token: dai, decimals: 18 }, { token: usd2, decimals: 2 }]) {
+        /** @type {import("@private-sale/sdk").PaymentAsset} */
+        const asset = { kind: "token", address: await token.getAddress(), symbol: "", decimals };
+
+        await fc.assert(
+          fc.asyncProperty(usdcAmounts, async usdcAmount => {
+            expect(getPaymentAmount(asset, usdcAmount, DECIMALS.usdc, null, 0))
+              .to.equal(await paymentSale.tokenAmountFor(await token.getAddress(), usdcAmount));
+          }),
+          { numRuns: 20 }
+        );
+      }
+    });
+
+    it("Should quote ETH amounts as the contract prices them", async function () {
+      const ethPrice = await readEthPrice();
+      const now = await time.latest();
+
+      await fc.assert(
+        fc.asyncProperty(usdcAmounts, async usdcAmount => {
+          expect(getPaymentAmount(ETH_ASSET, usdcAmount, DECIMALS.usdc, ethPrice, now))
+            .to.equal(await paymentSale.ethAmountFor(usdcAmount));
+        }),
+        { numRuns: 20 }
+      );
+    });
+
+    it("Should send enough ETH with the buffer after a price drop, and quote nothing for a stale price", async function () {
+      const usdcAmount = ethers.parseUnits("100", 6);
+      const ethPrice = await readEthPrice();
+      const value = withPriceBuffer(getPaymentAmount(ETH_ASSET, usdcAmount, DECIMALS.usdc, ethPrice, await time.latest()));
+
+      // The price drops 0.5% before the purchase is mined
+      await priceFeed.setAnswer(ETH_PRICE - ETH_PRICE / BigInt(200));
+      await expect(paymentSale.connect(buyer).buyWithETH(usdcAmount, 0, [], ethers.ZeroAddress, { value }))
+        .to.emit(paymentSale, "TokensPurchased");
+
+      await time.increase(MAX_AGE + 1);
+      expect(getPaymentAmount(ETH_ASSET, usdcAmount, DECIMALS.usdc, await readEthPrice(), await time.latest()))
+        .to.equal(null);
+    });
+  });
+});
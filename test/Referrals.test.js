@@ -0,0 +1,107 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const { time } = require("@nomicfoundation/hardhat-network-helpers");
+const { requireFrontend } = require("./helpers/frontend");
+const { resolveReferrer, summarizeReferrals } = require("./helpers/sdk");
+
+const { buildReferralLink, parseReferrer } = requireFrontend("utils/referrals");
+
+describe("Referrals", function () {
+  const ROI_PER_USDC = ethers.parseUnits("1250", 12);
+  const SOFT_CAP = ethers.parseUnits("5000", 6);
+  const HARD_CAP = ethers.parseUnits("10000", 6);
+  const SALE_DURATION = 30 * 24 * 60 * 60;
+
+  let referrer;
+  let buyer;
+  let other;
+
+  beforeEach(async function () {
+    [, referrer, buyer, other] = await ethers.getSigners();
+  });
+
+  describe("Referral links", function () {
+    it("Should read a checksummed referrer from the query string", async function () {
+      expect(parseReferrer(`?chain=8453&ref=${referrer.address.toLowerCase()}`)).to.equal(referrer.address);
+    });
+
+    it("Should ignore a missing or invalid referrer", async function () {
+      expect(parseReferrer("")).to.equal(null);
+      expect(parseReferrer("?ref=0x1234")).to.equal(null);
+      expect(parseReferrer("?ref=alice.eth")).to.equal(null);
+    });
+
+    it("Should build a link that keeps the other parameters and round-trips", async function () {
+      const link = buildReferralLink("https://sale.example/?chain=8453&ref=0xold#stats", referrer.address);
+      const url = new URL(link);
+
+      expect(url.searchParams.get("chain")).to.equal("8453");
+      expect(url.hash).to.equal("");
+      expect(parseReferrer(url.search)).to.equal(referrer.address);
+    });
+
+    it("Should not credit buyers with their own link", async function () {
+      expect(resolveReferrer(referrer.address, buyer.address)).to.equal(referrer.address);
+      expect(resolveReferrer(referrer.address, referrer.address.toLowerCase())).to.equal(ethers.ZeroAddress);
+      expect(resolveReferrer(null, buyer.address)).to.equal(ethers.ZeroAddress);
+      // Before a wallet is connected the referrer is still shown
+      expect(resolveReferrer(referrer.address, null)).to.equal(referrer.address);
+    });
+  });
+
+  describe("Against the sale contract", function () {
+    /** @type {import("../typechain-types").RoiTokenSale} */ let sale;
+
+    beforeEach(async function () {
+      const MockToken = await ethers.getContractFactory("MockERC20");
+      const usdcToken = await MockToken.deploy("USD Coin", "USDC", 6);
+      const roiToken = await MockToken.deploy("ROI Token", "ROI", 18);
+
+      const startTime = (await time.latest()) + 60;
+      const RoiTokenSale = await ethers.getContractFactory("RoiTokenSale");
+      sale = await RoiTokenSale.deploy(
+        await usdcToken.getAddress(),
+        await roiToken.getAddress(),
+        ROI_PER_USDC,
+        SOFT_CAP,
+        HARD_CAP,
+        startTime,
+        startTime + SALE_DURATION
+      );
+      await roiToken.mint(await sale.getAddress(), HARD_CAP * ROI_PER_USDC * BigInt(2));
+      for (const signer of [buyer, other]) {
+        await usdcToken.mint(signer.address, HARD_CAP);
+        await usdcToken.connect(signer).approve(await sale.getAddress(), HARD_CAP);
+      }
+      await time.increaseTo(startTime);
+    });
+
+    it("Should summarize referred purchases as the contract records them", async function () {
+      const amount = ethers.parseUnits("100", 6);
+      await sale.setReferralReward(1000, false);
+      await sale.connect(buyer).buy(amount, 0, [], referrer.address);
+      await sale.connect(other).buy(amount, 0, [], referrer.address);
+      await sale.setReferralReward(1000, true);
+      await sale.connect(buyer).buy(amount, 0, [], referrer.address);
+      await sale.connect(other).buy(amount, 0, [], ethers.ZeroAddress);
+
+      // Records as the frontend builds them from ReferralRecorded events
+      const events = await sale.queryFilter(sale.filters.ReferralRecorded(referrer.address));
+      const summary = summarizeReferrals(events.map(event => ({
+        buyer: event.args.buyer,
+        usdcAmount: event.args.usdcAmount,
+        usdcReward: event.args.usdcReward,
+        roiReward: event.args.roiReward,
+        txHash: event.transactionHash,
+        blockNumber: event.blockNumber,
+        timestamp: 0,
+      })));
+
+      expect(summary.buyers).to.equal(2);
+      expect(summary.purchases).to.equal(3);
+      expect(summary.volume).to.equal(await sale.referredVolume(referrer.address));
+      expect(summary.usdcEarned).to.equal(await sale.referralRewardsUSDC(referrer.address));
+      expect(summary.roiEarned).to.equal(await sale.referralRewardsROI(referrer.address));
+    });
+  });
+});
@@ -1,24 +1,30 @@
 const { expect } = require("chai");
 const { ethers } = require("hardhat");
+const { time } = require("@nomicfoundation/hardhat-network-helpers");
+const { StandardMerkleTree } = require("@openzeppelin/merkle-tree");
 
 describe("RoiTokenSale", function () {
-  let RoiTokenSale;
-  let roiTokenSale;
-  let usdcToken;
-  let roiToken;
+  /** @type {import("../typechain-types").RoiTokenSale__factory} */ let RoiTokenSale;
+  /** @type {import("../typechain-types").RoiTokenSale} */ let roiTokenSale;
+  /** @type {import("../typechain-types").MockERC20} */ let usdcToken;
+  /** @type {import("../typechain-types").MockERC20} */ let roiToken;
   let owner;
   let buyer;
+  let outsider;
+  let startTime;
+  let endTime;
   
   // Constants
-  const ROI_PER_USDC = 1250;
+  const ROI_PER_USDC = ethers.parseUnits("1250", 12); // 1 USDC (6 decimals) = 1,250 ROI (18 decimals)
   const SOFT_CAP = ethers.parseUnits("5000", 6); // 5,000 USDC with 6 decimals
   const HARD_CAP = ethers.parseUnits("10000", 6); // 10,000 USDC with 6 decimals
   const INITIAL_ROI_SUPPLY = ethers.parseUnits("20000000", 18); // 20 million ROI tokens
   const INITIAL_USDC_SUPPLY = ethers.parseUnits("100000", 6); // 100,000 USDC
+  const SALE_DURATION = 30 * 24 * 60 * 60; // 30 days
 
   beforeEach(async function () {
     // Get signers
-    [owner, buyer] = await ethers.getSigners();
+    [owner, buyer, outsider] = await ethers.getSigners();
     
     // Deploy mock tokens
     const MockToken = await ethers.getContractFactory("MockERC20");
@@ -29,18 +35,25 @@ describe("RoiTokenSale", function () {
     await usdcToken.mint(buyer.address, INITIAL_USDC_SUPPLY);
     await roiToken.mint(owner.address, INITIAL_ROI_SUPPLY);
     
-    // Deploy RoiTokenSale contract
+    // Deploy RoiTokenSale contract with a window opening shortly
+    startTime = (await time.latest()) + 60;
+    endTime = startTime + SALE_DURATION;
     RoiTokenSale = await ethers.getContractFactory("RoiTokenSale");
     roiTokenSale = await RoiTokenSale.deploy(
       await usdcToken.getAddress(),
       await roiToken.getAddress(),
       ROI_PER_USDC,
       SOFT_CAP,
-      HARD_CAP
+      HARD_CAP,
+      startTime,
+      endTime
     );
     
     // Transfer ROI tokens to the sale contract
     await roiToken.connect(owner).transfer(await roiTokenSale.getAddress(), INITIAL_ROI_SUPPLY);
+
+    // Open the sale
+    await time.increaseTo(startTime);
   });
 
   describe("Initialization", function () {
@@ -61,6 +74,268 @@ describe("RoiTokenSale", function () {
       expect(await roiTokenSale.softCap()).to.equal(SOFT_CAP);
       expect(await roiTokenSale.hardCap()).to.equal(HARD_CAP);
     });
+
+    it("Should set the correct sale window", async function () {
+      expect(await roiTokenSale.startTime()).to.equal(startTime);
+      expect(await roiTokenSale.endTime()).to.equal(endTime);
+    });
+
+    it("Should not allow an end time before the start time", async function () {
+      await expect(RoiTokenSale.deploy(
+        await usdcToken.getAddress(),
+        await roiToken.getAddress(),
+        ROI_PER_USDC,
+        SOFT_CAP,
+        HARD_CAP,
+        endTime,
+        startTime
+      )).to.be.revertedWith("End time must be after start time");
+    });
+  });
+
+  describe("Sale Window", function () {
+    const purchaseAmount = ethers.parseUnits("1000", 6); // 1,000 USDC
+    /** @type {import("../typechain-types").RoiTokenSale} */ let upcomingSale;
+    let upcomingStart;
+    let upcomingEnd;
+
+    beforeEach(async function () {
+      // Deploy a second sale that opens in a day
+      upcomingStart = (await time.latest()) + 24 * 60 * 60;
+      upcomingEnd = upcomingStart + SALE_DURATION;
+      upcomingSale = await RoiTokenSale.deploy(
+        await usdcToken.getAddress(),
+        await roiToken.getAddress(),
+        ROI_PER_USDC,
+        SOFT_CAP,
+        HARD_CAP,
+        upcomingStart,
+        upcomingEnd
+      );
+      await roiToken.mint(await upcomingSale.getAddress(), INITIAL_ROI_SUPPLY);
+      await usdcToken.connect(buyer).approve(await upcomingSale.getAddress(), purchaseAmount);
+    });
+
+    it("Should not allow purchases before the start time", async function () {
+      expect(await upcomingSale.isSaleActive()).to.be.false;
+      await expect(upcomingSale.connect(buyer).buy(purchaseAmount, 0, [], ethers.ZeroAddress))
+        .to.be.revertedWith("Sale has not started");
+    });
+
+    it("Should allow purchases once the start time is reached", async function () {
+      await time.increaseTo(upcomingStart);
+      expect(await upcomingSale.isSaleActive()).to.be.true;
+      await expect(upcomingSale.connect(buyer).buy(purchaseAmount, 0, [], ethers.ZeroAddress))
+        .to.emit(upcomingSale, "TokensPurchased");
+    });
+
+    it("Should not allow purchases after the end time", async function () {
+      await time.increaseTo(upcomingEnd);
+      expect(await upcomingSale.isSaleActive()).to.be.false;
+      expect(await upcomingSale.hasSaleEnded()).to.be.true;
+      await expect(upcomingSale.connect(buyer).buy(purchaseAmount, 0, [], ethers.ZeroAddress))
+        .to.be.revertedWith("Sale has ended");
+    });
+
+    it("Should allow owner to reschedule the sale before it starts", async function () {
+      const newStart = upcomingStart + 3600;
+      const newEnd = upcomingEnd + 3600;
+      await expect(upcomingSale.connect(owner).setSaleWindow(newStart, newEnd))
+        .to.emit(upcomingSale, "SaleWindowUpdated")
+        .withArgs(newStart, newEnd);
+
+      expect(await upcomingSale.startTime()).to.equal(newStart);
+      expect(await upcomingSale.endTime()).to.equal(newEnd);
+    });
+
+    it("Should not allow rescheduling once the sale has started", async function () {
+      await expect(roiTokenSale.connect(owner).setSaleWindow(endTime, endTime + 3600))
+        .to.be.revertedWith("Sale has already started");
+    });
+
+    it("Should not allow a window starting in the past", async function () {
+      const now = await time.latest();
+      await expect(upcomingSale.connect(owner).setSaleWindow(now - 1, upcomingEnd))
+        .to.be.revertedWith("Start time must not be in the past");
+    });
+
+    it("Should allow owner to extend a running sale", async function () {
+      const newEnd = endTime + 7 * 24 * 60 * 60;
+      await expect(roiTokenSale.connect(owner).extendSale(newEnd))
+        .to.emit(roiTokenSale, "SaleExtended")
+        .withArgs(endTime, newEnd);
+
+      // Purchases are still possible after the original end time
+      await time.increaseTo(endTime + 1);
+      await usdcToken.connect(buyer).approve(await roiTokenSale.getAddress(), purchaseAmount);
+      await expect(roiTokenSale.connect(buyer).buy(purchaseAmount, 0, [], ethers.ZeroAddress))
+        .to.emit(roiTokenSale, "TokensPurchased");
+    });
+
+    it("Should not allow shortening the sale", async function () {
+      await expect(roiTokenSale.connect(owner).extendSale(endTime - 1))
+        .to.be.revertedWith("New end time must be after current end time");
+    });
+
+    it("Should not allow extending a sale that has ended", async function () {
+      await time.increaseTo(endTime);
+      await expect(roiTokenSale.connect(owner).extendSale(endTime + 3600))
+        .to.be.revertedWith("Sale has ended");
+    });
+
+    it("Should not allow non-owner to change the sale window", async function () {
+      await expect(upcomingSale.connect(buyer).setSaleWindow(upcomingStart, upcomingEnd + 1))
+        .to.be.revertedWithCustomError(upcomingSale, "OwnableUnauthorizedAccount");
+
+      await expect(roiTokenSale.connect(buyer).extendSale(endTime + 1))
+        .to.be.revertedWithCustomError(roiTokenSale, "OwnableUnauthorizedAccount");
+    });
+  });
+
+  describe("Allowlist", function () {
+    const purchaseAmount = ethers.parseUnits("1000", 6); // 1,000 USDC
+    let tree;
+    let buyerProof;
+
+    beforeEach(async function () {
+      tree = StandardMerkleTree.of([[buyer.address, 0], [owner.address, 1]], ["address", "uint8"]);
+      buyerProof = tree.getProof([buyer.address, 0]);
+
+      await roiTokenSale.connect(owner).setMerkleRoot(tree.root);
+      await usdcToken.mint(outsider.address, purchaseAmount);
+      await usdcToken.connect(buyer).approve(await roiTokenSale.getAddress(), purchaseAmount);
+      await usdcToken.connect(outsider).approve(await roiTokenSale.getAddress(), purchaseAmount);
+    });
+
+    it("Should be open to everyone while the root is unset", async function () {
+      await roiTokenSale.connect(owner).setMerkleRoot(ethers.ZeroHash);
+      expect(await roiTokenSale.isAllowlisted(outsider.address, 0, [])).to.be.true;
+      await expect(roiTokenSale.connect(outsider).buy(purchaseAmount, 0, [], ethers.ZeroAddress))
+        .to.emit(roiTokenSale, "TokensPurchased");
+    });
+
+    it("Should allow allowlisted addresses with a valid proof", async function () {
+      expect(await roiTokenSale.isAllowlisted(buyer.address, 0, buyerProof)).to.be.true;
+      await expect(roiTokenSale.connect(buyer).buy(purchaseAmount, 0, buyerProof, ethers.ZeroAddress))
+        .to.emit(roiTokenSale, "TokensPurchased");
+    });
+
+    it("Should reject addresses that are not allowlisted", async function () {
+      expect(await roiTokenSale.isAllowlisted(outsider.address, 0, buyerProof)).to.be.false;
+      await expect(roiTokenSale.connect(outsider).buy(purchaseAmount, 0, buyerProof, ethers.ZeroAddress))
+        .to.be.revertedWith("Address not allowlisted");
+    });
+
+    it("Should reject a valid proof claimed for another tier", async function () {
+      expect(await roiTokenSale.isAllowlisted(buyer.address, 1, buyerProof)).to.be.false;
+      await expect(roiTokenSale.connect(buyer).buy(purchaseAmount, 1, buyerProof, ethers.ZeroAddress))
+        .to.be.revertedWith("Address not allowlisted");
+    });
+
+    it("Should reject an allowlisted address without a proof", async function () {
+      await expect(roiTokenSale.connect(buyer).buy(purchaseAmount, 0, [], ethers.ZeroAddress))
+        .to.be.revertedWith("Address not allowlisted");
+    });
+
+    it("Should invalidate old proofs when the root is rotated", async function () {
+      const newTree = StandardMerkleTree.of([[outsider.address, 0], [owner.address, 1]], ["address", "uint8"]);
+      await expect(roiTokenSale.connect(owner).setMerkleRoot(newTree.root))
+        .to.emit(roiTokenSale, "MerkleRootUpdated")
+        .withArgs(tree.root, newTree.root);
+
+      await expect(roiTokenSale.connect(buyer).buy(purchaseAmount, 0, buyerProof, ethers.ZeroAddress))
+        .to.be.revertedWith("Address not allowlisted");
+      await expect(roiTokenSale.connect(outsider).buy(purchaseAmount, 0, newTree.getProof([outsider.address, 0]), ethers.ZeroAddress))
+        .to.emit(roiTokenSale, "TokensPurchased");
+    });
+
+    it("Should not allow non-owner to set the root", async function () {
+      await expect(roiTokenSale.connect(buyer).setMerkleRoot(ethers.ZeroHash))
+        .to.be.revertedWithCustomError(roiTokenSale, "OwnableUnauthorizedAccount");
+    });
+  });
+
+  describe("Contribution Limits", function () {
+    const MIN = ethers.parseUnits("100", 6); // 100 USDC
+    const MAX = ethers.parseUnits("2000", 6); // 2,000 USDC
+    const TIER_CAP = ethers.parseUnits("4000", 6); // 4,000 USDC
+
+    beforeEach(async function () {
+      await roiTokenSale.connect(owner).setContributionLimits(MIN, MAX);
+      await usdcToken.connect(buyer).approve(await roiTokenSale.getAddress(), INITIAL_USDC_SUPPLY);
+    });
+
+    it("Should emit an event when limits change", async function () {
+      await expect(roiTokenSale.connect(owner).setContributionLimits(MIN, MAX * 2n))
+        .to.emit(roiTokenSale, "ContributionLimitsUpdated")
+        .withArgs(MIN, MAX * 2n);
+    });
+
+    it("Should not allow a max below the min", async function () {
+      await expect(roiTokenSale.connect(owner).setContributionLimits(MAX, MIN))
+        .to.be.revertedWith("Max contribution must not be below min contribution");
+    });
+
+    it("Should reject a first purchase below the minimum", async function () {
+      await expect(roiTokenSale.connect(buyer).buy(MIN - 1n, 0, [], ethers.ZeroAddress))
+        .to.be.revertedWith("Below minimum contribution");
+    });
+
+    it("Should allow small top-ups once the minimum is met", async function () {
+      await roiTokenSale.connect(buyer).buy(MIN, 0, [], ethers.ZeroAddress);
+      await expect(roiTokenSale.connect(buyer).buy(1n, 0, [], ethers.ZeroAddress))
+        .to.emit(roiTokenSale, "TokensPurchased");
+      expect(await roiTokenSale.contributions(buyer.address)).to.equal(MIN + 1n);
+    });
+
+    it("Should enforce the maximum across several purchases", async function () {
+      await roiTokenSale.connect(buyer).buy(MAX - MIN, 0, [], ethers.ZeroAddress);
+      expect(await roiTokenSale.remainingContribution(buyer.address, 0)).to.equal(MIN);
+
+      await expect(roiTokenSale.connect(buyer).buy(MIN + 1n, 0, [], ethers.ZeroAddress))
+        .to.be.revertedWith("Exceeds maximum contribution");
+      await roiTokenSale.connect(buyer).buy(MIN, 0, [], ethers.ZeroAddress);
+      expect(await roiTokenSale.remainingContribution(buyer.address, 0)).to.equal(0);
+    });
+
+    it("Should apply per-tier caps for allowlisted tiers", async function () {
+      const tree = StandardMerkleTree.of([[buyer.address, 2], [owner.address, 0]], ["address", "uint8"]);
+      await roiTokenSale.connect(owner).setMerkleRoot(tree.root);
+      await expect(roiTokenSale.connect(owner).setTierCap(2, TIER_CAP))
+        .to.emit(roiTokenSale, "TierCapUpdated")
+        .withArgs(2, TIER_CAP);
+
+      expect(await roiTokenSale.contributionCap(2)).to.equal(TIER_CAP);
+      expect(await roiTokenSale.contributionCap(0)).to.equal(MAX);
+
+      const proof = tree.getProof([buyer.address, 2]);
+      await roiTokenSale.connect(buyer).buy(TIER_CAP, 2, proof, ethers.ZeroAddress);
+      await expect(roiTokenSale.connect(buyer).buy(1n, 2, proof, ethers.ZeroAddress))
+        .to.be.revertedWith("Exceeds maximum contribution");
+    });
+
+    it("Should ignore the claimed tier while the allowlist is off", async function () {
+      await roiTokenSale.connect(owner).setContributionLimits(0, ethers.parseUnits("1000", 6));
+      await roiTokenSale.connect(owner).setTierCap(5, ethers.parseUnits("50000", 6));
+
+      expect(await roiTokenSale.contributionCap(5)).to.equal(ethers.parseUnits("1000", 6));
+      expect(await roiTokenSale.remainingContribution(buyer.address, 5)).to.equal(ethers.parseUnits("1000", 6));
+      await expect(roiTokenSale.connect(buyer).buy(ethers.parseUnits("5000", 6), 5, [], ethers.ZeroAddress))
+        .to.be.revertedWith("Exceeds maximum contribution");
+    });
+
+    it("Should cap the remaining contribution at the hard cap", async function () {
+      await roiTokenSale.connect(owner).setContributionLimits(0, 0);
+      expect(await roiTokenSale.contributionCap(0)).to.equal(ethers.MaxUint256);
+      expect(await roiTokenSale.remainingContribution(buyer.address, 0)).to.equal(HARD_CAP);
+    });
+
+    it("Should not allow non-owner to change limits", async function () {
+      await expect(roiTokenSale.connect(buyer).setContributionLimits(0, 0))
+        .to.be.revertedWithCustomError(roiTokenSale, "OwnableUnauthorizedAccount");
+      await expect(roiTokenSale.connect(buyer).setTierCap(1, MAX))
+        .to.be.revertedWithCustomError(roiTokenSale, "OwnableUnauthorizedAccount");
+    });
   });
 
   describe("Token Purchase", function () {
@@ -73,7 +348,7 @@ describe("RoiTokenSale", function () {
     });
 
     it("Should allow users to buy tokens", async function () {
-      await expect(roiTokenSale.connect(buyer).buy(purchaseAmount))
+      await expect(roiTokenSale.connect(buyer).buy(purchaseAmount, 0, [], ethers.ZeroAddress))
         .to.emit(roiTokenSale, "TokensPurchased")
         .withArgs(buyer.address, purchaseAmount, expectedRoiAmount);
 
@@ -91,18 +366,107 @@ describe("RoiTokenSale", function () {
       const overCap = HARD_CAP + ethers.parseUnits("1", 6); // 10,001 USDC
       await usdcToken.connect(buyer).approve(await roiTokenSale.getAddress(), overCap);
 
-      await expect(roiTokenSale.connect(buyer).buy(overCap))
+      await expect(roiTokenSale.connect(buyer).buy(overCap, 0, [], ethers.ZeroAddress))
         .to.be.revertedWith("Purchase exceeds hard cap");
     });
   });
 
+  describe("Permit Purchase", function () {
+    const purchaseAmount = ethers.parseUnits("1000", 6); // 1,000 USDC
+    /** @type {import("../typechain-types").MockERC20Permit} */ let permitUsdc;
+    /** @type {import("../typechain-types").RoiTokenSale} */ let permitSale;
+    let deadline;
+
+    // Sign an EIP-2612 permit for the sale, using the token's own EIP-712 domain
+    const signPermit = async (token, signer, spender, value) => {
+      const [, name, version, chainId, verifyingContract] = await token.eip712Domain();
+      const signature = await signer.signTypedData(
+        { name, version, chainId, verifyingContract },
+        {
+          Permit: [
+            { name: "owner", type: "address" },
+            { name: "spender", type: "address" },
+            { name: "value", type: "uint256" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint256" },
+          ],
+        },
+        {
+          owner: signer.address,
+          spender,
+          value,
+          nonce: await token.nonces(signer.address),
+          deadline,
+        }
+      );
+      return ethers.Signature.from(signature);
+    };
+
+    beforeEach(async function () {
+      const MockPermitToken = await ethers.getContractFactory("MockERC20Permit");
+      permitUsdc = await MockPermitToken.deploy("USD Coin", "USDC", 6);
+      await permitUsdc.mint(buyer.address, INITIAL_USDC_SUPPLY);
+
+      const saleStart = (await time.latest()) + 60;
+      permitSale = await RoiTokenSale.deploy(
+        await permitUsdc.getAddress(),
+        await roiToken.getAddress(),
+        ROI_PER_USDC,
+        SOFT_CAP,
+        HARD_CAP,
+        saleStart,
+        saleStart + SALE_DURATION
+      );
+      await roiToken.mint(await permitSale.getAddress(), INITIAL_ROI_SUPPLY);
+      await time.increaseTo(saleStart);
+      deadline = (await time.latest()) + 60 * 60;
+    });
+
+    it("Should buy in a single transaction without a prior approval", async function () {
+      const saleAddress = await permitSale.getAddress();
+      const { v, r, s } = await signPermit(permitUsdc, buyer, saleAddress, purchaseAmount);
+
+      await expect(permitSale.connect(buyer).buyWithPermit(purchaseAmount, 0, [], ethers.ZeroAddress, deadline, v, r, s))
+        .to.emit(permitSale, "TokensPurchased")
+        .withArgs(buyer.address, purchaseAmount, purchaseAmount * BigInt(ROI_PER_USDC));
+
+      expect(await permitUsdc.balanceOf(saleAddress)).to.equal(purchaseAmount);
+      expect(await permitUsdc.allowance(buyer.address, saleAddress)).to.equal(0);
+    });
+
+    it("Should still buy if the permit was already submitted by someone else", async function () {
+      const saleAddress = await permitSale.getAddress();
+      const { v, r, s } = await signPermit(permitUsdc, buyer, saleAddress, purchaseAmount);
+      await permitUsdc.connect(outsider).permit(buyer.address, saleAddress, purchaseAmount, deadline, v, r, s);
+
+      await expect(permitSale.connect(buyer).buyWithPermit(purchaseAmount, 0, [], ethers.ZeroAddress, deadline, v, r, s))
+        .to.emit(permitSale, "TokensPurchased");
+    });
+
+    it("Should not buy with a permit signed for a different amount", async function () {
+      const saleAddress = await permitSale.getAddress();
+      const { v, r, s } = await signPermit(permitUsdc, buyer, saleAddress, purchaseAmount - BigInt(1));
+
+      await expect(permitSale.connect(buyer).buyWithPermit(purchaseAmount, 0, [], ethers.ZeroAddress, deadline, v, r, s))
+        .to.be.revertedWithCustomError(permitUsdc, "ERC20InsufficientAllowance");
+    });
+
+    it("Should fall back to an existing approval for tokens without permit", async function () {
+      await usdcToken.connect(buyer).approve(await roiTokenSale.getAddress(), purchaseAmount);
+
+      await expect(
+        roiTokenSale.connect(buyer).buyWithPermit(purchaseAmount, 0, [], ethers.ZeroAddress, deadline, 0, ethers.ZeroHash, ethers.ZeroHash)
+      ).to.emit(roiTokenSale, "TokensPurchased");
+    });
+  });
+
   describe("Cap Checking", function () {
     it("Should correctly report if soft cap is reached", async function () {
       expect(await roiTokenSale.isSoftCapReached()).to.be.false;
 
       // Buy enough to reach soft cap
       await usdcToken.connect(buyer).approve(await roiTokenSale.getAddress(), SOFT_CAP);
-      await roiTokenSale.connect(buyer).buy(SOFT_CAP);
+      await roiTokenSale.connect(buyer).buy(SOFT_CAP, 0, [], ethers.ZeroAddress);
 
       expect(await roiTokenSale.isSoftCapReached()).to.be.true;
     });
@@ -112,7 +476,7 @@ describe("RoiTokenSale", function () {
 
       // Buy enough to reach hard cap
       await usdcToken.connect(buyer).approve(await roiTokenSale.getAddress(), HARD_CAP);
-      await roiTokenSale.connect(buyer).buy(HARD_CAP);
+      await roiTokenSale.connect(buyer).buy(HARD_CAP, 0, [], ethers.ZeroAddress);
 
       expect(await roiTokenSale.isHardCapReached()).to.be.true;
     });
@@ -123,25 +487,25 @@ describe("RoiTokenSale", function () {
       // Buy half of hard cap
       const halfCap = HARD_CAP / BigInt(2);
       await usdcToken.connect(buyer).approve(await roiTokenSale.getAddress(), halfCap);
-      await roiTokenSale.connect(buyer).buy(halfCap);
+      await roiTokenSale.connect(buyer).buy(halfCap, 0, [], ethers.ZeroAddress);
 
       expect(await roiTokenSale.remainingToHardCap()).to.equal(halfCap);
 
       // Buy remaining to reach hard cap
       await usdcToken.connect(buyer).approve(await roiTokenSale.getAddress(), halfCap);
-      await roiTokenSale.connect(buyer).buy(halfCap);
+      await roiTokenSale.connect(buyer).buy(halfCap, 0, [], ethers.ZeroAddress);
 
       expect(await roiTokenSale.remainingToHardCap()).to.equal(0);
     });
   });
 
   describe("Token Withdrawal", function () {
-    const purchaseAmount = ethers.parseUnits("1000", 6); // 1,000 USDC
+    const purchaseAmount = SOFT_CAP; // 5,000 USDC
 
     beforeEach(async function () {
-      // Make a purchase
+      // Make a purchase that reaches the soft cap
       await usdcToken.connect(buyer).approve(await roiTokenSale.getAddress(), purchaseAmount);
-      await roiTokenSale.connect(buyer).buy(purchaseAmount);
+      await roiTokenSale.connect(buyer).buy(purchaseAmount, 0, [], ethers.ZeroAddress);
     });
 
     it("Should allow owner to withdraw USDC", async function () {
@@ -176,5 +540,898 @@ describe("RoiTokenSale", function () {
       await expect(roiTokenSale.connect(buyer).withdrawROI(purchaseAmount))
         .to.be.revertedWithCustomError(roiTokenSale, "OwnableUnauthorizedAccount");
     });
+
+    it("Should not allow USDC withdrawal before the soft cap is reached", async function () {
+      // Fresh sale with a purchase below the soft cap
+      const sale = await RoiTokenSale.deploy(
+        await usdcToken.getAddress(),
+        await roiToken.getAddress(),
+        ROI_PER_USDC,
+        SOFT_CAP,
+        HARD_CAP,
+        (await time.latest()) + 60,
+        (await time.latest()) + 60 + SALE_DURATION
+      );
+      await roiToken.mint(await sale.getAddress(), INITIAL_ROI_SUPPLY);
+      await time.increaseTo(await sale.startTime());
+
+      const smallPurchase = ethers.parseUnits("1000", 6);
+      await usdcToken.connect(buyer).approve(await sale.getAddress(), smallPurchase);
+      await sale.connect(buyer).buy(smallPurchase, 0, [], ethers.ZeroAddress);
+
+      await expect(sale.connect(owner).withdrawUSDC(smallPurchase))
+        .to.be.revertedWith("Soft cap not reached");
+    });
+  });
+
+  describe("Safety controls", function () {
+    const purchaseAmount = SOFT_CAP;
+    const DELAY = 2 * 24 * 60 * 60; // 2 days
+
+    beforeEach(async function () {
+      await usdcToken.connect(buyer).approve(await roiTokenSale.getAddress(), INITIAL_USDC_SUPPLY);
+    });
+
+    it("Should let the owner pause and resume purchases", async function () {
+      await expect(roiTokenSale.pause()).to.emit(roiTokenSale, "Paused").withArgs(owner.address);
+      expect(await roiTokenSale.paused()).to.be.true;
+      await expect(roiTokenSale.connect(buyer).buy(purchaseAmount, 0, [], ethers.ZeroAddress))
+        .to.be.revertedWithCustomError(roiTokenSale, "EnforcedPause");
+
+      await expect(roiTokenSale.unpause()).to.emit(roiTokenSale, "Unpaused").withArgs(owner.address);
+      await expect(roiTokenSale.connect(buyer).buy(purchaseAmount, 0, [], ethers.ZeroAddress))
+        .to.emit(roiTokenSale, "TokensPurchased");
+    });
+
+    it("Should not allow non-owners to pause", async function () {
+      await expect(roiTokenSale.connect(buyer).pause())
+        .to.be.revertedWithCustomError(roiTokenSale, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should keep refunds working while paused", async function () {
+      const amount = ethers.parseUnits("1000", 6);
+      await roiTokenSale.connect(buyer).buy(amount, 0, [], ethers.ZeroAddress);
+      await roiTokenSale.pause();
+
+      await time.increaseTo(endTime);
+      await roiToken.connect(buyer).approve(await roiTokenSale.getAddress(), amount * ROI_PER_USDC);
+      await expect(roiTokenSale.connect(buyer).claimRefund()).to.emit(roiTokenSale, "RefundClaimed");
+    });
+
+    it("Should transfer ownership in two steps", async function () {
+      await expect(roiTokenSale.transferOwnership(outsider.address))
+        .to.emit(roiTokenSale, "OwnershipTransferStarted")
+        .withArgs(owner.address, outsider.address);
+      expect(await roiTokenSale.owner()).to.equal(owner.address);
+      expect(await roiTokenSale.pendingOwner()).to.equal(outsider.address);
+
+      await expect(roiTokenSale.connect(buyer).acceptOwnership())
+        .to.be.revertedWithCustomError(roiTokenSale, "OwnableUnauthorizedAccount");
+      await roiTokenSale.connect(outsider).acceptOwnership();
+      expect(await roiTokenSale.owner()).to.equal(outsider.address);
+      expect(await roiTokenSale.pendingOwner()).to.equal(ethers.ZeroAddress);
+    });
+
+    it("Should send withdrawals to the treasury when one is set", async function () {
+      await roiTokenSale.connect(buyer).buy(purchaseAmount, 0, [], ethers.ZeroAddress);
+      await expect(roiTokenSale.setTreasury(outsider.address))
+        .to.emit(roiTokenSale, "TreasuryUpdated")
+        .withArgs(ethers.ZeroAddress, outsider.address);
+      expect(await roiTokenSale.withdrawalRecipient()).to.equal(outsider.address);
+
+      await roiTokenSale.withdrawUSDC(purchaseAmount);
+      expect(await usdcToken.balanceOf(outsider.address)).to.equal(purchaseAmount);
+      expect(await usdcToken.balanceOf(owner.address)).to.equal(0);
+    });
+
+    it("Should only execute withdrawals once the delay has passed", async function () {
+      await roiTokenSale.connect(buyer).buy(purchaseAmount, 0, [], ethers.ZeroAddress);
+      await expect(roiTokenSale.setWithdrawalDelay(DELAY))
+        .to.emit(roiTokenSale, "WithdrawalDelayUpdated")
+        .withArgs(0, DELAY);
+      await expect(roiTokenSale.withdrawUSDC(purchaseAmount)).to.be.revertedWith("Withdrawals are timelocked");
+
+      const readyAt = (await time.latest()) + 1 + DELAY;
+      await expect(roiTokenSale.scheduleWithdrawal(await usdcToken.getAddress(), purchaseAmount))
+        .to.emit(roiTokenSale, "WithdrawalScheduled")
+        .withArgs(0, await usdcToken.getAddress(), owner.address, purchaseAmount, readyAt);
+      await expect(roiTokenSale.executeWithdrawal(0)).to.be.revertedWith("Withdrawal is still timelocked");
+
+      // Changing the treasury does not redirect a withdrawal already scheduled
+      await roiTokenSale.setTreasury(outsider.address);
+      await time.increase(DELAY);
+      await roiTokenSale.executeTreasuryChange();
+      await expect(roiTokenSale.executeWithdrawal(0))
+        .to.emit(roiTokenSale, "WithdrawalExecuted")
+        .withArgs(0);
+      expect(await usdcToken.balanceOf(owner.address)).to.equal(purchaseAmount);
+      await expect(roiTokenSale.executeWithdrawal(0)).to.be.revertedWith("Unknown withdrawal");
+    });
+
+    it("Should let the owner cancel a scheduled withdrawal", async function () {
+      await roiTokenSale.setWithdrawalDelay(DELAY);
+      await roiTokenSale.scheduleWithdrawal(await roiToken.getAddress(), 1);
+
+      await expect(roiTokenSale.cancelWithdrawal(0)).to.emit(roiTokenSale, "WithdrawalCancelled").withArgs(0);
+      expect((await roiTokenSale.getWithdrawals())[0].readyAt).to.equal(0);
+      await time.increase(DELAY);
+      await expect(roiTokenSale.executeWithdrawal(0)).to.be.revertedWith("Unknown withdrawal");
+      await expect(roiTokenSale.connect(buyer).cancelWithdrawal(0))
+        .to.be.revertedWith("Caller is not the owner or treasury");
+    });
+
+    it("Should delay treasury changes as long as withdrawals", async function () {
+      await roiTokenSale.setWithdrawalDelay(DELAY);
+
+      const readyAt = (await time.latest()) + 1 + DELAY;
+      await expect(roiTokenSale.setTreasury(outsider.address))
+        .to.emit(roiTokenSale, "TreasuryChangeScheduled")
+        .withArgs(outsider.address, readyAt);
+      expect(await roiTokenSale.withdrawalRecipient()).to.equal(owner.address);
+      await expect(roiTokenSale.executeTreasuryChange()).to.be.revertedWith("Treasury change is still timelocked");
+
+      await time.increaseTo(readyAt);
+      await expect(roiTokenSale.executeTreasuryChange())
+        .to.emit(roiTokenSale, "TreasuryUpdated")
+        .withArgs(ethers.ZeroAddress, outsider.address);
+      expect(await roiTokenSale.withdrawalRecipient()).to.equal(outsider.address);
+      await expect(roiTokenSale.executeTreasuryChange()).to.be.revertedWith("No treasury change pending");
+    });
+
+    it("Should let the treasury cancel scheduled withdrawals and treasury changes", async function () {
+      await roiTokenSale.setTreasury(outsider.address);
+      await roiTokenSale.setWithdrawalDelay(DELAY);
+      await roiTokenSale.scheduleWithdrawal(await roiToken.getAddress(), 1);
+
+      await expect(roiTokenSale.connect(outsider).cancelWithdrawal(0))
+        .to.emit(roiTokenSale, "WithdrawalCancelled")
+        .withArgs(0);
+
+      // A compromised owner key cannot point withdrawals elsewhere before the treasury notices
+      await roiTokenSale.setTreasury(buyer.address);
+      await expect(roiTokenSale.connect(buyer).cancelTreasuryChange())
+        .to.be.revertedWith("Caller is not the owner or treasury");
+      await expect(roiTokenSale.connect(outsider).cancelTreasuryChange())
+        .to.emit(roiTokenSale, "TreasuryChangeCancelled")
+        .withArgs(buyer.address);
+      await time.increase(DELAY);
+      await expect(roiTokenSale.executeTreasuryChange()).to.be.revertedWith("No treasury change pending");
+      expect(await roiTokenSale.treasury()).to.equal(outsider.address);
+    });
+
+    it("Should only allow raising the withdrawal delay once the sale has started", async function () {
+      await roiTokenSale.setWithdrawalDelay(DELAY);
+      await expect(roiTokenSale.setWithdrawalDelay(0))
+        .to.be.revertedWith("Withdrawal delay can only be increased once the sale has started");
+      await expect(roiTokenSale.setWithdrawalDelay(31 * 24 * 60 * 60)).to.be.revertedWith("Withdrawal delay too long");
+      await roiTokenSale.setWithdrawalDelay(DELAY * 2);
+      expect(await roiTokenSale.withdrawalDelay()).to.equal(DELAY * 2);
+    });
+  });
+
+  describe("Refunds", function () {
+    const purchaseAmount = ethers.parseUnits("1000", 6); // 1,000 USDC, below the soft cap
+    const roiAmount = purchaseAmount * BigInt(ROI_PER_USDC);
+
+    beforeEach(async function () {
+      await usdcToken.connect(buyer).approve(await roiTokenSale.getAddress(), purchaseAmount);
+      await roiTokenSale.connect(buyer).buy(purchaseAmount, 0, [], ethers.ZeroAddress);
+    });
+
+    it("Should record each buyer's contribution", async function () {
+      expect(await roiTokenSale.contributions(buyer.address)).to.equal(purchaseAmount);
+      expect(await roiTokenSale.roiPurchased(buyer.address)).to.equal(roiAmount);
+    });
+
+    it("Should not allow refunds while the sale is running", async function () {
+      expect(await roiTokenSale.isRefundable()).to.be.false;
+      await expect(roiTokenSale.connect(buyer).claimRefund())
+        .to.be.revertedWith("Refunds are not available");
+    });
+
+    describe("When the sale fails", function () {
+      beforeEach(async function () {
+        await time.increaseTo(endTime);
+      });
+
+      it("Should refund USDC in exchange for the purchased ROI", async function () {
+        const usdcBefore = await usdcToken.balanceOf(buyer.address);
+        await roiToken.connect(buyer).approve(await roiTokenSale.getAddress(), roiAmount);
+
+        expect(await roiTokenSale.isRefundable()).to.be.true;
+        await expect(roiTokenSale.connect(buyer).claimRefund())
+          .to.emit(roiTokenSale, "RefundClaimed")
+          .withArgs(buyer.address, purchaseAmount, roiAmount);
+
+        expect(await usdcToken.balanceOf(buyer.address)).to.equal(usdcBefore + purchaseAmount);
+        expect(await roiToken.balanceOf(buyer.address)).to.equal(0);
+        expect(await roiTokenSale.contributions(buyer.address)).to.equal(0);
+        expect(await roiTokenSale.totalRefunded()).to.equal(purchaseAmount);
+      });
+
+      it("Should not refund without returning the ROI", async function () {
+        await expect(roiTokenSale.connect(buyer).claimRefund())
+          .to.be.revertedWithCustomError(roiToken, "ERC20InsufficientAllowance");
+      });
+
+      it("Should not refund twice", async function () {
+        await roiToken.connect(buyer).approve(await roiTokenSale.getAddress(), roiAmount);
+        await roiTokenSale.connect(buyer).claimRefund();
+
+        await expect(roiTokenSale.connect(buyer).claimRefund())
+          .to.be.revertedWith("No contribution to refund");
+      });
+
+      it("Should not refund addresses that did not contribute", async function () {
+        await expect(roiTokenSale.connect(owner).claimRefund())
+          .to.be.revertedWith("No contribution to refund");
+      });
+
+      it("Should keep owner USDC withdrawals locked", async function () {
+        await expect(roiTokenSale.connect(owner).withdrawUSDC(purchaseAmount))
+          .to.be.revertedWith("Soft cap not reached");
+      });
+    });
+
+    describe("When the sale succeeds", function () {
+      beforeEach(async function () {
+        const remainingToSoftCap = SOFT_CAP - purchaseAmount;
+        await usdcToken.connect(buyer).approve(await roiTokenSale.getAddress(), remainingToSoftCap);
+        await roiTokenSale.connect(buyer).buy(remainingToSoftCap, 0, [], ethers.ZeroAddress);
+        await time.increaseTo(endTime);
+      });
+
+      it("Should not allow refunds", async function () {
+        expect(await roiTokenSale.isRefundable()).to.be.false;
+        await expect(roiTokenSale.connect(buyer).claimRefund())
+          .to.be.revertedWith("Refunds are not available");
+      });
+
+      it("Should allow owner to withdraw the raised USDC", async function () {
+        await expect(roiTokenSale.connect(owner).withdrawUSDC(SOFT_CAP))
+          .to.emit(roiTokenSale, "USDCWithdrawn")
+          .withArgs(SOFT_CAP);
+      });
+    });
+  });
+
+  describe("Rounds", function () {
+    const DAY = 24 * 60 * 60;
+    const SEED_RATE = ethers.parseUnits("2000", 12); // 1 USDC = 2,000 ROI
+    const PRIVATE_RATE = ethers.parseUnits("1600", 12); // 1 USDC = 1,600 ROI
+    const PUBLIC_RATE = ethers.parseUnits("1250", 12); // 1 USDC = 1,250 ROI
+    const SEED_CAP = ethers.parseUnits("2000", 6);
+    const PRIVATE_CAP = ethers.parseUnits("3000", 6);
+    const PUBLIC_CAP = ethers.parseUnits("5000", 6);
+    /** @type {import("../typechain-types").RoiTokenSale} */ let roundSale;
+    let saleStart;
+    let saleEnd;
+
+    beforeEach(async function () {
+      // Deploy a sale that opens in a day so rounds can still be configured
+      saleStart = (await time.latest()) + DAY;
+      saleEnd = saleStart + SALE_DURATION;
+      roundSale = await RoiTokenSale.deploy(
+        await usdcToken.getAddress(),
+        await roiToken.getAddress(),
+        ROI_PER_USDC,
+        SOFT_CAP,
+        HARD_CAP,
+        saleStart,
+        saleEnd
+      );
+      await roiToken.mint(await roundSale.getAddress(), INITIAL_ROI_SUPPLY);
+      await usdcToken.connect(buyer).approve(await roundSale.getAddress(), HARD_CAP);
+    });
+
+    // Seed and private rounds back to back, then a public round after a one-day gap
+    const addRounds = async () => {
+      await roundSale.addRound(SEED_RATE, SEED_CAP, saleStart, saleStart + 5 * DAY);
+      await roundSale.addRound(PRIVATE_RATE, PRIVATE_CAP, saleStart + 5 * DAY, saleStart + 10 * DAY);
+      await roundSale.addRound(PUBLIC_RATE, PUBLIC_CAP, saleStart + 11 * DAY, saleEnd);
+    };
+
+    it("Should allow owner to add rounds before the sale starts", async function () {
+      await expect(roundSale.addRound(SEED_RATE, SEED_CAP, saleStart, saleStart + 5 * DAY))
+        .to.emit(roundSale, "RoundAdded")
+        .withArgs(0, SEED_RATE, SEED_CAP, saleStart, saleStart + 5 * DAY);
+
+      const [round] = await roundSale.getRounds();
+      expect(round.roiPerUSDC).to.equal(SEED_RATE);
+      expect(round.cap).to.equal(SEED_CAP);
+      expect(round.raised).to.equal(0);
+    });
+
+    it("Should only accept consecutive rounds inside the sale window", async function () {
+      await expect(roundSale.addRound(0, SEED_CAP, saleStart, saleStart + DAY))
+        .to.be.revertedWith("ROI per USDC must be greater than zero");
+      await expect(roundSale.addRound(SEED_RATE, 0, saleStart, saleStart + DAY))
+        .to.be.revertedWith("Round cap must be greater than zero");
+      await expect(roundSale.addRound(SEED_RATE, SEED_CAP, saleStart - 1, saleStart + DAY))
+        .to.be.revertedWith("Round must start after the previous round");
+      await expect(roundSale.addRound(SEED_RATE, SEED_CAP, saleStart, saleEnd + 1))
+        .to.be.revertedWith("Round must end within the sale window");
+
+      await roundSale.addRound(SEED_RATE, SEED_CAP, saleStart, saleStart + 5 * DAY);
+      await expect(roundSale.addRound(PRIVATE_RATE, PRIVATE_CAP, saleStart + 4 * DAY, saleStart + 10 * DAY))
+        .to.be.revertedWith("Round must start after the previous round");
+    });
+
+    it("Should keep the sale window around every round", async function () {
+      await addRounds();
+      await expect(roundSale.setSaleWindow(saleStart + 1, saleEnd))
+        .to.be.revertedWith("Sale window must cover every round");
+
+      await expect(roundSale.clearRounds()).to.emit(roundSale, "RoundsCleared");
+      expect(await roundSale.getRounds()).to.be.empty;
+      await roundSale.setSaleWindow(saleStart + 1, saleEnd);
+    });
+
+    it("Should keep the last round open when the sale is extended", async function () {
+      await addRounds();
+      await time.increaseTo(saleStart);
+      const newEnd = saleEnd + 7 * DAY;
+      await roundSale.extendSale(newEnd);
+
+      const rounds = await roundSale.getRounds();
+      expect(rounds[2].endTime).to.equal(newEnd);
+      expect(rounds[1].endTime).to.equal(saleStart + 10 * DAY);
+
+      // Purchases after the original end go to the public round at its rate
+      await time.increaseTo(saleEnd + 1);
+      const amount = ethers.parseUnits("100", 6);
+      await expect(roundSale.connect(buyer).buy(amount, 0, [], ethers.ZeroAddress))
+        .to.emit(roundSale, "TokensPurchased")
+        .withArgs(buyer.address, amount, amount * PUBLIC_RATE);
+      expect(await roundSale.currentRound()).to.equal(2);
+    });
+
+    it("Should not allow round changes once the sale has started or from non-owners", async function () {
+      await expect(roundSale.connect(buyer).addRound(SEED_RATE, SEED_CAP, saleStart, saleEnd))
+        .to.be.revertedWithCustomError(roundSale, "OwnableUnauthorizedAccount");
+
+      await time.increaseTo(saleStart);
+      await expect(roundSale.addRound(SEED_RATE, SEED_CAP, saleStart + DAY, saleEnd))
+        .to.be.revertedWith("Sale has already started");
+      await expect(roundSale.clearRounds()).to.be.revertedWith("Sale has already started");
+    });
+
+    it("Should price purchases at the current round's rate", async function () {
+      await addRounds();
+      await time.increaseTo(saleStart);
+      const amount = ethers.parseUnits("100", 6);
+
+      expect(await roundSale.currentRate()).to.equal(SEED_RATE);
+      await expect(roundSale.connect(buyer).buy(amount, 0, [], ethers.ZeroAddress))
+        .to.emit(roundSale, "TokensPurchased")
+        .withArgs(buyer.address, amount, amount * SEED_RATE);
+      expect((await roundSale.getRounds())[0].raised).to.equal(amount);
+    });
+
+    it("Should cap purchases at the round's remaining allocation", async function () {
+      await addRounds();
+      await time.increaseTo(saleStart);
+
+      expect(await roundSale.remainingContribution(buyer.address, 0)).to.equal(SEED_CAP);
+      await expect(roundSale.connect(buyer).buy(SEED_CAP + BigInt(1), 0, [], ethers.ZeroAddress))
+        .to.be.revertedWith("Purchase exceeds round cap");
+    });
+
+    it("Should advance automatically when a round fills up", async function () {
+      await addRounds();
+      await time.increaseTo(saleStart);
+      await roundSale.connect(buyer).buy(SEED_CAP, 0, [], ethers.ZeroAddress);
+
+      // The private round is scheduled later, but opens early once the seed round is sold out
+      expect(await roundSale.currentRound()).to.equal(1);
+      expect(await roundSale.currentRate()).to.equal(PRIVATE_RATE);
+      await expect(roundSale.connect(buyer).buy(SOFT_CAP, 0, [], ethers.ZeroAddress))
+        .to.be.revertedWith("Round has not started");
+    });
+
+    it("Should advance automatically when a round ends", async function () {
+      await addRounds();
+      await time.increaseTo(saleStart + 5 * DAY);
+      const amount = ethers.parseUnits("100", 6);
+
+      await expect(roundSale.connect(buyer).buy(amount, 0, [], ethers.ZeroAddress))
+        .to.emit(roundSale, "RoundAdvanced")
+        .withArgs(0, 1);
+      expect(await roundSale.currentRoundIndex()).to.equal(1);
+      expect(await roiToken.balanceOf(buyer.address)).to.equal(amount * PRIVATE_RATE);
+    });
+
+    it("Should not sell between rounds", async function () {
+      await addRounds();
+      await time.increaseTo(saleStart + 10 * DAY);
+
+      expect(await roundSale.currentRound()).to.equal(2);
+      await expect(roundSale.connect(buyer).buy(SEED_CAP, 0, [], ethers.ZeroAddress))
+        .to.be.revertedWith("Round has not started");
+    });
+
+    it("Should let the owner advance to the next round early", async function () {
+      await addRounds();
+      await time.increaseTo(saleStart + DAY);
+
+      await expect(roundSale.advanceRound())
+        .to.emit(roundSale, "RoundAdvanced")
+        .withArgs(0, 1);
+      expect(await roundSale.currentRate()).to.equal(PRIVATE_RATE);
+
+      const amount = ethers.parseUnits("100", 6);
+      await roundSale.connect(buyer).buy(amount, 0, [], ethers.ZeroAddress);
+      expect(await roiToken.balanceOf(buyer.address)).to.equal(amount * PRIVATE_RATE);
+
+      await roundSale.advanceRound();
+      await roundSale.advanceRound();
+      expect(await roundSale.currentRate()).to.equal(0);
+      await expect(roundSale.advanceRound()).to.be.revertedWith("No active round");
+      await expect(roundSale.connect(buyer).buy(amount, 0, [], ethers.ZeroAddress)).to.be.revertedWith("No active round");
+    });
+
+    it("Should not allow advancing before the sale starts or by non-owners", async function () {
+      await addRounds();
+      await expect(roundSale.advanceRound()).to.be.revertedWith("Sale has not started");
+
+      await time.increaseTo(saleStart);
+      await expect(roundSale.connect(buyer).advanceRound())
+        .to.be.revertedWithCustomError(roundSale, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should use the base rate when no rounds are configured", async function () {
+      expect(await roiTokenSale.currentRate()).to.equal(ROI_PER_USDC);
+      expect(await roiTokenSale.currentRound()).to.equal(0);
+    });
+  });
+
+  describe("Payment assets", function () {
+    const ETH_PRICE = ethers.parseUnits("2500", 8); // 1 ETH = 2,500 USD with 8 feed decimals
+    const MAX_AGE = 60 * 60;
+    const amount = ethers.parseUnits("500", 6); // 500 USDC worth
+    /** @type {import("../typechain-types").MockERC20} */ let usdbc;
+    /** @type {import("../typechain-types").MockERC20} */ let dai;
+    /** @type {import("../typechain-types").MockPriceFeed} */ let priceFeed;
+
+    beforeEach(async function () {
+      const MockToken = await ethers.getContractFactory("MockERC20");
+      usdbc = await MockToken.deploy("USD Base Coin", "USDbC", 6);
+      dai = await MockToken.deploy("Dai Stablecoin", "DAI", 18);
+      await usdbc.mint(buyer.address, INITIAL_USDC_SUPPLY);
+      await dai.mint(buyer.address, ethers.parseUnits("100000", 18));
+      await usdbc.connect(buyer).approve(await roiTokenSale.getAddress(), ethers.MaxUint256);
+      await dai.connect(buyer).approve(await roiTokenSale.getAddress(), ethers.MaxUint256);
+
+      const MockPriceFeed = await ethers.getContractFactory("MockPriceFeed");
+      priceFeed = await MockPriceFeed.deploy(8, ETH_PRICE);
+    });
+
+    it("Should allow owner to list and delist stablecoins", async function () {
+      await expect(roiTokenSale.setPaymentToken(await dai.getAddress(), true))
+        .to.emit(roiTokenSale, "PaymentTokenUpdated")
+        .withArgs(await dai.getAddress(), true, 18);
+      await roiTokenSale.setPaymentToken(await usdbc.getAddress(), true);
+      await roiTokenSale.setPaymentToken(await dai.getAddress(), false);
+
+      expect(await roiTokenSale.getPaymentTokens()).to.deep.equal([await dai.getAddress(), await usdbc.getAddress()]);
+      const info = await roiTokenSale.paymentTokenInfo(await dai.getAddress());
+      expect(info.listed).to.be.true;
+      expect(info.accepted).to.be.false;
+    });
+
+    it("Should not list USDC, ROI or the zero address, or allow non-owners to list", async function () {
+      for (const token of [await usdcToken.getAddress(), await roiToken.getAddress(), ethers.ZeroAddress]) {
+        await expect(roiTokenSale.setPaymentToken(token, true)).to.be.revertedWith("Invalid payment token");
+      }
+      await expect(roiTokenSale.connect(buyer).setPaymentToken(await dai.getAddress(), true))
+        .to.be.revertedWithCustomError(roiTokenSale, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should sell for a listed stablecoin, scaled to its decimals", async function () {
+      await roiTokenSale.setPaymentToken(await dai.getAddress(), true);
+      const daiAmount = ethers.parseUnits("500", 18);
+
+      expect(await roiTokenSale.tokenAmountFor(await dai.getAddress(), amount)).to.equal(daiAmount);
+      await expect(roiTokenSale.connect(buyer).buyWithToken(await dai.getAddress(), amount, 0, [], ethers.ZeroAddress))
+        .to.emit(roiTokenSale, "PaymentReceived")
+        .withArgs(buyer.address, await dai.getAddress(), daiAmount, amount)
+        .and.to.emit(roiTokenSale, "TokensPurchased")
+        .withArgs(buyer.address, amount, amount * ROI_PER_USDC);
+
+      expect(await dai.balanceOf(await roiTokenSale.getAddress())).to.equal(daiAmount);
+      expect(await roiTokenSale.totalRaised()).to.equal(amount);
+      expect(await roiTokenSale.contributions(buyer.address)).to.equal(amount);
+    });
+
+    it("Should not sell for stablecoins that are not accepted", async function () {
+      await expect(roiTokenSale.connect(buyer).buyWithToken(await dai.getAddress(), amount, 0, [], ethers.ZeroAddress))
+        .to.be.revertedWith("Payment token not accepted");
+
+      await roiTokenSale.setPaymentToken(await dai.getAddress(), true);
+      await roiTokenSale.setPaymentToken(await dai.getAddress(), false);
+      await expect(roiTokenSale.connect(buyer).buyWithToken(await dai.getAddress(), amount, 0, [], ethers.ZeroAddress))
+        .to.be.revertedWith("Payment token not accepted");
+    });
+
+    it("Should sell for ETH at the feed price and return the excess", async function () {
+      await expect(roiTokenSale.setPriceFeed(await priceFeed.getAddress(), MAX_AGE))
+        .to.emit(roiTokenSale, "PriceFeedUpdated")
+        .withArgs(await priceFeed.getAddress(), MAX_AGE);
+      const ethAmount = ethers.parseEther("0.2"); // 500 USD at 2,500 USD per ETH
+      expect(await roiTokenSale.ethAmountFor(amount)).to.equal(ethAmount);
+
+      const purchase = roiTokenSale.connect(buyer).buyWithETH(amount, 0, [], ethers.ZeroAddress, { value: ethAmount * BigInt(2) });
+      await expect(purchase)
+        .to.emit(roiTokenSale, "PaymentReceived")
+        .withArgs(buyer.address, ethers.ZeroAddress, ethAmount, amount);
+      await expect(purchase).to.changeEtherBalances([buyer, roiTokenSale], [-ethAmount, ethAmount]);
+      expect(await roiToken.balanceOf(buyer.address)).to.equal(amount * ROI_PER_USDC);
+      expect(await roiTokenSale.payments(buyer.address, ethers.ZeroAddress)).to.equal(ethAmount);
+    });
+
+    it("Should not sell for ETH without a fresh, valid price or enough ETH", async function () {
+      await expect(roiTokenSale.connect(buyer).buyWithETH(amount, 0, [], ethers.ZeroAddress, { value: ethers.parseEther("1") }))
+        .to.be.revertedWith("ETH payments are not enabled");
+
+      await roiTokenSale.setPriceFeed(await priceFeed.getAddress(), MAX_AGE);
+      await expect(roiTokenSale.connect(buyer).buyWithETH(amount, 0, [], ethers.ZeroAddress, { value: ethers.parseEther("0.1") }))
+        .to.be.revertedWith("Not enough ETH sent");
+
+      await priceFeed.setAnswerAt(ETH_PRICE, (await time.latest()) - MAX_AGE - 1);
+      await expect(roiTokenSale.ethAmountFor(amount)).to.be.revertedWith("ETH price is stale");
+
+      await priceFeed.setAnswer(0);
+      await expect(roiTokenSale.ethAmountFor(amount)).to.be.revertedWith("Invalid ETH price");
+    });
+
+    it("Should count every asset against the same caps", async function () {
+      await roiTokenSale.setPaymentToken(await usdbc.getAddress(), true);
+      await roiTokenSale.setPriceFeed(await priceFeed.getAddress(), MAX_AGE);
+      await roiTokenSale.setContributionLimits(0, ethers.parseUnits("1000", 6));
+
+      await roiTokenSale.connect(buyer).buyWithToken(await usdbc.getAddress(), amount, 0, [], ethers.ZeroAddress);
+      await roiTokenSale.connect(buyer).buyWithETH(amount, 0, [], ethers.ZeroAddress, { value: ethers.parseEther("1") });
+      expect(await roiTokenSale.contributions(buyer.address)).to.equal(amount * BigInt(2));
+
+      await usdcToken.connect(buyer).approve(await roiTokenSale.getAddress(), 1);
+      await expect(roiTokenSale.connect(buyer).buy(1, 0, [], ethers.ZeroAddress)).to.be.revertedWith("Exceeds maximum contribution");
+    });
+
+    it("Should refund each asset in the form it was paid", async function () {
+      await roiTokenSale.setPaymentToken(await dai.getAddress(), true);
+      await roiTokenSale.setPriceFeed(await priceFeed.getAddress(), MAX_AGE);
+      await usdcToken.connect(buyer).approve(await roiTokenSale.getAddress(), amount);
+      await roiTokenSale.connect(buyer).buy(amount, 0, [], ethers.ZeroAddress);
+      await roiTokenSale.connect(buyer).buyWithToken(await dai.getAddress(), amount, 0, [], ethers.ZeroAddress);
+      await roiTokenSale.connect(buyer).buyWithETH(amount, 0, [], ethers.ZeroAddress, { value: ethers.parseEther("0.2") });
+      // Delisting a token must not strand what was paid with it
+      await roiTokenSale.setPaymentToken(await dai.getAddress(), false);
+
+      await time.increaseTo(endTime);
+      const roiAmount = amount * BigInt(3) * ROI_PER_USDC;
+      await roiToken.connect(buyer).approve(await roiTokenSale.getAddress(), roiAmount);
+      const daiBefore = await dai.balanceOf(buyer.address);
+
+      const refund = roiTokenSale.connect(buyer).claimRefund();
+      await expect(refund)
+        .to.emit(roiTokenSale, "RefundClaimed")
+        .withArgs(buyer.address, amount * BigInt(3), roiAmount);
+      await expect(refund).to.changeEtherBalance(buyer, ethers.parseEther("0.2"));
+      expect(await dai.balanceOf(buyer.address)).to.equal(daiBefore + ethers.parseUnits("500", 18));
+      expect(await usdcToken.balanceOf(buyer.address)).to.equal(INITIAL_USDC_SUPPLY);
+    });
+
+    it("Should let the owner withdraw ETH and stablecoins once the soft cap is reached", async function () {
+      await roiTokenSale.setPaymentToken(await usdbc.getAddress(), true);
+      await roiTokenSale.setPriceFeed(await priceFeed.getAddress(), MAX_AGE);
+      await roiTokenSale.connect(buyer).buyWithETH(amount, 0, [], ethers.ZeroAddress, { value: ethers.parseEther("0.2") });
+      await expect(roiTokenSale.withdrawPayment(ethers.ZeroAddress, 1)).to.be.revertedWith("Soft cap not reached");
+
+      await roiTokenSale.connect(buyer).buyWithToken(await usdbc.getAddress(), SOFT_CAP, 0, [], ethers.ZeroAddress);
+      await expect(roiTokenSale.withdrawPayment(await usdbc.getAddress(), SOFT_CAP))
+        .to.emit(roiTokenSale, "PaymentWithdrawn")
+        .withArgs(await usdbc.getAddress(), SOFT_CAP);
+      await expect(roiTokenSale.withdrawPayment(ethers.ZeroAddress, ethers.parseEther("0.2")))
+        .to.changeEtherBalance(owner, ethers.parseEther("0.2"));
+
+      await expect(roiTokenSale.withdrawPayment(ethers.ZeroAddress, 1)).to.be.revertedWith("Not enough funds in contract");
+      await expect(roiTokenSale.withdrawPayment(await dai.getAddress(), 1)).to.be.revertedWith("Unknown payment asset");
+      await expect(roiTokenSale.connect(buyer).withdrawPayment(ethers.ZeroAddress, 1))
+        .to.be.revertedWithCustomError(roiTokenSale, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should reward referrals paid in ETH or stablecoins in ROI, even with USDC rewards", async function () {
+      await roiTokenSale.setPaymentToken(await usdbc.getAddress(), true);
+      await roiTokenSale.setPriceFeed(await priceFeed.getAddress(), MAX_AGE);
+      await roiTokenSale.setReferralReward(500, false);
+      const reward = (amount * ROI_PER_USDC) / BigInt(20);
+
+      await expect(roiTokenSale.connect(buyer).buyWithETH(amount, 0, [], outsider.address, { value: ethers.parseEther("0.2") }))
+        .to.emit(roiTokenSale, "ReferralRecorded")
+        .withArgs(outsider.address, buyer.address, amount, 0, reward);
+      await expect(roiTokenSale.connect(buyer).buyWithToken(await usdbc.getAddress(), SOFT_CAP, 0, [], outsider.address))
+        .to.emit(roiTokenSale, "ReferralRecorded")
+        .withArgs(outsider.address, buyer.address, SOFT_CAP, 0, (SOFT_CAP * ROI_PER_USDC) / BigInt(20));
+      expect(await roiTokenSale.totalReferralUSDCOwed()).to.equal(0);
+
+      // Withdrawing everything that was paid must leave the rewards claimable
+      await roiTokenSale.withdrawPayment(ethers.ZeroAddress, ethers.parseEther("0.2"));
+      await roiTokenSale.withdrawPayment(await usdbc.getAddress(), SOFT_CAP);
+      await time.increaseTo(endTime);
+      await roiTokenSale.connect(outsider).claimReferralRewards();
+      expect(await roiToken.balanceOf(outsider.address)).to.equal(reward + (SOFT_CAP * ROI_PER_USDC) / BigInt(20));
+    });
+  });
+
+  describe("Referrals", function () {
+    const REWARD_BPS = 500; // 5%
+    const amount = ethers.parseUnits("1000", 6);
+    let referrer;
+
+    beforeEach(async function () {
+      referrer = outsider;
+      await usdcToken.connect(buyer).approve(await roiTokenSale.getAddress(), INITIAL_USDC_SUPPLY);
+    });
+
+    it("Should allow owner to set the referral reward up to the maximum", async function () {
+      await expect(roiTokenSale.setReferralReward(REWARD_BPS, true))
+        .to.emit(roiTokenSale, "ReferralRewardUpdated")
+        .withArgs(REWARD_BPS, true);
+      expect(await roiTokenSale.referralRewardBps()).to.equal(REWARD_BPS);
+      expect(await roiTokenSale.referralRewardInROI()).to.be.true;
+
+      await expect(roiTokenSale.setReferralReward(2001, false)).to.be.revertedWith("Referral reward too high");
+      await expect(roiTokenSale.connect(buyer).setReferralReward(REWARD_BPS, false))
+        .to.be.revertedWithCustomError(roiTokenSale, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should attribute referred purchases even without a reward", async function () {
+      await expect(roiTokenSale.connect(buyer).buy(amount, 0, [], referrer.address))
+        .to.emit(roiTokenSale, "ReferralRecorded")
+        .withArgs(referrer.address, buyer.address, amount, 0, 0);
+      expect(await roiTokenSale.referredVolume(referrer.address)).to.equal(amount);
+
+      await expect(roiTokenSale.connect(buyer).buy(amount, 0, [], ethers.ZeroAddress))
+        .not.to.emit(roiTokenSale, "ReferralRecorded");
+      await expect(roiTokenSale.connect(buyer).buy(amount, 0, [], buyer.address))
+        .to.be.revertedWith("Cannot refer yourself");
+    });
+
+    it("Should reward referrers in USDC out of the purchase", async function () {
+      await roiTokenSale.setReferralReward(REWARD_BPS, false);
+      const reward = amount / BigInt(20);
+
+      await expect(roiTokenSale.connect(buyer).buy(amount, 0, [], referrer.address))
+        .to.emit(roiTokenSale, "ReferralRecorded")
+        .withArgs(referrer.address, buyer.address, amount, reward, 0);
+      expect(await roiTokenSale.referralRewardsUSDC(referrer.address)).to.equal(reward);
+      expect(await roiTokenSale.totalReferralUSDCOwed()).to.equal(reward);
+      // The buyer still receives the full amount of ROI
+      expect(await roiToken.balanceOf(buyer.address)).to.equal(amount * ROI_PER_USDC);
+    });
+
+    it("Should reward referrers in ROI on top of the purchase", async function () {
+      await roiTokenSale.setReferralReward(REWARD_BPS, true);
+      const reward = (amount * ROI_PER_USDC) / BigInt(20);
+      const availableBefore = await roiTokenSale.availableROI();
+
+      await expect(roiTokenSale.connect(buyer).buy(amount, 0, [], referrer.address))
+        .to.emit(roiTokenSale, "ReferralRecorded")
+        .withArgs(referrer.address, buyer.address, amount, 0, reward);
+      expect(await roiTokenSale.referralRewardsROI(referrer.address)).to.equal(reward);
+      expect(await roiTokenSale.availableROI()).to.equal(availableBefore - amount * ROI_PER_USDC - reward);
+    });
+
+    it("Should let referrers claim their rewards once the sale ends above the soft cap", async function () {
+      await roiTokenSale.setReferralReward(REWARD_BPS, false);
+      await roiTokenSale.connect(buyer).buy(amount, 0, [], referrer.address);
+      await roiTokenSale.setReferralReward(REWARD_BPS, true);
+      await roiTokenSale.connect(buyer).buy(amount, 0, [], referrer.address);
+      const usdcReward = amount / BigInt(20);
+      const roiReward = (amount * ROI_PER_USDC) / BigInt(20);
+
+      await expect(roiTokenSale.connect(referrer).claimReferralRewards()).to.be.revertedWith("Soft cap not reached");
+
+      // Reaching the soft cap is not enough while the sale is still running
+      await roiTokenSale.connect(buyer).buy(SOFT_CAP, 0, [], ethers.ZeroAddress);
+      expect(await roiTokenSale.claimableReferralROI(referrer.address)).to.equal(0);
+      await expect(roiTokenSale.connect(referrer).claimReferralRewards()).to.be.revertedWith("Sale has not ended");
+
+      await time.increaseTo(endTime);
+      await expect(roiTokenSale.connect(referrer).claimReferralRewards())
+        .to.emit(roiTokenSale, "ReferralRewardsClaimed")
+        .withArgs(referrer.address, usdcReward, roiReward);
+      expect(await usdcToken.balanceOf(referrer.address)).to.equal(usdcReward);
+      expect(await roiToken.balanceOf(referrer.address)).to.equal(roiReward);
+      expect(await roiTokenSale.totalReferralUSDCOwed()).to.equal(0);
+      expect(await roiTokenSale.totalReferralROIOwed()).to.equal(0);
+
+      await expect(roiTokenSale.connect(referrer).claimReferralRewards())
+        .to.be.revertedWith("No referral rewards to claim");
+    });
+
+    it("Should keep unclaimed USDC rewards out of owner withdrawals", async function () {
+      await roiTokenSale.setReferralReward(REWARD_BPS, false);
+      await roiTokenSale.connect(buyer).buy(SOFT_CAP, 0, [], referrer.address);
+      const reward = SOFT_CAP / BigInt(20);
+
+      await expect(roiTokenSale.withdrawUSDC(SOFT_CAP)).to.be.revertedWith("Not enough USDC in contract");
+      await roiTokenSale.withdrawUSDC(SOFT_CAP - reward);
+      await time.increaseTo(endTime);
+      await roiTokenSale.connect(referrer).claimReferralRewards();
+      expect(await usdcToken.balanceOf(await roiTokenSale.getAddress())).to.equal(0);
+    });
+
+    it("Should release ROI rewards when the sale fails", async function () {
+      await roiTokenSale.setReferralReward(REWARD_BPS, true);
+      await roiTokenSale.connect(buyer).buy(amount, 0, [], referrer.address);
+
+      await time.increaseTo(endTime);
+      expect(await roiTokenSale.availableROI()).to.equal(INITIAL_ROI_SUPPLY - amount * ROI_PER_USDC);
+      await expect(roiTokenSale.connect(referrer).claimReferralRewards()).to.be.revertedWith("Soft cap not reached");
+    });
+  });
+
+  describe("Vesting", function () {
+    const CLIFF = 30 * 24 * 60 * 60; // 30 days
+    const DURATION = 180 * 24 * 60 * 60; // 180 days
+    /** @type {import("../typechain-types").RoiTokenSale} */ let vestingSale;
+    let vestingStart;
+    let vestingEnd;
+
+    beforeEach(async function () {
+      // Deploy a sale that opens in a day so the schedule can still be configured
+      vestingStart = (await time.latest()) + 24 * 60 * 60;
+      vestingEnd = vestingStart + SALE_DURATION;
+      vestingSale = await RoiTokenSale.deploy(
+        await usdcToken.getAddress(),
+        await roiToken.getAddress(),
+        ROI_PER_USDC,
+        SOFT_CAP,
+        HARD_CAP,
+        vestingStart,
+        vestingEnd
+      );
+      await roiToken.mint(await vestingSale.getAddress(), INITIAL_ROI_SUPPLY);
+      await usdcToken.connect(buyer).approve(await vestingSale.getAddress(), HARD_CAP);
+    });
+
+    it("Should allow owner to configure vesting before the sale starts", async function () {
+      await expect(vestingSale.connect(owner).setVestingSchedule(true, CLIFF, DURATION))
+        .to.emit(vestingSale, "VestingScheduleUpdated")
+        .withArgs(true, CLIFF, DURATION);
+
+      expect(await vestingSale.vestingEnabled()).to.be.true;
+      expect(await vestingSale.cliffDuration()).to.equal(CLIFF);
+      expect(await vestingSale.vestingDuration()).to.equal(DURATION);
+    });
+
+    it("Should not allow a cliff longer than the vesting duration", async function () {
+      await expect(vestingSale.connect(owner).setVestingSchedule(true, DURATION + 1, DURATION))
+        .to.be.revertedWith("Cliff must not exceed vesting duration");
+    });
+
+    it("Should not allow vesting changes once the sale has started", async function () {
+      await time.increaseTo(vestingStart);
+      await expect(vestingSale.connect(owner).setVestingSchedule(true, CLIFF, DURATION))
+        .to.be.revertedWith("Sale has already started");
+    });
+
+    it("Should not allow non-owner to configure vesting", async function () {
+      await expect(vestingSale.connect(buyer).setVestingSchedule(true, CLIFF, DURATION))
+        .to.be.revertedWithCustomError(vestingSale, "OwnableUnauthorizedAccount");
+    });
+
+    describe("When vesting is enabled", function () {
+      const roiAmount = SOFT_CAP * BigInt(ROI_PER_USDC);
+
+      beforeEach(async function () {
+        await vestingSale.connect(owner).setVestingSchedule(true, CLIFF, DURATION);
+        await time.increaseTo(vestingStart);
+        await vestingSale.connect(buyer).buy(SOFT_CAP, 0, [], ethers.ZeroAddress);
+      });
+
+      it("Should record the purchase without transferring ROI", async function () {
+        expect(await roiToken.balanceOf(buyer.address)).to.equal(0);
+        expect(await vestingSale.roiPurchased(buyer.address)).to.equal(roiAmount);
+        expect(await vestingSale.totalRoiOwed()).to.equal(roiAmount);
+      });
+
+      it("Should not let the owner withdraw ROI reserved for buyers", async function () {
+        const available = INITIAL_ROI_SUPPLY - roiAmount;
+        expect(await vestingSale.availableROI()).to.equal(available);
+
+        await expect(vestingSale.connect(owner).withdrawROI(available + BigInt(1)))
+          .to.be.revertedWith("Not enough ROI tokens in contract");
+        await expect(vestingSale.connect(owner).withdrawROI(available))
+          .to.emit(vestingSale, "ROIWithdrawn")
+          .withArgs(available);
+      });
+
+      it("Should vest ROI referral rewards on the buyers' schedule", async function () {
+        await vestingSale.setReferralReward(500, true);
+        await vestingSale.connect(buyer).buy(SOFT_CAP, 0, [], outsider.address);
+        const reward = roiAmount / BigInt(20);
+
+        await expect(vestingSale.connect(outsider).claimReferralRewards()).to.be.revertedWith("Sale has not ended");
+        await time.increaseTo(vestingEnd + CLIFF - 10);
+        await expect(vestingSale.connect(outsider).claimReferralRewards())
+          .to.be.revertedWith("No referral rewards to claim");
+
+        await time.increaseTo(vestingEnd + DURATION / 2);
+        await vestingSale.connect(outsider).claimReferralRewards();
+        const vested = (reward * BigInt((await time.latest()) - vestingEnd)) / BigInt(DURATION);
+        expect(await roiToken.balanceOf(outsider.address)).to.equal(vested);
+        expect(await vestingSale.referralRewardsROI(outsider.address)).to.equal(reward - vested);
+
+        await time.increaseTo(vestingEnd + DURATION);
+        await vestingSale.connect(outsider).claimReferralRewards();
+        expect(await roiToken.balanceOf(outsider.address)).to.equal(reward);
+        expect(await vestingSale.totalReferralROIOwed()).to.equal(0);
+      });
+
+      it("Should not vest anything before the cliff", async function () {
+        await time.increaseTo(vestingEnd + CLIFF - 10);
+        expect(await vestingSale.vestedAmount(buyer.address)).to.equal(0);
+        await expect(vestingSale.connect(buyer).claim())
+          .to.be.revertedWith("Nothing to claim");
+      });
+
+      it("Should vest linearly after the cliff", async function () {
+        await time.increaseTo(vestingEnd + DURATION / 2);
+        expect(await vestingSale.vestedAmount(buyer.address)).to.equal(roiAmount / BigInt(2));
+        expect(await vestingSale.claimableAmount(buyer.address)).to.equal(roiAmount / BigInt(2));
+      });
+
+      it("Should let buyers claim vested ROI over time", async function () {
+        await time.setNextBlockTimestamp(vestingEnd + DURATION / 2);
+        await expect(vestingSale.connect(buyer).claim())
+          .to.emit(vestingSale, "TokensClaimed")
+          .withArgs(buyer.address, roiAmount / BigInt(2));
+
+        expect(await vestingSale.claimableAmount(buyer.address)).to.equal(0);
+
+        await time.increaseTo(vestingEnd + DURATION);
+        await vestingSale.connect(buyer).claim();
+
+        expect(await roiToken.balanceOf(buyer.address)).to.equal(roiAmount);
+        expect(await vestingSale.roiClaimed(buyer.address)).to.equal(roiAmount);
+        expect(await vestingSale.totalRoiOwed()).to.equal(0);
+      });
+
+      it("Should not allow claims if the soft cap was missed", async function () {
+        const failedStart = (await time.latest()) + 60;
+        const failedSale = await RoiTokenSale.deploy(
+          await usdcToken.getAddress(),
+          await roiToken.getAddress(),
+          ROI_PER_USDC,
+          SOFT_CAP,
+          HARD_CAP,
+          failedStart,
+          failedStart + SALE_DURATION
+        );
+        await failedSale.connect(owner).setVestingSchedule(true, 0, DURATION);
+        await roiToken.mint(await failedSale.getAddress(), INITIAL_ROI_SUPPLY);
+        await usdcToken.connect(buyer).approve(await failedSale.getAddress(), SOFT_CAP);
+        await time.increaseTo(failedStart);
+        await failedSale.connect(buyer).buy(SOFT_CAP - BigInt(1), 0, [], ethers.ZeroAddress);
+
+        await time.increaseTo(failedStart + SALE_DURATION + DURATION);
+        expect(await failedSale.claimableAmount(buyer.address)).to.equal(0);
+        await expect(failedSale.connect(buyer).claim())
+          .to.be.revertedWith("Soft cap not reached");
+
+        // Refunds cancel the allocation without needing the ROI back
+        await expect(failedSale.connect(buyer).claimRefund())
+          .to.emit(failedSale, "RefundClaimed")
+          .withArgs(buyer.address, SOFT_CAP - BigInt(1), (SOFT_CAP - BigInt(1)) * BigInt(ROI_PER_USDC));
+        expect(await failedSale.totalRoiOwed()).to.equal(0);
+      });
+    });
+
+    it("Should not allow claims when vesting is disabled", async function () {
+      await expect(roiTokenSale.connect(buyer).claim())
+        .to.be.revertedWith("Vesting is not enabled");
+    });
   });
 });
@@ -0,0 +1,200 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const { time } = require("@nomicfoundation/hardhat-network-helpers");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { SaleClient } = require("./helpers/sdk");
+const { exportBuyers, fundROI, getSigner, loadSale, parseArgs, runCommand, toCsv } = require("../scripts/sale");
+
+describe("Operator CLI", function () {
+  describe("Arguments", function () {
+    it("Should split options from positional arguments", function () {
+      const { args, options } = parseArgs(["withdraw-usdc", "100", "--network", "localhost", "--dry-run", "--json"]);
+      expect(args).to.deep.equal(["withdraw-usdc", "100"]);
+      expect(options).to.deep.equal({ network: "localhost", dryRun: true, json: true });
+    });
+
+    it("Should reject unknown and incomplete options", function () {
+      expect(() => parseArgs(["status", "--force"])).to.throw("Unknown option --force");
+      expect(() => parseArgs(["status", "--rpc"])).to.throw("Missing value for --rpc");
+    });
+
+    it("Should select the network and sale from the deployment registry", function () {
+      const manifestPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "sale-cli-")), "deployments.json");
+      const sale = (id) => ({ id, address: ethers.ZeroAddress, usdc: ethers.ZeroAddress, roi: ethers.ZeroAddress, deployBlock: 0 });
+      fs.writeFileSync(manifestPath, JSON.stringify({
+        defaultChainId: 8453,
+        networks: {
+          8453: { chainId: 8453, name: "Base", rpcUrl: "https://mainnet.base.org", sales: [sale("main")] },
+          31337: { chainId: 31337, name: "Hardhat", rpcUrl: "http://127.0.0.1:8545", sales: [sale("a"), sale("b")] },
+        },
+      }));
+
+      expect(loadSale({}, manifestPath)).to.deep.include({ chainId: 8453, rpcUrl: "https://mainnet.base.org" });
+      expect(loadSale({ network: "localhost" }, manifestPath).sale.id).to.equal("b");
+      expect(loadSale({ chain: "31337", sale: "a" }, manifestPath).sale.id).to.equal("a");
+      expect(loadSale({ rpc: "http://node:8545" }, manifestPath).rpcUrl).to.equal("http://node:8545");
+      expect(() => loadSale({ network: "mainnet" }, manifestPath)).to.throw('Unknown network "mainnet"');
+      expect(() => loadSale({ network: "localhost", sale: "c" }, manifestPath)).to.throw('No sale "c" on Hardhat');
+    });
+
+    it("Should refuse the all-zero placeholder private key", async function () {
+      const previousKey = process.env.PRIVATE_KEY;
+      const provider = new ethers.JsonRpcProvider("http://127.0.0.1:8545", 31337, { staticNetwork: true });
+      process.env.PRIVATE_KEY = ethers.ZeroHash;
+      try {
+        const error = await getSigner(provider, 31337, {}).catch(reason => reason);
+        expect(error.message).to.match(/^PRIVATE_KEY is the all-zero placeholder/);
+      } finally {
+        if (previousKey === undefined) delete process.env.PRIVATE_KEY;
+        else process.env.PRIVATE_KEY = previousKey;
+        provider.destroy();
+      }
+    });
+  });
+
+  describe("Against the sale contract", function () {
+    const ROI_PER_USDC = ethers.parseUnits("1250", 12);
+    const SOFT_CAP = ethers.parseUnits("5000", 6);
+    const HARD_CAP = ethers.parseUnits("10000", 6);
+    const SALE_DURATION = 30 * 24 * 60 * 60;
+
+    let owner;
+    let buyer;
+    let otherBuyer;
+    let client;
+    /** @type {import("../typechain-types").RoiTokenSale} */ let sale;
+    /** @type {import("../typechain-types").MockERC20} */ let usdcToken;
+    /** @type {import("../typechain-types").MockERC20} */ let roiToken;
+
+    const buy = async (account, amount) => {
+      await usdcToken.connect(account).approve(await sale.getAddress(), amount);
+      await sale.connect(account).buy(amount, 0, [], ethers.ZeroAddress);
+    };
+
+    beforeEach(async function () {
+      [owner, buyer, otherBuyer] = await ethers.getSigners();
+      const MockToken = await ethers.getContractFactory("MockERC20");
+      usdcToken = await MockToken.deploy("USD Coin", "USDC", 6);
+      roiToken = await MockToken.deploy("ROI Token", "ROI", 18);
+
+      const startTime = (await time.latest()) + 60;
+      const RoiTokenSale = await ethers.getContractFactory("RoiTokenSale");
+      sale = await RoiTokenSale.deploy(
+        await usdcToken.getAddress(),
+        await roiToken.getAddress(),
+        ROI_PER_USDC,
+        SOFT_CAP,
+        HARD_CAP,
+        startTime,
+        startTime + SALE_DURATION
+      );
+      await roiToken.mint(owner.address, HARD_CAP * ROI_PER_USDC);
+      await usdcToken.mint(buyer.address, HARD_CAP);
+      await usdcToken.mint(otherBuyer.address, HARD_CAP);
+      await time.increaseTo(startTime);
+
+      const addresses = {
+        address: await sale.getAddress(),
+        usdc: await usdcToken.getAddress(),
+        roi: await roiToken.getAddress(),
+        deployBlock: 0,
+      };
+      client = new SaleClient(addresses, ethers.provider).withSigner(owner);
+    });
+
+    it("Should simulate topping up the ROI inventory with --dry-run and send it without", async function () {
+      const amount = ethers.parseUnits("1000000", 18);
+
+      const dryRun = await fundROI(client, "1000000", { dryRun: true });
+      expect(dryRun).to.include({ action: "fund-roi", amount: "1000000.0", dryRun: true, to: await roiToken.getAddress() });
+      expect(dryRun.gasLimit).to.be.greaterThan(0);
+      expect(await roiToken.balanceOf(await sale.getAddress())).to.equal(0);
+
+      const sent = await fundROI(client, "1000000", {});
+      expect(sent.txHash).to.be.a("string");
+      expect(await roiToken.balanceOf(await sale.getAddress())).to.equal(amount);
+    });
+
+    it("Should report the sale's progress and holdings", async function () {
+      await runCommand(client, "fund-roi", [ethers.formatUnits(HARD_CAP * ROI_PER_USDC, 18)], {});
+      await buy(buyer, ethers.parseUnits("6000", 6));
+
+      const status = await runCommand(client, "status", [], {});
+      expect(status).to.include({
+        phase: "active",
+        raised: "6000.0",
+        hardCap: "10000.0",
+        softCapReached: true,
+        usdcBalance: "6000.0",
+        owner: owner.address,
+        treasury: owner.address,
+        pendingOwner: null,
+      });
+    });
+
+    it("Should withdraw straight away, or schedule it with a withdrawal delay", async function () {
+      await runCommand(client, "fund-roi", [ethers.formatUnits(HARD_CAP * ROI_PER_USDC, 18)], {});
+      await buy(buyer, ethers.parseUnits("6000", 6));
+
+      const withdrawn = await runCommand(client, "withdraw-usdc", ["1000"], {});
+      expect(withdrawn).to.include({ action: "withdraw-usdc", amount: "1000.0", scheduled: false });
+      expect(await usdcToken.balanceOf(owner.address)).to.equal(ethers.parseUnits("1000", 6));
+
+      await sale.setWithdrawalDelay(60 * 60);
+      const scheduled = await runCommand(client, "withdraw-roi", ["1000"], {});
+      expect(scheduled).to.include({ action: "withdraw-roi", scheduled: true });
+      expect(await sale.getWithdrawals()).to.have.lengthOf(1);
+    });
+
+    it("Should decode a withdrawal the sale refuses", async function () {
+      const error = await runCommand(client, "withdraw-usdc", ["1000"], { dryRun: true }).catch(reason => reason);
+      expect(error.name).to.equal("SaleError");
+      expect(error.key).to.equal("softCapNotReached");
+    });
+
+    it("Should offer the sale to a new owner", async function () {
+      const result = await runCommand(client, "transfer-ownership", [buyer.address], {});
+      expect(result).to.include({ pendingOwner: buyer.address });
+      expect(await sale.pendingOwner()).to.equal(buyer.address);
+      expect(await sale.owner()).to.equal(owner.address);
+    });
+
+    it("Should export every buyer's total purchases", async function () {
+      await runCommand(client, "fund-roi", [ethers.formatUnits(HARD_CAP * ROI_PER_USDC, 18)], {});
+      await buy(buyer, ethers.parseUnits("100", 6));
+      await buy(otherBuyer, ethers.parseUnits("50", 6));
+      await buy(buyer, ethers.parseUnits("25", 6));
+
+      const rows = await exportBuyers(client);
+      expect(rows).to.deep.equal([
+        { address: buyer.address, usdc: "125.0", roi: "156250.0", purchases: 2, refunded: false },
+        { address: otherBuyer.address, usdc: "50.0", roi: "62500.0", purchases: 1, refunded: false },
+      ]);
+      expect(toCsv(rows).split("\n")).to.deep.equal([
+        "address,usdc,roi,purchases,refunded",
+        `${buyer.address},125.0,156250.0,2,false`,
+        `${otherBuyer.address},50.0,62500.0,1,false`,
+        "",
+      ]);
+    });
+
+    it("Should mark buyers who took a refund", async function () {
+      await runCommand(client, "fund-roi", [ethers.formatUnits(HARD_CAP * ROI_PER_USDC, 18)], {});
+      await buy(buyer, ethers.parseUnits("100", 6));
+      await buy(otherBuyer, ethers.parseUnits("50", 6));
+
+      // The soft cap was missed, so the sale refunds once it has ended
+      await time.increaseTo(await sale.endTime());
+      await roiToken.connect(otherBuyer).approve(await sale.getAddress(), ethers.parseUnits("62500", 18));
+      await sale.connect(otherBuyer).claimRefund();
+
+      const rows = await exportBuyers(client);
+      expect(rows.map(row => [row.address, row.refunded])).to.deep.equal([
+        [buyer.address, false],
+        [otherBuyer.address, true],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,226 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const { time } = require("@nomicfoundation/hardhat-network-helpers");
+const { SaleClient, assetKey } = require("./helpers/sdk");
+
+describe("Sale client", function () {
+  const ROI_PER_USDC = ethers.parseUnits("1250", 12);
+  const SOFT_CAP = ethers.parseUnits("5000", 6);
+  const HARD_CAP = ethers.parseUnits("10000", 6);
+  const SALE_DURATION = 30 * 24 * 60 * 60;
+
+  let owner;
+  let buyer;
+  let addresses;
+  /** @type {import("../typechain-types").RoiTokenSale} */ let sale;
+  /** @type {import("../typechain-types").MockERC20Permit} */ let usdcToken;
+  /** @type {import("../typechain-types").MockERC20} */ let roiToken;
+  /** @type {import("../typechain-types").MockERC20} */ let dai;
+
+  beforeEach(async function () {
+    [owner, buyer] = await ethers.getSigners();
+    const MockToken = await ethers.getContractFactory("MockERC20");
+    const MockPermitToken = await ethers.getContractFactory("MockERC20Permit");
+    usdcToken = await MockPermitToken.deploy("USD Coin", "USDC", 6);
+    roiToken = await MockToken.deploy("ROI Token", "ROI", 18);
+    dai = await MockToken.deploy("Dai Stablecoin", "DAI", 18);
+
+    const startTime = (await time.latest()) + 60;
+    const RoiTokenSale = await ethers.getContractFactory("RoiTokenSale");
+    sale = await RoiTokenSale.deploy(
+      await usdcToken.getAddress(),
+      await roiToken.getAddress(),
+      ROI_PER_USDC,
+      SOFT_CAP,
+      HARD_CAP,
+      startTime,
+      startTime + SALE_DURATION
+    );
+    await roiToken.mint(await sale.getAddress(), HARD_CAP * ROI_PER_USDC);
+    await sale.setPaymentToken(await dai.getAddress(), true);
+    await usdcToken.mint(buyer.address, HARD_CAP);
+    await dai.mint(buyer.address, ethers.parseUnits("10000", 18));
+    await time.increaseTo(startTime);
+
+    addresses = {
+      address: await sale.getAddress(),
+      usdc: await usdcToken.getAddress(),
+      roi: await roiToken.getAddress(),
+      deployBlock: 0,
+    };
+  });
+
+  describe("Reads", function () {
+    it("Should read the sale's parameters once and its state on every call", async function () {
+      const client = new SaleClient(addresses, ethers.provider);
+      expect(client.getParams()).to.equal(client.getParams());
+      expect(await client.supportsPermit()).to.be.true;
+
+      const amount = ethers.parseUnits("100", 6);
+      await usdcToken.connect(buyer).approve(addresses.address, amount);
+      await sale.connect(buyer).buy(amount, 0, [], ethers.ZeroAddress);
+
+      const state = await client.getState();
+      expect(state.totalRaised).to.equal(amount);
+      expect(state.hardCap).to.equal(HARD_CAP);
+      expect(await client.getOwner()).to.equal(owner.address);
+    });
+
+    it("Should read an account for every accepted asset", async function () {
+      const client = new SaleClient(addresses, ethers.provider);
+      const { assets } = await client.getPaymentAssets();
+      const account = await client.getAccount(buyer.address);
+
+      expect(assets.map(asset => asset.symbol)).to.deep.equal(["USDC", "DAI"]);
+      expect(account.balances.usdc).to.equal(HARD_CAP);
+      expect(account.paymentBalances[assetKey(assets[1])]).to.equal(ethers.parseUnits("10000", 18));
+      expect(await client.getRemainingContribution(buyer.address)).to.equal(HARD_CAP);
+    });
+
+    it("Should quote at the sale's current rate", async function () {
+      const client = new SaleClient(addresses, ethers.provider);
+
+      const fromUSDC = await client.quote("100");
+      expect(fromUSDC.usdcAmount).to.equal(ethers.parseUnits("100", 6));
+      expect(fromUSDC.roiAmount).to.equal(ethers.parseUnits("125000", 18));
+
+      const fromROI = await client.quote("125000", "roi");
+      expect(fromROI.usdcAmount).to.equal(ethers.parseUnits("100", 6));
+
+      const spanish = new SaleClient(addresses, ethers.provider, { locale: "es" });
+      expect((await spanish.quote("1.0000009")).warnings).to.deep.equal([
+        "USDC tiene 6 decimales; la cantidad se redondeó hacia abajo a 1.0 USDC",
+      ]);
+    });
+  });
+
+  describe("Purchases", function () {
+    it("Should refuse to send without a signer", async function () {
+      const client = new SaleClient(addresses, ethers.provider);
+      expect(() => client.buy(ethers.parseUnits("100", 6))).to.throw("A signer is required to send transactions");
+    });
+
+    it("Should sign a permit when USDC is not approved and buy with it", async function () {
+      const client = new SaleClient(addresses, ethers.provider).withSigner(buyer);
+      const { assets } = await client.getPaymentAssets();
+      const amount = ethers.parseUnits("100", 6);
+
+      const preflight = await client.preparePurchase(assets[0], amount);
+      expect(preflight.errors).to.deep.equal([]);
+      expect(preflight.permit).to.not.be.null;
+      expect(preflight.roiAmount).to.equal(amount * ROI_PER_USDC);
+      expect(preflight.gasLimit).to.be.greaterThan(0);
+
+      await (await client.confirmPurchase(preflight)).wait();
+      expect(await sale.contributions(buyer.address)).to.equal(amount);
+      expect(await roiToken.balanceOf(buyer.address)).to.equal(amount * ROI_PER_USDC);
+    });
+
+    it("Should pay with an approved stablecoin", async function () {
+      const client = new SaleClient(addresses, ethers.provider).withSigner(buyer);
+      const { assets } = await client.getPaymentAssets();
+      const amount = ethers.parseUnits("100", 6);
+
+      const unapproved = await client.preparePurchase(assets[1], amount);
+      expect(unapproved.errors).to.have.lengthOf(1);
+
+      await (await client.approvePayment(assets[1], ethers.parseUnits("100", 18))).wait();
+      const preflight = await client.preparePurchase(assets[1], amount);
+      expect(preflight.errors).to.deep.equal([]);
+      expect(preflight.paymentAmount).to.equal(ethers.parseUnits("100", 18));
+
+      await (await client.confirmPurchase(preflight)).wait();
+      expect(await dai.balanceOf(addresses.address)).to.equal(ethers.parseUnits("100", 18));
+    });
+
+    it("Should warn in the client's language when the wallet cannot pay the network fee", async function () {
+      const wallet = ethers.Wallet.createRandom(ethers.provider);
+      await usdcToken.mint(wallet.address, ethers.parseUnits("100", 6));
+      const client = new SaleClient(addresses, ethers.provider, { locale: "es" }).withSigner(wallet);
+      const { assets } = await client.getPaymentAssets();
+
+      const preflight = await client.preparePurchase(assets[0], ethers.parseUnits("100", 6));
+      expect(preflight.errors).to.deep.equal([]);
+      expect(preflight.warnings).to.deep.equal([
+        "Es posible que tu billetera no tenga suficiente ETH para pagar la comisión de red.",
+      ]);
+    });
+
+    it("Should not send a purchase that failed pre-flight", async function () {
+      const client = new SaleClient(addresses, ethers.provider).withSigner(buyer);
+      const { assets } = await client.getPaymentAssets();
+
+      const preflight = await client.preparePurchase(assets[0], HARD_CAP + BigInt(1));
+      expect(preflight.errors).to.not.be.empty;
+      expect(() => client.confirmPurchase(preflight)).to.throw("Purchase did not pass pre-flight checks");
+    });
+  });
+
+  describe("Withdrawals and history", function () {
+    const AMOUNT = ethers.parseUnits("6000", 6);
+
+    beforeEach(async function () {
+      await usdcToken.connect(buyer).approve(addresses.address, AMOUNT);
+      await sale.connect(buyer).buy(AMOUNT, 0, [], ethers.ZeroAddress);
+    });
+
+    it("Should withdraw straight away without a withdrawal delay", async function () {
+      const client = new SaleClient(addresses, ethers.provider).withSigner(owner);
+
+      const { tx, scheduled } = await client.withdraw(addresses.usdc, AMOUNT);
+      await tx.wait();
+
+      expect(scheduled).to.be.false;
+      expect(await usdcToken.balanceOf(owner.address)).to.equal(AMOUNT);
+      const history = await client.getWithdrawalHistory();
+      expect(history).to.have.lengthOf(1);
+      expect(history[0]).to.include({ token: "USDC", amount: AMOUNT });
+    });
+
+    it("Should list withdrawals of other payment assets with their symbol", async function () {
+      const client = new SaleClient(addresses, ethers.provider).withSigner(owner);
+      const daiAmount = ethers.parseUnits("100", 18);
+      await dai.connect(buyer).approve(addresses.address, daiAmount);
+      await sale.connect(buyer).buyWithToken(await dai.getAddress(), ethers.parseUnits("100", 6), 0, [], ethers.ZeroAddress);
+
+      await (await client.withdraw(addresses.usdc, AMOUNT)).tx.wait();
+      await (await client.withdraw(await dai.getAddress(), daiAmount)).tx.wait();
+
+      const history = await client.getWithdrawalHistory();
+      expect(history.map(record => record.token)).to.deep.equal(["DAI", "USDC"]);
+      expect(history[0]).to.include({ asset: await dai.getAddress(), decimals: 18, amount: daiAmount });
+    });
+
+    it("Should schedule the withdrawal when the sale has a withdrawal delay", async function () {
+      await sale.setWithdrawalDelay(60 * 60);
+      const client = new SaleClient(addresses, ethers.provider).withSigner(owner);
+
+      const { tx, scheduled } = await client.withdraw(addresses.usdc, AMOUNT);
+      await tx.wait();
+
+      expect(scheduled).to.be.true;
+      const { adminState } = await client.getHoldings();
+      expect(adminState.withdrawals).to.have.lengthOf(1);
+
+      await time.increase(60 * 60);
+      await (await client.executeWithdrawal(adminState.withdrawals[0].id)).wait();
+      expect(await usdcToken.balanceOf(owner.address)).to.equal(AMOUNT);
+    });
+
+    it("Should page through a buyer's purchases", async function () {
+      const client = new SaleClient(addresses, ethers.provider, { historyPageBlocks: 2 });
+      await usdcToken.connect(buyer).approve(addresses.address, ethers.parseUnits("100", 6));
+      await sale.connect(buyer).buy(ethers.parseUnits("100", 6), 0, [], ethers.ZeroAddress);
+
+      const page = await client.getPurchaseHistory(buyer.address);
+      expect(page.purchases.map(purchase => purchase.usdcAmount)).to.deep.equal([ethers.parseUnits("100", 6)]);
+      expect(page.hasMore).to.be.true;
+
+      const next = await client.getPurchaseHistory(buyer.address, page.fromBlock - 1);
+      expect(next.purchases.map(purchase => purchase.usdcAmount)).to.deep.equal([AMOUNT]);
+
+      const all = await client.getAllPurchases();
+      expect(all.map(purchase => purchase.buyer)).to.deep.equal([buyer.address, buyer.address]);
+    });
+  });
+});
@@ -0,0 +1,312 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const { time } = require("@nomicfoundation/hardhat-network-helpers");
+const { requireFrontend } = require("./helpers/frontend");
+
+const { createQueryCache } = requireFrontend("utils/queryCache");
+const {
+  connectSale,
+  fetchAccountState,
+  fetchEthPrice,
+  fetchPaymentAssets,
+  fetchSaleHoldings,
+  fetchSaleParams,
+  fetchSaleState,
+  assetKey,
+} = require("./helpers/sdk");
+
+// A fetcher whose latest request settles when told to, counting how often it ran
+const controlledFetcher = () => {
+  const fetcher = {
+    calls: 0,
+    resolve: (/** @type {unknown} */ value) => undefined,
+    reject: (/** @type {unknown} */ error) => undefined,
+    fetch: () => {
+      fetcher.calls += 1;
+      return new Promise((resolve, reject) => {
+        fetcher.resolve = resolve;
+        fetcher.reject = reject;
+      });
+    },
+  };
+  return fetcher;
+};
+
+// Let settled fetches run their callbacks
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+// The provider with every eth_call counted, as a mock of the app's read-only provider
+const countingProvider = (provider) => {
+  const counter = { calls: 0 };
+  counter.provider = new Proxy(provider, {
+    get(target, property) {
+      if (property === "call") {
+        return (tx) => {
+          counter.calls += 1;
+          return target.call(tx);
+        };
+      }
+      const value = target[property];
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+  return counter;
+};
+
+describe("Sale state", function () {
+  describe("Query cache", function () {
+    it("Should share one fetch between concurrent requests for a key", async function () {
+      const cache = createQueryCache();
+      const fetcher = controlledFetcher();
+
+      const first = cache.fetch("sale:state", fetcher.fetch);
+      const second = cache.fetch("sale:state", fetcher.fetch);
+      expect(cache.get("sale:state").isFetching).to.be.true;
+      fetcher.resolve(42);
+
+      expect(await first).to.equal(42);
+      expect(await second).to.equal(42);
+      expect(fetcher.calls).to.equal(1);
+      expect(cache.get("sale:state")).to.include({ data: 42, error: null, isFetching: false });
+    });
+
+    it("Should reuse a result until it is stale", async function () {
+      const cache = createQueryCache();
+      const fetcher = controlledFetcher();
+
+      const first = cache.fetch("sale:state", fetcher.fetch);
+      fetcher.resolve(1);
+      await first;
+      expect(await cache.fetch("sale:state", fetcher.fetch)).to.equal(1);
+      expect(fetcher.calls).to.equal(1);
+
+      const refetch = cache.fetch("sale:state", fetcher.fetch, 0);
+      fetcher.resolve(2);
+      expect(await refetch).to.equal(2);
+      expect(fetcher.calls).to.equal(2);
+    });
+
+    it("Should notify subscribers and stop once they unsubscribe", async function () {
+      const cache = createQueryCache();
+      const fetcher = controlledFetcher();
+      let notified = 0;
+      const unsubscribe = cache.subscribe("sale:state", () => { notified += 1; });
+
+      const request = cache.fetch("sale:state", fetcher.fetch);
+      fetcher.resolve(1);
+      await request;
+      expect(notified).to.equal(2); // fetching, then the result
+
+      unsubscribe();
+      const refetch = cache.fetch("sale:state", fetcher.fetch, 0);
+      fetcher.resolve(2);
+      await refetch;
+      expect(notified).to.equal(2);
+    });
+
+    it("Should refetch matching queries in use and mark the rest stale", async function () {
+      const cache = createQueryCache();
+      const used = controlledFetcher();
+      const unused = controlledFetcher();
+      const fixed = controlledFetcher();
+      cache.subscribe("sale:state", () => undefined);
+      const queries = { "sale:state": used, "account:0x1": unused, "params:sale": fixed };
+      for (const [key, fetcher] of Object.entries(queries)) {
+        const request = cache.fetch(key, fetcher.fetch);
+        fetcher.resolve("old");
+        await request;
+      }
+
+      const refreshed = cache.invalidate(key => !key.startsWith("params:"));
+      expect(used.calls).to.equal(2);
+      used.resolve("new");
+      await refreshed;
+
+      expect(cache.get("sale:state").data).to.equal("new");
+      expect(unused.calls).to.equal(1);
+      expect(cache.get("account:0x1")).to.include({ data: "old", updatedAt: 0 });
+      expect(cache.get("params:sale").updatedAt).to.be.greaterThan(0);
+
+      // A stale query is refetched the next time it is requested
+      const request = cache.fetch("account:0x1", unused.fetch);
+      unused.resolve("new");
+      expect(await request).to.equal("new");
+    });
+
+    it("Should refetch a query invalidated while it was being fetched", async function () {
+      const cache = createQueryCache();
+      const fetcher = controlledFetcher();
+
+      const request = cache.fetch("sale:state", fetcher.fetch);
+      const refreshed = cache.invalidate();
+      fetcher.resolve("before");
+      await request;
+      await flush();
+
+      expect(fetcher.calls).to.equal(2);
+      fetcher.resolve("after");
+      await refreshed;
+      expect(cache.get("sale:state").data).to.equal("after");
+    });
+
+    it("Should keep the last result when a refetch fails", async function () {
+      const cache = createQueryCache();
+      const fetcher = controlledFetcher();
+      const error = new Error("RPC unavailable");
+      const consoleError = console.error;
+      console.error = () => undefined;
+
+      try {
+        const request = cache.fetch("sale:state", fetcher.fetch);
+        fetcher.resolve(1);
+        await request;
+
+        const refetch = cache.fetch("sale:state", fetcher.fetch, 0);
+        fetcher.reject(error);
+        expect(await refetch.catch(reason => reason)).to.equal(error);
+      } finally {
+        console.error = consoleError;
+      }
+
+      expect(cache.get("sale:state")).to.include({ data: 1, error, isFetching: false });
+    });
+  });
+
+  describe("Against the sale contract", function () {
+    const ROI_PER_USDC = ethers.parseUnits("1250", 12);
+    const SOFT_CAP = ethers.parseUnits("5000", 6);
+    const HARD_CAP = ethers.parseUnits("10000", 6);
+    const SALE_DURATION = 30 * 24 * 60 * 60;
+    const ETH_PRICE = ethers.parseUnits("2500", 8);
+
+    let buyer;
+    let contracts;
+    let deployment;
+    /** @type {import("../typechain-types").RoiTokenSale} */ let sale;
+    /** @type {import("../typechain-types").MockERC20} */ let usdcToken;
+    /** @type {import("../typechain-types").MockERC20} */ let roiToken;
+    /** @type {import("../typechain-types").MockERC20} */ let dai;
+
+    beforeEach(async function () {
+      [, buyer] = await ethers.getSigners();
+      const MockToken = await ethers.getContractFactory("MockERC20");
+      usdcToken = await MockToken.deploy("USD Coin", "USDC", 6);
+      roiToken = await MockToken.deploy("ROI Token", "ROI", 18);
+      dai = await MockToken.deploy("Dai Stablecoin", "DAI", 18);
+      const MockPriceFeed = await ethers.getContractFactory("MockPriceFeed");
+      const priceFeed = await MockPriceFeed.deploy(8, ETH_PRICE);
+
+      const startTime = (await time.latest()) + 60;
+      const RoiTokenSale = await ethers.getContractFactory("RoiTokenSale");
+      sale = await RoiTokenSale.deploy(
+        await usdcToken.getAddress(),
+        await roiToken.getAddress(),
+        ROI_PER_USDC,
+        SOFT_CAP,
+        HARD_CAP,
+        startTime,
+        startTime + SALE_DURATION
+      );
+      await roiToken.mint(await sale.getAddress(), HARD_CAP * ROI_PER_USDC);
+      await sale.setPaymentToken(await dai.getAddress(), true);
+      await sale.setPriceFeed(await priceFeed.getAddress(), 60 * 60);
+      await sale.setWithdrawalDelay(60 * 60);
+      await usdcToken.mint(buyer.address, HARD_CAP);
+      await usdcToken.connect(buyer).approve(await sale.getAddress(), HARD_CAP);
+      await time.increaseTo(startTime);
+
+      deployment = {
+        address: await sale.getAddress(),
+        usdc: await usdcToken.getAddress(),
+        roi: await roiToken.getAddress(),
+        deployBlock: 0,
+      };
+      contracts = connectSale(deployment, ethers.provider);
+    });
+
+    it("Should read the sale as the contract reports it", async function () {
+      const amount = ethers.parseUnits("100", 6);
+      await sale.connect(buyer).buy(amount, 0, [], ethers.ZeroAddress);
+
+      const params = await fetchSaleParams(ethers.provider, contracts);
+      expect(params).to.deep.equal({
+        softCap: SOFT_CAP,
+        hardCap: HARD_CAP,
+        roiPerUSDC: ROI_PER_USDC,
+        usdcDecimals: 6,
+        roiDecimals: 18,
+      });
+
+      const state = await fetchSaleState(ethers.provider, contracts, params);
+      expect(state.totalRaised).to.equal(amount);
+      expect(state.remainingToHardCap).to.equal(HARD_CAP - amount);
+      expect(state.isSoftCapReached).to.be.false;
+      expect(state.endTime).to.equal(Number(await sale.endTime()));
+      expect(state.paused).to.be.false;
+    });
+
+    it("Should read the accepted assets and the ETH price", async function () {
+      const params = await fetchSaleParams(ethers.provider, contracts);
+      const { assets, priceFeed } = await fetchPaymentAssets(ethers.provider, contracts, params);
+
+      expect(assets.map(asset => asset.symbol)).to.deep.equal(["USDC", "DAI", "ETH"]);
+      expect(assets[1].decimals).to.equal(18);
+      const ethPrice = await fetchEthPrice(priceFeed);
+      expect(ethPrice).to.include({ answer: ETH_PRICE, decimals: 8, maxAge: 60 * 60 });
+    });
+
+    it("Should read a wallet's balances, allowances and contribution", async function () {
+      const amount = ethers.parseUnits("100", 6);
+      await sale.connect(buyer).buy(amount, 0, [], ethers.ZeroAddress);
+
+      const params = await fetchSaleParams(ethers.provider, contracts);
+      const { assets } = await fetchPaymentAssets(ethers.provider, contracts, params);
+      const account = await fetchAccountState(ethers.provider, contracts, buyer.address, assets);
+
+      expect(account.balances).to.deep.equal({ usdc: HARD_CAP - amount, roi: amount * ROI_PER_USDC });
+      expect(account.allowance).to.equal(HARD_CAP - amount);
+      expect(account.contribution).to.deep.equal({ usdc: amount, roi: amount * ROI_PER_USDC, claimed: BigInt(0) });
+      expect(account.paymentBalances[assetKey(assets[0])]).to.equal(HARD_CAP - amount);
+      expect(account.paymentBalances[assetKey(assets[1])]).to.equal(0);
+      expect(account.paymentBalances[assetKey(assets[2])]).to.equal(await ethers.provider.getBalance(buyer.address));
+    });
+
+    it("Should read the sale's holdings and scheduled withdrawals", async function () {
+      await sale.scheduleWithdrawal(await roiToken.getAddress(), ethers.parseUnits("1", 18));
+      await sale.setTreasury(buyer.address);
+
+      const params = await fetchSaleParams(ethers.provider, contracts);
+      const { assets } = await fetchPaymentAssets(ethers.provider, contracts, params);
+      const holdings = await fetchSaleHoldings(ethers.provider, contracts, assets);
+
+      expect(holdings.saleBalances.roi).to.equal(HARD_CAP * ROI_PER_USDC);
+      expect(holdings.adminState.withdrawalDelay).to.equal(60 * 60);
+      expect(holdings.adminState.withdrawals).to.have.lengthOf(1);
+      expect(holdings.adminState.withdrawals[0].amount).to.equal(ethers.parseUnits("1", 18));
+      expect(holdings.adminState.pendingTreasury).to.equal(buyer.address);
+      expect(holdings.adminState.treasuryReadyAt).to.equal((await time.latest()) + 60 * 60);
+      expect(holdings.salePaymentBalances[assetKey(assets[1])]).to.equal(0);
+    });
+
+    it("Should read the sale once for every reader of the same query", async function () {
+      const counter = countingProvider(ethers.provider);
+      const readContracts = connectSale(deployment, counter.provider);
+      const cache = createQueryCache();
+      const params = await fetchSaleParams(counter.provider, readContracts);
+      counter.calls = 0;
+
+      // As two components mounting with the same key would
+      const fetchState = () => fetchSaleState(counter.provider, readContracts, params);
+      const [first, second] = await Promise.all([
+        cache.fetch("sale:state", fetchState),
+        cache.fetch("sale:state", fetchState),
+      ]);
+      const callsPerRead = counter.calls;
+
+      expect(second).to.equal(first);
+      expect(callsPerRead).to.be.greaterThan(0);
+      await fetchState();
+      expect(counter.calls).to.equal(callsPerRead * 2);
+    });
+  });
+});
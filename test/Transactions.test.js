@@ -0,0 +1,67 @@
+const { expect } = require("chai");
+const { ethers, network } = require("hardhat");
+const { requireFrontend } = require("./helpers/frontend");
+
+const { waitForTransaction } = requireFrontend("utils/transactionWait");
+
+describe("Transaction tracking", function () {
+  let buyer;
+  let other;
+
+  beforeEach(async function () {
+    [, buyer, other] = await ethers.getSigners();
+    // Hold transactions in the mempool so they can be replaced before they are mined
+    await network.provider.send("evm_setAutomine", [false]);
+  });
+
+  afterEach(async function () {
+    await network.provider.send("evm_setAutomine", [true]);
+  });
+
+  // Send a transfer from the buyer, then replace it with another using the same nonce and higher fees
+  const sendAndReplace = async (replacement) => {
+    const feeData = await ethers.provider.getFeeData();
+    const startBlock = await ethers.provider.getBlockNumber();
+    const tx = await buyer.sendTransaction({
+      to: other.address,
+      value: ethers.parseEther("1"),
+      maxFeePerGas: feeData.maxFeePerGas,
+      maxPriorityFeePerGas: feeData.maxPriorityFeePerGas,
+    });
+    await buyer.sendTransaction({
+      ...replacement,
+      nonce: tx.nonce,
+      maxFeePerGas: feeData.maxFeePerGas * BigInt(2),
+      maxPriorityFeePerGas: feeData.maxPriorityFeePerGas * BigInt(2),
+    });
+    await network.provider.send("evm_mine");
+    return { tx, startBlock };
+  };
+
+  it("Should resolve with the receipt of a transaction that was mined", async function () {
+    const startBlock = await ethers.provider.getBlockNumber();
+    const tx = await buyer.sendTransaction({ to: other.address, value: 1 });
+    await network.provider.send("evm_mine");
+
+    const receipt = await waitForTransaction(tx, startBlock);
+    expect(receipt?.hash).to.equal(tx.hash);
+  });
+
+  it("Should report a speed-up mined in place of the transaction", async function () {
+    const { tx, startBlock } = await sendAndReplace({ to: other.address, value: ethers.parseEther("1") });
+
+    const error = await waitForTransaction(tx, startBlock).catch(reason => reason);
+    expect(ethers.isError(error, "TRANSACTION_REPLACED")).to.be.true;
+    expect(error.cancelled).to.be.false;
+    expect(error.replacement.hash).to.not.equal(tx.hash);
+    expect(error.receipt.status).to.equal(1);
+  });
+
+  it("Should report a cancellation mined in place of the transaction", async function () {
+    const { tx, startBlock } = await sendAndReplace({ to: buyer.address, value: 0 });
+
+    const error = await waitForTransaction(tx, startBlock).catch(reason => reason);
+    expect(ethers.isError(error, "TRANSACTION_REPLACED")).to.be.true;
+    expect(error.cancelled).to.be.true;
+  });
+});
@@ -0,0 +1,159 @@
+const { expect } = require("chai");
+const { ethers, network } = require("hardhat");
+const { time } = require("@nomicfoundation/hardhat-network-helpers");
+const { EventEmitter } = require("events");
+const { requireFrontend } = require("./helpers/frontend");
+
+const {
+  getWalletLabel,
+  getWalletSigner,
+  readWalletState,
+  selectWallet,
+  subscribeWallet,
+} = requireFrontend("utils/wallet");
+
+// An EIP-1193 wallet backed by the Hardhat node, standing in for a Privy embedded or injected wallet.
+// `accounts` is what the wallet exposes through eth_accounts
+const createMockWallet = (accounts) => {
+  const requests = [];
+  return Object.assign(new EventEmitter(), {
+    requests,
+    request: async ({ method, params }) => {
+      requests.push(method);
+      if (method === "eth_accounts" || method === "eth_requestAccounts") return accounts;
+      return network.provider.request({ method, params });
+    },
+  });
+};
+
+describe("Wallet provider", function () {
+  const ROI_PER_USDC = ethers.parseUnits("1250", 12);
+  const SOFT_CAP = ethers.parseUnits("5000", 6);
+  const HARD_CAP = ethers.parseUnits("10000", 6);
+  const SALE_DURATION = 30 * 24 * 60 * 60;
+
+  let owner;
+  let buyer;
+  let other;
+
+  beforeEach(async function () {
+    [owner, buyer, other] = await ethers.getSigners();
+  });
+
+  describe("Wallet state", function () {
+    it("Should read the chain and selected account", async function () {
+      const wallet = createMockWallet([buyer.address, other.address]);
+      const { chainId } = await ethers.provider.getNetwork();
+
+      expect(await readWalletState(wallet)).to.deep.equal({ chainId: Number(chainId), account: buyer.address });
+    });
+
+    it("Should report a locked wallet as having no account", async function () {
+      expect((await readWalletState(createMockWallet([]))).account).to.equal(null);
+    });
+
+    it("Should follow chain and account changes until unsubscribed", async function () {
+      const wallet = createMockWallet([buyer.address]);
+      const changes = [];
+      const unsubscribe = subscribeWallet(wallet, change => changes.push(change));
+
+      wallet.emit("chainChanged", "0x2105");
+      wallet.emit("accountsChanged", [other.address]);
+      wallet.emit("accountsChanged", []);
+      unsubscribe();
+      wallet.emit("chainChanged", "0x1");
+
+      expect(changes).to.deep.equal([
+        { chainId: 8453 },
+        { account: other.address },
+        { account: null },
+      ]);
+      expect(wallet.listenerCount("chainChanged")).to.equal(0);
+      expect(wallet.listenerCount("accountsChanged")).to.equal(0);
+    });
+
+    it("Should tolerate wallets without an event emitter", async function () {
+      const wallet = { request: createMockWallet([buyer.address]).request };
+      const unsubscribe = subscribeWallet(wallet, () => undefined);
+      expect(unsubscribe).to.not.throw();
+    });
+  });
+
+  describe("Signing", function () {
+    /** @type {import("../typechain-types").MockERC20} */ let usdcToken;
+    /** @type {import("../typechain-types").MockERC20} */ let roiToken;
+    /** @type {import("../typechain-types").RoiTokenSale} */ let sale;
+
+    beforeEach(async function () {
+      const MockToken = await ethers.getContractFactory("MockERC20");
+      usdcToken = await MockToken.deploy("USD Coin", "USDC", 6);
+      roiToken = await MockToken.deploy("ROI Token", "ROI", 18);
+      await usdcToken.mint(buyer.address, HARD_CAP);
+
+      const startTime = (await time.latest()) + 60;
+      const RoiTokenSale = await ethers.getContractFactory("RoiTokenSale");
+      sale = await RoiTokenSale.deploy(
+        await usdcToken.getAddress(),
+        await roiToken.getAddress(),
+        ROI_PER_USDC,
+        SOFT_CAP,
+        HARD_CAP,
+        startTime,
+        startTime + SALE_DURATION
+      );
+      await roiToken.mint(await sale.getAddress(), HARD_CAP * ROI_PER_USDC);
+      await time.increaseTo(startTime);
+    });
+
+    it("Should approve and buy through the wallet's provider", async function () {
+      const wallet = createMockWallet([buyer.address]);
+      const signer = await getWalletSigner(wallet, buyer.address);
+      const amount = ethers.parseUnits("100", 6);
+
+      await (await usdcToken.connect(signer).approve(await sale.getAddress(), amount)).wait();
+      await (await sale.connect(signer).buy(amount, 0, [], ethers.ZeroAddress)).wait();
+
+      expect(await signer.getAddress()).to.equal(buyer.address);
+      expect(await sale.contributions(buyer.address)).to.equal(amount);
+      expect(wallet.requests).to.include("eth_sendTransaction");
+    });
+
+    it("Should sign with the chosen account when the wallet exposes several", async function () {
+      const wallet = createMockWallet([buyer.address, other.address]);
+
+      expect(await (await getWalletSigner(wallet)).getAddress()).to.equal(buyer.address);
+      expect(await (await getWalletSigner(wallet, other.address)).getAddress()).to.equal(other.address);
+    });
+
+    it("Should refuse an account the wallet does not expose", async function () {
+      const wallet = createMockWallet([buyer.address]);
+      let failure;
+      try {
+        await getWalletSigner(wallet, owner.address);
+      } catch (error) {
+        failure = error;
+      }
+      expect(failure).to.exist;
+    });
+  });
+
+  describe("Wallet selection", function () {
+    const embedded = { address: "0x00000000000000000000000000000000000000a1", walletClientType: "privy" };
+    const injected = { address: "0x00000000000000000000000000000000000000B2", walletClientType: "coinbase_wallet" };
+
+    it("Should use the wallet the user picked", async function () {
+      expect(selectWallet([embedded, injected], injected.address.toLowerCase())).to.equal(injected);
+    });
+
+    it("Should fall back to the first wallet", async function () {
+      expect(selectWallet([embedded, injected], null)).to.equal(embedded);
+      expect(selectWallet([embedded, injected], owner.address)).to.equal(embedded);
+      expect(selectWallet([], embedded.address)).to.equal(null);
+    });
+
+    it("Should label embedded and external wallets", async function () {
+      expect(getWalletLabel(embedded)).to.equal("Embedded wallet");
+      expect(getWalletLabel(injected)).to.equal("Coinbase Wallet");
+    });
+  });
+});
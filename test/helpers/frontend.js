@@ -0,0 +1,5 @@
+require("./typescript");
+
+module.exports = {
+  requireFrontend: (modulePath) => require(`../../frontend/src/${modulePath}.ts`),
+};
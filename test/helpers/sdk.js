@@ -0,0 +1,4 @@
+require("./typescript");
+
+// The sale SDK, as the frontend and scripts import it
+module.exports = require("@private-sale/sdk");
@@ -0,0 +1,10 @@
+// The SDK and the frontend utilities are TypeScript, the latter in an ES module package;
+// compile both to CommonJS on the fly so the contract tests can check them against the
+// real contracts
+require("ts-node").register({
+  transpileOnly: true,
+  compilerOptions: { module: "commonjs" },
+  moduleTypes: {
+    "frontend/src/utils/**/*.ts": "cjs",
+  },
+});